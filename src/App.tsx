@@ -1,7 +1,12 @@
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import ErrorBoundary from './components/ErrorBoundary';
+import RequireAuth from './components/RequireAuth';
+import SessionExpiredModal from './components/SessionExpiredModal';
+import TableLifecycleRunner from './components/TableLifecycleRunner';
+import UpdatePrompt from './components/UpdatePrompt';
 import HomePage from './pages/HomePage';
 import OrderPage from './pages/customer/OrderPage';
+import OrderTrackingPage from './pages/customer/OrderTrackingPage';
 import LoginPage from './pages/admin/LoginPage';
 import TestPage from './pages/admin/TestPage';
 import OrderHistoryPage from './pages/OrderHistory';
@@ -11,6 +16,9 @@ import StaffManagementPage from './pages/admin/StaffManagementPage';
 import RegisterPage from './pages/admin/RegisterPage';
 import AnalyticsDashboard from './pages/admin/AnalyticsDashboard';
 import MenuPage from './pages/admin/MenuPage';
+import KitchenPage from './pages/admin/KitchenPage';
+import PromotionPage from './pages/admin/PromotionPage';
+import ReservationPage from './pages/admin/ReservationPage';
 import { AlertProvider } from './contexts/AlertContext';
 import ErrorPage from './pages/ErrorPage';
 
@@ -23,17 +31,21 @@ function App() {
               {/* Main routes */}
               <Route path="/" element={<HomePage />} />
               <Route path="/order" element={<OrderPage />} />
+              <Route path="/order/:orderId/track" element={<OrderTrackingPage />} />
               <Route path="/order-history" element={<OrderHistoryPage />} />
               
               {/* Admin routes */}
               <Route path="/admin/login" element={<LoginPage />} />
-              <Route path="/admin/register" element={<RegisterPage />} />
-              <Route path="/admin/test" element={<TestPage />} />
-              <Route path="/admin/menu" element={<MenuPage />} />
-              <Route path="/admin/orders" element={<OrdersPage />} />
-              <Route path="/admin/tables" element={<TablesPage />} />
-              <Route path="/admin/staff" element={<StaffManagementPage />} />
-              <Route path="/admin/analytics" element={<AnalyticsDashboard />} />
+              <Route path="/admin/register" element={<RequireAuth permission="staff:manage"><RegisterPage /></RequireAuth>} />
+              <Route path="/admin/test" element={<RequireAuth roles={['ADMIN']}><TestPage /></RequireAuth>} />
+              <Route path="/admin/menu" element={<RequireAuth permission="menu:view"><MenuPage /></RequireAuth>} />
+              <Route path="/admin/orders" element={<RequireAuth permission="orders:view"><OrdersPage /></RequireAuth>} />
+              <Route path="/admin/kitchen" element={<RequireAuth permission="kitchen:view"><KitchenPage /></RequireAuth>} />
+              <Route path="/admin/tables" element={<RequireAuth permission="tables:view"><TablesPage /></RequireAuth>} />
+              <Route path="/admin/reservations" element={<RequireAuth permission="reservations:manage"><ReservationPage /></RequireAuth>} />
+              <Route path="/admin/promotions" element={<RequireAuth permission="promotions:manage"><PromotionPage /></RequireAuth>} />
+              <Route path="/admin/staff" element={<RequireAuth permission="staff:manage"><StaffManagementPage /></RequireAuth>} />
+              <Route path="/admin/analytics" element={<RequireAuth permission="analytics:view"><AnalyticsDashboard /></RequireAuth>} />
               
               {/* Redirects */}
               <Route path="/login" element={<Navigate to="/admin/login" replace />} />
@@ -42,6 +54,9 @@ function App() {
               <Route path="/error" element={<ErrorPage />} />
               <Route path="*" element={<Navigate to="/" replace />} />
             </Routes>
+            <SessionExpiredModal />
+            <TableLifecycleRunner />
+            <UpdatePrompt />
           </ErrorBoundary>
         </Router>
       </AlertProvider>
@@ -1,5 +1,18 @@
 import axios from 'axios';
 import type { InternalAxiosRequestConfig, AxiosResponse } from 'axios';
+import {
+  ACCESS_TOKEN_KEY,
+  REFRESH_TOKEN_KEY,
+  getAccessToken,
+  getRefreshToken,
+  setSessionTokens,
+  clearSessionTokens,
+  getTokenExpiry,
+  isTokenExpiring,
+  notifySessionExpired,
+  onTokensChanged,
+} from './session';
+import { ApiError } from './errors';
 
 // Extend the AxiosRequestConfig type to include metadata
 declare module 'axios' {
@@ -7,9 +20,16 @@ declare module 'axios' {
     metadata?: {
       startTime: number;
     };
+    // Set once a request has been retried after refreshing the token
+    _retry?: boolean;
   }
 }
 
+// Endpoints whose 401 means bad credentials, not an expired session
+const AUTH_ENDPOINTS = ['/auth/login', '/auth/refresh'];
+// Refresh this long before the access token's `exp`
+const REFRESH_AHEAD_MS = 60 * 1000;
+
 // Define fallback URLs for different environments
 const API_FALLBACK_URL = 'http://localhost:3000/api';
 
@@ -48,11 +68,100 @@ const api = axios.create({
 // Log the baseURL for debugging
 console.log('API is configured with baseURL:', api.defaults.baseURL);
 
+const isAuthEndpoint = (url?: string) => AUTH_ENDPOINTS.some(endpoint => url?.includes(endpoint));
+
+let refreshPromise: Promise<string> | null = null;
+
+/**
+ * Exchange the refresh token for a new access token. Concurrent callers share
+ * one in-flight request, so a burst of 401s triggers a single refresh and all
+ * of the failed requests retry with its result.
+ */
+export const refreshAccessToken = (failedToken?: string | null): Promise<string> => {
+  // Another request, or another tab, already refreshed the token
+  const current = getAccessToken();
+  if (current && current !== failedToken && !isTokenExpiring(current, REFRESH_AHEAD_MS)) {
+    return Promise.resolve(current);
+  }
+
+  if (!refreshPromise) {
+    const refreshToken = getRefreshToken();
+    if (!refreshToken) {
+      return Promise.reject(new Error('No refresh token available'));
+    }
+
+    console.log('Refreshing access token');
+    // A bare axios call so the refresh itself skips the interceptors below
+    refreshPromise = axios
+      .post<{ token: string; refreshToken?: string }>(
+        `${api.defaults.baseURL}/auth/refresh`,
+        { refreshToken },
+        { headers: { 'Content-Type': 'application/json' }, timeout: 15000 }
+      )
+      .then(response => {
+        if (!response.data?.token) {
+          throw new Error('Refresh response did not include a token');
+        }
+        setSessionTokens(response.data.token, response.data.refreshToken);
+        return response.data.token;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
+// Keep the user's place: drop the dead tokens and let the app show its
+// re-login prompt instead of navigating away
+const expireSession = () => {
+  console.log('Session expired and could not be refreshed');
+  clearSessionTokens();
+  notifySessionExpired();
+};
+
+let proactiveRefreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+// Refresh shortly before `exp` so long-running screens never hit a 401
+const scheduleProactiveRefresh = () => {
+  clearTimeout(proactiveRefreshTimer);
+  const expiry = getTokenExpiry(getAccessToken());
+  if (expiry === null || !getRefreshToken()) return;
+
+  const delay = Math.max(expiry - Date.now() - REFRESH_AHEAD_MS, 0);
+  proactiveRefreshTimer = setTimeout(() => {
+    refreshAccessToken(getAccessToken()).catch(error => {
+      console.warn('Proactive token refresh failed:', error);
+    });
+  }, delay);
+};
+
+if (typeof window !== 'undefined') {
+  scheduleProactiveRefresh();
+  onTokensChanged(scheduleProactiveRefresh);
+  // Another tab logged in, refreshed or logged out
+  window.addEventListener('storage', event => {
+    if (event.key === ACCESS_TOKEN_KEY || event.key === REFRESH_TOKEN_KEY || event.key === null) {
+      scheduleProactiveRefresh();
+    }
+  });
+}
+
 // Add request interceptor for adding auth token
 api.interceptors.request.use(
-  (config) => {
+  async (config) => {
+    // Refresh first if the token is about to expire, rather than sending a
+    // request that is bound to fail
+    if (!isAuthEndpoint(config.url) && getRefreshToken() && isTokenExpiring(getAccessToken(), REFRESH_AHEAD_MS / 2)) {
+      try {
+        await refreshAccessToken(getAccessToken());
+      } catch (error) {
+        console.warn('Token refresh before request failed:', error);
+      }
+    }
+
     // Get the token from localStorage
-    const token = localStorage.getItem('authToken');
+    const token = getAccessToken();
       
     // If token exists, add it to the headers
     if (token) {
@@ -161,7 +270,7 @@ api.interceptors.response.use(
     
     return response;
   },
-  (error) => {
+  async (error) => {
     console.error('API Error:', error.message);
     
     // Calculate request duration even for failed requests
@@ -173,23 +282,30 @@ api.interceptors.response.use(
     console.log(`❌ API ERROR: Failed request took ${duration}ms`);
     
     // Handle authentication errors (token expired or invalid)
-    if (error.response && error.response.status === 401) {
-      console.log('Authentication error, clearing user data and redirecting to login...');
-      // Clear auth data
-      localStorage.removeItem('authToken');
-      localStorage.removeItem('user');
-      
-      // Only redirect if we're not already on the login page
-      const currentPath = window.location.pathname;
-      if (!currentPath.includes('/login') && !currentPath.includes('/admin/login')) {
-        // Redirect to login page
-        console.log('Redirecting to login page');
-        window.location.href = '/admin/login';
-      } else {
-        console.log('Already on login page, not redirecting');
+    const originalRequest = error.config as InternalAxiosRequestConfig | undefined;
+    if (error.response && error.response.status === 401 && originalRequest && !isAuthEndpoint(originalRequest.url)) {
+      // Refresh once and replay the request; requests failing meanwhile wait
+      // for the same refresh
+      if (!originalRequest._retry && getRefreshToken()) {
+        originalRequest._retry = true;
+        const failedToken = String(originalRequest.headers?.Authorization || '').replace(/^Bearer\s+/, '');
+        try {
+          await refreshAccessToken(failedToken);
+          console.log(`Retrying ${originalRequest.url} with refreshed token`);
+          return api(originalRequest);
+        } catch (refreshError) {
+          console.warn('Token refresh failed:', refreshError);
+        }
       }
       
-      return Promise.reject(new Error('Authentication expired. Please login again.'));
+      expireSession();
+      // Typed like every other API failure, so callers can tell it apart
+      return Promise.reject(
+        new ApiError('unauthorized', 'Authentication expired. Please login again.', {
+          status: 401,
+          details: error.response.data,
+        })
+      );
     }
     
     if (error.response) {
@@ -0,0 +1,108 @@
+import { isAxiosError } from 'axios';
+
+export type ApiErrorCode =
+  | 'network' // No response: offline, DNS, CORS, timeout
+  | 'unauthorized' // 401
+  | 'forbidden' // 403
+  | 'notFound' // 404
+  | 'conflict' // 409, e.g. an order the kitchen already processed
+  | 'gone' // 410, e.g. a rotated table QR token
+  | 'validation' // 400 / 422, or a request rejected before it was sent
+  | 'rateLimited' // 429
+  | 'server' // 5xx
+  | 'invalidResponse'; // 2xx whose body did not match the expected shape
+
+/**
+ * Error thrown by every API module. Pages branch on `code` (or `status`)
+ * instead of digging through axios' `error.response.data`; `message` is
+ * already suitable for showing to the user.
+ */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status?: number;
+  // Raw response body, for logging
+  readonly details?: unknown;
+
+  constructor(code: ApiErrorCode, message: string, options: { status?: number; details?: unknown } = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = options.status;
+    this.details = options.details;
+  }
+
+  /**
+   * Worth retrying later with the same request: the server never answered,
+   * was overloaded or failed internally
+   */
+  get isRetryable(): boolean {
+    return this.code === 'network' || this.code === 'server' || this.code === 'rateLimited' || this.status === 408;
+  }
+}
+
+export const isApiError = (error: unknown, code?: ApiErrorCode): error is ApiError =>
+  error instanceof ApiError && (code === undefined || error.code === code);
+
+const codeForStatus = (status: number): ApiErrorCode => {
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'notFound';
+  if (status === 409) return 'conflict';
+  if (status === 410) return 'gone';
+  if (status === 429) return 'rateLimited';
+  if (status >= 500) return 'server';
+  return 'validation';
+};
+
+// Backends answer with { message }, { error } or a plain string
+const getServerMessage = (data: unknown): string | undefined => {
+  if (typeof data === 'string') return data.trim() || undefined;
+  if (data && typeof data === 'object') {
+    const { message, error } = data as { message?: unknown; error?: unknown };
+    if (typeof message === 'string' && message.trim()) return message;
+    if (typeof error === 'string' && error.trim()) return error;
+  }
+  return undefined;
+};
+
+const DEFAULT_MESSAGES: Partial<Record<ApiErrorCode, string>> = {
+  network: 'Tidak dapat terhubung ke server. Periksa koneksi Anda dan coba lagi.',
+  unauthorized: 'Authentication failed. Please log in again.',
+  forbidden: 'Anda tidak memiliki izin untuk melakukan tindakan ini.',
+  server: 'Server error. Please try again later.',
+};
+
+/**
+ * ApiError for an HTTP error status, for callers that do not go through axios
+ */
+export const apiErrorForStatus = (status: number, message: string, details?: unknown): ApiError =>
+  new ApiError(codeForStatus(status), message, { status, details });
+
+/**
+ * Convert anything thrown while calling the backend into an ApiError.
+ * `overrides` replace the message for specific codes (e.g. a friendlier
+ * text for customers); otherwise the server's own message wins and
+ * `fallbackMessage` is used when it sent none.
+ */
+export const toApiError = (
+  error: unknown,
+  fallbackMessage: string,
+  overrides: Partial<Record<ApiErrorCode, string>> = {}
+): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  if (isAxiosError(error)) {
+    if (!error.response) {
+      return new ApiError('network', overrides.network || DEFAULT_MESSAGES.network!);
+    }
+
+    const { status, data } = error.response;
+    const code = codeForStatus(status);
+    const message = overrides[code] || getServerMessage(data) || DEFAULT_MESSAGES[code] || fallbackMessage;
+    return apiErrorForStatus(status, message, data);
+  }
+
+  // Thrown before any request went out, e.g. a missing required field
+  const message = error instanceof Error && error.message ? error.message : fallbackMessage;
+  return new ApiError('validation', message);
+};
@@ -1,5 +1,15 @@
+export * from './errors';
 export * from './menuApi';
 export * from './orderApi';
+export * from './orderFeed';
+export * from './orderOutbox';
+export * from './paymentApi';
+export * from './paymentProvider';
+export * from './promotionApi';
+export * from './reservationApi';
+export * from './serviceRequestApi';
+export * from './serviceRequestFeed';
 export * from './tableApi';
+export * from './tableLifecycle';
 export * from './uploadApi';
 export { default as api } from './axios'; 
\ No newline at end of file
@@ -1,79 +1,44 @@
-import type { Order, OrderHistory, DailyOrderCounter, CreateOrder, OrderItem } from '../types/order';
-import type { Table, Menu } from '../types';
+import type { Order, OrderHistory, OrderItemMove, OrderMove, CreateOrder } from '../types';
 import { OrderStatus } from '../types';
-import type { AxiosResponse } from 'axios';
-import axios from 'axios';
 import api from './axios';
-import { createStartOfDay, createEndOfDay, isDateInRange } from '../utils/format';
+import { ApiError, toApiError } from './errors';
+import { parseOrder, parseOrderList, parseOrderHistory, parseOrderHistoryList, parseOrderItemsMoveResult, parseOrderMoveList } from './validators';
+import { isDateInRange } from '../utils/format';
+import { applyTransition, getTransitionError } from '../utils/orderStateMachine';
+import type { OrderActor } from '../utils/orderStateMachine';
 
-// Create a specialized function to handle order status updates with retries
-const updateOrderStatusWithRetry = async (id: number, status: any): Promise<Order> => {
-  // Maximum number of retries
-  const MAX_RETRIES = 3;
-  // Initial delay in ms (will be doubled each retry)
-  let delay = 500;
-  
-  // Try different payload formats
-  const payloadFormats = [
-    // Format 1: Use the status directly
-    { status },
-    // Format 2: Ensure it's a string and uppercase
-    { status: typeof status === 'string' ? status.toUpperCase() : String(status).toUpperCase() },
-    // Format 3: Raw string without property name transformation
-    { "status": status.toString().toUpperCase() }
-  ];
-  
-  // Try different endpoints
-  const endpoints = [
-    `/orders/${id}/status`,
-    `/orders/${id}`
-  ];
-  
-  // Try combinations of endpoints and payload formats
-  for (let endpoint of endpoints) {
-    for (let payload of payloadFormats) {
-      let retries = 0;
-      
-      console.log(`Trying endpoint: ${endpoint} with payload:`, payload);
-      
-      // Retry loop
-      while (retries < MAX_RETRIES) {
-        try {
-          console.log(`Attempt ${retries + 1}/${MAX_RETRIES} to ${endpoint}`);
-          const response = await api.put<Order>(endpoint, payload);
-          console.log('Success!', response.data);
-          return response.data;
-        } catch (error: any) {
-          if (error.response?.status === 400) {
-            console.error(`400 error on attempt ${retries + 1}:`, error.response.data);
-            
-            // Check for specific error messages
-            const errorMsg = error.response.data?.message || '';
-            if (errorMsg.includes('invalid') || errorMsg.includes('format')) {
-              console.log('Format error detected, trying next payload format');
-              break; // Try next payload format
-            }
-          }
-          
-          retries++;
-          
-          if (retries >= MAX_RETRIES) {
-            console.log(`All ${MAX_RETRIES} attempts failed for endpoint ${endpoint} with payload`, payload);
-            break;
-          }
-          
-          // Exponential backoff
-          console.log(`Retrying in ${delay}ms...`);
-          await new Promise(resolve => setTimeout(resolve, delay));
-          delay *= 2; // Double the delay for next retry
-        }
-      }
-    }
-  }
-  
-  // If we've tried all combinations and nothing worked, throw an error
-  throw new Error(`Failed to update order #${id} status to ${status} after trying all methods`);
-};
+export interface OrderRequestOptions {
+  // Sent as Idempotency-Key so the server can drop repeated deliveries
+  idempotencyKey?: string;
+  // Proves a customer placed the order; staff requests go without it
+  trackingToken?: string;
+}
+
+const requestHeaders = ({ idempotencyKey, trackingToken }: OrderRequestOptions): Record<string, string> => ({
+  ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+  ...(trackingToken ? { 'X-Tracking-Token': trackingToken } : {}),
+});
+
+export interface OrderTransitionOptions {
+  actor?: OrderActor;
+  // Called with the expected order before the request, then with the saved
+  // order on success or the original one if the request fails
+  onUpdate?: (order: Order) => void;
+}
+
+export interface OrderItemsMoveRequest {
+  toTableId: number;
+  // Open order at the target table to add the lines to; a new order when omitted
+  toOrderId?: number;
+  items: OrderItemMove[];
+  reason?: string;
+}
+
+// Both orders after an items move, repriced by the server
+export interface OrderItemsMoveResult {
+  source: Order;
+  target: Order;
+}
 
 export const OrderAPI = {
   getAll: async (status?: string): Promise<Order[]> => {
@@ -81,9 +46,10 @@ export const OrderAPI = {
       // The correct endpoint is /api/orders
       let url = '/orders';
       
-      // Add query parameter for status if provided
+      // Add query parameter for status if provided. The backend knows
+      // started tickets only as PENDING, so those are filtered here.
       if (status) {
-        url += `?status=${status}`;
+        url += `?status=${status === OrderStatus.PROCESSING ? OrderStatus.PENDING : status}`;
       }
       
       console.log(`OrderAPI.getAll: Fetching from ${url}`);
@@ -94,78 +60,114 @@ export const OrderAPI = {
         return [];
       }
       
-    return response.data;
+      const orders = parseOrderList(response.data);
+      return status ? orders.filter(order => order.status === status) : orders;
     } catch (error) {
       console.error('OrderAPI.getAll error:', error);
-      throw error;
+      throw toApiError(error, 'Failed to fetch orders');
     }
   },
 
   getById: async (id: number): Promise<Order> => {
     try {
       // The correct endpoint is /api/orders/:id
-    const response = await api.get(`/orders/${id}`);
-    return response.data;
+      const response = await api.get(`/orders/${id}`);
+      return parseOrder(response.data);
     } catch (error) {
       console.error(`Error fetching order ${id}:`, error);
-      throw error;
+      throw toApiError(error, `Failed to fetch order ${id}`);
+    }
+  },
+
+  // The customer's view of their own order, authorized by its tracking token
+  track: async (id: number, trackingToken: string): Promise<Order> => {
+    try {
+      const response = await api.get(`/orders/${id}/track`, {
+        headers: requestHeaders({ trackingToken }),
+      });
+      return parseOrder(response.data);
+    } catch (error) {
+      console.error(`Error tracking order ${id}:`, error);
+      throw toApiError(error, `Failed to fetch order ${id}`, {
+        forbidden: 'Link pelacakan tidak valid untuk pesanan ini.',
+      });
     }
   },
 
-  create: async (data: any): Promise<Order> => {
+  create: async (data: CreateOrder, options: OrderRequestOptions = {}): Promise<Order> => {
     try {
       // Pastikan data memiliki properti yang dibutuhkan
-      if (!data.tableId) {
-        throw new Error('Table ID is required');
+      if (!data.tableId || !data.tableToken) {
+        throw new ApiError('validation', 'Table ID and QR token are required');
       }
       
-      // Periksa items atau orderItems (mendukung kedua format)
-      const orderItems = data.items || data.orderItems;
-      if (!orderItems || !Array.isArray(orderItems) || orderItems.length === 0) {
-        throw new Error('At least one order item is required');
+      if (!Array.isArray(data.items) || data.items.length === 0) {
+        throw new ApiError('validation', 'At least one order item is required');
       }
       
       // The correct endpoint is /api/orders
       console.log('Sending order data to API:', data);
-      const response = await api.post('/orders', data);
+      const response = await api.post('/orders', data, {
+        headers: requestHeaders(options),
+      });
       console.log('Order API response:', response.data);
-    return response.data;
-    } catch (error: any) {
+      return parseOrder(response.data);
+    } catch (error) {
       console.error('Error creating order:', error);
-      if (error.response?.data) {
-        console.error('Error response data:', error.response.data);
-      }
-      if (error.response?.data?.message || error.response?.data?.error) {
-        throw new Error(error.response.data.message || error.response.data.error);
-      }
-      throw error;
+      throw toApiError(error, 'Failed to submit order');
     }
   },
 
   update: async (id: number, data: Partial<Order>): Promise<Order> => {
-    // The correct endpoint is /api/orders/:id
-    const response = await api.put(`/orders/${id}`, data);
-    return response.data;
+    try {
+      // The correct endpoint is /api/orders/:id
+      const response = await api.put(`/orders/${id}`, data);
+      return parseOrder(response.data);
+    } catch (error) {
+      console.error(`Error updating order ${id}:`, error);
+      throw toApiError(error, `Failed to update order #${id}`);
+    }
   },
 
   updateStatus: async (id: number, status: OrderStatus): Promise<Order> => {
     try {
       console.log(`Updating order #${id} status to ${status}`);
-      
-      // Use the specialized retry function
-      return await updateOrderStatusWithRetry(id, status);
-    } catch (error: any) {
+      const response = await api.put(`/orders/${id}/status`, { status });
+      return parseOrder(response.data);
+    } catch (error) {
       console.error('Error in updateStatus:', error);
-      
-      // Create a more descriptive error message
-      let errorMessage = `Failed to update order #${id} status to ${status}`;
-      if (error.response?.data?.message) {
-        errorMessage += `: ${error.response.data.message}`;
-      } else if (error.message) {
-        errorMessage += `: ${error.message}`;
-      }
-      
-      throw new Error(errorMessage);
+      throw toApiError(error, `Failed to update order #${id} status to ${status}`);
+    }
+  },
+
+  /**
+   * Move an order to `target` with exactly one request. The backend only
+   * knows PENDING, COMPLETED and CANCELLED plus the isProcessed flag, so
+   * starting a ticket (PROCESSING) and sending it back (PENDING) go through
+   * PATCH /orders/:id/processed, cancellations through PATCH
+   * /orders/:id/cancel and completion through PUT /orders/:id/status.
+   * Transitions the state machine forbids are rejected with a 'conflict'
+   * ApiError before anything is sent.
+   */
+  transition: async (order: Order, target: OrderStatus, options: OrderTransitionOptions = {}): Promise<Order> => {
+    const { actor = 'staff', onUpdate } = options;
+    const transitionError = getTransitionError(order, target, actor);
+    if (transitionError) {
+      throw new ApiError('conflict', transitionError);
+    }
+
+    onUpdate?.(applyTransition(order, target));
+    try {
+      const saved = target === OrderStatus.CANCELLED
+        ? await OrderAPI.cancelOrder(order.id)
+        : target === OrderStatus.COMPLETED
+          ? await OrderAPI.updateStatus(order.id, target)
+          : await OrderAPI.updateProcessedStatus(order.id, target === OrderStatus.PROCESSING);
+      onUpdate?.(saved);
+      return saved;
+    } catch (error) {
+      onUpdate?.(order);
+      throw error;
     }
   },
 
@@ -173,48 +175,80 @@ export const OrderAPI = {
     try {
       console.log(`Updating order #${id} processed status to ${isProcessed}`);
       const response = await api.patch(`/orders/${id}/processed`, { isProcessed });
-      return response.data;
-    } catch (error: any) {
+      return parseOrder(response.data);
+    } catch (error) {
       console.error('Error updating processed status:', error);
-      let errorMessage = `Failed to update order #${id} processed status to ${isProcessed}`;
-      if (error.response?.data?.message) {
-        errorMessage += `: ${error.response.data.message}`;
-      } else if (error.message) {
-        errorMessage += `: ${error.message}`;
-      }
-      throw new Error(errorMessage);
+      throw toApiError(error, `Failed to update order #${id} processed status to ${isProcessed}`);
     }
   },
 
-  cancelOrder: async (id: number): Promise<Order> => {
+  cancelOrder: async (id: number, options: OrderRequestOptions = {}): Promise<Order> => {
     try {
       console.log(`Cancelling order #${id}`);
-      const response = await api.patch(`/orders/${id}/cancel`, {});
-      return response.data;
-    } catch (error: any) {
+      const response = await api.patch(`/orders/${id}/cancel`, {}, {
+        headers: requestHeaders(options),
+      });
+      return parseOrder(response.data);
+    } catch (error) {
       console.error('Error cancelling order:', error);
+      const apiError = toApiError(error, `Failed to cancel order #${id}`);
       // Handle case where order is already processed
-      if (error.response?.status === 400 && error.response?.data?.message?.includes('processed')) {
-        throw new Error('Pesanan sudah diproses oleh dapur dan tidak bisa dibatalkan.');
-      }
-      
-      let errorMessage = `Failed to cancel order #${id}`;
-      if (error.response?.data?.message) {
-        errorMessage += `: ${error.response.data.message}`;
-      } else if (error.message) {
-        errorMessage += `: ${error.message}`;
+      if (apiError.status === 400 && apiError.message.includes('processed')) {
+        throw new ApiError('conflict', 'Pesanan sudah diproses oleh dapur dan tidak bisa dibatalkan.', {
+          status: apiError.status,
+          details: apiError.details,
+        });
       }
-      throw new Error(errorMessage);
+      throw apiError;
+    }
+  },
+
+  // Move a whole order to another table; the server records it in the order's move history
+  moveToTable: async (id: number, toTableId: number, reason?: string): Promise<Order> => {
+    try {
+      console.log(`Moving order #${id} to table ${toTableId}`);
+      const response = await api.post(`/orders/${id}/move`, { toTableId, reason });
+      return parseOrder(response.data);
+    } catch (error) {
+      console.error(`Error moving order ${id}:`, error);
+      throw toApiError(error, `Failed to move order #${id}`, {
+        conflict: 'Pesanan sudah berubah dari perangkat lain. Muat ulang dan coba lagi.',
+      });
+    }
+  },
+
+  // Split some lines off an order onto another table
+  moveItems: async (id: number, request: OrderItemsMoveRequest): Promise<OrderItemsMoveResult> => {
+    try {
+      console.log(`Moving ${request.items.length} line(s) of order #${id} to table ${request.toTableId}`);
+      const response = await api.post(`/orders/${id}/move-items`, request);
+      return parseOrderItemsMoveResult(response.data);
+    } catch (error) {
+      console.error(`Error moving items of order ${id}:`, error);
+      throw toApiError(error, `Failed to move items of order #${id}`, {
+        conflict: 'Pesanan sudah berubah dari perangkat lain. Muat ulang dan coba lagi.',
+      });
+    }
+  },
+
+  // Move history of an order, oldest first
+  getMoves: async (id: number): Promise<OrderMove[]> => {
+    try {
+      const response = await api.get(`/orders/${id}/moves`);
+      return parseOrderMoveList(response.data);
+    } catch (error) {
+      console.error(`Error fetching move history of order ${id}:`, error);
+      throw toApiError(error, `Failed to fetch move history of order #${id}`);
     }
   },
 
   delete: async (id: number): Promise<void> => {
     try {
       // The correct endpoint is /api/orders/:id
-    await api.delete(`/orders/${id}`);
+      await api.delete(`/orders/${id}`);
     } catch (error) {
       console.error(`Error deleting order ${id}:`, error);
-      throw error;
+      throw toApiError(error, `Failed to delete order #${id}`);
     }
   },
 
@@ -237,12 +271,12 @@ export const OrderAPI = {
         
         if (!dateRegex.test(params.startDate)) {
           console.error('Invalid startDate format:', params.startDate);
-          throw new Error('Start date must be in YYYY-MM-DD format');
+          throw new ApiError('validation', 'Start date must be in YYYY-MM-DD format');
         }
         
         if (!dateRegex.test(params.endDate)) {
           console.error('Invalid endDate format:', params.endDate);
-          throw new Error('End date must be in YYYY-MM-DD format');
+          throw new ApiError('validation', 'End date must be in YYYY-MM-DD format');
         }
         
         queryParams.append('startDate', params.startDate);
@@ -264,18 +298,19 @@ export const OrderAPI = {
       const url = `/order-history?${queryParams.toString()}`;
       console.log(`Fetching order history from: ${url}`);
       
-      const response = await api.get<OrderHistory[]>(url);
+      const response = await api.get(url);
       
       if (!response.data) {
         console.log('API returned empty data');
         return []; // Return empty array if no data
       }
 
-      console.log(`API returned ${response.data.length} orders`);
+      const orders = parseOrderHistoryList(response.data);
+      console.log(`API returned ${orders.length} orders`);
       
       // ALWAYS perform client-side date filtering for consistency
       if (params.startDate && params.endDate) {
-        const filteredData = response.data.filter(order => 
+        const filteredData = orders.filter(order => 
           isDateInRange(
             order.orderDate || order.completedAt || order.createdAt,
             params.startDate!,
@@ -283,34 +318,39 @@ export const OrderAPI = {
           )
         );
         
-        if (filteredData.length !== response.data.length) {
-          console.warn(`Client-side date filtering removed ${response.data.length - filteredData.length} orders outside of date range`);
+        if (filteredData.length !== orders.length) {
+          console.warn(`Client-side date filtering removed ${orders.length - filteredData.length} orders outside of date range`);
           console.log(`Returning ${filteredData.length} orders after date filtering`);
         }
         
         return filteredData;
       }
 
-      return response.data;
+      return orders;
     } catch (error) {
       console.error('Error fetching order history:', error);
-      if (axios.isAxiosError(error)) {
-        // Check if it's a 404 (Not Found) error
-        if (error.response?.status === 404) {
-          return []; // Return empty array if no history found
-        }
-        // For other errors, throw with more specific message
-        throw new Error(error.response?.data?.message || `Failed to fetch order history: ${error.message}`);
+      const apiError = toApiError(error, 'Failed to fetch order history');
+      // No history for the period is not an error
+      if (apiError.code === 'notFound') {
+        return [];
       }
-      throw new Error('Failed to fetch order history');
+      throw apiError;
     }
   },
 
   // New method to get order history by daily ID
   getOrderHistoryByDailyId: async (date: string, dailyOrderId: number): Promise<OrderHistory | null> => {
-    // The correct endpoint structure would be similar to other endpoints
-    const response = await api.get(`/order-history/daily/${date}/${dailyOrderId}`);
-    return response.data;
+    try {
+      // The correct endpoint structure would be similar to other endpoints
+      const response = await api.get(`/order-history/daily/${date}/${dailyOrderId}`);
+      return response.data ? parseOrderHistory(response.data) : null;
+    } catch (error) {
+      const apiError = toApiError(error, `Failed to fetch order #${dailyOrderId} of ${date}`);
+      if (apiError.code === 'notFound') {
+        return null;
+      }
+      throw apiError;
+    }
   },
 
   // Safe utility functions for handling null/undefined IDs
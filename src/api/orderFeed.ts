@@ -0,0 +1,310 @@
+import api, { refreshAccessToken } from './axios';
+import { getAccessToken, getRefreshToken, isTokenExpiring, onTokensChanged } from './session';
+import { parseOrder, parseOrderList } from './validators';
+import type { Order } from '../types';
+import { OrderStatus } from '../types';
+
+export type OrderFeedEventType = 'created' | 'updated' | 'deleted';
+
+export interface OrderFeedEvent {
+  type: OrderFeedEventType;
+  order: Order;
+}
+
+export type OrderFeedTransport = 'sse' | 'websocket' | 'polling';
+
+export interface OrderFeedHandlers {
+  onEvent: (event: OrderFeedEvent) => void;
+  onTransportChange?: (transport: OrderFeedTransport | null) => void;
+}
+
+export interface OrderFeedOptions {
+  // Polling interval used when no push transport is available
+  pollInterval?: number;
+  // How long a push transport may take to open before falling back
+  connectTimeout?: number;
+}
+
+const DEFAULT_POLL_INTERVAL = 10000;
+const DEFAULT_CONNECT_TIMEOUT = 5000;
+// Push is retried with a delay that doubles up to the maximum
+const MIN_RECONNECT_DELAY = 2000;
+const MAX_RECONNECT_DELAY = 2 * 60 * 1000;
+// A token closer than this to expiry is refreshed before opening a stream
+const MIN_TOKEN_VALIDITY = 30 * 1000;
+
+// EventSource and WebSocket cannot send headers, so the token goes in the query
+export const buildStreamUrl = (path: string, protocol: 'http' | 'ws'): string => {
+  const baseURL = api.defaults.baseURL || '/api';
+  const url = new URL(`${baseURL.replace(/\/$/, '')}${path}`, window.location.origin);
+  const token = getAccessToken();
+  if (token) {
+    url.searchParams.set('token', token);
+  }
+  if (protocol === 'ws') {
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  }
+  return url.toString();
+};
+
+const EVENT_TYPES: Record<string, OrderFeedEventType> = {
+  'order.created': 'created',
+  'order.updated': 'updated',
+  'order.deleted': 'deleted',
+  created: 'created',
+  updated: 'updated',
+  deleted: 'deleted',
+};
+
+// Push messages look like { type: 'order.created', order } or { type, data }
+const parseMessage = (raw: string, fallbackType?: string): OrderFeedEvent | null => {
+  try {
+    const message = JSON.parse(raw);
+    const type = EVENT_TYPES[message?.type ?? fallbackType ?? ''];
+    const order = message?.order ?? message?.data;
+    if (!type || !order || order.id === undefined) return null;
+    // Deletions may carry only the id; everything else must be a full order
+    return { type, order: type === 'deleted' ? order : parseOrder(order) };
+  } catch (e) {
+    console.warn('OrderFeed: could not parse message', raw, e);
+    return null;
+  }
+};
+
+const getOrderTimestamp = (order: Order): string | undefined => order.updatedAt || order.createdAt;
+
+export const OrderFeedAPI = {
+  /**
+   * Subscribe to order changes. Tries Server-Sent Events first, then
+   * WebSocket, and polls /orders with an ETag and a `since` cursor while no
+   * push transport is open. Push is retried with backoff and rebuilt with a
+   * fresh token whenever it drops. Returns a function that closes the
+   * subscription.
+   */
+  subscribe: (handlers: OrderFeedHandlers, options: OrderFeedOptions = {}): (() => void) => {
+    const pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    const connectTimeout = options.connectTimeout ?? DEFAULT_CONNECT_TIMEOUT;
+
+    let closed = false;
+    let closePush: (() => void) | null = null;
+    let stopPolling: (() => void) | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let reconnectDelay = MIN_RECONNECT_DELAY;
+
+    const emit = (event: OrderFeedEvent | null) => {
+      if (event && !closed) handlers.onEvent(event);
+    };
+
+    const setTransport = (transport: OrderFeedTransport | null) => {
+      if (!closed) handlers.onTransportChange?.(transport);
+    };
+
+    const startPolling = () => {
+      if (closed || stopPolling) return;
+      console.log('OrderFeed: falling back to polling every', pollInterval, 'ms');
+
+      const knownIds = new Set<number>();
+      let etag: string | undefined;
+      let since: string | undefined;
+      let isBaseline = true;
+      let stopped = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const poll = async () => {
+        try {
+          const response = await api.get('/orders', {
+            params: since ? { since } : undefined,
+            headers: etag ? { 'If-None-Match': etag } : undefined,
+            validateStatus: status => (status >= 200 && status < 300) || status === 304,
+          });
+          // Push came back while this request was in flight
+          if (stopped) return;
+
+          if (response.status !== 304 && Array.isArray(response.data)) {
+            etag = response.headers.etag || etag;
+
+            parseOrderList(response.data).forEach(order => {
+              // The first response only establishes what already exists
+              const isNew = !isBaseline && !knownIds.has(order.id) && order.status === OrderStatus.PENDING;
+              knownIds.add(order.id);
+              emit({ type: isNew ? 'created' : 'updated', order });
+
+              const timestamp = getOrderTimestamp(order);
+              if (timestamp && (!since || timestamp > since)) {
+                since = timestamp;
+              }
+            });
+            isBaseline = false;
+          }
+          setTransport('polling');
+        } catch (error) {
+          console.error('OrderFeed: polling failed', error);
+        } finally {
+          if (!closed && !stopped) {
+            timer = setTimeout(poll, pollInterval);
+          }
+        }
+      };
+
+      poll();
+      stopPolling = () => {
+        stopped = true;
+        clearTimeout(timer);
+      };
+    };
+
+    const handlePushOpen = (transport: OrderFeedTransport) => {
+      reconnectDelay = MIN_RECONNECT_DELAY;
+      stopPolling?.();
+      stopPolling = null;
+      setTransport(transport);
+    };
+
+    // Poll so no change is missed, and try push again after a growing delay
+    const handlePushLost = () => {
+      closePush = null;
+      if (closed) return;
+      setTransport(null);
+      startPolling();
+
+      clearTimeout(reconnectTimer);
+      reconnectTimer = setTimeout(connectPush, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+    };
+
+    const startWebSocket = () => {
+      if (closed) return;
+      if (typeof WebSocket === 'undefined') {
+        handlePushLost();
+        return;
+      }
+
+      let opened = false;
+      const socket = new WebSocket(buildStreamUrl('/orders/ws', 'ws'));
+      const openTimer = setTimeout(() => {
+        if (!opened) socket.close();
+      }, connectTimeout);
+
+      socket.onopen = () => {
+        opened = true;
+        clearTimeout(openTimer);
+        handlePushOpen('websocket');
+      };
+      socket.onmessage = message => emit(parseMessage(String(message.data)));
+      socket.onclose = () => {
+        clearTimeout(openTimer);
+        // Never opened: the backend may have no WebSocket endpoint. Dropped:
+        // the server restarted or rejected the token.
+        console.warn(`OrderFeed: WebSocket ${opened ? 'closed' : 'unavailable'}`);
+        handlePushLost();
+      };
+
+      closePush = () => {
+        clearTimeout(openTimer);
+        socket.onclose = null;
+        socket.close();
+      };
+    };
+
+    const startEventSource = () => {
+      if (typeof EventSource === 'undefined') {
+        startWebSocket();
+        return;
+      }
+
+      let opened = false;
+      const source = new EventSource(buildStreamUrl('/orders/stream', 'http'));
+      const openTimer = setTimeout(() => {
+        if (!opened) {
+          source.close();
+          startWebSocket();
+        }
+      }, connectTimeout);
+
+      source.onopen = () => {
+        opened = true;
+        clearTimeout(openTimer);
+        handlePushOpen('sse');
+      };
+      source.onmessage = message => emit(parseMessage(message.data));
+      ['order.created', 'order.updated', 'order.deleted'].forEach(type => {
+        source.addEventListener(type, message => emit(parseMessage((message as MessageEvent).data, type)));
+      });
+      source.onerror = () => {
+        clearTimeout(openTimer);
+        // EventSource's own reconnect would reuse the token baked into the
+        // URL, so the stream is rebuilt with a fresh one instead
+        source.close();
+        if (opened) {
+          console.warn('OrderFeed: Server-Sent Events stream lost');
+          handlePushLost();
+          return;
+        }
+        console.warn('OrderFeed: Server-Sent Events unavailable');
+        startWebSocket();
+      };
+
+      closePush = () => {
+        clearTimeout(openTimer);
+        source.close();
+      };
+    };
+
+    const connectPush = async () => {
+      if (closed) return;
+      // The token travels in the URL, so it must outlive the connect
+      if (getRefreshToken() && isTokenExpiring(getAccessToken(), MIN_TOKEN_VALIDITY)) {
+        try {
+          await refreshAccessToken(getAccessToken());
+        } catch (error) {
+          console.warn('OrderFeed: token refresh before connecting failed', error);
+        }
+        if (closed) return;
+      }
+      closePush?.();
+      startEventSource();
+    };
+
+    // An open stream keeps the token it was opened with; reopen it with the new one
+    const stopTokenListener = onTokensChanged(() => {
+      if (closePush && getAccessToken()) {
+        clearTimeout(reconnectTimer);
+        connectPush();
+      }
+    });
+
+    connectPush();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      stopTokenListener();
+      closePush?.();
+      stopPolling?.();
+    };
+  },
+};
+
+/**
+ * Apply a feed event to a list of orders loaded with the given server-side
+ * status filter. Orders that no longer match the filter are dropped, new ones
+ * are put first.
+ */
+export const applyOrderFeedEvent = (
+  orders: Order[],
+  event: OrderFeedEvent,
+  statusFilter?: string | null
+): Order[] => {
+  const { order } = event;
+  const withoutOrder = orders.filter(existing => existing.id !== order.id);
+
+  if (event.type === 'deleted' || (statusFilter && order.status !== statusFilter)) {
+    return withoutOrder.length === orders.length ? orders : withoutOrder;
+  }
+
+  const index = orders.findIndex(existing => existing.id === order.id);
+  if (index === -1) {
+    return [order, ...orders];
+  }
+  return orders.map((existing, i) => (i === index ? { ...existing, ...order } : existing));
+};
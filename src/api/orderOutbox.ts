@@ -0,0 +1,321 @@
+import { OrderAPI } from './orderApi';
+import { toApiError } from './errors';
+import type { CreateOrder } from '../types';
+
+export type OutboxRequest =
+  | { kind: 'createOrder'; payload: CreateOrder }
+  | { kind: 'cancelOrder'; orderId: number; trackingToken?: string };
+
+export type OutboxEntryStatus = 'pending' | 'delivered' | 'failed';
+
+export type OutboxEntry = OutboxRequest & {
+  id: string; // Also the Idempotency-Key sent with every attempt
+  status: OutboxEntryStatus;
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt: number; // Epoch ms
+  response?: unknown; // Server response once delivered
+  error?: string; // Last error; final once the entry has failed
+  // Free-form data the caller needs to finish up after delivery
+  meta?: Record<string, unknown>;
+};
+
+export type OutboxListener = (entry: OutboxEntry) => void;
+
+const DB_NAME = 'orderOutbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'requests';
+
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 60000;
+// Give up eventually: an order arriving long after the guest left the table
+// is worse than telling them it failed
+const MAX_ATTEMPTS = 10;
+const MAX_PENDING_AGE_MS = 30 * 60 * 1000;
+// Settled entries nobody picked up are dropped after this long
+const SETTLED_RETENTION_MS = 12 * 60 * 60 * 1000;
+
+const listeners = new Set<OutboxListener>();
+// Used when IndexedDB is unavailable (private mode, old browsers)
+const memoryStore = new Map<string, OutboxEntry>();
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let flushPromise: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let started = false;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('OrderOutbox: IndexedDB unavailable, keeping requests in memory', request.error);
+          resolve(null);
+        };
+      } catch (error) {
+        console.warn('OrderOutbox: IndexedDB unavailable, keeping requests in memory', error);
+        resolve(null);
+      }
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  if (!db) throw new Error('IndexedDB is not available');
+
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const readEntries = async (): Promise<OutboxEntry[]> => {
+  const db = await openDb();
+  const entries = db
+    ? await runTransaction<OutboxEntry[]>('readonly', store => store.getAll())
+    : Array.from(memoryStore.values());
+  return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+const writeEntry = async (entry: OutboxEntry): Promise<void> => {
+  const db = await openDb();
+  if (db) {
+    await runTransaction('readwrite', store => store.put(entry));
+  } else {
+    memoryStore.set(entry.id, entry);
+  }
+};
+
+const deleteEntry = async (id: string): Promise<void> => {
+  const db = await openDb();
+  if (db) {
+    await runTransaction('readwrite', store => store.delete(id));
+  } else {
+    memoryStore.delete(id);
+  }
+};
+
+const notify = (entry: OutboxEntry) => {
+  listeners.forEach(listener => listener(entry));
+};
+
+const createIdempotencyKey = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+};
+
+// Exponential backoff with jitter so a room full of phones does not retry in step
+const getRetryDelay = (attempts: number): number => {
+  const delay = Math.min(BASE_RETRY_DELAY * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+/**
+ * Whether a failed attempt is worth repeating. Network failures, timeouts and
+ * server errors are; anything else (validation, order already processed) is
+ * the server's final answer. Repeats are safe thanks to the idempotency key.
+ */
+const isRetryableError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  return toApiError(error, '').isRetryable;
+};
+
+// Too old or tried too often to be sent again
+const isExpired = (entry: OutboxEntry, now: number): boolean =>
+  entry.attempts >= MAX_ATTEMPTS || now - new Date(entry.createdAt).getTime() > MAX_PENDING_AGE_MS;
+
+const sendEntry = (entry: OutboxEntry): Promise<unknown> => {
+  return entry.kind === 'createOrder'
+    ? OrderAPI.create(entry.payload, { idempotencyKey: entry.id })
+    : OrderAPI.cancelOrder(entry.orderId, { idempotencyKey: entry.id, trackingToken: entry.trackingToken });
+};
+
+const scheduleRetry = (entries: OutboxEntry[]) => {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+
+  const pending = entries.filter(entry => entry.status === 'pending');
+  if (pending.length === 0) return;
+
+  const nextAttemptAt = Math.min(...pending.map(entry => entry.nextAttemptAt));
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flush();
+  }, Math.max(nextAttemptAt - Date.now(), 0));
+};
+
+const processEntries = async (): Promise<void> => {
+  const entries = await readEntries();
+  const now = Date.now();
+
+  for (const entry of entries) {
+    if (entry.status !== 'pending') {
+      if (now - new Date(entry.createdAt).getTime() > SETTLED_RETENTION_MS) {
+        await deleteEntry(entry.id);
+      }
+      continue;
+    }
+    if (isExpired(entry, now)) {
+      const updated: OutboxEntry = {
+        ...entry,
+        status: 'failed',
+        error: 'Koneksi terputus terlalu lama, permintaan tidak terkirim. Silakan coba lagi.',
+      };
+      console.warn(`OrderOutbox: ${entry.kind} ${entry.id} expired after ${entry.attempts} attempts`);
+      await writeEntry(updated);
+      Object.assign(entry, updated);
+      notify(updated);
+      continue;
+    }
+    // Offline: wait for the `online` event instead of burning attempts
+    if (entry.nextAttemptAt > now || (typeof navigator !== 'undefined' && !navigator.onLine)) continue;
+
+    let updated: OutboxEntry;
+    try {
+      const response = await sendEntry(entry);
+      updated = { ...entry, status: 'delivered', attempts: entry.attempts + 1, response, error: undefined };
+    } catch (error) {
+      const attempts = entry.attempts + 1;
+      const message = error instanceof Error ? error.message : String(error);
+      updated = isRetryableError(error) && attempts < MAX_ATTEMPTS
+        ? { ...entry, attempts, error: message, nextAttemptAt: Date.now() + getRetryDelay(attempts) }
+        : { ...entry, status: 'failed', attempts, error: message };
+      console.warn(`OrderOutbox: ${entry.kind} ${entry.id} attempt ${attempts} failed`, error);
+    }
+
+    await writeEntry(updated);
+    Object.assign(entry, updated);
+    notify(updated);
+  }
+
+  scheduleRetry(entries);
+};
+
+const flush = (): Promise<void> => {
+  if (!flushPromise) {
+    flushPromise = processEntries()
+      .catch(error => console.error('OrderOutbox: failed to process queue', error))
+      .finally(() => {
+        flushPromise = null;
+      });
+  }
+  return flushPromise;
+};
+
+const ensureStarted = () => {
+  if (started || typeof window === 'undefined') return;
+  started = true;
+
+  window.addEventListener('online', () => flush());
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') flush();
+  });
+  flush();
+};
+
+export const OrderOutbox = {
+  /**
+   * Persist a request and start delivering it. The returned entry's id is the
+   * idempotency key; watch it with `subscribe` or `waitFor`.
+   */
+  enqueue: async (request: OutboxRequest, meta?: Record<string, unknown>): Promise<OutboxEntry> => {
+    ensureStarted();
+
+    const entry: OutboxEntry = {
+      ...request,
+      id: createIdempotencyKey(),
+      status: 'pending',
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+      nextAttemptAt: Date.now(),
+      meta,
+    };
+    await writeEntry(entry);
+    notify(entry);
+
+    // Wait for a running pass to finish so the new entry is picked up
+    if (flushPromise) await flushPromise;
+    flush();
+    return entry;
+  },
+
+  /**
+   * Resolves once the entry is delivered or has failed for good. Pending
+   * entries survive reloads, so this may also settle in a later page load.
+   */
+  waitFor: (id: string): Promise<OutboxEntry> => {
+    ensureStarted();
+
+    return new Promise(resolve => {
+      const listener: OutboxListener = entry => {
+        if (entry.id !== id || entry.status === 'pending') return;
+        listeners.delete(listener);
+        resolve(entry);
+      };
+      listeners.add(listener);
+
+      // Otherwise the listener catches the entry on its next change
+      readEntries()
+        .then(entries => {
+          const entry = entries.find(candidate => candidate.id === id);
+          if (entry) listener(entry);
+        })
+        .catch(error => console.error('OrderOutbox: failed to read queue', error));
+    });
+  },
+
+  /**
+   * Subscribe to every change of every entry
+   */
+  subscribe: (listener: OutboxListener): (() => void) => {
+    ensureStarted();
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  },
+
+  getEntries: (): Promise<OutboxEntry[]> => {
+    ensureStarted();
+    return readEntries();
+  },
+
+  /**
+   * Forget a settled entry once its result has been handled
+   */
+  remove: (id: string): Promise<void> => deleteEntry(id),
+
+  /**
+   * Retry all pending entries now, ignoring their backoff
+   */
+  retryNow: async (): Promise<void> => {
+    const entries = await readEntries();
+    await Promise.all(
+      entries
+        .filter(entry => entry.status === 'pending' && entry.nextAttemptAt > Date.now())
+        .map(entry => writeEntry({ ...entry, nextAttemptAt: Date.now() }))
+    );
+    if (flushPromise) await flushPromise;
+    await flush();
+  },
+};
@@ -0,0 +1,56 @@
+import { ApiError, toApiError } from './errors';
+import { createHttpPaymentProvider, createMockPaymentProvider } from './paymentProvider';
+import type { PaymentProvider, PaymentQuery } from './paymentProvider';
+import type { Payment, PaymentRequest } from '../types';
+
+// Payments go through the backend. The local mock ledger is for development
+// without one and must be asked for with VITE_PAYMENT_PROVIDER=mock; it is
+// never used in a production build.
+let provider: PaymentProvider =
+  import.meta.env.DEV && import.meta.env.VITE_PAYMENT_PROVIDER === 'mock'
+    ? createMockPaymentProvider()
+    : createHttpPaymentProvider();
+
+const validateRequest = (request: PaymentRequest) => {
+  if (!(request.amount > 0)) {
+    throw new ApiError('validation', 'Jumlah pembayaran harus lebih dari 0.');
+  }
+  if (request.allocations.length === 0) {
+    throw new ApiError('validation', 'Pilih pesanan yang akan dibayar.');
+  }
+  const allocated = request.allocations.reduce((sum, allocation) => sum + allocation.amount, 0);
+  if (Math.round(allocated) !== Math.round(request.amount)) {
+    throw new ApiError('validation', 'Jumlah pembayaran tidak sesuai dengan pesanan yang dipilih.');
+  }
+};
+
+export const PaymentAPI = {
+  /**
+   * Swap the payment provider, e.g. for a gateway adapter in production
+   */
+  setProvider: (nextProvider: PaymentProvider): void => {
+    provider = nextProvider;
+  },
+
+  getProviderId: (): string => provider.id,
+
+  pay: async (request: PaymentRequest): Promise<Payment> => {
+    try {
+      validateRequest(request);
+      console.log(`Charging ${request.amount} via ${request.method} (${provider.id})`, request.allocations);
+      return await provider.charge(request);
+    } catch (error) {
+      console.error('Error processing payment:', error);
+      throw toApiError(error, 'Pembayaran gagal diproses. Silakan coba lagi.');
+    }
+  },
+
+  getPayments: async (query: PaymentQuery = {}): Promise<Payment[]> => {
+    try {
+      return await provider.list(query);
+    } catch (error) {
+      console.error('Error fetching payments:', error);
+      throw toApiError(error, 'Failed to fetch payments');
+    }
+  },
+};
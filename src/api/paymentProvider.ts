@@ -0,0 +1,134 @@
+import api from './axios';
+import { ApiError } from './errors';
+import { parsePayment, parsePaymentList } from './validators';
+import type { Payment, PaymentRequest } from '../types';
+import { PaymentMethod } from '../types';
+import { isDateInRange } from '../utils/format';
+
+export interface PaymentQuery {
+  orderIds?: number[];
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string;
+}
+
+/**
+ * Adapter between the cashier screens and whoever actually takes the money
+ * (a QRIS/card gateway, a backend ledger, ...). Implementations throw an
+ * ApiError when a charge is declined or cannot be made.
+ */
+export interface PaymentProvider {
+  id: string;
+  charge: (request: PaymentRequest) => Promise<Payment>;
+  list: (query?: PaymentQuery) => Promise<Payment[]>;
+}
+
+export interface MockPaymentProviderOptions {
+  storageKey?: string;
+  latency?: number; // Simulated round trip in ms
+}
+
+const createPaymentId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+};
+
+/**
+ * Idempotency key for a new payment attempt. Keep it for every retry of the
+ * same payment and create a new one only for the next payment.
+ */
+export const createPaymentAttemptKey = (): string => createPaymentId();
+
+const matchesQuery = (payment: Payment, query: PaymentQuery): boolean => {
+  if (query.orderIds && !payment.allocations.some(allocation => query.orderIds!.includes(allocation.orderId))) {
+    return false;
+  }
+  if (query.startDate || query.endDate) {
+    return isDateInRange(payment.createdAt, query.startDate || '1970-01-01', query.endDate || '9999-12-31');
+  }
+  return true;
+};
+
+/**
+ * Payments recorded by the backend, which talks to the gateway and keeps one
+ * ledger for every cashier device. The request's idempotency key goes in the
+ * Idempotency-Key header, so a retried or replayed charge is not taken twice.
+ */
+export const createHttpPaymentProvider = (): PaymentProvider => ({
+  id: 'http',
+
+  charge: async ({ idempotencyKey, ...request }: PaymentRequest): Promise<Payment> => {
+    const response = await api.post('/payments', request, {
+      headers: { 'Idempotency-Key': idempotencyKey },
+    });
+    return parsePayment(response.data);
+  },
+
+  list: async (query: PaymentQuery = {}): Promise<Payment[]> => {
+    const response = await api.get('/payments', {
+      params: {
+        orderIds: query.orderIds?.join(','),
+        startDate: query.startDate,
+        endDate: query.endDate,
+      },
+    });
+    return parsePaymentList(response.data);
+  },
+});
+
+/**
+ * Local stand-in for a real gateway: approves every valid charge and keeps
+ * the ledger in localStorage, so payments survive reloads on this device only
+ */
+export const createMockPaymentProvider = (options: MockPaymentProviderOptions = {}): PaymentProvider => {
+  const { storageKey = 'mockPayments', latency = 300 } = options;
+
+  // Stored with its key so a retried charge returns the first payment
+  type StoredPayment = Payment & { idempotencyKey?: string };
+
+  const load = (): StoredPayment[] => {
+    try {
+      const stored = JSON.parse(localStorage.getItem(storageKey) || '[]');
+      return Array.isArray(stored) ? stored : [];
+    } catch (error) {
+      console.error('MockPaymentProvider: failed to read stored payments', error);
+      return [];
+    }
+  };
+
+  const wait = () => new Promise(resolve => setTimeout(resolve, latency));
+
+  return {
+    id: 'mock',
+
+    charge: async ({ idempotencyKey, ...request }: PaymentRequest): Promise<Payment> => {
+      await wait();
+
+      const previous = load().find(payment => payment.idempotencyKey === idempotencyKey);
+      if (previous) return previous;
+
+      if (request.method === PaymentMethod.CASH && (request.tendered ?? 0) < request.amount) {
+        throw new ApiError('validation', 'Uang yang diterima kurang dari jumlah tagihan.');
+      }
+
+      const id = createPaymentId();
+      const payment: Payment = {
+        ...request,
+        id,
+        provider: 'mock',
+        reference: request.method === PaymentMethod.CASH ? undefined : `MOCK-${request.method}-${id.slice(0, 8).toUpperCase()}`,
+        change: request.method === PaymentMethod.CASH ? (request.tendered ?? 0) - request.amount : 0,
+        createdAt: new Date().toISOString(),
+      };
+
+      localStorage.setItem(storageKey, JSON.stringify([...load(), { ...payment, idempotencyKey }]));
+      return payment;
+    },
+
+    list: async (query: PaymentQuery = {}): Promise<Payment[]> => {
+      await wait();
+      return load().filter(payment => matchesQuery(payment, query));
+    },
+  };
+};
@@ -0,0 +1,89 @@
+import type { Promotion, PromotionInput } from '../types';
+import api from './axios';
+import { ApiError, toApiError } from './errors';
+import { parsePromotion, parsePromotionList } from './validators';
+
+export const PromotionAPI = {
+  // Get every promotion, including vouchers and inactive ones (admin)
+  getAll: async (): Promise<Promotion[]> => {
+    try {
+      const response = await api.get('/promotions');
+      return parsePromotionList(response.data);
+    } catch (error) {
+      console.error('Error fetching promotions:', error);
+      throw toApiError(error, 'Failed to fetch promotions');
+    }
+  },
+
+  // Price rules and bundles customers can see. Voucher codes are never listed;
+  // they are looked up one at a time with lookupVoucher.
+  getActive: async (): Promise<Promotion[]> => {
+    try {
+      const response = await api.get('/promotions/active');
+      return parsePromotionList(response.data);
+    } catch (error) {
+      console.error('Error fetching active promotions:', error);
+      throw toApiError(error, 'Gagal memuat promo');
+    }
+  },
+
+  // Find a voucher by the code the customer typed
+  lookupVoucher: async (code: string): Promise<Promotion> => {
+    try {
+      const trimmed = code.trim();
+      if (!trimmed) {
+        throw new ApiError('validation', 'Masukkan kode voucher.');
+      }
+
+      const response = await api.get(`/promotions/vouchers/${encodeURIComponent(trimmed.toUpperCase())}`);
+      return parsePromotion(response.data);
+    } catch (error) {
+      console.error(`Error looking up voucher ${code}:`, error);
+      throw toApiError(error, 'Gagal memeriksa voucher. Coba lagi.', {
+        notFound: 'Kode voucher tidak ditemukan.',
+        gone: 'Voucher ini sudah tidak berlaku.',
+        network: 'Gagal memeriksa voucher. Periksa koneksi Anda dan coba lagi.',
+      });
+    }
+  },
+
+  // Create a promotion
+  create: async (promotion: PromotionInput): Promise<Promotion> => {
+    try {
+      if (!promotion.name.trim()) {
+        throw new ApiError('validation', 'Promotion name is required');
+      }
+
+      const response = await api.post('/promotions', promotion);
+      return parsePromotion(response.data);
+    } catch (error) {
+      console.error('Error creating promotion:', error);
+      throw toApiError(error, 'Failed to create promotion', {
+        conflict: 'A voucher with this code already exists',
+      });
+    }
+  },
+
+  // Update a promotion
+  update: async (id: number, promotion: Partial<PromotionInput>): Promise<Promotion> => {
+    try {
+      const response = await api.put(`/promotions/${id}`, promotion);
+      return parsePromotion(response.data);
+    } catch (error) {
+      console.error(`Error updating promotion ${id}:`, error);
+      throw toApiError(error, `Failed to update promotion ${id}`, {
+        conflict: 'A voucher with this code already exists',
+      });
+    }
+  },
+
+  // Delete a promotion
+  delete: async (id: number): Promise<void> => {
+    try {
+      await api.delete(`/promotions/${id}`);
+    } catch (error) {
+      console.error(`Error deleting promotion ${id}:`, error);
+      throw toApiError(error, `Failed to delete promotion ${id}`);
+    }
+  },
+};
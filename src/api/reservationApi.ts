@@ -0,0 +1,123 @@
+import type { Reservation, ReservationInput, ReservationStatus, WaitlistEntry, WaitlistEntryInput } from '../types';
+import api from './axios';
+import { ApiError, toApiError } from './errors';
+import { parseReservation, parseReservationList, parseWaitlist, parseWaitlistEntry } from './validators';
+
+const validateReservation = (reservation: Partial<ReservationInput>) => {
+  if (reservation.guestName !== undefined && !reservation.guestName.trim()) {
+    throw new ApiError('validation', 'Nama tamu wajib diisi.');
+  }
+  if (reservation.partySize !== undefined && !(reservation.partySize >= 1)) {
+    throw new ApiError('validation', 'Jumlah tamu minimal 1.');
+  }
+  if (reservation.startTime && reservation.endTime && Date.parse(reservation.endTime) <= Date.parse(reservation.startTime)) {
+    throw new ApiError('validation', 'Waktu selesai harus setelah waktu mulai.');
+  }
+};
+
+// The server re-checks overlaps, since another device may have booked the slot meanwhile
+const SLOT_TAKEN = 'Meja sudah dipesan pada waktu tersebut. Pilih meja atau waktu lain.';
+
+export const ReservationAPI = {
+  // Reservations overlapping a day (YYYY-MM-DD, restaurant time / WIB)
+  getByDate: async (date: string): Promise<Reservation[]> => {
+    try {
+      const response = await api.get('/reservations', { params: { date } });
+      return parseReservationList(response.data);
+    } catch (error) {
+      console.error(`Error fetching reservations for ${date}:`, error);
+      throw toApiError(error, 'Gagal memuat reservasi');
+    }
+  },
+
+  create: async (reservation: ReservationInput): Promise<Reservation> => {
+    try {
+      validateReservation(reservation);
+      const response = await api.post('/reservations', reservation);
+      return parseReservation(response.data);
+    } catch (error) {
+      console.error('Error creating reservation:', error);
+      throw toApiError(error, 'Gagal menyimpan reservasi', { conflict: SLOT_TAKEN });
+    }
+  },
+
+  update: async (id: number, reservation: Partial<ReservationInput>): Promise<Reservation> => {
+    try {
+      validateReservation(reservation);
+      const response = await api.put(`/reservations/${id}`, reservation);
+      return parseReservation(response.data);
+    } catch (error) {
+      console.error(`Error updating reservation ${id}:`, error);
+      throw toApiError(error, `Gagal memperbarui reservasi #${id}`, { conflict: SLOT_TAKEN });
+    }
+  },
+
+  // Seat, complete, cancel or mark a no-show
+  updateStatus: async (id: number, status: ReservationStatus): Promise<Reservation> => {
+    try {
+      const response = await api.patch(`/reservations/${id}/status`, { status });
+      return parseReservation(response.data);
+    } catch (error) {
+      console.error(`Error updating reservation ${id} status to ${status}:`, error);
+      throw toApiError(error, `Gagal mengubah status reservasi #${id}`);
+    }
+  },
+
+  delete: async (id: number): Promise<void> => {
+    try {
+      await api.delete(`/reservations/${id}`);
+    } catch (error) {
+      console.error(`Error deleting reservation ${id}:`, error);
+      throw toApiError(error, `Gagal menghapus reservasi #${id}`);
+    }
+  },
+};
+
+export const WaitlistAPI = {
+  // Parties still waiting, oldest first
+  getWaiting: async (): Promise<WaitlistEntry[]> => {
+    try {
+      const response = await api.get('/waitlist', { params: { status: 'WAITING' } });
+      return parseWaitlist(response.data);
+    } catch (error) {
+      console.error('Error fetching waitlist:', error);
+      throw toApiError(error, 'Gagal memuat daftar tunggu');
+    }
+  },
+
+  add: async (entry: WaitlistEntryInput): Promise<WaitlistEntry> => {
+    try {
+      if (!entry.guestName.trim()) {
+        throw new ApiError('validation', 'Nama tamu wajib diisi.');
+      }
+      const response = await api.post('/waitlist', entry);
+      return parseWaitlistEntry(response.data);
+    } catch (error) {
+      console.error('Error adding waitlist entry:', error);
+      throw toApiError(error, 'Gagal menambahkan ke daftar tunggu');
+    }
+  },
+
+  // Give a waiting party a table
+  seat: async (id: number, tableId: number): Promise<WaitlistEntry> => {
+    try {
+      const response = await api.post(`/waitlist/${id}/seat`, { tableId });
+      return parseWaitlistEntry(response.data);
+    } catch (error) {
+      console.error(`Error seating waitlist entry ${id}:`, error);
+      throw toApiError(error, 'Gagal mendudukkan tamu', {
+        conflict: 'Meja ini sudah terisi. Pilih meja lain.',
+      });
+    }
+  },
+
+  // The party left before getting a table
+  remove: async (id: number): Promise<void> => {
+    try {
+      await api.delete(`/waitlist/${id}`);
+    } catch (error) {
+      console.error(`Error removing waitlist entry ${id}:`, error);
+      throw toApiError(error, 'Gagal menghapus dari daftar tunggu');
+    }
+  },
+};
@@ -0,0 +1,95 @@
+import type { ServiceRequest, ServiceRequestInput } from '../types';
+import { ServiceRequestStatus, ServiceRequestType } from '../types';
+import api from './axios';
+import { ApiError, toApiError } from './errors';
+import { parseServiceRequest, parseServiceRequestList } from './validators';
+
+export interface ServiceRequestQuery {
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string;
+}
+
+export const ServiceRequestAPI = {
+  // Requests staff still have to handle, oldest first
+  getActive: async (): Promise<ServiceRequest[]> => {
+    try {
+      const response = await api.get('/service-requests', {
+        params: { status: `${ServiceRequestStatus.OPEN},${ServiceRequestStatus.ACKNOWLEDGED}` },
+      });
+      return parseServiceRequestList(response.data);
+    } catch (error) {
+      console.error('Error fetching service requests:', error);
+      throw toApiError(error, 'Gagal memuat permintaan layanan');
+    }
+  },
+
+  // Every request in a period, handled or not, for response-time reports
+  getHistory: async (query: ServiceRequestQuery): Promise<ServiceRequest[]> => {
+    try {
+      const response = await api.get('/service-requests', { params: query });
+      return parseServiceRequestList(response.data);
+    } catch (error) {
+      console.error('Error fetching service request history:', error);
+      throw toApiError(error, 'Failed to fetch service requests');
+    }
+  },
+
+  // Customers pass their table's QR token; staff are authorized by their session
+  getById: async (id: number, tableToken?: string): Promise<ServiceRequest> => {
+    try {
+      const response = await api.get(`/service-requests/${id}`, {
+        params: tableToken ? { tableToken } : undefined,
+      });
+      return parseServiceRequest(response.data);
+    } catch (error) {
+      console.error(`Error fetching service request ${id}:`, error);
+      throw toApiError(error, `Failed to fetch service request ${id}`);
+    }
+  },
+
+  // Sent by the customer from their table
+  create: async (request: ServiceRequestInput): Promise<ServiceRequest> => {
+    try {
+      if (!request.tableToken) {
+        throw new ApiError('validation', 'Silakan scan QR code yang ada di meja Anda.');
+      }
+      if (request.type === ServiceRequestType.CUSTOM && !request.message?.trim()) {
+        throw new ApiError('validation', 'Tulis pesan untuk pelayan.');
+      }
+      const response = await api.post('/service-requests', request);
+      return parseServiceRequest(response.data);
+    } catch (error) {
+      console.error('Error creating service request:', error);
+      throw toApiError(error, 'Permintaan gagal dikirim. Silakan coba lagi.', {
+        rateLimited: 'Permintaan sudah dikirim. Mohon tunggu sebentar, pelayan segera datang.',
+        forbidden: 'QR code ini sudah tidak berlaku. Silakan scan QR code terbaru di meja Anda.',
+        network: 'Tidak dapat terhubung. Silakan panggil pelayan secara langsung.',
+      });
+    }
+  },
+
+  // A staff member takes the request; the customer sees it is on its way
+  acknowledge: async (id: number): Promise<ServiceRequest> => {
+    try {
+      const response = await api.patch(`/service-requests/${id}/acknowledge`);
+      return parseServiceRequest(response.data);
+    } catch (error) {
+      console.error(`Error acknowledging service request ${id}:`, error);
+      throw toApiError(error, 'Gagal menerima permintaan', {
+        conflict: 'Permintaan ini sudah ditangani staf lain.',
+      });
+    }
+  },
+
+  resolve: async (id: number): Promise<ServiceRequest> => {
+    try {
+      const response = await api.patch(`/service-requests/${id}/resolve`);
+      return parseServiceRequest(response.data);
+    } catch (error) {
+      console.error(`Error resolving service request ${id}:`, error);
+      throw toApiError(error, 'Gagal menyelesaikan permintaan', {
+        conflict: 'Permintaan ini sudah diselesaikan staf lain.',
+      });
+    }
+  },
+};
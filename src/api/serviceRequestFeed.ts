@@ -0,0 +1,215 @@
+import type { ServiceRequest } from '../types';
+import { ServiceRequestStatus } from '../types';
+import { refreshAccessToken } from './axios';
+import { buildStreamUrl } from './orderFeed';
+import type { OrderFeedTransport } from './orderFeed';
+import { getAccessToken, getRefreshToken, isTokenExpiring, onTokensChanged } from './session';
+import { ServiceRequestAPI } from './serviceRequestApi';
+import { parseServiceRequest } from './validators';
+
+export type ServiceRequestFeedEventType = 'created' | 'updated';
+
+export interface ServiceRequestFeedEvent {
+  type: ServiceRequestFeedEventType;
+  request: ServiceRequest;
+}
+
+export interface ServiceRequestFeedHandlers {
+  onEvent: (event: ServiceRequestFeedEvent) => void;
+  onTransportChange?: (transport: OrderFeedTransport | null) => void;
+}
+
+export interface ServiceRequestFeedOptions {
+  // Customers are waiting, so polling is more frequent than for orders
+  pollInterval?: number;
+  connectTimeout?: number;
+}
+
+const DEFAULT_POLL_INTERVAL = 5000;
+const DEFAULT_CONNECT_TIMEOUT = 5000;
+// Push is retried with a delay that doubles up to the maximum
+const MIN_RECONNECT_DELAY = 2000;
+const MAX_RECONNECT_DELAY = 2 * 60 * 1000;
+// A token closer than this to expiry is refreshed before opening a stream
+const MIN_TOKEN_VALIDITY = 30 * 1000;
+
+const EVENT_TYPES: Record<string, ServiceRequestFeedEventType> = {
+  'service_request.created': 'created',
+  'service_request.updated': 'updated',
+  created: 'created',
+  updated: 'updated',
+};
+
+// Push messages look like { type: 'service_request.created', request } or { type, data }
+const parseMessage = (raw: string, fallbackType?: string): ServiceRequestFeedEvent | null => {
+  try {
+    const message = JSON.parse(raw);
+    const type = EVENT_TYPES[message?.type ?? fallbackType ?? ''];
+    const request = message?.request ?? message?.data;
+    if (!type || !request) return null;
+    return { type, request: parseServiceRequest(request) };
+  } catch (e) {
+    console.warn('ServiceRequestFeed: could not parse message', raw, e);
+    return null;
+  }
+};
+
+export const ServiceRequestFeedAPI = {
+  /**
+   * Subscribe to new and changed service requests. Uses Server-Sent Events
+   * and polls the active requests while the stream is down. The stream is
+   * retried with backoff and rebuilt with a fresh token whenever it drops.
+   * Returns a function that closes the subscription.
+   */
+  subscribe: (handlers: ServiceRequestFeedHandlers, options: ServiceRequestFeedOptions = {}): (() => void) => {
+    const pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    const connectTimeout = options.connectTimeout ?? DEFAULT_CONNECT_TIMEOUT;
+
+    let closed = false;
+    let closePush: (() => void) | null = null;
+    let stopPolling: (() => void) | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let reconnectDelay = MIN_RECONNECT_DELAY;
+
+    const emit = (event: ServiceRequestFeedEvent | null) => {
+      if (event && !closed) handlers.onEvent(event);
+    };
+
+    const setTransport = (transport: OrderFeedTransport | null) => {
+      if (!closed) handlers.onTransportChange?.(transport);
+    };
+
+    const startPolling = () => {
+      if (closed || stopPolling) return;
+      console.log('ServiceRequestFeed: falling back to polling every', pollInterval, 'ms');
+
+      const known = new Map<number, ServiceRequest>();
+      let isBaseline = true;
+      let stopped = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const poll = async () => {
+        try {
+          const active = await ServiceRequestAPI.getActive();
+          // The stream came back while this request was in flight
+          if (stopped) return;
+          active.forEach(request => {
+            const previous = known.get(request.id);
+            known.set(request.id, request);
+            // The first response only establishes what already exists
+            if (!previous) emit({ type: isBaseline ? 'updated' : 'created', request });
+            else if (previous.status !== request.status) emit({ type: 'updated', request });
+          });
+          // Requests that left the active list were resolved elsewhere
+          known.forEach((request, id) => {
+            if (active.some(candidate => candidate.id === id)) return;
+            known.delete(id);
+            emit({ type: 'updated', request: { ...request, status: ServiceRequestStatus.RESOLVED } });
+          });
+          isBaseline = false;
+          setTransport('polling');
+        } catch (error) {
+          console.error('ServiceRequestFeed: polling failed', error);
+        } finally {
+          if (!closed && !stopped) {
+            timer = setTimeout(poll, pollInterval);
+          }
+        }
+      };
+
+      poll();
+      stopPolling = () => {
+        stopped = true;
+        clearTimeout(timer);
+      };
+    };
+
+    // Poll so no request is missed, and try the stream again after a growing delay
+    const handlePushLost = () => {
+      closePush = null;
+      if (closed) return;
+      setTransport(null);
+      startPolling();
+
+      clearTimeout(reconnectTimer);
+      reconnectTimer = setTimeout(connectPush, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+    };
+
+    const startEventSource = () => {
+      if (typeof EventSource === 'undefined') {
+        // Retrying would never help
+        startPolling();
+        return;
+      }
+
+      let opened = false;
+      const source = new EventSource(buildStreamUrl('/service-requests/stream', 'http'));
+      const openTimer = setTimeout(() => {
+        if (!opened) {
+          source.close();
+          handlePushLost();
+        }
+      }, connectTimeout);
+
+      source.onopen = () => {
+        opened = true;
+        clearTimeout(openTimer);
+        reconnectDelay = MIN_RECONNECT_DELAY;
+        stopPolling?.();
+        stopPolling = null;
+        setTransport('sse');
+      };
+      source.onmessage = message => emit(parseMessage(message.data));
+      ['service_request.created', 'service_request.updated'].forEach(type => {
+        source.addEventListener(type, message => emit(parseMessage((message as MessageEvent).data, type)));
+      });
+      source.onerror = () => {
+        clearTimeout(openTimer);
+        // EventSource's own reconnect would reuse the token baked into the
+        // URL, so the stream is rebuilt with a fresh one instead
+        source.close();
+        console.warn(`ServiceRequestFeed: Server-Sent Events ${opened ? 'stream lost' : 'unavailable'}`);
+        handlePushLost();
+      };
+
+      closePush = () => {
+        clearTimeout(openTimer);
+        source.close();
+      };
+    };
+
+    const connectPush = async () => {
+      if (closed) return;
+      // The token travels in the URL, so it must outlive the connect
+      if (getRefreshToken() && isTokenExpiring(getAccessToken(), MIN_TOKEN_VALIDITY)) {
+        try {
+          await refreshAccessToken(getAccessToken());
+        } catch (error) {
+          console.warn('ServiceRequestFeed: token refresh before connecting failed', error);
+        }
+        if (closed) return;
+      }
+      closePush?.();
+      startEventSource();
+    };
+
+    // An open stream keeps the token it was opened with; reopen it with the new one
+    const stopTokenListener = onTokensChanged(() => {
+      if (closePush && getAccessToken()) {
+        clearTimeout(reconnectTimer);
+        connectPush();
+      }
+    });
+
+    connectPush();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      stopTokenListener();
+      closePush?.();
+      stopPolling?.();
+    };
+  },
+};
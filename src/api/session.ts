@@ -0,0 +1,76 @@
+// Token storage and session events shared by the axios client and the auth
+// store. Kept free of imports so both can use it without a cycle.
+
+export const ACCESS_TOKEN_KEY = 'authToken';
+export const REFRESH_TOKEN_KEY = 'refreshToken';
+export const USER_KEY = 'user';
+
+type SessionListener = () => void;
+
+const expiredListeners = new Set<SessionListener>();
+const tokenListeners = new Set<SessionListener>();
+
+export const getAccessToken = (): string | null => localStorage.getItem(ACCESS_TOKEN_KEY)?.trim() || null;
+
+export const getRefreshToken = (): string | null => localStorage.getItem(REFRESH_TOKEN_KEY)?.trim() || null;
+
+export const setSessionTokens = (token: string, refreshToken?: string | null): void => {
+  localStorage.setItem(ACCESS_TOKEN_KEY, token);
+  // Servers that rotate refresh tokens send a new one; otherwise keep the old
+  if (refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  }
+  tokenListeners.forEach(listener => listener());
+};
+
+export const clearSessionTokens = (): void => {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  tokenListeners.forEach(listener => listener());
+};
+
+/**
+ * Expiry of a JWT in epoch milliseconds, or null when it has no readable `exp`
+ */
+export const getTokenExpiry = (token: string | null): number | null => {
+  if (!token) return null;
+
+  try {
+    const payload = token.split('.')[1];
+    if (!payload) return null;
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    const exp = JSON.parse(json)?.exp;
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether a token expires within `withinMs`. Tokens without an `exp` are
+ * treated as valid until the server says otherwise.
+ */
+export const isTokenExpiring = (token: string | null, withinMs = 0): boolean => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - Date.now() <= withinMs;
+};
+
+/**
+ * Subscribe to "the session could not be refreshed" events
+ */
+export const onSessionExpired = (listener: SessionListener): (() => void) => {
+  expiredListeners.add(listener);
+  return () => expiredListeners.delete(listener);
+};
+
+export const notifySessionExpired = (): void => {
+  expiredListeners.forEach(listener => listener());
+};
+
+/**
+ * Subscribe to token changes made in this tab
+ */
+export const onTokensChanged = (listener: SessionListener): (() => void) => {
+  tokenListeners.add(listener);
+  return () => tokenListeners.delete(listener);
+};
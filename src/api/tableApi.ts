@@ -1,15 +1,35 @@
-import type { Table } from '../types';
+import type { Table, TableGroup, TableLifecycleRunner, TableStatus, TableStatusChange, TableStatusSource } from '../types';
 import api from './axios';
+import { toApiError } from './errors';
+import {
+  parseTable,
+  parseTableGroup,
+  parseTableGroupList,
+  parseTableLifecycleRunner,
+  parseTableList,
+  parseTableStatusChangeList,
+} from './validators';
+
+// Floor plan fields of one table, as saved by the floor plan editor
+export type TableLayoutUpdate = Pick<Table, 'id' | 'area' | 'position' | 'shape' | 'rotation'>;
+
+export interface TableStatusUpdateOptions {
+  source: TableStatusSource;
+  reason?: string;
+  // Status the caller based its decision on. The server refuses the change
+  // with 409 when the table has moved on, e.g. another device changed it.
+  expectedStatus?: TableStatus;
+}
 
 export const TableAPI = {
   // Get all tables
   getAll: async (): Promise<Table[]> => {
     try {
       const response = await api.get('/tables');
-      return response.data;
+      return parseTableList(response.data);
     } catch (error) {
       console.error('Error fetching tables:', error);
-      throw error;
+      throw toApiError(error, 'Failed to fetch tables');
     }
   },
 
@@ -17,10 +37,43 @@ export const TableAPI = {
   getById: async (id: number): Promise<Table> => {
     try {
       const response = await api.get(`/tables/${id}`);
-      return response.data;
+      return parseTable(response.data);
     } catch (error) {
       console.error(`Error fetching table ${id}:`, error);
-      throw error;
+      throw toApiError(error, `Failed to fetch table ${id}`);
+    }
+  },
+
+  // Resolve the token or code from a QR code to its table. Unknown and
+  // revoked (rotated) tokens are rejected with a message for the customer.
+  resolveToken: async (token: string): Promise<Table> => {
+    try {
+      const response = await api.get(`/tables/lookup/${encodeURIComponent(token)}`);
+      return parseTable(response.data);
+    } catch (error) {
+      console.error(`Error resolving table token ${token}:`, error);
+
+      const unknownToken = 'QR code tidak dikenal. Silakan scan QR code yang ada di meja Anda.';
+      const lookupFailed = 'Gagal memeriksa QR code. Periksa koneksi Anda dan coba lagi.';
+      throw toApiError(error, lookupFailed, {
+        gone: 'QR code ini sudah tidak berlaku. Silakan scan QR code terbaru di meja Anda.',
+        notFound: unknownToken,
+        validation: unknownToken,
+        network: lookupFailed,
+        server: lookupFailed,
+        invalidResponse: lookupFailed,
+      });
+    }
+  },
+
+  // Issue a new QR token for a table; previously printed QR codes stop working
+  rotateQrToken: async (id: number): Promise<Table> => {
+    try {
+      const response = await api.post(`/tables/${id}/rotate-token`);
+      return parseTable(response.data);
+    } catch (error) {
+      console.error(`Error rotating QR token of table ${id}:`, error);
+      throw toApiError(error, 'Failed to rotate QR code');
     }
   },
 
@@ -37,24 +90,13 @@ export const TableAPI = {
       }
       
       const response = await api.post('/tables', table);
-      return response.data;
-    } catch (error: any) {
+      return parseTable(response.data);
+    } catch (error) {
       console.error('Error creating table:', error);
-      
-      // Provide more specific error message based on the error
-      if (error.response) {
-        // The request was made and the server responded with a status code
-        // that falls out of the range of 2xx
-        console.error('Server error:', error.response.data);
-        throw new Error(error.response.data.message || 'Failed to create table - server error');
-      } else if (error.request) {
-        // The request was made but no response was received
-        console.error('Network error - no response received');
-        throw new Error('Network error - please check your connection');
-      } else {
-        // Something happened in setting up the request that triggered an Error
-        throw error;
-      }
+      // Validation failures above surface as 'validation' errors with their message
+      throw toApiError(error, 'Failed to create table - server error', {
+        network: 'Network error - please check your connection',
+      });
     }
   },
 
@@ -62,10 +104,109 @@ export const TableAPI = {
   update: async (id: number, table: Partial<Table>): Promise<Table> => {
     try {
       const response = await api.put(`/tables/${id}`, table);
-      return response.data;
+      return parseTable(response.data);
     } catch (error) {
       console.error(`Error updating table ${id}:`, error);
-      throw error;
+      throw toApiError(error, `Failed to update table ${id}`);
+    }
+  },
+
+  // Change a table's status; the server records it in the status audit trail
+  updateStatus: async (id: number, status: TableStatus, options: TableStatusUpdateOptions): Promise<Table> => {
+    try {
+      const response = await api.patch(`/tables/${id}/status`, { status, ...options });
+      return parseTable(response.data);
+    } catch (error) {
+      console.error(`Error updating status of table ${id}:`, error);
+      throw toApiError(error, `Failed to update status of table ${id}`, {
+        conflict: 'Status meja sudah diubah dari perangkat lain. Muat ulang dan coba lagi.',
+      });
+    }
+  },
+
+  // Device running the table lifecycle, or null when none has claimed it
+  getLifecycleRunner: async (): Promise<TableLifecycleRunner | null> => {
+    try {
+      const response = await api.get('/tables/lifecycle-runner');
+      return response.data ? parseTableLifecycleRunner(response.data) : null;
+    } catch (error) {
+      console.error('Error fetching the table lifecycle runner:', error);
+      throw toApiError(error, 'Failed to fetch the table lifecycle runner');
+    }
+  },
+
+  // Claim the lifecycle for this device, which also counts as its heartbeat.
+  // The server keeps a runner that is still active unless `takeOver` is set,
+  // and returns whichever device runs it after the call.
+  claimLifecycleRunner: async (
+    claim: Pick<TableLifecycleRunner, 'deviceId' | 'deviceName'> & { takeOver?: boolean }
+  ): Promise<TableLifecycleRunner> => {
+    try {
+      const response = await api.put('/tables/lifecycle-runner', claim);
+      return parseTableLifecycleRunner(response.data);
+    } catch (error) {
+      console.error('Error claiming the table lifecycle runner:', error);
+      throw toApiError(error, 'Gagal mengatur perangkat pengatur status meja');
+    }
+  },
+
+  // Status audit trail of a table, newest first
+  getStatusHistory: async (id: number): Promise<TableStatusChange[]> => {
+    try {
+      const response = await api.get(`/tables/${id}/status-history`);
+      return parseTableStatusChangeList(response.data);
+    } catch (error) {
+      console.error(`Error fetching status history of table ${id}:`, error);
+      throw toApiError(error, `Failed to fetch status history of table ${id}`);
+    }
+  },
+
+  // Tables currently merged into groups
+  getGroups: async (): Promise<TableGroup[]> => {
+    try {
+      const response = await api.get('/table-groups');
+      return parseTableGroupList(response.data);
+    } catch (error) {
+      console.error('Error fetching table groups:', error);
+      throw toApiError(error, 'Failed to fetch table groups');
+    }
+  },
+
+  // Merge tables into a group whose orders are billed together
+  merge: async (tableIds: number[], primaryTableId: number, name?: string): Promise<TableGroup> => {
+    try {
+      const response = await api.post('/table-groups', { tableIds, primaryTableId, name });
+      return parseTableGroup(response.data);
+    } catch (error) {
+      console.error('Error merging tables:', error);
+      throw toApiError(error, 'Gagal menggabungkan meja', {
+        conflict: 'Salah satu meja sudah digabung dari perangkat lain. Muat ulang dan coba lagi.',
+      });
+    }
+  },
+
+  // End a group; every order stays on the table it was placed at
+  split: async (groupId: number): Promise<void> => {
+    try {
+      await api.delete(`/table-groups/${groupId}`);
+    } catch (error) {
+      console.error(`Error splitting table group ${groupId}:`, error);
+      throw toApiError(error, 'Gagal memisahkan meja');
+    }
+  },
+
+  // Save floor plan changes for several tables at once
+  saveLayout: async (updates: TableLayoutUpdate[]): Promise<Table[]> => {
+    try {
+      return await Promise.all(
+        updates.map(async ({ id, ...layout }) => {
+          const response = await api.put(`/tables/${id}`, layout);
+          return parseTable(response.data);
+        })
+      );
+    } catch (error) {
+      console.error('Error saving floor plan:', error);
+      throw toApiError(error, 'Failed to save floor plan');
     }
   },
 
@@ -75,7 +216,7 @@ export const TableAPI = {
       await api.delete(`/tables/${id}`);
     } catch (error) {
       console.error(`Error deleting table ${id}:`, error);
-      throw error;
+      throw toApiError(error, `Failed to delete table ${id}`);
     }
   },
 }; 
\ No newline at end of file
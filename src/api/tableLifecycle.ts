@@ -0,0 +1,258 @@
+import type { Reservation, Table, TableLifecycleRunner } from '../types';
+import { isApiError } from './errors';
+import { OrderAPI } from './orderApi';
+import { OrderFeedAPI } from './orderFeed';
+import { PaymentAPI } from './paymentApi';
+import { ReservationAPI } from './reservationApi';
+import { TableAPI } from './tableApi';
+import { summarizeOrderPayments } from '../utils/payments';
+import { getReservationDatesAround } from '../utils/reservations';
+import { DEFAULT_TABLE_LIFECYCLE_CONFIG, getNextTableStatus } from '../utils/tableLifecycle';
+
+export type TableLifecycleListener = (tables: Table[]) => void;
+export type TableLifecycleRunnerListener = (runner: TableLifecycleRunner | null) => void;
+
+export interface TableLifecycleOptions {
+  // Sweep interval; also how late cleaning and reservation holds may kick in
+  interval?: number;
+}
+
+const DEFAULT_SYNC_INTERVAL = 30000;
+// Order events tend to arrive in bursts; one sync covers them all
+const SYNC_DEBOUNCE = 1000;
+// One device runs the lifecycle; several deciding from their own snapshots
+// would undo each other's changes. Every signed-in device that may change
+// table statuses takes part in an election on the server: the first to claim
+// the role keeps it while it checks in every sweep, another device takes
+// over once it has gone quiet, and staff can move it from the tables page.
+const DEVICE_ID_KEY = 'tableLifecycleDeviceId';
+// A runner not seen for this long is treated as gone
+const RUNNER_TIMEOUT = 2 * 60 * 1000;
+
+// A slot running past midnight is listed on both days
+const uniqueReservations = (days: Reservation[][]): Reservation[] => [
+  ...new Map(days.flat().map(reservation => [reservation.id, reservation])).values(),
+];
+
+let running: Promise<Table[]> | null = null;
+let pendingTimer: ReturnType<typeof setTimeout> | null = null;
+let isStarted = false;
+let runner: TableLifecycleRunner | null = null;
+let stopRunning: (() => void) | null = null;
+let electionCheck: ((takeOver: boolean) => Promise<void>) | null = null;
+const listeners = new Set<TableLifecycleListener>();
+const runnerListeners = new Set<TableLifecycleRunnerListener>();
+
+const createDeviceId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+};
+
+// Stable id of this browser, so a reload keeps the runner role
+const getDeviceId = (): string => {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = createDeviceId();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+};
+
+const setRunner = (next: TableLifecycleRunner | null) => {
+  runner = next;
+  runnerListeners.forEach(listener => listener(next));
+};
+
+export const TableLifecycle = {
+  /**
+   * Move every table to the status its orders and reservations call for (see
+   * utils/tableLifecycle.ts) and return the tables that changed. Overlapping
+   * calls share one run.
+   */
+  sync: async (now: Date = new Date()): Promise<Table[]> => {
+    if (running) return running;
+
+    running = (async () => {
+      try {
+        const [tables, orders, reservations, groups] = await Promise.all([
+          TableAPI.getAll(),
+          OrderAPI.getAll(),
+          // Without reservations or groups tables still follow their own orders.
+          // Late in the evening the hold reaches into tomorrow's bookings.
+          Promise.all(
+            getReservationDatesAround(now, DEFAULT_TABLE_LIFECYCLE_CONFIG.reservationHoldMinutes).map(date => ReservationAPI.getByDate(date))
+          ).then(uniqueReservations).catch(error => {
+            console.warn('TableLifecycle: reservations unavailable', error);
+            return [];
+          }),
+          TableAPI.getGroups().catch(error => {
+            console.warn('TableLifecycle: table groups unavailable', error);
+            return [];
+          }),
+        ]);
+        const payments = await PaymentAPI.getPayments({ orderIds: orders.map(order => order.id) });
+        const summaries = summarizeOrderPayments(orders, payments);
+
+        const changed: Table[] = [];
+        for (const table of tables) {
+          const decision = getNextTableStatus(table, { orders, summaries, reservations, groups }, now);
+          if (!decision) continue;
+
+          try {
+            console.log(`TableLifecycle: ${table.name} ${table.status} -> ${decision.status} (${decision.reason})`);
+            changed.push(
+              await TableAPI.updateStatus(table.id, decision.status, {
+                source: 'auto',
+                reason: decision.reason,
+                expectedStatus: table.status,
+              })
+            );
+          } catch (error) {
+            // Another device changed the table first; the next sync starts from its result
+            if (!isApiError(error, 'conflict')) throw error;
+          }
+        }
+
+        if (changed.length > 0) {
+          listeners.forEach(listener => listener(changed));
+        }
+        return changed;
+      } finally {
+        running = null;
+      }
+    })();
+    return running;
+  },
+
+  /**
+   * Sync shortly, e.g. after a payment. Calls within the debounce window
+   * collapse into one sync. Does nothing unless the lifecycle runs on this
+   * device; the runner picks the change up on its next sweep.
+   */
+  requestSync: (): void => {
+    if (!isStarted) return;
+    if (pendingTimer) clearTimeout(pendingTimer);
+    pendingTimer = setTimeout(() => {
+      pendingTimer = null;
+      TableLifecycle.sync().catch(error => console.error('TableLifecycle: sync failed', error));
+    }, SYNC_DEBOUNCE);
+  },
+
+  /**
+   * Keep table statuses in sync: now, on every order feed event and on a
+   * timer for cleaning and reservation holds. Only the elected runner
+   * should call it (see elect). Returns a function that stops it.
+   */
+  start: (options: TableLifecycleOptions = {}): (() => void) => {
+    isStarted = true;
+    TableLifecycle.requestSync();
+    const interval = setInterval(TableLifecycle.requestSync, options.interval ?? DEFAULT_SYNC_INTERVAL);
+    const unsubscribe = OrderFeedAPI.subscribe({ onEvent: TableLifecycle.requestSync });
+
+    return () => {
+      isStarted = false;
+      clearInterval(interval);
+      unsubscribe();
+      if (pendingTimer) {
+        clearTimeout(pendingTimer);
+        pendingTimer = null;
+      }
+    };
+  },
+
+  /**
+   * Take part in choosing the runner: claim the role now and on every sweep,
+   * and run the lifecycle while this device holds it. If the server cannot
+   * be reached nothing runs here, so two devices never fight over tables.
+   * Returns a function that stops taking part.
+   */
+  elect: (deviceName: string, options: TableLifecycleOptions = {}): (() => void) => {
+    let stopped = false;
+
+    const check = async (takeOver: boolean) => {
+      try {
+        const next = await TableAPI.claimLifecycleRunner({ deviceId: getDeviceId(), deviceName, takeOver });
+        if (stopped) return;
+        setRunner(next);
+      } catch (error) {
+        if (stopped) return;
+        console.error('TableLifecycle: runner election failed', error);
+        setRunner(null);
+      }
+
+      const isRunner = runner?.deviceId === getDeviceId();
+      if (isRunner && !stopRunning) {
+        console.log('TableLifecycle: this device now runs table statuses');
+        stopRunning = TableLifecycle.start(options);
+      } else if (!isRunner && stopRunning) {
+        stopRunning();
+        stopRunning = null;
+      }
+    };
+
+    electionCheck = check;
+    check(false);
+    const interval = setInterval(() => check(false), options.interval ?? DEFAULT_SYNC_INTERVAL);
+
+    return () => {
+      stopped = true;
+      clearInterval(interval);
+      if (electionCheck === check) electionCheck = null;
+      stopRunning?.();
+      stopRunning = null;
+    };
+  },
+
+  /**
+   * Move the runner role to this device, e.g. from a phone to the cashier
+   * tablet. Only works while this device takes part in the election.
+   */
+  takeOver: async (): Promise<void> => {
+    await electionCheck?.(true);
+  },
+
+  /**
+   * The runner as last seen by this device; see refreshRunner
+   */
+  getRunner: (): TableLifecycleRunner | null => runner,
+
+  refreshRunner: async (): Promise<void> => {
+    try {
+      setRunner(await TableAPI.getLifecycleRunner());
+    } catch (error) {
+      console.warn('TableLifecycle: runner unavailable', error);
+      setRunner(null);
+    }
+  },
+
+  /**
+   * Whether `candidate` has checked in recently enough to be running
+   */
+  isRunnerActive: (candidate: TableLifecycleRunner | null, now: Date = new Date()): boolean =>
+    candidate !== null && now.getTime() - Date.parse(candidate.lastSeenAt) < RUNNER_TIMEOUT,
+
+  isThisDevice: (candidate: TableLifecycleRunner | null): boolean => candidate?.deviceId === getDeviceId(),
+
+  /**
+   * Be told when the runner changes or checks in. Returns an unsubscribe
+   * function.
+   */
+  onRunnerChange: (listener: TableLifecycleRunnerListener): (() => void) => {
+    runnerListeners.add(listener);
+    return () => {
+      runnerListeners.delete(listener);
+    };
+  },
+
+  /**
+   * Be told about tables the lifecycle changed. Returns an unsubscribe function.
+   */
+  onChange: (listener: TableLifecycleListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
@@ -1,4 +1,6 @@
 import api from './axios';
+import { ApiError, toApiError } from './errors';
+import { parseUploadResponse } from './validators';
 
 export interface UploadResponse {
   url: string;
@@ -16,7 +18,7 @@ export const UploadAPI = {
       // Get the token for authorization
       const token = localStorage.getItem('authToken');
       if (!token) {
-        throw new Error('Authentication token not found. Please log in again.');
+        throw new ApiError('unauthorized', 'Authentication token not found. Please log in again.');
       }
 
       // Create FormData for image upload
@@ -34,31 +36,10 @@ export const UploadAPI = {
       });
 
       console.log('Image uploaded successfully:', response.data);
-      return response.data;
-    } catch (error: any) {
+      return parseUploadResponse(response.data);
+    } catch (error) {
       console.error('Error uploading image:', error);
-      
-      let errorMessage = 'Failed to upload image';
-      if (error.response) {
-        const status = error.response.status;
-        const responseData = error.response.data;
-        
-        console.error(`Server returned ${status}:`, responseData);
-        
-        if (typeof responseData === 'object' && responseData.error) {
-          errorMessage = `${errorMessage}: ${responseData.error}`;
-        } else if (status === 401) {
-          errorMessage = 'Authentication failed. Please log in again.';
-        } else if (status === 400) {
-          errorMessage = 'Invalid image file. Please check file format and size.';
-        } else if (status === 500) {
-          errorMessage = 'Server error. Please try again later.';
-        }
-      } else if (error.message) {
-        errorMessage = error.message;
-      }
-      
-      throw new Error(errorMessage);
+      throw toApiError(error, 'Invalid image file. Please check file format and size.');
     }
   }
 }; 
\ No newline at end of file
@@ -0,0 +1,548 @@
+import { ApiError } from './errors';
+import type { OrderItemsMoveResult } from './orderApi';
+import type { UploadResponse } from './uploadApi';
+import type {
+  Menu,
+  Order,
+  OrderDiscount,
+  OrderItem,
+  OrderHistory,
+  OrderHistoryItem,
+  OrderItemCustomization,
+  OrderMove,
+  Payment,
+  PaymentAllocation,
+  Promotion,
+  PromotionSchedule,
+  Reservation,
+  ServiceRequest,
+  Table,
+  TableGroup,
+  TableLifecycleRunner,
+  TableShape,
+  TableStatusChange,
+  TableStatusSource,
+  WaitlistEntry,
+} from '../types';
+import {
+  OrderStatus,
+  PaymentMethod,
+  PromotionType,
+  ReservationStatus,
+  ServiceRequestStatus,
+  ServiceRequestType,
+  TableStatus,
+  WaitlistStatus,
+} from '../types';
+import { normalizeCustomizationOptions } from '../utils/menuCustomization';
+import { parseAmount } from '../utils/format';
+
+// Response validators. Every API module passes response bodies through these
+// before returning them, so pages only ever see the canonical types: numeric
+// strings become numbers, missing optional fields get defaults, and a body
+// that cannot be made sense of raises an ApiError('invalidResponse').
+
+type RawRecord = Record<string, unknown>;
+
+const invalidResponse = (what: string, value: unknown): ApiError =>
+  new ApiError('invalidResponse', `Unexpected ${what} data from the server`, { details: value });
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asRecord = (value: unknown, what: string): RawRecord => {
+  if (!isRecord(value)) throw invalidResponse(what, value);
+  return value;
+};
+
+const toNumber = (value: unknown, fallback = 0): number => {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : fallback;
+};
+
+const toOptionalNumber = (value: unknown): number | undefined =>
+  value === null || value === undefined || value === '' ? undefined : toNumber(value);
+
+// Prices may also come formatted for display, e.g. "Rp 25.000"
+const toAmount = (value: unknown): number =>
+  typeof value === 'number' || typeof value === 'string' ? parseAmount(value) : 0;
+
+const toOptionalAmount = (value: unknown): number | undefined =>
+  value === null || value === undefined || value === '' ? undefined : toAmount(value);
+
+// Ids must be present: a record without one cannot be updated or linked to
+const toId = (value: unknown, what: string): number => {
+  const id = typeof value === 'string' ? Number(value) : value;
+  if (typeof id !== 'number' || !Number.isInteger(id) || id < 0) throw invalidResponse(what, value);
+  return id;
+};
+
+const toString = (value: unknown, fallback = ''): string =>
+  typeof value === 'string' ? value : typeof value === 'number' ? String(value) : fallback;
+
+const toOptionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value !== '' ? value : undefined;
+
+const toBoolean = (value: unknown, fallback = false): boolean => {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true' || value === 1 || value === '1') return true;
+  if (value === 'false' || value === 0 || value === '0') return false;
+  return fallback;
+};
+
+const toOrderStatus = (value: unknown, fallback: OrderStatus): OrderStatus => {
+  const status = toString(value).toUpperCase();
+  return (Object.values(OrderStatus) as string[]).includes(status) ? (status as OrderStatus) : fallback;
+};
+
+const toCustomizations = (value: unknown): OrderItemCustomization[] | Record<string, string[]> | undefined => {
+  if (Array.isArray(value)) {
+    return value.filter(isRecord).map(entry => ({
+      optionId: toString(entry.optionId),
+      selections: Array.isArray(entry.selections) ? entry.selections.map(selection => toString(selection)) : [],
+    }));
+  }
+  if (isRecord(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([optionId, selections]) => [
+        optionId,
+        Array.isArray(selections) ? selections.map(selection => toString(selection)) : [],
+      ])
+    );
+  }
+  return undefined;
+};
+
+/**
+ * Validate a list response, accepting a bare array or a `{ data: [...] }`
+ * envelope. Malformed rows are skipped with a warning so one bad record
+ * does not blank the whole page.
+ */
+const parseList = <T>(value: unknown, parseItem: (raw: unknown) => T, what: string): T[] => {
+  const rows = Array.isArray(value) ? value : isRecord(value) && Array.isArray(value.data) ? value.data : null;
+  if (!rows) throw invalidResponse(`${what} list`, value);
+
+  return rows.flatMap(row => {
+    try {
+      return [parseItem(row)];
+    } catch (error) {
+      console.warn(`Skipping malformed ${what} from the server:`, row, error);
+      return [];
+    }
+  });
+};
+
+export const parseMenu = (value: unknown): Menu => {
+  const raw = asRecord(value, 'menu');
+  const status = raw.status === 'AVAILABLE' || raw.status === 'OUT_OF_STOCK'
+    ? raw.status
+    : raw.isAvailable === false ? 'OUT_OF_STOCK' : 'AVAILABLE';
+
+  return {
+    id: toId(raw.id, 'menu'),
+    name: toString(raw.name),
+    description: toString(raw.description),
+    price: toAmount(raw.price),
+    imageUrl: toString(raw.imageUrl),
+    category: toOptionalString(raw.category),
+    status,
+    isAvailable: toBoolean(raw.isAvailable, status === 'AVAILABLE'),
+    customizationOptions: normalizeCustomizationOptions(raw.customizationOptions),
+  };
+};
+
+export const parseMenuList = (value: unknown): Menu[] => parseList(value, parseMenu, 'menu');
+
+export const parseOrderItem = (value: unknown): OrderItem => {
+  const raw = asRecord(value, 'order item');
+  const menu = isRecord(raw.menu) ? raw.menu : undefined;
+
+  return {
+    id: raw.id === undefined || raw.id === null ? undefined : toId(raw.id, 'order item'),
+    menuId: toId(raw.menuId ?? menu?.id, 'order item'),
+    quantity: toNumber(raw.quantity),
+    price: toAmount(raw.price),
+    menu: menu
+      ? { ...(menu as Partial<Menu>), name: toString(menu.name), price: toAmount(menu.price) }
+      : undefined,
+    customizations: toCustomizations(raw.customizations),
+    extraPrice: toOptionalAmount(raw.extraPrice),
+    notes: toOptionalString(raw.notes),
+  };
+};
+
+const toNumberList = (value: unknown): number[] =>
+  Array.isArray(value) ? value.map(entry => Number(entry)).filter(Number.isFinite) : [];
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string' && entry !== '') : [];
+
+const parseOrderDiscount = (value: unknown): OrderDiscount => {
+  const raw = asRecord(value, 'order discount');
+  const menuIds = Array.isArray(raw.menuIds) ? toNumberList(raw.menuIds) : undefined;
+
+  return {
+    id: toString(raw.id) || toString(raw.label),
+    label: toString(raw.label, 'Diskon'),
+    type: raw.type === 'amount' ? 'amount' : 'percent',
+    value: toNumber(raw.value),
+    scope: raw.scope === 'item' ? 'item' : 'order',
+    menuIds,
+    maxQuantity: toOptionalNumber(raw.maxQuantity),
+    promotionId: toOptionalNumber(raw.promotionId),
+  };
+};
+
+// Discounts may be missing, or stored as a JSON string by older backends
+const toDiscounts = (value: unknown): OrderDiscount[] => {
+  let list = value;
+  if (typeof value === 'string') {
+    try {
+      list = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(list) ? parseList(list, parseOrderDiscount, 'order discount') : [];
+};
+
+export const parseOrder = (value: unknown): Order => {
+  const raw = asRecord(value, 'order');
+  const table = isRecord(raw.table) ? raw.table : undefined;
+  const isProcessed = toBoolean(raw.isProcessed);
+  // The backend stores a started ticket as PENDING with isProcessed set
+  const storedStatus = toOrderStatus(raw.status, OrderStatus.PENDING);
+  const status = storedStatus === OrderStatus.PENDING && isProcessed ? OrderStatus.PROCESSING : storedStatus;
+
+  return {
+    id: toId(raw.id, 'order'),
+    dailyOrderId: toOptionalNumber(raw.dailyOrderId),
+    tableId: toId(raw.tableId ?? table?.id, 'order'),
+    customerName: toOptionalString(raw.customerName),
+    orderItems: parseList(raw.orderItems ?? raw.items ?? [], parseOrderItem, 'order item'),
+    totalPrice: toAmount(raw.totalPrice),
+    discounts: toDiscounts(raw.discounts),
+    status,
+    isProcessed,
+    createdAt: toOptionalString(raw.createdAt),
+    updatedAt: toOptionalString(raw.updatedAt),
+    trackingToken: toOptionalString(raw.trackingToken),
+  };
+};
+
+export const parseOrderList = (value: unknown): Order[] => parseList(value, parseOrder, 'order');
+
+export const parseOrderMove = (value: unknown): OrderMove => {
+  const raw = asRecord(value, 'order move');
+  const items = Array.isArray(raw.items) ? raw.items.filter(isRecord) : [];
+
+  return {
+    id: toId(raw.id, 'order move'),
+    kind: raw.kind === 'items' ? 'items' : 'order',
+    orderId: toId(raw.orderId, 'order move'),
+    fromTableId: toId(raw.fromTableId, 'order move'),
+    toTableId: toId(raw.toTableId, 'order move'),
+    targetOrderId: toOptionalNumber(raw.targetOrderId),
+    items: items.map(item => ({
+      menuId: toNumber(item.menuId),
+      menuName: toString(item.menuName, `Menu #${toNumber(item.menuId)}`),
+      quantity: toNumber(item.quantity),
+    })),
+    reason: toOptionalString(raw.reason),
+    movedBy: toOptionalString(raw.movedBy),
+    movedAt: toString(raw.movedAt),
+  };
+};
+
+export const parseOrderMoveList = (value: unknown): OrderMove[] => parseList(value, parseOrderMove, 'order move');
+
+export const parseOrderItemsMoveResult = (value: unknown): OrderItemsMoveResult => {
+  const raw = asRecord(value, 'order items move');
+  return { source: parseOrder(raw.source), target: parseOrder(raw.target) };
+};
+
+const parseOrderHistoryItem = (value: unknown): OrderHistoryItem => {
+  const raw = asRecord(value, 'order history item');
+  const menuId = toNumber(raw.menuId);
+  const menu = isRecord(raw.menu) ? raw.menu : undefined;
+
+  return {
+    menuId,
+    menuName: toString(raw.menuName ?? menu?.name, `Menu #${menuId}`),
+    quantity: toNumber(raw.quantity),
+    price: toAmount(raw.price),
+    customizations: toCustomizations(raw.customizations),
+    notes: toOptionalString(raw.notes),
+  };
+};
+
+export const parseOrderHistory = (value: unknown): OrderHistory => {
+  const raw = asRecord(value, 'order history');
+  const createdAt = toOptionalString(raw.createdAt);
+  const completedAt = toOptionalString(raw.completedAt) ?? toOptionalString(raw.updatedAt) ?? createdAt;
+  const orderDate = toOptionalString(raw.orderDate) ?? completedAt?.slice(0, 10);
+  if (!orderDate || !completedAt) throw invalidResponse('order history', value);
+
+  return {
+    id: toId(raw.id, 'order history'),
+    orderId: toNumber(raw.orderId ?? raw.id),
+    dailyOrderId: toNumber(raw.dailyOrderId),
+    orderDate,
+    tableId: toNumber(raw.tableId),
+    tableCode: toString(raw.tableCode),
+    tableName: toString(raw.tableName),
+    totalPrice: toAmount(raw.totalPrice),
+    discounts: toDiscounts(raw.discounts),
+    items: parseList(raw.items ?? [], parseOrderHistoryItem, 'order history item'),
+    // Only completed orders are archived, so a missing status means completed
+    status: toOrderStatus(raw.status, OrderStatus.COMPLETED),
+    completedAt,
+    createdAt: createdAt ?? completedAt,
+    updatedAt: toOptionalString(raw.updatedAt) ?? completedAt,
+  };
+};
+
+export const parseOrderHistoryList = (value: unknown): OrderHistory[] =>
+  parseList(value, parseOrderHistory, 'order history');
+
+const TABLE_SHAPES: TableShape[] = ['square', 'rectangle', 'round'];
+
+const toTableStatus = (value: unknown): TableStatus => {
+  const status = toString(value).toLowerCase();
+  return (Object.values(TableStatus) as string[]).includes(status) ? (status as TableStatus) : TableStatus.AVAILABLE;
+};
+
+const toTableStatusSource = (value: unknown): TableStatusSource | undefined =>
+  value === 'auto' || value === 'manual' ? value : undefined;
+
+export const parseTable = (value: unknown): Table => {
+  const raw = asRecord(value, 'table');
+
+  return {
+    id: toId(raw.id, 'table'),
+    name: toString(raw.name),
+    code: toString(raw.code),
+    capacity: toNumber(raw.capacity),
+    status: toTableStatus(raw.status),
+    statusSource: toTableStatusSource(raw.statusSource),
+    statusChangedAt: toOptionalString(raw.statusChangedAt),
+    qrToken: toOptionalString(raw.qrToken),
+    area: toOptionalString(raw.area),
+    position: isRecord(raw.position) && raw.position.x !== undefined && raw.position.y !== undefined
+      ? { x: toNumber(raw.position.x), y: toNumber(raw.position.y) }
+      : undefined,
+    shape: TABLE_SHAPES.includes(raw.shape as TableShape) ? (raw.shape as TableShape) : undefined,
+    rotation: toOptionalNumber(raw.rotation),
+  };
+};
+
+export const parseTableList = (value: unknown): Table[] => parseList(value, parseTable, 'table');
+
+export const parseTableStatusChange = (value: unknown): TableStatusChange => {
+  const raw = asRecord(value, 'table status change');
+
+  return {
+    id: toId(raw.id, 'table status change'),
+    tableId: toId(raw.tableId, 'table status change'),
+    from: toTableStatus(raw.from),
+    to: toTableStatus(raw.to),
+    source: toTableStatusSource(raw.source) ?? 'manual',
+    reason: toOptionalString(raw.reason),
+    changedBy: toOptionalString(raw.changedBy),
+    changedAt: toString(raw.changedAt),
+  };
+};
+
+export const parseTableStatusChangeList = (value: unknown): TableStatusChange[] =>
+  parseList(value, parseTableStatusChange, 'table status change');
+
+export const parseTableGroup = (value: unknown): TableGroup => {
+  const raw = asRecord(value, 'table group');
+  const tableIds = toNumberList(raw.tableIds);
+  if (tableIds.length === 0) throw invalidResponse('table group', value);
+
+  return {
+    id: toId(raw.id, 'table group'),
+    name: toOptionalString(raw.name),
+    tableIds,
+    primaryTableId: toNumber(raw.primaryTableId, tableIds[0]),
+    createdAt: toString(raw.createdAt),
+  };
+};
+
+export const parseTableGroupList = (value: unknown): TableGroup[] => parseList(value, parseTableGroup, 'table group');
+
+export const parseTableLifecycleRunner = (value: unknown): TableLifecycleRunner => {
+  const raw = asRecord(value, 'table lifecycle runner');
+  const deviceId = toString(raw.deviceId);
+  const lastSeenAt = toOptionalString(raw.lastSeenAt);
+  if (!deviceId || !lastSeenAt) throw invalidResponse('table lifecycle runner', value);
+
+  return { deviceId, deviceName: toOptionalString(raw.deviceName) ?? deviceId, lastSeenAt };
+};
+
+export const parseReservation = (value: unknown): Reservation => {
+  const raw = asRecord(value, 'reservation');
+  const status = toString(raw.status).toUpperCase();
+  const startTime = toString(raw.startTime);
+  const endTime = toString(raw.endTime);
+  // Without a valid slot a reservation cannot be placed or checked for conflicts
+  if (Number.isNaN(Date.parse(startTime)) || Number.isNaN(Date.parse(endTime))) {
+    throw invalidResponse('reservation', value);
+  }
+
+  return {
+    id: toId(raw.id, 'reservation'),
+    tableId: toId(raw.tableId, 'reservation'),
+    guestName: toString(raw.guestName),
+    phone: toOptionalString(raw.phone),
+    partySize: toNumber(raw.partySize, 1),
+    startTime,
+    endTime,
+    status: (Object.values(ReservationStatus) as string[]).includes(status)
+      ? (status as ReservationStatus)
+      : ReservationStatus.BOOKED,
+    notes: toOptionalString(raw.notes),
+    createdAt: toOptionalString(raw.createdAt),
+  };
+};
+
+export const parseReservationList = (value: unknown): Reservation[] =>
+  parseList(value, parseReservation, 'reservation');
+
+export const parseWaitlistEntry = (value: unknown): WaitlistEntry => {
+  const raw = asRecord(value, 'waitlist entry');
+  const status = toString(raw.status).toUpperCase();
+
+  return {
+    id: toId(raw.id, 'waitlist entry'),
+    guestName: toString(raw.guestName),
+    phone: toOptionalString(raw.phone),
+    partySize: toNumber(raw.partySize, 1),
+    status: (Object.values(WaitlistStatus) as string[]).includes(status)
+      ? (status as WaitlistStatus)
+      : WaitlistStatus.WAITING,
+    notes: toOptionalString(raw.notes),
+    tableId: raw.tableId === null || raw.tableId === undefined ? undefined : toId(raw.tableId, 'waitlist entry'),
+    createdAt: toString(raw.createdAt),
+    seatedAt: toOptionalString(raw.seatedAt),
+  };
+};
+
+export const parseWaitlist = (value: unknown): WaitlistEntry[] => parseList(value, parseWaitlistEntry, 'waitlist entry');
+
+export const parseServiceRequest = (value: unknown): ServiceRequest => {
+  const raw = asRecord(value, 'service request');
+  const type = toString(raw.type).toUpperCase();
+  const status = toString(raw.status).toUpperCase();
+  const createdAt = toOptionalString(raw.createdAt);
+  // Waiting and response times are measured from createdAt
+  if (!createdAt) throw invalidResponse('service request', value);
+
+  return {
+    id: toId(raw.id, 'service request'),
+    tableId: toId(raw.tableId, 'service request'),
+    type: (Object.values(ServiceRequestType) as string[]).includes(type)
+      ? (type as ServiceRequestType)
+      : ServiceRequestType.CUSTOM,
+    status: (Object.values(ServiceRequestStatus) as string[]).includes(status)
+      ? (status as ServiceRequestStatus)
+      : ServiceRequestStatus.OPEN,
+    message: toOptionalString(raw.message),
+    createdAt,
+    acknowledgedAt: toOptionalString(raw.acknowledgedAt),
+    acknowledgedBy: toOptionalString(raw.acknowledgedBy),
+    resolvedAt: toOptionalString(raw.resolvedAt),
+    resolvedBy: toOptionalString(raw.resolvedBy),
+  };
+};
+
+export const parseServiceRequestList = (value: unknown): ServiceRequest[] =>
+  parseList(value, parseServiceRequest, 'service request');
+
+const parseSchedule = (value: unknown): PromotionSchedule | undefined => {
+  if (!isRecord(value)) return undefined;
+  const daysOfWeek = toNumberList(value.daysOfWeek).filter(day => day >= 0 && day <= 6);
+
+  return {
+    daysOfWeek: daysOfWeek.length > 0 ? daysOfWeek : undefined,
+    startTime: toOptionalString(value.startTime),
+    endTime: toOptionalString(value.endTime),
+    startDate: toOptionalString(value.startDate)?.slice(0, 10),
+    endDate: toOptionalString(value.endDate)?.slice(0, 10),
+  };
+};
+
+export const parsePromotion = (value: unknown): Promotion => {
+  const raw = asRecord(value, 'promotion');
+  const type = toString(raw.type).toUpperCase();
+
+  return {
+    id: toId(raw.id, 'promotion'),
+    name: toString(raw.name),
+    type: (Object.values(PromotionType) as string[]).includes(type) ? (type as PromotionType) : PromotionType.PRICE_RULE,
+    isActive: toBoolean(raw.isActive, true),
+    discountType: raw.discountType === 'amount' ? 'amount' : 'percent',
+    discountValue: toNumber(raw.discountValue),
+    menuIds: toNumberList(raw.menuIds),
+    categories: toStringList(raw.categories),
+    schedule: parseSchedule(raw.schedule),
+    code: toOptionalString(raw.code),
+    minSubtotal: toOptionalAmount(raw.minSubtotal),
+    usageLimit: toOptionalNumber(raw.usageLimit),
+    usageCount: toNumber(raw.usageCount),
+    buyQuantity: toOptionalNumber(raw.buyQuantity),
+    rewardMenuId: toOptionalNumber(raw.rewardMenuId),
+    rewardQuantity: toOptionalNumber(raw.rewardQuantity),
+  };
+};
+
+export const parsePromotionList = (value: unknown): Promotion[] => parseList(value, parsePromotion, 'promotion');
+
+const parsePaymentAllocation = (value: unknown): PaymentAllocation => {
+  const raw = asRecord(value, 'payment allocation');
+  return {
+    orderId: toId(raw.orderId, 'payment allocation'),
+    amount: toAmount(raw.amount),
+    itemIndexes: Array.isArray(raw.itemIndexes) ? toNumberList(raw.itemIndexes) : undefined,
+  };
+};
+
+// Money records are not guessed at: an unknown method or a missing
+// allocation would put the wrong orders on the bill
+export const parsePayment = (value: unknown): Payment => {
+  const raw = asRecord(value, 'payment');
+  const method = toString(raw.method).toUpperCase();
+  const id = toString(raw.id);
+  const createdAt = toOptionalString(raw.createdAt);
+  if (!id || !createdAt || !(Object.values(PaymentMethod) as string[]).includes(method) || !Array.isArray(raw.allocations)) {
+    throw invalidResponse('payment', value);
+  }
+
+  return {
+    id,
+    tableId: toId(raw.tableId, 'payment'),
+    method: method as PaymentMethod,
+    amount: toAmount(raw.amount),
+    allocations: raw.allocations.map(parsePaymentAllocation),
+    tendered: toOptionalAmount(raw.tendered),
+    payerLabel: toOptionalString(raw.payerLabel),
+    provider: toString(raw.provider, 'http'),
+    reference: toOptionalString(raw.reference),
+    change: toAmount(raw.change),
+    createdAt,
+  };
+};
+
+export const parsePaymentList = (value: unknown): Payment[] => parseList(value, parsePayment, 'payment');
+
+export const parseUploadResponse = (value: unknown): UploadResponse => {
+  const raw = asRecord(value, 'upload');
+  const url = toOptionalString(raw.url) ?? toOptionalString(raw.imageUrl) ?? toOptionalString(raw.path);
+  if (!url) throw invalidResponse('upload', value);
+
+  return {
+    url,
+    filename: toString(raw.filename, url.split('/').pop() || url),
+  };
+};
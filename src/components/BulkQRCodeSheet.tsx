@@ -0,0 +1,316 @@
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import QRCode from 'react-qr-code';
+import Button from './Button';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FaPrint, FaFileArchive, FaExclamationTriangle } from 'react-icons/fa';
+import type { Table } from '../types';
+import { getTableQrValue } from '../types';
+import type { QrSheetLayout, TableQrCode, QrSheetAssets } from '../utils/qrSheet';
+import {
+  DEFAULT_QR_SHEET_LAYOUT,
+  QR_SIZE_MIN,
+  QR_SIZE_MAX,
+  RESTAURANT_NAME,
+  buildPrintSheetHtml,
+  buildQrZip,
+  buildTableOrderUrl,
+  buildTableQrSvg,
+  clampQrSize,
+  loadLogoDataUrl,
+} from '../utils/qrSheet';
+
+interface BulkQRCodeSheetProps {
+  tables: Table[];
+}
+
+const LAYOUT_STORAGE_KEY = 'qrSheetLayout';
+
+const loadLayout = (): QrSheetLayout => {
+  try {
+    const stored = localStorage.getItem(LAYOUT_STORAGE_KEY);
+    if (!stored) return DEFAULT_QR_SHEET_LAYOUT;
+    const parsed = { ...DEFAULT_QR_SHEET_LAYOUT, ...JSON.parse(stored) };
+    return { ...parsed, qrSize: clampQrSize(Number(parsed.qrSize)), wifiNote: String(parsed.wifiNote ?? '') };
+  } catch (error) {
+    console.error('Failed to parse QR sheet layout from localStorage:', error);
+    return DEFAULT_QR_SHEET_LAYOUT;
+  }
+};
+
+const BulkQRCodeSheet: React.FC<BulkQRCodeSheetProps> = ({ tables }) => {
+  const [layout, setLayout] = useState<QrSheetLayout>(loadLayout);
+  const [logoDataUrl, setLogoDataUrl] = useState<string | undefined>(undefined);
+  const [previewSvg, setPreviewSvg] = useState<string | null>(null);
+  const [busyAction, setBusyAction] = useState<'print' | 'zip' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showSuccess, setShowSuccess] = useState<string | null>(null);
+  // Hidden QR codes rendered by react-qr-code, serialized for the exports
+  const qrContainerRef = useRef<HTMLDivElement>(null);
+
+  const baseUrl = window.location.origin;
+  const printableTables = useMemo(() => tables.filter(table => getTableQrValue(table)), [tables]);
+  const skippedTables = tables.filter(table => !getTableQrValue(table));
+
+  useEffect(() => {
+    loadLogoDataUrl().then(setLogoDataUrl);
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(LAYOUT_STORAGE_KEY, JSON.stringify(layout));
+  }, [layout]);
+
+  const assets = useMemo<QrSheetAssets>(() => ({ restaurantName: RESTAURANT_NAME, logoDataUrl }), [logoDataUrl]);
+
+  const collectQrCodes = useCallback((): TableQrCode[] => {
+    const container = qrContainerRef.current;
+    if (!container) return [];
+
+    return printableTables.flatMap(table => {
+      const svg = container.querySelector(`[data-table-id="${table.id}"] svg`);
+      return svg ? [{ table, qrSvg: new XMLSerializer().serializeToString(svg) }] : [];
+    });
+  }, [printableTables]);
+
+  // Preview the first selected table with the current layout
+  useEffect(() => {
+    const [first] = collectQrCodes();
+    setPreviewSvg(first ? buildTableQrSvg(first, layout, assets) : null);
+  }, [collectQrCodes, layout, assets]);
+
+  const updateLayout = (patch: Partial<QrSheetLayout>) => {
+    setLayout(prev => ({ ...prev, ...patch }));
+  };
+
+  const flashSuccess = (message: string) => {
+    setShowSuccess(message);
+    setTimeout(() => setShowSuccess(null), 3000);
+  };
+
+  const handlePrint = () => {
+    setError(null);
+    setShowSuccess(null);
+
+    const items = collectQrCodes();
+    if (items.length === 0) {
+      setError('No QR codes to print');
+      return;
+    }
+
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      setError('Could not open print window. Please check your popup blocker settings.');
+      return;
+    }
+
+    setBusyAction('print');
+    try {
+      printWindow.document.open();
+      printWindow.document.write(buildPrintSheetHtml(items, layout, assets));
+      printWindow.document.close();
+
+      setTimeout(() => {
+        printWindow.print();
+        setBusyAction(null);
+        flashSuccess(`${items.length} QR code(s) sent to printer!`);
+      }, 500);
+    } catch (err) {
+      setError('Error printing QR codes');
+      console.error('Error during bulk print:', err);
+      setBusyAction(null);
+    }
+  };
+
+  const handleDownloadZip = async () => {
+    setError(null);
+    setShowSuccess(null);
+
+    const items = collectQrCodes();
+    if (items.length === 0) {
+      setError('No QR codes to download');
+      return;
+    }
+
+    setBusyAction('zip');
+    try {
+      const blob = await buildQrZip(items, layout, assets);
+      const url = URL.createObjectURL(blob);
+      const downloadLink = document.createElement('a');
+      downloadLink.href = url;
+      downloadLink.download = `qr-codes-${layout.template}.zip`;
+      document.body.appendChild(downloadLink);
+      downloadLink.click();
+      document.body.removeChild(downloadLink);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+      flashSuccess(`${items.length} QR code(s) downloaded!`);
+    } catch (err) {
+      setError('Error generating ZIP file');
+      console.error('Error during bulk download:', err);
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const inputClasses =
+    'w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm text-gray-800 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <div className="space-y-5">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        {printableTables.length} table(s) selected. Cards are laid out on A4 pages; table tents print one per page
+        and fold along the dashed line.
+      </p>
+
+      {skippedTables.length > 0 && (
+        <div className="flex items-start gap-2 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800/50 rounded-xl p-3 text-sm text-amber-800 dark:text-amber-300">
+          <FaExclamationTriangle className="mt-0.5 flex-none" />
+          <span>
+            Skipped (no QR token yet): {skippedTables.map(table => table.name).join(', ')}
+          </span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Template</label>
+            <div className="flex gap-2">
+              {(['sheet', 'tent'] as const).map(template => (
+                <button
+                  key={template}
+                  type="button"
+                  onClick={() => updateLayout({ template })}
+                  className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                    layout.template === template
+                      ? 'bg-primary-500 border-primary-500 text-white'
+                      : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  {template === 'sheet' ? 'Multi-up sheet' : 'Table tent'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="qr-size" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              QR size: {layout.qrSize} mm
+            </label>
+            <input
+              id="qr-size"
+              type="range"
+              min={QR_SIZE_MIN}
+              max={QR_SIZE_MAX}
+              step={5}
+              value={layout.qrSize}
+              onChange={e => updateLayout({ qrSize: clampQrSize(Number(e.target.value)) })}
+              className="w-full accent-primary-500"
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={layout.showTableName}
+              onChange={e => updateLayout({ showTableName: e.target.checked })}
+              className="rounded text-primary-500 focus:ring-primary-500"
+            />
+            Show table name
+          </label>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={layout.showLogo}
+              onChange={e => updateLayout({ showLogo: e.target.checked })}
+              className="rounded text-primary-500 focus:ring-primary-500"
+            />
+            Show restaurant logo
+          </label>
+
+          <div>
+            <label htmlFor="wifi-note" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Wi-Fi note
+            </label>
+            <input
+              id="wifi-note"
+              type="text"
+              value={layout.wifiNote}
+              maxLength={60}
+              placeholder="WiFi: KedaiMatmoen / pass: makanenak"
+              onChange={e => updateLayout({ wifiNote: e.target.value })}
+              className={inputClasses}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-center bg-gray-100 dark:bg-gray-900/40 rounded-xl p-4 min-h-[240px]">
+          {previewSvg ? (
+            <img
+              src={'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(previewSvg)}
+              alt="QR code preview"
+              className="max-h-80 w-auto shadow-md bg-white"
+            />
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center">No table with a QR token selected</p>
+          )}
+        </div>
+      </div>
+
+      <AnimatePresence>
+        {(showSuccess || error) && (
+          <motion.div
+            className={`p-2 rounded-lg text-center text-sm ${
+              error
+                ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400'
+                : 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400'
+            }`}
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+          >
+            {error || showSuccess}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <Button
+          variant="primary"
+          onClick={handlePrint}
+          isLoading={busyAction === 'print'}
+          disabled={printableTables.length === 0 || busyAction !== null}
+          className="flex-1 flex items-center justify-center gap-2 py-2.5 rounded-xl"
+          iconLeft={<FaPrint />}
+        >
+          Print A4
+        </Button>
+        <Button
+          variant="secondary"
+          onClick={handleDownloadZip}
+          isLoading={busyAction === 'zip'}
+          disabled={printableTables.length === 0 || busyAction !== null}
+          className="flex-1 flex items-center justify-center gap-2 py-2.5 rounded-xl"
+          iconLeft={<FaFileArchive />}
+        >
+          Download ZIP (PNG + SVG)
+        </Button>
+      </div>
+
+      <div ref={qrContainerRef} className="hidden" aria-hidden="true">
+        {printableTables.map(table => (
+          <div key={table.id} data-table-id={table.id}>
+            <QRCode
+              value={buildTableOrderUrl(baseUrl, getTableQrValue(table)) || ''}
+              size={256}
+              bgColor="#FFFFFF"
+              fgColor="#000000"
+              level="H"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BulkQRCodeSheet;
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import type { CartItem } from '../types';
 import { formatCurrency } from '../utils/format';
 import Button from './Button';
+import PriceBreakdownSummary from './PriceBreakdownSummary';
 import { useCartStore } from '../store';
 import { motion, AnimatePresence } from 'framer-motion';
 import { FaPlus, FaMinus, FaTrash, FaTimes, FaShoppingCart } from 'react-icons/fa';
@@ -13,7 +14,8 @@ interface CartProps {
 }
 
 const Cart: React.FC<CartProps> = ({ isOpen, onClose, onSubmitOrder }) => {
-  const { cart, updateQuantity, removeFromCart, getTotal } = useCartStore();
+  const { cart, updateQuantity, removeFromCart, getBreakdown } = useCartStore();
+  const breakdown = getBreakdown();
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const handleSubmitOrder = async () => {
@@ -96,7 +98,7 @@ const Cart: React.FC<CartProps> = ({ isOpen, onClose, onSubmitOrder }) => {
                   >
                     {cart.items.map((item) => (
                       <CartItemRow
-                        key={item.menuId}
+                        key={item.lineId}
                         item={item}
                         onUpdateQuantity={updateQuantity}
                         onRemove={removeFromCart}
@@ -108,6 +110,7 @@ const Cart: React.FC<CartProps> = ({ isOpen, onClose, onSubmitOrder }) => {
             </div>
 
             <div className="p-4 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800">
+              <PriceBreakdownSummary breakdown={breakdown} compact hideTotal className="mb-2" />
               <motion.div 
                 className="flex justify-between items-center mb-4"
                 initial={{ opacity: 0, y: 10 }}
@@ -117,12 +120,12 @@ const Cart: React.FC<CartProps> = ({ isOpen, onClose, onSubmitOrder }) => {
                 <span className="font-semibold text-gray-800 dark:text-gray-200">Total:</span>
                 <motion.span 
                   className="text-xl font-bold text-gray-900 dark:text-gray-100"
-                  key={getTotal()}
+                  key={breakdown.total}
                   initial={{ scale: 1.2 }}
                   animate={{ scale: 1 }}
                   transition={{ type: "spring", stiffness: 500 }}
                 >
-                  {formatCurrency(getTotal())}
+                  {formatCurrency(breakdown.total)}
                 </motion.span>
               </motion.div>
 
@@ -159,8 +162,8 @@ const Cart: React.FC<CartProps> = ({ isOpen, onClose, onSubmitOrder }) => {
 
 interface CartItemRowProps {
   item: CartItem;
-  onUpdateQuantity: (menuId: number, quantity: number) => void;
-  onRemove: (menuId: number) => void;
+  onUpdateQuantity: (lineId: string, quantity: number) => void;
+  onRemove: (lineId: string) => void;
 }
 
 const CartItemRow: React.FC<CartItemRowProps> = ({
@@ -170,7 +173,7 @@ const CartItemRow: React.FC<CartItemRowProps> = ({
 }) => {
   const handleQuantityChange = (newQuantity: number) => {
     if (newQuantity >= 1) {
-      onUpdateQuantity(item.menuId, newQuantity);
+      onUpdateQuantity(item.lineId, newQuantity);
     }
   };
 
@@ -225,7 +228,7 @@ const CartItemRow: React.FC<CartItemRowProps> = ({
         
         <motion.button
           className="text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 bg-white dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 p-1.5 rounded-full"
-          onClick={() => onRemove(item.menuId)}
+          onClick={() => onRemove(item.lineId)}
           whileHover={{ scale: 1.1 }}
           whileTap={{ scale: 0.9 }}
           aria-label="Remove item"
@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { FaShoppingCart, FaTimes, FaArrowRight, FaShoppingBag, FaCheck } from 'react-icons/fa';
+import { FaShoppingCart, FaTimes, FaArrowRight, FaShoppingBag, FaCheck, FaTrash } from 'react-icons/fa';
 import { useCartStore } from '../store';
 import Button from './Button';
+import OrderItemDetails from './OrderItemDetails';
+import PriceBreakdownSummary from './PriceBreakdownSummary';
 import { formatCurrency } from '../utils/format';
 
 interface CartOverlayProps {
@@ -16,7 +18,7 @@ const CartOverlay: React.FC<CartOverlayProps> = ({
   isCartOpen, 
   setIsCartOpen 
 }) => {
-  const { cart } = useCartStore();
+  const { cart, removeFromCart, getBreakdown } = useCartStore();
   const [showBadgeAnimation, setShowBadgeAnimation] = useState(false);
   const [prevItemsCount, setPrevItemsCount] = useState(0);
   const [showPulse, setShowPulse] = useState(false);
@@ -40,7 +42,7 @@ const CartOverlay: React.FC<CartOverlayProps> = ({
   }, [cart.items, prevItemsCount]);
   
   const totalItems = cart.items.reduce((acc, item) => acc + item.quantity, 0);
-  const totalPrice = cart.items.reduce((acc, item) => acc + (item.price * item.quantity), 0);
+  const breakdown = getBreakdown();
   
   // Don't show if cart is empty
   if (totalItems === 0) return null;
@@ -111,7 +113,7 @@ const CartOverlay: React.FC<CartOverlayProps> = ({
               transition={{ delay: 0.2 }}
             >
               <div className="flex items-center gap-2">
-                <span className="font-semibold">{formatCurrency(totalPrice)}</span>
+                <span className="font-semibold">{formatCurrency(breakdown.total)}</span>
                 <div className="w-2 h-2 bg-primary-500 rounded-full animate-pulse"></div>
               </div>
               <div className="absolute bottom-0 left-1/2 transform -translate-x-1/2 translate-y-1/2 rotate-45 w-3 h-3 bg-white dark:bg-gray-800 border-r border-b border-gray-100 dark:border-gray-700"></div>
@@ -166,16 +168,35 @@ const CartOverlay: React.FC<CartOverlayProps> = ({
               <div className="p-5 max-h-[60vh] overflow-y-auto">
                 {cart.items.length > 0 ? (
                   <div className="space-y-5">
+                    {/* One row per cart line, so customized variants stay separate */}
+                    <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                      {cart.items.map(item => (
+                        <li key={item.lineId} className="py-2 flex items-start justify-between gap-3">
+                          <div className="flex-1">
+                            <p className="text-sm font-medium text-gray-800 dark:text-gray-200">{item.name}</p>
+                            <OrderItemDetails customizations={item.customizations} notes={item.notes} menu={item.menu} />
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm text-gray-600 dark:text-gray-400">× {item.quantity}</span>
+                            <button
+                              onClick={() => removeFromCart(item.lineId)}
+                              className="text-gray-400 hover:text-red-500 transition-colors"
+                              aria-label={`Remove ${item.name}`}
+                            >
+                              <FaTrash size={12} />
+                            </button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                    
                     {/* Quick summary of items */}
                     <div className="bg-gray-50 dark:bg-gray-700/30 rounded-lg p-4 border border-gray-100 dark:border-gray-700">
                       <div className="flex justify-between mb-3">
                         <span className="text-gray-500 dark:text-gray-400">Total Items:</span>
                         <span className="font-medium text-gray-800 dark:text-gray-200">{totalItems}</span>
                       </div>
-                      <div className="flex justify-between">
-                        <span className="text-gray-500 dark:text-gray-400">Subtotal:</span>
-                        <span className="font-bold text-primary-600 dark:text-primary-400 text-lg">{formatCurrency(totalPrice)}</span>
-                      </div>
+                      <PriceBreakdownSummary breakdown={breakdown} compact />
                     </div>
                     
                     {/* Checkout button */}
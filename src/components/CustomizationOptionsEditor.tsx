@@ -0,0 +1,327 @@
+import React from 'react';
+import type { MenuCustomizationOption } from '../types';
+import {
+  createEmptyChoice,
+  createEmptyOption,
+  moveItem,
+  type CustomizationChoice,
+} from '../utils/menuCustomization';
+import { FaArrowDown, FaArrowUp, FaPlus, FaTrash } from 'react-icons/fa';
+
+interface CustomizationOptionsEditorProps {
+  value: MenuCustomizationOption[];
+  onChange: (options: MenuCustomizationOption[]) => void;
+  problems?: string[];
+}
+
+const inputClass = 'w-full p-2 border border-gray-300 rounded-md text-sm';
+const iconButtonClass = 'p-1.5 rounded text-gray-500 hover:text-gray-800 hover:bg-gray-100 disabled:opacity-30 disabled:cursor-not-allowed';
+
+/**
+ * Nested editor for a menu's customization option groups and their choices.
+ * Fully controlled: every change produces a new options array via onChange.
+ */
+const CustomizationOptionsEditor: React.FC<CustomizationOptionsEditorProps> = ({
+  value,
+  onChange,
+  problems = [],
+}) => {
+  const updateOption = (index: number, patch: Partial<MenuCustomizationOption>) => {
+    onChange(value.map((option, i) => (i === index ? { ...option, ...patch } : option)));
+  };
+
+  const updateChoice = (optionIndex: number, choiceIndex: number, patch: Partial<CustomizationChoice>) => {
+    const option = value[optionIndex];
+    updateOption(optionIndex, {
+      options: option.options.map((choice, i) => (i === choiceIndex ? { ...choice, ...patch } : choice)),
+    });
+  };
+
+  const addOption = () => {
+    onChange([...value, createEmptyOption(value)]);
+  };
+
+  const removeOption = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const addChoice = (optionIndex: number) => {
+    const option = value[optionIndex];
+    updateOption(optionIndex, { options: [...option.options, createEmptyChoice(option.options)] });
+  };
+
+  // Empty inputs clear the rule instead of storing 0
+  const parseCount = (input: HTMLInputElement): number | undefined => {
+    return input.value === '' ? undefined : Math.max(0, Math.floor(input.valueAsNumber || 0));
+  };
+
+  const setVisibilityParent = (optionIndex: number, parentId: string) => {
+    updateOption(optionIndex, {
+      visibleWhen: parentId ? { optionId: parentId, selectionIds: [] } : undefined,
+    });
+  };
+
+  const toggleVisibilityChoice = (optionIndex: number, choiceId: string, checked: boolean) => {
+    const condition = value[optionIndex].visibleWhen;
+    if (!condition) return;
+    updateOption(optionIndex, {
+      visibleWhen: {
+        ...condition,
+        selectionIds: checked
+          ? [...condition.selectionIds, choiceId]
+          : condition.selectionIds.filter(id => id !== choiceId),
+      },
+    });
+  };
+
+  const removeChoice = (optionIndex: number, choiceIndex: number) => {
+    const option = value[optionIndex];
+    updateOption(optionIndex, { options: option.options.filter((_, i) => i !== choiceIndex) });
+  };
+
+  return (
+    <div className="space-y-4">
+      {value.length === 0 && (
+        <p className="text-sm text-gray-500 italic">
+          No customization options. Customers will add this item directly to their cart.
+        </p>
+      )}
+
+      {value.map((option, optionIndex) => (
+        <div key={optionIndex} className="border border-gray-200 rounded-lg p-3 bg-gray-50">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-semibold text-gray-500 uppercase tracking-wider">
+              Option group {optionIndex + 1}
+            </span>
+            <div className="flex items-center gap-1">
+              <button
+                type="button"
+                className={iconButtonClass}
+                onClick={() => onChange(moveItem(value, optionIndex, -1))}
+                disabled={optionIndex === 0}
+                aria-label="Move option group up"
+              >
+                <FaArrowUp size={12} />
+              </button>
+              <button
+                type="button"
+                className={iconButtonClass}
+                onClick={() => onChange(moveItem(value, optionIndex, 1))}
+                disabled={optionIndex === value.length - 1}
+                aria-label="Move option group down"
+              >
+                <FaArrowDown size={12} />
+              </button>
+              <button
+                type="button"
+                className="p-1.5 rounded text-red-500 hover:bg-red-50"
+                onClick={() => removeOption(optionIndex)}
+                aria-label="Delete option group"
+              >
+                <FaTrash size={12} />
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 mb-2">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Name *</label>
+              <input
+                type="text"
+                className={inputClass}
+                value={option.name}
+                placeholder="e.g. Spice Level"
+                onChange={(e) => updateOption(optionIndex, { name: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Id *</label>
+              <input
+                type="text"
+                className={inputClass}
+                value={option.id}
+                placeholder="e.g. spice-level"
+                onChange={(e) => updateOption(optionIndex, { id: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Type</label>
+              <select
+                className={inputClass}
+                value={option.type}
+                onChange={(e) => updateOption(optionIndex, { type: e.target.value as MenuCustomizationOption['type'] })}
+              >
+                <option value="radio">Radio (pick one)</option>
+                <option value="select">Dropdown (pick one)</option>
+                <option value="checkbox">Checkbox (pick many)</option>
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 mt-5">
+              <input
+                type="checkbox"
+                checked={option.required}
+                onChange={(e) => updateOption(optionIndex, { required: e.target.checked })}
+              />
+              Required
+            </label>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 mb-2">
+            {option.type === 'checkbox' && (
+              <>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Min picks</label>
+                  <input
+                    type="number"
+                    min={0}
+                    className={inputClass}
+                    value={option.minSelections ?? ''}
+                    placeholder={option.required ? '1' : '0'}
+                    onChange={(e) => updateOption(optionIndex, { minSelections: parseCount(e.target) })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Max picks</label>
+                  <input
+                    type="number"
+                    min={1}
+                    className={inputClass}
+                    value={option.maxSelections ?? ''}
+                    placeholder="No limit"
+                    onChange={(e) => updateOption(optionIndex, { maxSelections: parseCount(e.target) })}
+                  />
+                </div>
+              </>
+            )}
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Free picks</label>
+              <input
+                type="number"
+                min={0}
+                className={inputClass}
+                value={option.freeSelections ?? ''}
+                placeholder="0"
+                title="The first N choices picked are not charged"
+                onChange={(e) => updateOption(optionIndex, { freeSelections: parseCount(e.target) })}
+              />
+            </div>
+          </div>
+
+          {optionIndex > 0 && (
+            <div className="mb-2">
+              <label className="block text-xs font-medium text-gray-700 mb-1">Show only when</label>
+              <select
+                className={inputClass}
+                value={option.visibleWhen?.optionId ?? ''}
+                onChange={(e) => setVisibilityParent(optionIndex, e.target.value)}
+              >
+                <option value="">Always show</option>
+                {value.slice(0, optionIndex).map(parent => (
+                  <option key={parent.id} value={parent.id}>
+                    {parent.name || parent.id}
+                  </option>
+                ))}
+              </select>
+              {option.visibleWhen && (
+                <div className="flex flex-wrap gap-3 mt-2">
+                  {value
+                    .find(parent => parent.id === option.visibleWhen?.optionId)
+                    ?.options.map(parentChoice => (
+                      <label key={parentChoice.id} className="flex items-center gap-1 text-xs text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={option.visibleWhen?.selectionIds.includes(parentChoice.id) ?? false}
+                          onChange={(e) => toggleVisibilityChoice(optionIndex, parentChoice.id, e.target.checked)}
+                        />
+                        {parentChoice.name || parentChoice.id}
+                      </label>
+                    ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {option.options.map((choice, choiceIndex) => (
+              <div key={choiceIndex} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  className={inputClass}
+                  value={choice.name}
+                  placeholder="Choice name"
+                  onChange={(e) => updateChoice(optionIndex, choiceIndex, { name: e.target.value })}
+                />
+                <input
+                  type="text"
+                  className={`${inputClass} w-32`}
+                  value={choice.id}
+                  placeholder="id"
+                  onChange={(e) => updateChoice(optionIndex, choiceIndex, { id: e.target.value })}
+                />
+                <input
+                  type="number"
+                  step="500"
+                  className={`${inputClass} w-28`}
+                  value={Number.isFinite(choice.price) ? choice.price : 0}
+                  title="Price delta (IDR), can be negative"
+                  onChange={(e) => updateChoice(optionIndex, choiceIndex, { price: e.target.valueAsNumber || 0 })}
+                />
+                <button
+                  type="button"
+                  className={iconButtonClass}
+                  onClick={() => updateOption(optionIndex, { options: moveItem(option.options, choiceIndex, -1) })}
+                  disabled={choiceIndex === 0}
+                  aria-label="Move choice up"
+                >
+                  <FaArrowUp size={10} />
+                </button>
+                <button
+                  type="button"
+                  className={iconButtonClass}
+                  onClick={() => updateOption(optionIndex, { options: moveItem(option.options, choiceIndex, 1) })}
+                  disabled={choiceIndex === option.options.length - 1}
+                  aria-label="Move choice down"
+                >
+                  <FaArrowDown size={10} />
+                </button>
+                <button
+                  type="button"
+                  className="p-1.5 rounded text-red-500 hover:bg-red-50"
+                  onClick={() => removeChoice(optionIndex, choiceIndex)}
+                  aria-label="Delete choice"
+                >
+                  <FaTrash size={10} />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              className="text-xs text-primary-600 hover:text-primary-700 font-medium flex items-center gap-1"
+              onClick={() => addChoice(optionIndex)}
+            >
+              <FaPlus size={10} /> Add choice
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        className="w-full py-2 border-2 border-dashed border-gray-300 rounded-lg text-sm text-gray-600 hover:border-primary-400 hover:text-primary-600 flex items-center justify-center gap-2"
+        onClick={addOption}
+      >
+        <FaPlus size={12} /> Add option group
+      </button>
+
+      {problems.length > 0 && (
+        <ul className="bg-red-50 border border-red-200 text-red-700 rounded-md p-3 text-xs space-y-1 list-disc list-inside">
+          {problems.map((problem, index) => (
+            <li key={index}>{problem}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CustomizationOptionsEditor;
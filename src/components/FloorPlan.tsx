@@ -0,0 +1,274 @@
+import React, { useRef, useState } from 'react';
+import type { Table, TablePosition, TableShape } from '../types';
+import type { FloorTableColors } from '../utils/floorPlan';
+import {
+  FLOOR_PLAN_GRID,
+  FLOOR_PLAN_HEIGHT,
+  FLOOR_PLAN_WIDTH,
+  clampPosition,
+  getTablePosition,
+  getTableShape,
+  getTableSize,
+  snapToGrid,
+} from '../utils/floorPlan';
+
+interface FloorPlanProps {
+  tables: Table[];
+  getColors: (table: Table) => FloorTableColors;
+  getBadge?: (table: Table) => string | undefined;
+  selectedTableId?: number | null;
+  editable?: boolean;
+  onTableClick?: (table: Table) => void;
+  onTableMove?: (table: Table, position: TablePosition) => void;
+  className?: string;
+}
+
+interface DragState {
+  tableId: number;
+  pointerId: number;
+  offset: TablePosition;
+  moved: boolean;
+}
+
+const CHAIR_SIZE = 14;
+const CHAIR_GAP = 6;
+
+// Chair centres relative to the table centre, before rotation
+const getChairPositions = (shape: TableShape, width: number, height: number, seats: number): TablePosition[] => {
+  if (shape === 'round') {
+    const radius = width / 2 + CHAIR_GAP + CHAIR_SIZE / 2;
+    return Array.from({ length: seats }, (_, i) => {
+      const angle = (2 * Math.PI * i) / seats - Math.PI / 2;
+      return { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius };
+    });
+  }
+
+  // Long tables seat people along both long sides; square tables on all four
+  const sides = shape === 'rectangle' ? [0, 2] : [0, 1, 2, 3];
+  const perSide = sides.map((_, i) => Math.floor(seats / sides.length) + (i < seats % sides.length ? 1 : 0));
+  const offset = CHAIR_GAP + CHAIR_SIZE / 2;
+
+  return sides.flatMap((side, i) => {
+    const count = perSide[i];
+    const horizontal = side % 2 === 0;
+    const length = horizontal ? width : height;
+    return Array.from({ length: count }, (_, j) => {
+      const along = -length / 2 + (length * (j + 1)) / (count + 1);
+      switch (side) {
+        case 0:
+          return { x: along, y: -height / 2 - offset };
+        case 1:
+          return { x: width / 2 + offset, y: along };
+        case 2:
+          return { x: along, y: height / 2 + offset };
+        default:
+          return { x: -width / 2 - offset, y: along };
+      }
+    });
+  });
+};
+
+/**
+ * SVG floor plan. Tables are clickable; when `editable` they can also be
+ * dragged (snapping to the grid) or nudged with the arrow keys.
+ */
+const FloorPlan: React.FC<FloorPlanProps> = ({
+  tables,
+  getColors,
+  getBadge,
+  selectedTableId,
+  editable = false,
+  onTableClick,
+  onTableMove,
+  className = '',
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [dragPosition, setDragPosition] = useState<{ tableId: number; position: TablePosition } | null>(null);
+
+  const toPlanPoint = (event: React.PointerEvent): TablePosition | null => {
+    const ctm = svgRef.current?.getScreenCTM();
+    if (!ctm) return null;
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(ctm.inverse());
+    return { x: point.x, y: point.y };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGGElement>, table: Table, position: TablePosition) => {
+    if (!editable || event.button !== 0) return;
+    const point = toPlanPoint(event);
+    if (!point) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = {
+      tableId: table.id,
+      pointerId: event.pointerId,
+      offset: { x: point.x - position.x, y: point.y - position.y },
+      moved: false,
+    };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGGElement>, table: Table) => {
+    const drag = dragRef.current;
+    if (!drag || drag.tableId !== table.id || drag.pointerId !== event.pointerId) return;
+    const point = toPlanPoint(event);
+    if (!point) return;
+
+    const position = clampPosition(
+      { x: snapToGrid(point.x - drag.offset.x), y: snapToGrid(point.y - drag.offset.y) },
+      table
+    );
+    drag.moved = true;
+    setDragPosition({ tableId: table.id, position });
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<SVGGElement>, table: Table) => {
+    const drag = dragRef.current;
+    if (!drag || drag.tableId !== table.id) return;
+    dragRef.current = null;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+
+    if (drag.moved && dragPosition?.tableId === table.id) {
+      onTableMove?.(table, dragPosition.position);
+    } else {
+      onTableClick?.(table);
+    }
+    setDragPosition(null);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent, table: Table, position: TablePosition) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      onTableClick?.(table);
+      return;
+    }
+    if (!editable) return;
+
+    const moves: Record<string, TablePosition> = {
+      ArrowUp: { x: 0, y: -FLOOR_PLAN_GRID },
+      ArrowDown: { x: 0, y: FLOOR_PLAN_GRID },
+      ArrowLeft: { x: -FLOOR_PLAN_GRID, y: 0 },
+      ArrowRight: { x: FLOOR_PLAN_GRID, y: 0 },
+    };
+    const move = moves[event.key];
+    if (!move) return;
+
+    event.preventDefault();
+    onTableMove?.(table, clampPosition({ x: position.x + move.x, y: position.y + move.y }, table));
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${FLOOR_PLAN_WIDTH} ${FLOOR_PLAN_HEIGHT}`}
+      className={`w-full h-auto select-none touch-none ${className}`}
+      role="img"
+      aria-label="Denah meja"
+    >
+      <defs>
+        <pattern id="floor-plan-grid" width={FLOOR_PLAN_GRID} height={FLOOR_PLAN_GRID} patternUnits="userSpaceOnUse">
+          <path d={`M ${FLOOR_PLAN_GRID} 0 L 0 0 0 ${FLOOR_PLAN_GRID}`} fill="none" stroke="#e5e7eb" strokeWidth={1} />
+        </pattern>
+      </defs>
+      <rect
+        width={FLOOR_PLAN_WIDTH}
+        height={FLOOR_PLAN_HEIGHT}
+        rx={16}
+        fill={editable ? 'url(#floor-plan-grid)' : '#f9fafb'}
+        stroke="#d1d5db"
+        strokeWidth={2}
+      />
+
+      {tables.map((table, index) => {
+        const position =
+          dragPosition?.tableId === table.id ? dragPosition.position : getTablePosition(table, index);
+        const shape = getTableShape(table);
+        const { width, height } = getTableSize(table);
+        const colors = getColors(table);
+        const badge = getBadge?.(table);
+        const isSelected = table.id === selectedTableId;
+        const isDragging = dragPosition?.tableId === table.id;
+        const chairs = getChairPositions(shape, width, height, Math.min(Math.max(table.capacity, 1), 12));
+
+        return (
+          <g
+            key={table.id}
+            role="button"
+            tabIndex={0}
+            aria-label={`${table.name}, ${table.capacity} kursi`}
+            className={`outline-none ${editable ? (isDragging ? 'cursor-grabbing' : 'cursor-grab') : 'cursor-pointer'}`}
+            onPointerDown={event => handlePointerDown(event, table, position)}
+            onPointerMove={event => handlePointerMove(event, table)}
+            onPointerUp={event => handlePointerUp(event, table)}
+            onClick={() => !editable && onTableClick?.(table)}
+            onKeyDown={event => handleKeyDown(event, table, position)}
+          >
+            <g transform={`translate(${position.x} ${position.y}) rotate(${table.rotation ?? 0})`}>
+              {chairs.map((chair, i) => (
+                <rect
+                  key={i}
+                  x={chair.x - CHAIR_SIZE / 2}
+                  y={chair.y - CHAIR_SIZE / 2}
+                  width={CHAIR_SIZE}
+                  height={CHAIR_SIZE}
+                  rx={4}
+                  fill="#e5e7eb"
+                  stroke="#9ca3af"
+                />
+              ))}
+              {colors.ring &&
+                (shape === 'round' ? (
+                  <circle r={width / 2 + 5} fill="none" stroke={colors.ring} strokeWidth={4} />
+                ) : (
+                  <rect
+                    x={-width / 2 - 5}
+                    y={-height / 2 - 5}
+                    width={width + 10}
+                    height={height + 10}
+                    rx={12}
+                    fill="none"
+                    stroke={colors.ring}
+                    strokeWidth={4}
+                  />
+                ))}
+              {shape === 'round' ? (
+                <circle
+                  r={width / 2}
+                  fill={colors.fill}
+                  stroke={isSelected ? '#111827' : colors.stroke}
+                  strokeWidth={isSelected ? 3 : 2}
+                  strokeDasharray={isSelected && editable ? '6 4' : undefined}
+                />
+              ) : (
+                <rect
+                  x={-width / 2}
+                  y={-height / 2}
+                  width={width}
+                  height={height}
+                  rx={8}
+                  fill={colors.fill}
+                  stroke={isSelected ? '#111827' : colors.stroke}
+                  strokeWidth={isSelected ? 3 : 2}
+                  strokeDasharray={isSelected && editable ? '6 4' : undefined}
+                />
+              )}
+            </g>
+
+            {/* Labels stay upright whatever the table rotation */}
+            <g transform={`translate(${position.x} ${position.y})`} pointerEvents="none">
+              <text textAnchor="middle" y={badge ? -2 : 4} fontSize={13} fontWeight={700} fill={colors.text}>
+                {table.name}
+              </text>
+              {badge && (
+                <text textAnchor="middle" y={13} fontSize={11} fill={colors.text}>
+                  {badge}
+                </text>
+              )}
+            </g>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default FloorPlan;
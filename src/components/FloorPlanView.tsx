@@ -0,0 +1,431 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { OrderAPI, OrderFeedAPI, TableAPI, applyOrderFeedEvent } from '../api';
+import type { TableLayoutUpdate } from '../api';
+import type { Order, Table, TableShape } from '../types';
+import { useAuthStore } from '../store';
+import { useAlert } from '../contexts/AlertContext';
+import { formatCurrency } from '../utils/format';
+import {
+  ORDER_AGE_LATE,
+  ORDER_AGE_WARNING,
+  TABLE_SHAPE_LABELS,
+  getFloorAreas,
+  getFloorTableColors,
+  getOpenOrdersByTable,
+  getOrderAgeMinutes,
+  getTableArea,
+  getTablePosition,
+  getTableShape,
+} from '../utils/floorPlan';
+import { TABLE_STATUS_LABELS } from '../utils/tableLifecycle';
+import Button from './Button';
+import FloorPlan from './FloorPlan';
+import Modal from './Modal';
+import { FaEdit, FaPlus, FaQrcode, FaRedo, FaSave, FaTimes, FaUndo } from 'react-icons/fa';
+
+interface FloorPlanViewProps {
+  tables: Table[];
+  canEdit: boolean;
+  onTablesSaved: (tables: Table[]) => void;
+  onShowQRCode: (table: Table) => void;
+}
+
+// Full reload as a safety net in case the live feed silently misses events
+const RESYNC_INTERVAL = 60000;
+const ROTATION_STEP = 45;
+
+const toLayout = (table: Table): TableLayoutUpdate => ({
+  id: table.id,
+  area: table.area,
+  position: table.position,
+  shape: table.shape,
+  rotation: table.rotation,
+});
+
+/**
+ * Floor plan of the restaurant. The live view colours tables by status and by
+ * the age of their open orders; edit mode lets managers arrange the tables.
+ */
+const FloorPlanView: React.FC<FloorPlanViewProps> = ({ tables, canEdit, onTablesSaved, onShowQRCode }) => {
+  const { can } = useAuthStore();
+  const { showAlert } = useAlert();
+  const canViewOrders = can('orders:view');
+
+  const [area, setArea] = useState(() => (tables[0] ? getTableArea(tables[0]) : getFloorAreas([])[0]));
+  const [customAreas, setCustomAreas] = useState<string[]>([]);
+  const [newArea, setNewArea] = useState('');
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<Record<number, TableLayoutUpdate>>({});
+  const [selectedTableId, setSelectedTableId] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const [detailTable, setDetailTable] = useState<Table | null>(null);
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      const data = await OrderAPI.getAll();
+      setOrders(Array.isArray(data) ? data : []);
+    } catch (err) {
+      // The plan still works without orders, just without the age rings
+      console.error('FloorPlanView - Failed to load orders:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!canViewOrders) return;
+
+    fetchOrders();
+    const interval = setInterval(fetchOrders, RESYNC_INTERVAL);
+    window.addEventListener('online', fetchOrders);
+
+    const unsubscribe = OrderFeedAPI.subscribe({
+      onEvent: event => setOrders(prevOrders => applyOrderFeedEvent(prevOrders, event)),
+    });
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', fetchOrders);
+      unsubscribe();
+    };
+  }, [canViewOrders, fetchOrders]);
+
+  // Order ages only need minute precision
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const draftTables = useMemo(
+    () => tables.map(table => (draft[table.id] ? { ...table, ...draft[table.id] } : table)),
+    [tables, draft]
+  );
+  const areas = useMemo(() => [...new Set([...getFloorAreas(draftTables), ...customAreas])], [draftTables, customAreas]);
+  const areaTables = draftTables.filter(table => getTableArea(table) === area);
+  const selectedTable = isEditing ? areaTables.find(table => table.id === selectedTableId) ?? null : null;
+  const openOrdersByTable = useMemo(() => getOpenOrdersByTable(orders), [orders]);
+  const changeCount = Object.keys(draft).length;
+
+  const getOldestOrderMinutes = (table: Table): number | undefined => {
+    const openOrders = openOrdersByTable[table.id];
+    if (!openOrders?.length) return undefined;
+    return Math.max(...openOrders.map(order => getOrderAgeMinutes(order, now)));
+  };
+
+  const getColors = (table: Table) => getFloorTableColors(table, isEditing ? undefined : getOldestOrderMinutes(table));
+
+  const getBadge = (table: Table): string | undefined => {
+    if (isEditing) return `${table.capacity} kursi`;
+    const openOrders = openOrdersByTable[table.id];
+    if (!openOrders?.length) return undefined;
+    return `${openOrders.length} pesanan · ${getOldestOrderMinutes(table)}m`;
+  };
+
+  const updateDraft = (table: Table, changes: Partial<Omit<TableLayoutUpdate, 'id'>>) => {
+    setDraft(prev => ({ ...prev, [table.id]: { ...(prev[table.id] ?? toLayout(table)), ...changes } }));
+  };
+
+  // Pin an auto-placed table where it is shown before changing it, so it does
+  // not jump when the tables around it are moved
+  const pinPosition = (table: Table) =>
+    table.position ?? getTablePosition(table, areaTables.findIndex(candidate => candidate.id === table.id));
+
+  const handleTableClick = (table: Table) => {
+    if (isEditing) {
+      setSelectedTableId(table.id);
+    } else {
+      setDetailTable(table);
+    }
+  };
+
+  const handleAddArea = () => {
+    const name = newArea.trim();
+    if (!name) return;
+    if (!areas.includes(name)) setCustomAreas(prev => [...prev, name]);
+    setArea(name);
+    setNewArea('');
+  };
+
+  const handleCancelEdit = () => {
+    setDraft({});
+    setSelectedTableId(null);
+    setIsEditing(false);
+  };
+
+  const handleSave = async () => {
+    if (changeCount === 0) {
+      handleCancelEdit();
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const saved = await TableAPI.saveLayout(Object.values(draft));
+      onTablesSaved(saved);
+      handleCancelEdit();
+      showAlert('Denah meja berhasil disimpan', { type: 'success', duration: 3000 });
+    } catch (err) {
+      console.error('Failed to save floor plan:', err);
+      showAlert(err instanceof Error ? err.message : 'Gagal menyimpan denah meja.', {
+        type: 'warning',
+        duration: 3000,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const detailOrders = detailTable ? openOrdersByTable[detailTable.id] ?? [] : [];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 p-5">
+      {/* Area tabs and mode switch */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3 mb-4">
+        <div className="flex flex-wrap gap-2" role="tablist" aria-label="Area">
+          {areas.map(name => (
+            <button
+              key={name}
+              type="button"
+              role="tab"
+              aria-selected={area === name}
+              onClick={() => {
+                setArea(name);
+                setSelectedTableId(null);
+              }}
+              className={`px-4 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                area === name
+                  ? 'bg-primary-500 text-white shadow'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              {name}
+              <span className="ml-1.5 opacity-75">({draftTables.filter(table => getTableArea(table) === name).length})</span>
+            </button>
+          ))}
+        </div>
+
+        {canEdit &&
+          (isEditing ? (
+            <div className="flex gap-2">
+              <Button variant="secondary" size="sm" onClick={handleCancelEdit} disabled={isSaving} iconLeft={<FaTimes size={12} />}>
+                Batal
+              </Button>
+              <Button variant="primary" size="sm" onClick={handleSave} isLoading={isSaving} iconLeft={<FaSave size={12} />}>
+                Simpan{changeCount > 0 ? ` (${changeCount})` : ''}
+              </Button>
+            </div>
+          ) : (
+            <Button variant="secondary" size="sm" onClick={() => setIsEditing(true)} iconLeft={<FaEdit size={12} />}>
+              Atur denah
+            </Button>
+          ))}
+      </div>
+
+      <div className={`grid gap-4 ${isEditing ? 'lg:grid-cols-[1fr_260px]' : ''}`}>
+        <div className="rounded-lg overflow-hidden">
+          {areaTables.length === 0 && !isEditing ? (
+            <div className="h-64 flex items-center justify-center text-gray-500 dark:text-gray-400 text-sm">
+              Belum ada meja di area {area}.
+            </div>
+          ) : (
+            <FloorPlan
+              tables={areaTables}
+              getColors={getColors}
+              getBadge={getBadge}
+              selectedTableId={isEditing ? selectedTableId : detailTable?.id}
+              editable={isEditing}
+              onTableClick={handleTableClick}
+              onTableMove={(table, position) => {
+                updateDraft(table, { position });
+                setSelectedTableId(table.id);
+              }}
+            />
+          )}
+        </div>
+
+        {isEditing && (
+          <aside className="space-y-4 text-sm">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newArea}
+                onChange={e => setNewArea(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleAddArea()}
+                placeholder="Area baru"
+                className="flex-1 min-w-0 px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+              />
+              <Button variant="secondary" size="sm" onClick={handleAddArea} disabled={!newArea.trim()} iconLeft={<FaPlus size={12} />}>
+                Tambah
+              </Button>
+            </div>
+
+            {selectedTable ? (
+              <div className="space-y-4 p-4 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+                <div>
+                  <h3 className="font-semibold text-gray-800 dark:text-white">{selectedTable.name}</h3>
+                  <p className="text-gray-500 dark:text-gray-400">{selectedTable.capacity} kursi</p>
+                </div>
+
+                <label className="block">
+                  <span className="block mb-1 font-medium text-gray-700 dark:text-gray-300">Area</span>
+                  <select
+                    value={getTableArea(selectedTable)}
+                    onChange={e => {
+                      // Auto-placed in the new area until it is dragged
+                      updateDraft(selectedTable, { area: e.target.value, position: undefined });
+                      setArea(e.target.value);
+                    }}
+                    className="w-full px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+                  >
+                    {areas.map(name => (
+                      <option key={name} value={name}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+
+                <div>
+                  <span className="block mb-1 font-medium text-gray-700 dark:text-gray-300">Bentuk</span>
+                  <div className="flex flex-wrap gap-2">
+                    {(Object.keys(TABLE_SHAPE_LABELS) as TableShape[]).map(shape => (
+                      <Button
+                        key={shape}
+                        size="sm"
+                        variant={getTableShape(selectedTable) === shape ? 'primary' : 'light'}
+                        onClick={() => updateDraft(selectedTable, { shape, position: pinPosition(selectedTable) })}
+                      >
+                        {TABLE_SHAPE_LABELS[shape]}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <span className="block mb-1 font-medium text-gray-700 dark:text-gray-300">
+                    Rotasi ({selectedTable.rotation ?? 0}°)
+                  </span>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="light"
+                      aria-label="Putar ke kiri"
+                      onClick={() =>
+                        updateDraft(selectedTable, {
+                          rotation: ((selectedTable.rotation ?? 0) - ROTATION_STEP + 360) % 360,
+                          position: pinPosition(selectedTable),
+                        })
+                      }
+                    >
+                      <FaUndo size={12} />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="light"
+                      aria-label="Putar ke kanan"
+                      onClick={() =>
+                        updateDraft(selectedTable, {
+                          rotation: ((selectedTable.rotation ?? 0) + ROTATION_STEP) % 360,
+                          position: pinPosition(selectedTable),
+                        })
+                      }
+                    >
+                      <FaRedo size={12} />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <p className="p-4 rounded-lg bg-gray-50 dark:bg-gray-700/50 text-gray-500 dark:text-gray-400">
+                Seret meja untuk memindahkannya, atau pilih meja untuk mengubah area, bentuk dan rotasinya.
+                Tombol panah menggeser meja yang dipilih.
+              </p>
+            )}
+          </aside>
+        )}
+      </div>
+
+      {/* Legend */}
+      {!isEditing && (
+        <div className="flex flex-wrap gap-x-5 gap-y-2 mt-4 text-xs text-gray-600 dark:text-gray-400">
+          <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded bg-green-200 border border-green-600" /> Available</span>
+          <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded bg-red-200 border border-red-600" /> Occupied</span>
+          <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded bg-amber-200 border border-amber-600" /> Reserved</span>
+          <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded bg-sky-200 border border-sky-600" /> Cleaning</span>
+          {canViewOrders && (
+            <>
+              <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-full border-2 border-blue-500" /> Pesanan &lt; {ORDER_AGE_WARNING}m</span>
+              <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-full border-2 border-orange-500" /> {ORDER_AGE_WARNING}–{ORDER_AGE_LATE}m</span>
+              <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-full border-2 border-red-600" /> &gt; {ORDER_AGE_LATE}m</span>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Table detail */}
+      <Modal
+        isOpen={detailTable !== null}
+        onClose={() => setDetailTable(null)}
+        title={detailTable?.name}
+        size="md"
+      >
+        {detailTable && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {getTableArea(detailTable)} · {detailTable.capacity} kursi · {TABLE_STATUS_LABELS[detailTable.status]}
+            </p>
+
+            {canViewOrders && (
+              <div>
+                <h4 className="font-semibold text-gray-800 dark:text-white mb-2">Pesanan terbuka</h4>
+                {detailOrders.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">Tidak ada pesanan terbuka.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                    {detailOrders.map(order => (
+                      <li key={order.id} className="py-2 flex items-center justify-between text-sm">
+                        <div>
+                          <p className="font-medium text-gray-800 dark:text-white">
+                            #{order.dailyOrderId ?? order.id}
+                            {order.customerName ? ` · ${order.customerName}` : ''}
+                          </p>
+                          <p className="text-gray-500 dark:text-gray-400">
+                            {order.orderItems.reduce((sum, item) => sum + item.quantity, 0)} item · {order.status} ·{' '}
+                            {getOrderAgeMinutes(order, now)} menit
+                          </p>
+                        </div>
+                        <span className="font-semibold">{formatCurrency(order.totalPrice)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2 pt-2">
+              {canViewOrders && (
+                <Link to="/admin/orders" className="px-4 py-2 text-sm text-primary-500 hover:underline">
+                  Buka halaman pesanan
+                </Link>
+              )}
+              <Button
+                variant="primary"
+                size="sm"
+                iconLeft={<FaQrcode size={12} />}
+                onClick={() => {
+                  setDetailTable(null);
+                  onShowQRCode(detailTable);
+                }}
+              >
+                QR Code
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+export default FloorPlanView;
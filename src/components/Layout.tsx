@@ -3,7 +3,9 @@ import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../store';
 import { motion, AnimatePresence } from 'framer-motion';
 import PageTransition from './PageTransition';
+import ServiceRequestPanel from './ServiceRequestPanel';
 import { FaChevronUp } from 'react-icons/fa';
+import { ADMIN_NAV_ITEMS } from '../utils/permissions';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -13,7 +15,7 @@ interface LayoutProps {
 const Layout: React.FC<LayoutProps> = ({ children, noHeaderFooter }) => {
   const location = useLocation();
   const navigate = useNavigate();
-  const { isAuthenticated, isAdmin, logout } = useAuthStore();
+  const { isAuthenticated, logout, can } = useAuthStore();
   const [scrolled, setScrolled] = useState(false);
   const [showScrollToTop, setShowScrollToTop] = useState(false);
   
@@ -38,6 +40,8 @@ const Layout: React.FC<LayoutProps> = ({ children, noHeaderFooter }) => {
     return () => window.removeEventListener('scroll', handleScroll);
   }, [scrolled, showScrollToTop]);
 
+  const showServiceRequests = isAuthenticated && isAdminPage && can('serviceRequests:handle');
+
   const handleLogout = () => {
     logout();
   };
@@ -49,14 +53,9 @@ const Layout: React.FC<LayoutProps> = ({ children, noHeaderFooter }) => {
     });
   };
 
-  // Navigation items for admin
-  const adminNavItems = [
-    { path: '/admin/menu', label: 'Menu' },
-    { path: '/admin/orders', label: 'Orders' },
-    { path: '/admin/tables', label: 'Tables' },
-    { path: '/admin/staff', label: 'Staff' },
-    { path: '/admin/analytics', label: 'Analytics' },
-  ];
+  // Navigation items for admin, limited to the pages the user's role may open
+  const adminNavItems = ADMIN_NAV_ITEMS.filter(item => can(item.permission));
+  const showAdminNav = isAuthenticated && adminNavItems.length > 0;
 
   // Simple content rendering in case of issues with the full component
   if (location.pathname.includes('/admin/test')) {
@@ -86,7 +85,7 @@ const Layout: React.FC<LayoutProps> = ({ children, noHeaderFooter }) => {
 
   // Calculate the height of the header and mobile nav for padding
   const headerHeight = 64; // 16 * 4 = 64px (h-16)
-  const mobileNavHeight = isAuthenticated && isAdmin ? 36 : 0; // Approximate height of mobile nav
+  const mobileNavHeight = showAdminNav ? 36 : 0; // Approximate height of mobile nav
   const totalTopPadding = headerHeight + mobileNavHeight;
   
   // Calculate footer height for bottom padding
@@ -135,7 +134,7 @@ const Layout: React.FC<LayoutProps> = ({ children, noHeaderFooter }) => {
               <nav className="flex items-center gap-4">
                 {isAuthenticated ? (
                   <>
-                    {isAdmin && (
+                    {showAdminNav && (
                       <div className="hidden sm:flex items-center gap-2">
                         {adminNavItems.map((item) => (
                           <Link
@@ -152,6 +151,7 @@ const Layout: React.FC<LayoutProps> = ({ children, noHeaderFooter }) => {
                         ))}
                       </div>
                     )}
+                    {showServiceRequests && <ServiceRequestPanel />}
                     <button
                       onClick={handleLogout}
                       className="px-4 py-2 bg-red-600 hover:bg-red-700 dark:bg-red-700 dark:hover:bg-red-600 text-white rounded-lg shadow-sm transition-colors duration-200 font-medium"
@@ -176,7 +176,7 @@ const Layout: React.FC<LayoutProps> = ({ children, noHeaderFooter }) => {
       )}
       
       {/* Mobile navigation for admin */}
-      {!noHeaderFooter && isAuthenticated && isAdmin && (
+      {!noHeaderFooter && showAdminNav && (
         <div className="bg-red-600 dark:bg-red-700 sm:hidden w-full shadow-sm sticky top-16 z-30">
           <div className="w-full px-2 py-1">
             <div className="flex justify-between items-center gap-1 overflow-x-auto pb-1">
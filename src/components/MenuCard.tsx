@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import type { Menu } from '../types';
+import type { Menu, Promotion } from '../types';
 import { formatCurrency, truncateText } from '../utils/format';
+import { getMenuPromoPrice } from '../utils/promotions';
 import Button from './Button';
 import { FaPlus, FaMinus, FaEdit, FaTrash, FaCartPlus, FaTag, FaRegClock } from 'react-icons/fa';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -22,6 +23,7 @@ interface MenuCardProps {
   onCustomize?: (menu: Menu) => void;
   compact?: boolean;
   showActions?: boolean;
+  promotions?: Promotion[]; // Running price rules show as a strikethrough price
 }
 
 const MenuCard: React.FC<MenuCardProps> = ({
@@ -40,8 +42,10 @@ const MenuCard: React.FC<MenuCardProps> = ({
   showCustomizeButton = false,
   onCustomize,
   compact = false,
-  showActions = true
+  showActions = true,
+  promotions = []
 }) => {
+  const promo = getMenuPromoPrice(menu, promotions);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [quantity, setQuantity] = useState(1);
   const [imageError, setImageError] = useState(false);
@@ -208,7 +212,14 @@ const MenuCard: React.FC<MenuCardProps> = ({
       <div className="p-4">
         <div className="flex justify-between mb-2">
           <h3 className="font-semibold text-gray-800 text-lg">{menu.name}</h3>
-          <span className="font-bold text-primary-600 text-lg">{formatCurrency(menu.price)}</span>
+          {promo ? (
+            <div className="text-right" title={promo.promotion.name}>
+              <span className="block text-xs text-gray-400 line-through">{formatCurrency(menu.price)}</span>
+              <span className="font-bold text-primary-600 text-lg">{formatCurrency(promo.price)}</span>
+            </div>
+          ) : (
+            <span className="font-bold text-primary-600 text-lg">{formatCurrency(menu.price)}</span>
+          )}
         </div>
         
         <div className="relative min-h-[3em]">
@@ -249,38 +260,43 @@ const MenuCard: React.FC<MenuCardProps> = ({
         
         {isAdmin && (
           <div className="mt-3 space-y-2">
-            <div className="grid grid-cols-2 gap-2">
-              <motion.button 
-                onClick={() => onEdit && onEdit(menu)}
-                className="flex items-center justify-center gap-1.5 text-sm py-2 px-4 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700"
-                whileHover={{ scale: 1.03 }}
-                whileTap={{ scale: 0.97 }}
-              >
-                <FaEdit className="text-gray-500" size={14} /> Edit
-              </motion.button>
+            {/* Edit and delete are only offered when the page passes handlers */}
+            {(onEdit || onDelete) && (
+              <div className="grid grid-cols-2 gap-2">
+                <motion.button 
+                  onClick={() => onEdit && onEdit(menu)}
+                  className="flex items-center justify-center gap-1.5 text-sm py-2 px-4 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700"
+                  whileHover={{ scale: 1.03 }}
+                  whileTap={{ scale: 0.97 }}
+                >
+                  <FaEdit className="text-gray-500" size={14} /> Edit
+                </motion.button>
             
+                <motion.button 
+                  onClick={() => onDelete && onDelete(menu.id)}
+                  className="flex items-center justify-center gap-1.5 text-sm py-2 px-4 bg-red-500 border border-red-500 rounded-lg hover:bg-red-600 text-white"
+                  whileHover={{ scale: 1.03 }}
+                  whileTap={{ scale: 0.97 }}
+                >
+                  <FaTrash className="text-white" size={14} /> Delete
+                </motion.button>
+              </div>
+            )}
+            
+            {onToggleStatus && (
               <motion.button 
-                onClick={() => onDelete && onDelete(menu.id)}
-                className="flex items-center justify-center gap-1.5 text-sm py-2 px-4 bg-red-500 border border-red-500 rounded-lg hover:bg-red-600 text-white"
-                whileHover={{ scale: 1.03 }}
-                whileTap={{ scale: 0.97 }}
+                onClick={handleToggleStatus}
+                className={`w-full text-sm py-2 px-4 rounded-lg flex items-center justify-center transition-colors ${
+                  menu.status === 'AVAILABLE'
+                    ? 'bg-green-500 text-white hover:bg-green-600'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+                whileHover={{ y: -2 }}
+                whileTap={{ y: 0 }}
               >
-                <FaTrash className="text-white" size={14} /> Delete
+                <span className="mr-1">◉</span> {menu.status === 'AVAILABLE' ? 'Available' : 'Mark as Available'}
               </motion.button>
-            </div>
-            
-            <motion.button 
-              onClick={handleToggleStatus}
-              className={`w-full text-sm py-2 px-4 rounded-lg flex items-center justify-center transition-colors ${
-                menu.status === 'AVAILABLE'
-                  ? 'bg-green-500 text-white hover:bg-green-600'
-                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-              }`}
-              whileHover={{ y: -2 }}
-              whileTap={{ y: 0 }}
-            >
-              <span className="mr-1">◉</span> {menu.status === 'AVAILABLE' ? 'Available' : 'Mark as Available'}
-            </motion.button>
+            )}
           </div>
         )}
         
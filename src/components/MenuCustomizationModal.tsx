@@ -3,13 +3,23 @@ import { motion, AnimatePresence } from 'framer-motion';
 import type { Menu, MenuCustomizationOption } from '../types';
 import Button from './Button';
 import { formatCurrency } from '../utils/format';
+import {
+  calculateCustomizationPrice,
+  describeSelectionRules,
+  getSelectionLimits,
+  getVisibleOptions,
+  pruneHiddenSelections,
+  validateSelections,
+} from '../utils/menuCustomization';
 import { FaTimes, FaCheckCircle, FaCookieBite, FaExclamationCircle, FaChevronRight } from 'react-icons/fa';
 
 interface MenuCustomizationModalProps {
   menu: Menu;
   isOpen: boolean;
   onClose: () => void;
-  onAddToCart: (customizations: Record<string, string[]>, basePrice: number, extraPrice: number) => void;
+  onAddToCart: (customizations: Record<string, string[]>, basePrice: number, extraPrice: number, notes?: string) => void;
+  // Used by the admin MenuForm to show the customer view on top of its own modal
+  previewMode?: boolean;
 }
 
 const MenuCustomizationModal: React.FC<MenuCustomizationModalProps> = ({
@@ -17,10 +27,12 @@ const MenuCustomizationModal: React.FC<MenuCustomizationModalProps> = ({
   isOpen,
   onClose,
   onAddToCart,
+  previewMode = false,
 }) => {
   const [customizations, setCustomizations] = useState<Record<string, string[]>>({});
   const [extraPrice, setExtraPrice] = useState(0);
-  const [errors, setErrors] = useState<Record<string, boolean>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState('');
 
   useEffect(() => {
     // Initialize customizations when menu changes
@@ -38,24 +50,27 @@ const MenuCustomizationModal: React.FC<MenuCustomizationModalProps> = ({
       setCustomizations(initialCustomizations);
       setExtraPrice(0);
       setErrors({});
+      setNotes('');
     }
   }, [menu]);
 
-  const handleSelect = (optionId: string, value: string[], optionType: string) => {
+  const handleSelect = (option: MenuCustomizationOption, value: string[]) => {
     let newCustomizations = { ...customizations };
     
-    if (optionType === 'checkbox') {
-      newCustomizations[optionId] = value;
+    if (option.type === 'checkbox') {
+      // Ignore picks beyond the group's maximum
+      if (value.length > getSelectionLimits(option).max) return;
+      newCustomizations[option.id] = value;
     } else {
-      newCustomizations[optionId] = [value[0]]; // Only keep single selection for radio/select
+      newCustomizations[option.id] = [value[0]]; // Only keep single selection for radio/select
     }
     
     setCustomizations(newCustomizations);
     
-    // Clear error if user has made a selection
-    if (errors[optionId] && value.length > 0) {
+    // Clear error if the selection now satisfies the group's rules
+    if (errors[option.id] && !validateSelections([option], newCustomizations)[option.id]) {
       const newErrors = { ...errors };
-      delete newErrors[optionId];
+      delete newErrors[option.id];
       setErrors(newErrors);
     }
     
@@ -64,41 +79,19 @@ const MenuCustomizationModal: React.FC<MenuCustomizationModalProps> = ({
   };
 
   const calculateExtraPrice = (selections: Record<string, string[]>) => {
-    let total = 0;
-    
-    if (menu.customizationOptions) {
-      menu.customizationOptions.forEach(option => {
-        const selectedIds = selections[option.id] || [];
-        
-        selectedIds.forEach(selectionId => {
-          const foundOption = option.options.find(opt => opt.id === selectionId);
-          if (foundOption) {
-            // Ensure we're adding numbers
-            total += Number(foundOption.price);
-          }
-        });
-      });
-    }
+    // Hidden groups and free picks are not charged
+    const total = calculateCustomizationPrice(menu.customizationOptions || [], selections);
     
     console.log(`Calculated extra price: ${total}`);
     setExtraPrice(total);
   };
 
   const handleSubmit = () => {
-    // Validate required fields
-    const newErrors: Record<string, boolean> = {};
-    let hasErrors = false;
+    // Validate required fields and min/max selections of visible groups
+    const options = menu.customizationOptions || [];
+    const newErrors = validateSelections(options, customizations);
     
-    if (menu.customizationOptions) {
-      menu.customizationOptions.forEach(option => {
-        if (option.required && (!customizations[option.id] || customizations[option.id].length === 0)) {
-          newErrors[option.id] = true;
-          hasErrors = true;
-        }
-      });
-    }
-    
-    if (hasErrors) {
+    if (Object.keys(newErrors).length > 0) {
       setErrors(newErrors);
       return;
     }
@@ -111,9 +104,13 @@ const MenuCustomizationModal: React.FC<MenuCustomizationModalProps> = ({
     const numericExtraPrice = Number(extraPrice);
     console.log(`Total price calculation: ${numericBasePrice} + ${numericExtraPrice} = ${numericBasePrice + numericExtraPrice}`);
     
-    onAddToCart(customizations, numericBasePrice, numericExtraPrice);
+    // Selections of hidden groups are kept while the modal is open (so they
+    // come back when the group reappears) but are not ordered
+    onAddToCart(pruneHiddenSelections(options, customizations), numericBasePrice, numericExtraPrice, notes.trim() || undefined);
   };
 
+  const visibleOptions = getVisibleOptions(menu.customizationOptions || [], customizations);
+
   if (!isOpen) return null;
 
   return (
@@ -122,7 +119,7 @@ const MenuCustomizationModal: React.FC<MenuCustomizationModalProps> = ({
       animate={{ opacity: 1 }}
       exit={{ opacity: 0 }}
       transition={{ duration: 0.2 }}
-      className="fixed inset-0 bg-black/40 backdrop-blur-sm z-40 flex items-center justify-center"
+      className={`fixed inset-0 bg-black/40 backdrop-blur-sm ${previewMode ? 'z-[60]' : 'z-40'} flex items-center justify-center`}
       onClick={(e) => {
         if (e.target === e.currentTarget) onClose();
       }}
@@ -195,10 +192,10 @@ const MenuCustomizationModal: React.FC<MenuCustomizationModalProps> = ({
               </div>
             ) : (
               <div>
-                {menu.customizationOptions.map((option, optionIndex) => (
+                {visibleOptions.map((option, optionIndex) => (
                   <motion.div 
                     key={option.id} 
-                    className={`mb-6 last:mb-0 pb-6 last:pb-0 ${optionIndex !== menu.customizationOptions!.length - 1 ? 'border-b border-gray-100 dark:border-gray-700' : ''}`}
+                    className={`mb-6 last:mb-0 pb-6 last:pb-0 ${optionIndex !== visibleOptions.length - 1 ? 'border-b border-gray-100 dark:border-gray-700' : ''}`}
                     initial={{ opacity: 0, y: 10 }}
                     animate={{ opacity: 1, y: 0 }}
                     transition={{ delay: 0.1 * optionIndex, duration: 0.4 }}
@@ -214,7 +211,7 @@ const MenuCustomizationModal: React.FC<MenuCustomizationModalProps> = ({
                           )}
                         </h5>
                         <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                          {option.type === 'checkbox' ? 'Select multiple options' : 'Select one option'}
+                          {describeSelectionRules(option)}
                         </p>
                       </div>
                       <AnimatePresence>
@@ -226,7 +223,7 @@ const MenuCustomizationModal: React.FC<MenuCustomizationModalProps> = ({
                             className="text-xs bg-red-50 dark:bg-red-900/30 text-red-500 dark:text-red-400 px-2 py-1 rounded-full font-medium flex items-center gap-1"
                           >
                             <FaExclamationCircle size={10} />
-                            Required
+                            {errors[option.id]}
                           </motion.span>
                         )}
                       </AnimatePresence>
@@ -242,7 +239,7 @@ const MenuCustomizationModal: React.FC<MenuCustomizationModalProps> = ({
                         <select 
                           className={`w-full p-3 border ${errors[option.id] ? 'border-red-300 dark:border-red-700 ring-1 ring-red-500' : 'border-gray-300 dark:border-gray-600'} bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-red-400 focus:border-transparent outline-none`}
                           value={customizations[option.id]?.[0] || ''}
-                          onChange={(e) => handleSelect(option.id, [e.target.value], option.type)}
+                          onChange={(e) => handleSelect(option, [e.target.value])}
                         >
                           {option.options.map((choice) => (
                             <option key={choice.id} value={choice.id}>
@@ -278,7 +275,7 @@ const MenuCustomizationModal: React.FC<MenuCustomizationModalProps> = ({
                                 type="radio"
                                 className="h-4 w-4 text-red-600 border-gray-300 focus:ring-red-500"
                                 checked={(customizations[option.id] || []).includes(choice.id)}
-                                onChange={() => handleSelect(option.id, [choice.id], option.type)}
+                                onChange={() => handleSelect(option, [choice.id])}
                               />
                             </div>
                             <div className="ml-3 flex-1">
@@ -296,13 +293,20 @@ const MenuCustomizationModal: React.FC<MenuCustomizationModalProps> = ({
                     
                     {option.type === 'checkbox' && (
                       <div className="space-y-2 mt-3">
-                        {option.options.map((choice, choiceIndex) => (
+                        {option.options.map((choice, choiceIndex) => {
+                          const isChecked = (customizations[option.id] || []).includes(choice.id);
+                          // Unchecked choices are locked once the group's maximum is reached
+                          const isLocked = !isChecked && (customizations[option.id] || []).length >= getSelectionLimits(option).max;
+
+                          return (
                           <motion.label 
                             key={choice.id} 
-                            className={`flex items-center p-3 rounded-lg cursor-pointer transition-all ${
-                              (customizations[option.id] || []).includes(choice.id) 
-                                ? 'bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800/50 shadow-sm' 
-                                : 'bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                            className={`flex items-center p-3 rounded-lg transition-all ${
+                              isChecked 
+                                ? 'bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800/50 shadow-sm cursor-pointer' 
+                                : isLocked
+                                  ? 'bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 opacity-50 cursor-not-allowed'
+                                  : 'bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50 cursor-pointer'
                             }`}
                             initial={{ opacity: 0, x: -10 }}
                             animate={{ opacity: 1, x: 0 }}
@@ -315,13 +319,14 @@ const MenuCustomizationModal: React.FC<MenuCustomizationModalProps> = ({
                                 id={`checkbox-${option.id}-${choice.id}`}
                                 type="checkbox"
                                 className="h-4 w-4 text-red-600 border-gray-300 rounded focus:ring-red-500"
-                                checked={(customizations[option.id] || []).includes(choice.id)}
+                                checked={isChecked}
+                                disabled={isLocked}
                                 onChange={(e) => {
                                   const currentSelections = customizations[option.id] || [];
                                   const newSelections = e.target.checked
                                     ? [...currentSelections, choice.id]
                                     : currentSelections.filter(id => id !== choice.id);
-                                  handleSelect(option.id, newSelections, option.type);
+                                  handleSelect(option, newSelections);
                                 }}
                               />
                             </div>
@@ -334,13 +339,31 @@ const MenuCustomizationModal: React.FC<MenuCustomizationModalProps> = ({
                               </span>
                             )}
                           </motion.label>
-                        ))}
+                          );
+                        })}
                       </div>
                     )}
                   </motion.div>
                 ))}
               </div>
             )}
+            
+            {/* Notes for the kitchen */}
+            <div className="pt-6 border-t border-gray-100 dark:border-gray-700">
+              <label htmlFor="customization-notes" className="font-medium text-gray-800 dark:text-gray-200 block mb-1">
+                Catatan untuk dapur
+              </label>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">Optional, e.g. "tanpa bawang"</p>
+              <textarea
+                id="customization-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                maxLength={200}
+                rows={2}
+                placeholder="Tambahkan catatan..."
+                className="w-full p-3 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-red-400 focus:border-transparent outline-none resize-none text-sm"
+              />
+            </div>
           </div>
         </div>
         
@@ -375,7 +398,7 @@ const MenuCustomizationModal: React.FC<MenuCustomizationModalProps> = ({
               className="flex-1 px-4 py-3 bg-gradient-to-r from-red-500 to-red-600 text-white font-medium rounded-xl shadow-sm hover:shadow-md transition-all flex items-center justify-center gap-2"
             >
               <FaCheckCircle size={16} />
-              Add to Cart
+              {previewMode ? 'Check Selection' : 'Add to Cart'}
             </motion.button>
           </div>
         </div>
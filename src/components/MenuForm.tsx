@@ -1,8 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useForm } from 'react-hook-form';
-import type { Menu } from '../types';
+import type { Menu, MenuCustomizationOption } from '../types';
 import Button from './Button';
-import { FaClipboardCheck, FaImage } from 'react-icons/fa';
+import CustomizationOptionsEditor from './CustomizationOptionsEditor';
+import MenuCustomizationModal from './MenuCustomizationModal';
+import { normalizeCustomizationOptions, validateCustomizationOptions } from '../utils/menuCustomization';
+import { FaClipboardCheck, FaEye, FaImage } from 'react-icons/fa';
 import { motion } from 'framer-motion';
 import { useAlert } from '../contexts/AlertContext';
 
@@ -21,7 +24,7 @@ const MenuForm: React.FC<MenuFormProps> = ({
   isSubmitting,
   error,
 }) => {
-  const { register, handleSubmit, formState: { errors }, reset, setValue } = useForm<Menu>({
+  const { register, handleSubmit, formState: { errors }, reset, setValue, getValues } = useForm<Menu>({
     defaultValues: initialData || {
       name: '',
       price: 0,
@@ -35,12 +38,19 @@ const MenuForm: React.FC<MenuFormProps> = ({
   const { showAlert } = useAlert();
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [customizationOptions, setCustomizationOptions] = useState<MenuCustomizationOption[]>(
+    () => normalizeCustomizationOptions(initialData?.customizationOptions)
+  );
+  const [customizationProblems, setCustomizationProblems] = useState<string[]>([]);
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
   const isEditing = !!initialData;
 
   // Set form values if initialData is provided
   useEffect(() => {
     if (initialData) {
       reset(initialData);
+      setCustomizationOptions(normalizeCustomizationOptions(initialData.customizationOptions));
+      setCustomizationProblems([]);
       if (initialData.imageUrl) {
         // For existing images, display the preview
         setPreviewUrl(initialData.imageUrl);
@@ -48,6 +58,20 @@ const MenuForm: React.FC<MenuFormProps> = ({
     }
   }, [initialData, reset]);
 
+  // Draft menu for the customer-view preview, built from the unsaved form values
+  const previewMenu = useMemo<Menu | null>(() => {
+    if (!isPreviewOpen) return null;
+    const values = getValues();
+    return {
+      id: initialData?.id ?? 0,
+      name: values.name || 'Menu preview',
+      description: values.description || '',
+      price: Number(values.price) || 0,
+      imageUrl: previewUrl || '',
+      customizationOptions,
+    };
+  }, [isPreviewOpen, customizationOptions, getValues, initialData?.id, previewUrl]);
+
   // Clean up object URLs to prevent memory leaks
   useEffect(() => {
     return () => {
@@ -115,12 +139,24 @@ const MenuForm: React.FC<MenuFormProps> = ({
         return;
       }
       
+      const problems = validateCustomizationOptions(customizationOptions);
+      setCustomizationProblems(problems);
+      if (problems.length > 0) {
+        showAlert('Please fix the customization options before saving', {
+          type: 'warning',
+          title: 'Validation Error',
+          duration: 3000
+        });
+        return;
+      }
+      
       // Create a FormData object for all submissions
         const formData = new FormData();
       
       // Add all form fields to the FormData except imageUrl which we'll handle separately
+      // and customizationOptions which is sent as JSON below
         Object.entries(data).forEach(([key, value]) => {
-        if (key !== 'imageUrl' && value !== null && value !== undefined) {
+        if (key !== 'imageUrl' && key !== 'customizationOptions' && value !== null && value !== undefined) {
           // Convert price to a number if it's a string
             if (key === 'price' && typeof value === 'string') {
               formData.append(key, String(parseFloat(value)));
@@ -133,6 +169,9 @@ const MenuForm: React.FC<MenuFormProps> = ({
           }
         });
       
+      // Nested option groups can't be flattened into FormData fields
+      formData.append('customizationOptions', JSON.stringify(customizationOptions));
+      
       // Add required fields for the API
       if (!formData.has('isAvailable')) {
         const status = data.status || 'AVAILABLE';
@@ -304,8 +343,49 @@ const MenuForm: React.FC<MenuFormProps> = ({
                   </div>
         )}
                   </div>
+
+      {/* Customization options */}
+      <div className="border-t border-gray-100 pt-4">
+        <div className="flex items-center justify-between mb-2">
+          <div>
+            <h4 className="text-sm font-medium text-gray-700">Customization Options</h4>
+            <p className="text-xs text-gray-500">Spice level, portion size, toppings and other choices</p>
+          </div>
+          <Button
+            type="button"
+            variant="light"
+            size="sm"
+            iconLeft={<FaEye size={12} />}
+            disabled={customizationOptions.length === 0}
+            onClick={() => setIsPreviewOpen(true)}
+          >
+            Preview
+          </Button>
+        </div>
+        <CustomizationOptionsEditor
+          value={customizationOptions}
+          onChange={(options) => {
+            setCustomizationOptions(options);
+            if (customizationProblems.length > 0) {
+              setCustomizationProblems(validateCustomizationOptions(options));
+            }
+          }}
+          problems={customizationProblems}
+        />
+      </div>
         </div>
       </div>
+
+      {/* Customer view of the options as they are now, before saving */}
+      {previewMenu && (
+        <MenuCustomizationModal
+          menu={previewMenu}
+          isOpen={isPreviewOpen}
+          onClose={() => setIsPreviewOpen(false)}
+          onAddToCart={() => setIsPreviewOpen(false)}
+          previewMode
+        />
+      )}
       {/* Footer */}
       <div className="flex flex-row justify-end gap-3 p-6 pt-4 border-t border-gray-100 bg-white">
         <Button type="button" variant="secondary" onClick={onCancel} disabled={isSubmitting}>
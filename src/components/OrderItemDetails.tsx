@@ -0,0 +1,54 @@
+import React from 'react';
+import type { Menu, OrderItem } from '../types';
+import { describeCustomizations } from '../utils/orderItems';
+import { FaStickyNote } from 'react-icons/fa';
+
+interface OrderItemDetailsProps {
+  customizations?: OrderItem['customizations'];
+  notes?: string;
+  menu?: Pick<Menu, 'customizationOptions'> | null;
+  size?: 'sm' | 'lg';
+  // 'inverse' is for always-dark screens such as the kitchen display
+  tone?: 'default' | 'inverse';
+  className?: string;
+}
+
+/**
+ * Shows the customizations and kitchen notes of a single order line.
+ * Renders nothing when the line has neither.
+ */
+const OrderItemDetails: React.FC<OrderItemDetailsProps> = ({
+  customizations,
+  notes,
+  menu,
+  size = 'sm',
+  tone = 'default',
+  className = '',
+}) => {
+  const lines = describeCustomizations(customizations, menu);
+  const trimmedNotes = notes?.trim();
+
+  if (lines.length === 0 && !trimmedNotes) return null;
+
+  const textSize = size === 'lg' ? 'text-base' : 'text-xs';
+  const isInverse = tone === 'inverse';
+
+  return (
+    <div className={`mt-1 space-y-0.5 ${textSize} ${className}`}>
+      {lines.map(line => (
+        <p key={line.optionId} className={isInverse ? 'text-gray-300' : 'text-gray-600 dark:text-gray-400'}>
+          <span className={`font-medium ${isInverse ? 'text-gray-100' : 'text-gray-700 dark:text-gray-300'}`}>{line.label}:</span>{' '}
+          {line.values.join(', ')}
+        </p>
+      ))}
+      {trimmedNotes && (
+        <p className={`flex items-start gap-1 italic ${isInverse ? 'text-amber-300' : 'text-amber-700 dark:text-amber-400'}`}>
+          <FaStickyNote className="mt-0.5 flex-shrink-0" size={size === 'lg' ? 14 : 10} />
+          <span>{trimmedNotes}</span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default OrderItemDetails;
@@ -0,0 +1,228 @@
+import React, { useEffect, useState } from 'react';
+import { OrderAPI, TableLifecycle } from '../api';
+import type { Menu, Order, OrderItemMove, OrderMoveKind, OrderPaymentSummary, Table } from '../types';
+import { formatCurrency } from '../utils/format';
+import { getMovableItemIndexes, getMoveTargetOrders, getOrderMoveError } from '../utils/tableGroups';
+import Button from './Button';
+import Modal from './Modal';
+import { FaExchangeAlt, FaMinus, FaPlus } from 'react-icons/fa';
+
+interface OrderMoveModalProps {
+  order: Order | null;
+  onClose: () => void;
+  tables: Table[];
+  // Loaded orders, to offer the open orders of the target table
+  orders: Order[];
+  menus: Record<number, Menu>;
+  summary?: OrderPaymentSummary;
+  onMoved: (orders: Order[]) => void;
+}
+
+const MOVE_KINDS: { kind: OrderMoveKind; label: string }[] = [
+  { kind: 'order', label: 'Seluruh pesanan' },
+  { kind: 'items', label: 'Sebagian item' },
+];
+
+/**
+ * Move an order, or some of its lines, to another table. The server records
+ * every move in the order's history.
+ */
+const OrderMoveModal: React.FC<OrderMoveModalProps> = ({ order, onClose, tables, orders, menus, summary, onMoved }) => {
+  const [kind, setKind] = useState<OrderMoveKind>('order');
+  const [toTableId, setToTableId] = useState<number | undefined>(undefined);
+  const [toOrderId, setToOrderId] = useState<number | undefined>(undefined);
+  // Quantity to move per line index
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!order) return;
+    setKind('order');
+    setToTableId(undefined);
+    setToOrderId(undefined);
+    setQuantities({});
+    setReason('');
+    setError(null);
+  }, [order]);
+
+  if (!order) return null;
+
+  const movable = getMovableItemIndexes(order, summary);
+  const items: OrderItemMove[] | undefined = kind === 'items'
+    ? Object.entries(quantities).map(([itemIndex, quantity]) => ({ itemIndex: Number(itemIndex), quantity }))
+    : undefined;
+  const moveError = getOrderMoveError(order, toTableId, summary, items);
+  const targetOrders = toTableId !== undefined ? getMoveTargetOrders(toTableId, orders, order.id) : [];
+
+  const setQuantity = (itemIndex: number, quantity: number) => {
+    const max = order.orderItems[itemIndex]?.quantity ?? 0;
+    setQuantities(prev => ({ ...prev, [itemIndex]: Math.min(Math.max(quantity, 0), max) }));
+  };
+
+  const handleMove = async () => {
+    if (moveError || toTableId === undefined) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (items) {
+        const result = await OrderAPI.moveItems(order.id, {
+          toTableId,
+          toOrderId,
+          items: items.filter(item => item.quantity > 0),
+          reason: reason.trim() || undefined,
+        });
+        onMoved([result.source, result.target]);
+      } else {
+        onMoved([await OrderAPI.moveToTable(order.id, toTableId, reason.trim() || undefined)]);
+      }
+      // Both tables may change status: the old one can free up, the new one is occupied
+      TableLifecycle.requestSync();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Gagal memindahkan pesanan.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700';
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title={`Pindahkan Pesanan #${order.dailyOrderId || order.id}`}
+      size="md"
+      icon={<FaExchangeAlt size={16} />}
+    >
+      <div className="space-y-4">
+        <div className="flex gap-2">
+          {MOVE_KINDS.map(option => (
+            <button
+              key={option.kind}
+              type="button"
+              onClick={() => setKind(option.kind)}
+              className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                kind === option.kind
+                  ? 'bg-primary-500 border-primary-500 text-white'
+                  : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <label className="block">
+          <span className="block mb-1 text-sm font-medium text-gray-700 dark:text-gray-300">Meja tujuan</span>
+          <select
+            className={inputClass}
+            value={toTableId ?? ''}
+            onChange={e => {
+              setToTableId(e.target.value === '' ? undefined : Number(e.target.value));
+              setToOrderId(undefined);
+            }}
+          >
+            <option value="">Pilih meja</option>
+            {tables
+              .filter(table => table.id !== order.tableId)
+              .map(table => (
+                <option key={table.id} value={table.id}>
+                  {table.name} ({table.capacity} orang)
+                </option>
+              ))}
+          </select>
+        </label>
+
+        {kind === 'items' && (
+          <>
+            <ul className="max-h-60 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg">
+              {order.orderItems.map((item, index) => {
+                const isMovable = movable.includes(index);
+                const quantity = quantities[index] ?? 0;
+                return (
+                  <li key={index} className={`flex items-center gap-3 px-3 py-2 text-sm ${isMovable ? '' : 'opacity-50'}`}>
+                    <span className="flex-1">
+                      {item.quantity}x {menus[item.menuId]?.name || item.menu?.name || `Menu #${item.menuId}`}
+                      <span className="block text-xs text-gray-500">
+                        {isMovable ? formatCurrency(item.price) : 'Sudah dibayar'}
+                      </span>
+                    </span>
+                    {isMovable && (
+                      <div className="flex items-center gap-2">
+                        <button
+                          type="button"
+                          className="p-2 rounded-full bg-white border border-gray-200 disabled:opacity-40"
+                          onClick={() => setQuantity(index, quantity - 1)}
+                          disabled={quantity <= 0}
+                          aria-label="Kurangi"
+                        >
+                          <FaMinus size={10} />
+                        </button>
+                        <span className="w-6 text-center font-semibold">{quantity}</span>
+                        <button
+                          type="button"
+                          className="p-2 rounded-full bg-white border border-gray-200 disabled:opacity-40"
+                          onClick={() => setQuantity(index, quantity + 1)}
+                          disabled={quantity >= item.quantity}
+                          aria-label="Tambah"
+                        >
+                          <FaPlus size={10} />
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+
+            {toTableId !== undefined && (
+              <label className="block">
+                <span className="block mb-1 text-sm font-medium text-gray-700 dark:text-gray-300">Masukkan ke</span>
+                <select
+                  className={inputClass}
+                  value={toOrderId ?? ''}
+                  onChange={e => setToOrderId(e.target.value === '' ? undefined : Number(e.target.value))}
+                >
+                  <option value="">Pesanan baru</option>
+                  {targetOrders.map(target => (
+                    <option key={target.id} value={target.id}>
+                      Pesanan #{target.dailyOrderId || target.id}
+                      {target.customerName ? ` · ${target.customerName}` : ''}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </>
+        )}
+
+        <input
+          type="text"
+          value={reason}
+          onChange={e => setReason(e.target.value)}
+          placeholder="Alasan (opsional), mis. tamu pindah ke teras"
+          className={inputClass}
+        />
+
+        {toTableId !== undefined && moveError && <p className="text-sm text-amber-600">{moveError}</p>}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" size="sm" onClick={onClose} disabled={isSaving}>
+            Batal
+          </Button>
+          <Button variant="primary" size="sm" onClick={handleMove} isLoading={isSaving} disabled={moveError !== null}>
+            Pindahkan
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default OrderMoveModal;
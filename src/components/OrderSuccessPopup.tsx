@@ -1,6 +1,6 @@
 import React, { useEffect } from 'react';
 import { formatCurrency } from '../utils/format';
-import { FaCheck, FaArrowLeft, FaClock, FaReceipt } from 'react-icons/fa';
+import { FaCheck, FaArrowLeft, FaClock, FaReceipt, FaMapMarkerAlt } from 'react-icons/fa';
 import { motion, AnimatePresence } from 'framer-motion';
 
 interface OrderSuccessPopupProps {
@@ -8,9 +8,10 @@ interface OrderSuccessPopupProps {
   onClose: () => void;
   orderItems: any[];
   orderTotal: number;
+  onTrackOrder?: () => void;
 }
 
-const OrderSuccessPopup: React.FC<OrderSuccessPopupProps> = ({ visible, onClose, orderItems, orderTotal }) => {
+const OrderSuccessPopup: React.FC<OrderSuccessPopupProps> = ({ visible, onClose, orderItems, orderTotal, onTrackOrder }) => {
   // Close on escape key
   useEffect(() => {
     const handleEscKey = (event: KeyboardEvent) => {
@@ -160,7 +161,18 @@ const OrderSuccessPopup: React.FC<OrderSuccessPopupProps> = ({ visible, onClose,
                 </div>
                 
                 {/* Back to menu button */}
-                <div className="flex justify-center">
+                <div className="flex flex-wrap justify-center gap-3">
+                  {onTrackOrder && (
+                    <motion.button
+                      className="border border-green-500 text-green-600 dark:text-green-400 py-3 px-6 rounded-lg flex items-center gap-2 hover:bg-green-50 dark:hover:bg-green-900/20 transition-colors duration-300"
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      onClick={onTrackOrder}
+                    >
+                      <FaMapMarkerAlt size={14} />
+                      <span>Lacak Pesanan</span>
+                    </motion.button>
+                  )}
                   <motion.button
                     className="bg-gradient-to-r from-green-500 to-green-600 text-white py-3 px-8 rounded-lg shadow-lg flex items-center gap-2 hover:from-green-600 hover:to-green-700 transition-colors duration-300"
                     whileHover={{ scale: 1.05 }}
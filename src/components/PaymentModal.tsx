@@ -0,0 +1,354 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { PaymentAPI, TableLifecycle, createPaymentAttemptKey } from '../api';
+import type { Order, Payment } from '../types';
+import { PaymentMethod } from '../types';
+import Modal from './Modal';
+import Button from './Button';
+import { formatCurrency } from '../utils/format';
+import {
+  PAYMENT_METHOD_LABELS,
+  allocateItems,
+  allocateToOrders,
+  calculateChange,
+  getCashSuggestions,
+  getLineShares,
+  getLineTotal,
+  getOpenTableOrders,
+  splitEvenly,
+  summarizeOrderPayments,
+} from '../utils/payments';
+import { FaMoneyBillWave, FaQrcode, FaCreditCard, FaWallet, FaCheckCircle, FaExclamationCircle, FaMinus, FaPlus } from 'react-icons/fa';
+
+type SplitMode = 'full' | 'even' | 'items';
+
+interface PaymentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tableId: number;
+  tableName: string;
+  // Every table billed together, e.g. a merged group; defaults to tableId
+  tableIds?: number[];
+  // Every loaded order; the modal bills the table's unpaid ones
+  orders: Order[];
+  payments: Payment[];
+  onPaid: (payment: Payment) => void;
+}
+
+const METHOD_ICONS: Record<PaymentMethod, React.ReactNode> = {
+  [PaymentMethod.CASH]: <FaMoneyBillWave />,
+  [PaymentMethod.QRIS]: <FaQrcode />,
+  [PaymentMethod.CARD]: <FaCreditCard />,
+  [PaymentMethod.EWALLET]: <FaWallet />,
+};
+
+const SPLIT_MODES: { mode: SplitMode; label: string }[] = [
+  { mode: 'full', label: 'Bayar penuh' },
+  { mode: 'even', label: 'Bagi rata' },
+  { mode: 'items', label: 'Per item' },
+];
+
+const itemKey = (orderId: number, itemIndex: number) => `${orderId}:${itemIndex}`;
+
+const PaymentModal: React.FC<PaymentModalProps> = ({
+  isOpen,
+  onClose,
+  tableId,
+  tableName,
+  tableIds,
+  orders,
+  payments,
+  onPaid,
+}) => {
+  const [splitMode, setSplitMode] = useState<SplitMode>('full');
+  const [peopleCount, setPeopleCount] = useState(2);
+  // Even-split shares already paid while the modal is open
+  const [paidShares, setPaidShares] = useState(0);
+  const [selectedItems, setSelectedItems] = useState<string[]>([]);
+  const [method, setMethod] = useState<PaymentMethod>(PaymentMethod.CASH);
+  const [tendered, setTendered] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastPayment, setLastPayment] = useState<Payment | null>(null);
+  // The payment still waiting for a confirmed answer. Retrying the same
+  // payment reuses its idempotency key, so a charge whose response was lost
+  // is not taken again.
+  const pendingAttempt = useRef<{ key: string; signature: string } | null>(null);
+
+  // Start fresh every time the modal is opened for a table
+  useEffect(() => {
+    if (!isOpen) return;
+    setSplitMode('full');
+    setPeopleCount(2);
+    setPaidShares(0);
+    setSelectedItems([]);
+    setMethod(PaymentMethod.CASH);
+    setTendered('');
+    setError(null);
+    setLastPayment(null);
+    pendingAttempt.current = null;
+  }, [isOpen, tableId]);
+
+  const summaries = useMemo(() => summarizeOrderPayments(orders, payments), [orders, payments]);
+  const openOrders = useMemo(
+    () => getOpenTableOrders(orders, tableIds ?? tableId, summaries),
+    [orders, tableIds, tableId, summaries]
+  );
+  // By item, each line is charged its share of the order total
+  const lineShares = useMemo(
+    () => Object.fromEntries(openOrders.map(order => [order.id, getLineShares(order)])) as Record<number, number[]>,
+    [openOrders]
+  );
+  const tableRemaining = openOrders.reduce((sum, order) => sum + summaries[order.id].remaining, 0);
+  const sharesLeft = Math.max(peopleCount - paidShares, 1);
+
+  const allocations = useMemo(() => {
+    if (splitMode === 'items') {
+      const selected = selectedItems.map(key => {
+        const [orderId, itemIndex] = key.split(':').map(Number);
+        return { orderId, itemIndex };
+      });
+      return allocateItems(openOrders, summaries, selected);
+    }
+    const amount = splitMode === 'even' ? splitEvenly(tableRemaining, sharesLeft)[0] : tableRemaining;
+    return allocateToOrders(openOrders, summaries, amount);
+  }, [splitMode, selectedItems, openOrders, summaries, tableRemaining, sharesLeft]);
+
+  const amountDue = allocations.reduce((sum, allocation) => sum + allocation.amount, 0);
+  const tenderedAmount = Number(tendered) || 0;
+  const change = calculateChange(amountDue, tenderedAmount);
+  const isCashShort = method === PaymentMethod.CASH && tenderedAmount < amountDue;
+
+  const toggleItem = (key: string) => {
+    setSelectedItems(prev => (prev.includes(key) ? prev.filter(selected => selected !== key) : [...prev, key]));
+  };
+
+  const handlePay = async () => {
+    if (amountDue <= 0 || isCashShort) return;
+
+    const request = {
+      tableId,
+      method,
+      amount: amountDue,
+      allocations,
+      tendered: method === PaymentMethod.CASH ? tenderedAmount : undefined,
+      payerLabel: splitMode === 'even' ? `Orang ${paidShares + 1} dari ${peopleCount}` : undefined,
+    };
+    const signature = JSON.stringify(request);
+    if (pendingAttempt.current?.signature !== signature) {
+      pendingAttempt.current = { key: createPaymentAttemptKey(), signature };
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const payment = await PaymentAPI.pay({ ...request, idempotencyKey: pendingAttempt.current.key });
+
+      pendingAttempt.current = null;
+      onPaid(payment);
+      // A settled bill may free the table
+      TableLifecycle.requestSync();
+      setLastPayment(payment);
+      setTendered('');
+      if (splitMode === 'even') setPaidShares(count => count + 1);
+      if (splitMode === 'items') setSelectedItems([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Pembayaran gagal diproses. Silakan coba lagi.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Pembayaran · ${tableName}`} size="lg" icon={<FaMoneyBillWave size={18} />}>
+      <div className="space-y-5">
+        {lastPayment && (
+          <div className="flex items-start gap-3 p-3 rounded-lg bg-green-50 border border-green-200 text-green-800">
+            <FaCheckCircle className="mt-0.5 flex-shrink-0" />
+            <div className="text-sm">
+              <p className="font-medium">
+                {formatCurrency(lastPayment.amount)} diterima via {PAYMENT_METHOD_LABELS[lastPayment.method]}
+                {lastPayment.payerLabel ? ` (${lastPayment.payerLabel})` : ''}
+              </p>
+              {lastPayment.method === PaymentMethod.CASH && (
+                <p className="text-lg font-bold">Kembalian: {formatCurrency(lastPayment.change)}</p>
+              )}
+              {lastPayment.reference && <p className="text-xs text-green-700">Ref: {lastPayment.reference}</p>}
+            </div>
+          </div>
+        )}
+
+        {openOrders.length === 0 ? (
+          <p className="p-6 text-center text-gray-500">Semua pesanan meja ini sudah lunas.</p>
+        ) : (
+          <>
+            <div className="flex gap-2">
+              {SPLIT_MODES.map(({ mode, label }) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setSplitMode(mode)}
+                  className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                    splitMode === mode
+                      ? 'bg-primary-500 border-primary-500 text-white'
+                      : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {splitMode === 'even' && (
+              <div className="flex items-center justify-between p-3 rounded-lg bg-gray-50 border border-gray-200">
+                <span className="text-sm text-gray-700">Jumlah orang</span>
+                <div className="flex items-center gap-3">
+                  <button
+                    type="button"
+                    className="p-2 rounded-full bg-white border border-gray-200 disabled:opacity-40"
+                    onClick={() => setPeopleCount(count => count - 1)}
+                    disabled={peopleCount <= Math.max(paidShares + 1, 2)}
+                    aria-label="Kurangi orang"
+                  >
+                    <FaMinus size={10} />
+                  </button>
+                  <span className="w-6 text-center font-semibold">{peopleCount}</span>
+                  <button
+                    type="button"
+                    className="p-2 rounded-full bg-white border border-gray-200"
+                    onClick={() => setPeopleCount(count => count + 1)}
+                    aria-label="Tambah orang"
+                  >
+                    <FaPlus size={10} />
+                  </button>
+                  <span className="text-sm text-gray-500">
+                    {paidShares} dari {peopleCount} sudah bayar
+                  </span>
+                </div>
+              </div>
+            )}
+
+            <div className="max-h-64 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg">
+              {openOrders.map(order => (
+                <div key={order.id} className="p-3">
+                  <div className="flex justify-between text-sm font-medium text-gray-800 mb-1">
+                    <span>Pesanan #{order.dailyOrderId || order.id}{order.customerName ? ` · ${order.customerName}` : ''}</span>
+                    <span>Sisa {formatCurrency(summaries[order.id].remaining)}</span>
+                  </div>
+                  <ul className="space-y-1">
+                    {order.orderItems.map((item, index) => {
+                      const key = itemKey(order.id, index);
+                      const isPaid = summaries[order.id].paidItemIndexes.includes(index);
+                      return (
+                        <li key={key}>
+                          <label className={`flex items-center gap-2 text-sm ${isPaid ? 'text-gray-400 line-through' : 'text-gray-600'}`}>
+                            {splitMode === 'items' && (
+                              <input
+                                type="checkbox"
+                                checked={selectedItems.includes(key)}
+                                disabled={isPaid}
+                                onChange={() => toggleItem(key)}
+                              />
+                            )}
+                            <span className="flex-1">
+                              {item.quantity}x {item.menu?.name || `Menu #${item.menuId}`}
+                            </span>
+                            <span>{formatCurrency(splitMode === 'items' ? lineShares[order.id][index] : getLineTotal(item))}</span>
+                          </label>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {Object.values(PaymentMethod).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setMethod(option)}
+                  className={`flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                    method === option
+                      ? 'bg-primary-50 border-primary-500 text-primary-700'
+                      : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {METHOD_ICONS[option]}
+                  {PAYMENT_METHOD_LABELS[option]}
+                </button>
+              ))}
+            </div>
+
+            {method === PaymentMethod.CASH && amountDue > 0 && (
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700" htmlFor="payment-tendered">
+                  Uang diterima
+                </label>
+                <input
+                  id="payment-tendered"
+                  type="number"
+                  min={0}
+                  inputMode="numeric"
+                  value={tendered}
+                  onChange={(e) => setTendered(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                  placeholder={String(amountDue)}
+                />
+                <div className="flex flex-wrap gap-2">
+                  {getCashSuggestions(amountDue).map(suggestion => (
+                    <button
+                      key={suggestion}
+                      type="button"
+                      onClick={() => setTendered(String(suggestion))}
+                      className="px-3 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                    >
+                      {formatCurrency(suggestion)}
+                    </button>
+                  ))}
+                </div>
+                {tenderedAmount > 0 && (
+                  <p className={`text-sm font-medium ${isCashShort ? 'text-red-600' : 'text-green-700'}`}>
+                    {isCashShort
+                      ? `Kurang ${formatCurrency(amountDue - tenderedAmount)}`
+                      : `Kembalian ${formatCurrency(change)}`}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {error && (
+              <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+                <FaExclamationCircle className="flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            <div className="flex items-center justify-between pt-2 border-t border-gray-200">
+              <div>
+                <p className="text-xs text-gray-500">
+                  {splitMode === 'even' ? `Bagian orang ${paidShares + 1} dari ${peopleCount}` : 'Total dibayar'}
+                </p>
+                <p className="text-xl font-bold text-primary-600">{formatCurrency(amountDue)}</p>
+                {amountDue !== tableRemaining && (
+                  <p className="text-xs text-gray-500">Sisa meja {formatCurrency(tableRemaining)}</p>
+                )}
+              </div>
+              <Button
+                variant="success"
+                onClick={handlePay}
+                isLoading={isSubmitting}
+                disabled={isSubmitting || amountDue <= 0 || isCashShort}
+                iconLeft={<FaCheckCircle size={14} />}
+              >
+                Terima pembayaran
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default PaymentModal;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { getBreakdownRows } from '../utils/pricing';
+import type { PriceBreakdown } from '../utils/pricing';
+import { formatCurrency } from '../utils/format';
+
+interface PriceBreakdownSummaryProps {
+  breakdown: PriceBreakdown;
+  // Hide the subtotal row when it would just repeat the total
+  compact?: boolean;
+  // For callers that render the total themselves
+  hideTotal?: boolean;
+  className?: string;
+}
+
+/**
+ * Subtotal, discounts, service, tax, rounding and total of a priced order.
+ * Included charges are shown muted since they do not change the total.
+ */
+const PriceBreakdownSummary: React.FC<PriceBreakdownSummaryProps> = ({
+  breakdown,
+  compact = false,
+  hideTotal = false,
+  className = '',
+}) => {
+  const rows = getBreakdownRows(breakdown).filter(
+    row =>
+      !(compact && row.kind === 'subtotal' && breakdown.subtotal === breakdown.total) && !(hideTotal && row.kind === 'total')
+  );
+
+  return (
+    <div className={`space-y-1.5 text-sm ${className}`}>
+      {rows.map(row => {
+        if (row.kind === 'total') {
+          return (
+            <div key={row.key} className="flex justify-between pt-2 mt-1 border-t border-gray-200 dark:border-gray-700">
+              <span className="font-semibold text-gray-800 dark:text-gray-200">{row.label}</span>
+              <span className="font-bold text-lg text-primary-600 dark:text-primary-400">{formatCurrency(row.amount)}</span>
+            </div>
+          );
+        }
+
+        const tone =
+          row.kind === 'discount'
+            ? 'text-green-600 dark:text-green-400'
+            : row.kind === 'included'
+              ? 'text-gray-400 dark:text-gray-500 text-xs'
+              : 'text-gray-600 dark:text-gray-400';
+
+        return (
+          <div key={row.key} className={`flex justify-between ${tone}`}>
+            <span>{row.label}</span>
+            <span>{row.amount < 0 ? `-${formatCurrency(-row.amount)}` : formatCurrency(row.amount)}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PriceBreakdownSummary;
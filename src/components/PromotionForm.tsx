@@ -0,0 +1,331 @@
+import React, { useMemo, useState } from 'react';
+import type { DiscountType, Menu, Promotion, PromotionInput, PromotionSchedule } from '../types';
+import { PromotionType } from '../types';
+import Button from './Button';
+import { DAY_LABELS, PROMOTION_TYPE_LABELS } from '../utils/promotions';
+import { FaExclamationCircle } from 'react-icons/fa';
+
+interface PromotionFormProps {
+  initialData?: Promotion;
+  menus: Menu[];
+  onSubmit: (data: PromotionInput) => void;
+  onCancel: () => void;
+  isSubmitting: boolean;
+  error?: string | null;
+}
+
+const EMPTY_PROMOTION: PromotionInput = {
+  name: '',
+  type: PromotionType.PRICE_RULE,
+  isActive: true,
+  discountType: 'percent',
+  discountValue: 10,
+  menuIds: [],
+  categories: [],
+  schedule: {},
+};
+
+const TYPE_HINTS: Record<PromotionType, string> = {
+  [PromotionType.VOUCHER]: 'Pelanggan memasukkan kode di checkout. Tanpa menu/kategori, diskon berlaku untuk seluruh pesanan.',
+  [PromotionType.PRICE_RULE]: 'Harga menu turun otomatis selama jadwal berjalan, mis. happy hour.',
+  [PromotionType.BUNDLE]: 'Beli sejumlah menu yang dipilih, dapat menu hadiah dengan diskon (100% = gratis).',
+};
+
+const toOptionalNumber = (value: string): number | undefined => (value === '' ? undefined : Number(value));
+
+const PromotionForm: React.FC<PromotionFormProps> = ({ initialData, menus, onSubmit, onCancel, isSubmitting, error }) => {
+  const [form, setForm] = useState<PromotionInput>(() => {
+    if (!initialData) return EMPTY_PROMOTION;
+    return {
+      name: initialData.name,
+      type: initialData.type,
+      isActive: initialData.isActive,
+      discountType: initialData.discountType,
+      discountValue: initialData.discountValue,
+      menuIds: initialData.menuIds,
+      categories: initialData.categories,
+      schedule: initialData.schedule ?? {},
+      code: initialData.code,
+      minSubtotal: initialData.minSubtotal,
+      usageLimit: initialData.usageLimit,
+      buyQuantity: initialData.buyQuantity,
+      rewardMenuId: initialData.rewardMenuId,
+      rewardQuantity: initialData.rewardQuantity,
+    };
+  });
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const categories = useMemo(
+    () => [...new Set(menus.map(menu => menu.category).filter((category): category is string => !!category))].sort(),
+    [menus]
+  );
+
+  const update = (changes: Partial<PromotionInput>) => setForm(prev => ({ ...prev, ...changes }));
+  const updateSchedule = (changes: Partial<PromotionSchedule>) =>
+    setForm(prev => ({ ...prev, schedule: { ...prev.schedule, ...changes } }));
+
+  const toggle = <T,>(list: T[], value: T): T[] =>
+    list.includes(value) ? list.filter(entry => entry !== value) : [...list, value];
+
+  const isVoucher = form.type === PromotionType.VOUCHER;
+  const isBundle = form.type === PromotionType.BUNDLE;
+  const schedule = form.schedule ?? {};
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.name.trim()) return setValidationError('Nama promo wajib diisi.');
+    if (!(form.discountValue > 0)) return setValidationError('Nilai diskon harus lebih dari 0.');
+    if (form.discountType === 'percent' && form.discountValue > 100) return setValidationError('Diskon persen maksimal 100%.');
+    if (isVoucher && !form.code?.trim()) return setValidationError('Kode voucher wajib diisi.');
+    if (isBundle && form.rewardMenuId === undefined) return setValidationError('Pilih menu hadiah untuk paket.');
+    if (isBundle && form.menuIds.length === 0 && form.categories.length === 0) {
+      return setValidationError('Pilih menu atau kategori yang harus dibeli.');
+    }
+
+    setValidationError(null);
+    const cleanSchedule: PromotionSchedule = {
+      daysOfWeek: schedule.daysOfWeek?.length ? [...schedule.daysOfWeek].sort() : undefined,
+      startTime: schedule.startTime || undefined,
+      endTime: schedule.endTime || undefined,
+      startDate: schedule.startDate || undefined,
+      endDate: schedule.endDate || undefined,
+    };
+
+    onSubmit({
+      ...form,
+      name: form.name.trim(),
+      code: isVoucher ? form.code?.trim().toUpperCase() : undefined,
+      minSubtotal: isVoucher ? form.minSubtotal : undefined,
+      usageLimit: isVoucher ? form.usageLimit : undefined,
+      buyQuantity: isBundle ? form.buyQuantity ?? 1 : undefined,
+      rewardMenuId: isBundle ? form.rewardMenuId : undefined,
+      rewardQuantity: isBundle ? form.rewardQuantity ?? 1 : undefined,
+      schedule: Object.values(cleanSchedule).some(value => value !== undefined) ? cleanSchedule : undefined,
+    });
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 focus:ring-primary-500 focus:border-primary-500';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+  const shownError = validationError || error;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      {shownError && (
+        <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+          <FaExclamationCircle className="flex-shrink-0" />
+          {shownError}
+        </div>
+      )}
+
+      <div>
+        <div className="flex flex-wrap gap-2">
+          {Object.values(PromotionType).map(type => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => update({ type })}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium border ${
+                form.type === type ? 'bg-primary-500 border-primary-500 text-white' : 'bg-white dark:bg-gray-700 border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-200'
+              }`}
+            >
+              {PROMOTION_TYPE_LABELS[type]}
+            </button>
+          ))}
+        </div>
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">{TYPE_HINTS[form.type]}</p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className="sm:col-span-2">
+          <span className={labelClass}>Nama promo</span>
+          <input className={inputClass} value={form.name} onChange={(e) => update({ name: e.target.value })} placeholder="Happy Hour Es Teh" />
+        </label>
+
+        {isVoucher && (
+          <>
+            <label>
+              <span className={labelClass}>Kode voucher</span>
+              <input
+                className={`${inputClass} uppercase`}
+                value={form.code ?? ''}
+                onChange={(e) => update({ code: e.target.value.toUpperCase() })}
+                placeholder="HEMAT10"
+              />
+            </label>
+            <label>
+              <span className={labelClass}>Minimal belanja (Rp)</span>
+              <input
+                className={inputClass}
+                type="number"
+                min={0}
+                value={form.minSubtotal ?? ''}
+                onChange={(e) => update({ minSubtotal: toOptionalNumber(e.target.value) })}
+              />
+            </label>
+            <label>
+              <span className={labelClass}>Kuota pemakaian</span>
+              <input
+                className={inputClass}
+                type="number"
+                min={1}
+                value={form.usageLimit ?? ''}
+                onChange={(e) => update({ usageLimit: toOptionalNumber(e.target.value) })}
+                placeholder="Tanpa batas"
+              />
+            </label>
+          </>
+        )}
+
+        <label>
+          <span className={labelClass}>Jenis diskon</span>
+          <select className={inputClass} value={form.discountType} onChange={(e) => update({ discountType: e.target.value as DiscountType })}>
+            <option value="percent">Persen (%)</option>
+            <option value="amount">Potongan (Rp)</option>
+          </select>
+        </label>
+        <label>
+          <span className={labelClass}>{form.discountType === 'percent' ? 'Diskon (%)' : 'Potongan (Rp)'}</span>
+          <input
+            className={inputClass}
+            type="number"
+            min={0}
+            max={form.discountType === 'percent' ? 100 : undefined}
+            value={form.discountValue}
+            onChange={(e) => update({ discountValue: Number(e.target.value) || 0 })}
+          />
+        </label>
+      </div>
+
+      {isBundle && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <label>
+            <span className={labelClass}>Jumlah beli</span>
+            <input
+              className={inputClass}
+              type="number"
+              min={1}
+              value={form.buyQuantity ?? 1}
+              onChange={(e) => update({ buyQuantity: Math.max(Number(e.target.value) || 1, 1) })}
+            />
+          </label>
+          <label>
+            <span className={labelClass}>Menu hadiah</span>
+            <select
+              className={inputClass}
+              value={form.rewardMenuId ?? ''}
+              onChange={(e) => update({ rewardMenuId: toOptionalNumber(e.target.value) })}
+            >
+              <option value="">Pilih menu</option>
+              {menus.map(menu => (
+                <option key={menu.id} value={menu.id}>{menu.name}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span className={labelClass}>Jumlah hadiah</span>
+            <input
+              className={inputClass}
+              type="number"
+              min={1}
+              value={form.rewardQuantity ?? 1}
+              onChange={(e) => update({ rewardQuantity: Math.max(Number(e.target.value) || 1, 1) })}
+            />
+          </label>
+        </div>
+      )}
+
+      <div>
+        <span className={labelClass}>{isBundle ? 'Menu yang harus dibeli' : 'Berlaku untuk'}</span>
+        {categories.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {categories.map(category => (
+              <button
+                key={category}
+                type="button"
+                onClick={() => update({ categories: toggle(form.categories, category) })}
+                className={`px-2.5 py-1 rounded-full text-xs border ${
+                  form.categories.includes(category)
+                    ? 'bg-primary-100 border-primary-300 text-primary-700'
+                    : 'bg-white dark:bg-gray-700 border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300'
+                }`}
+              >
+                {category}
+              </button>
+            ))}
+          </div>
+        )}
+        <div className="max-h-40 overflow-y-auto border border-gray-200 dark:border-gray-600 rounded-lg divide-y divide-gray-100 dark:divide-gray-700">
+          {menus.map(menu => (
+            <label key={menu.id} className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300">
+              <input type="checkbox" checked={form.menuIds.includes(menu.id)} onChange={() => update({ menuIds: toggle(form.menuIds, menu.id) })} />
+              <span className="flex-1">{menu.name}</span>
+              {menu.category && <span className="text-xs text-gray-400">{menu.category}</span>}
+            </label>
+          ))}
+        </div>
+        {!isBundle && form.menuIds.length === 0 && form.categories.length === 0 && (
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            {isVoucher ? 'Tidak ada yang dipilih: diskon untuk seluruh pesanan.' : 'Tidak ada yang dipilih: berlaku untuk semua menu.'}
+          </p>
+        )}
+      </div>
+
+      <div>
+        <span className={labelClass}>Jadwal</span>
+        <div className="flex flex-wrap gap-2 mb-3">
+          {DAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => updateSchedule({ daysOfWeek: toggle(schedule.daysOfWeek ?? [], day) })}
+              className={`w-11 py-1 rounded-lg text-xs border ${
+                schedule.daysOfWeek?.includes(day)
+                  ? 'bg-primary-500 border-primary-500 text-white'
+                  : 'bg-white dark:bg-gray-700 border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          <label>
+            <span className="block text-xs text-gray-500 mb-1">Jam mulai</span>
+            <input className={inputClass} type="time" value={schedule.startTime ?? ''} onChange={(e) => updateSchedule({ startTime: e.target.value })} />
+          </label>
+          <label>
+            <span className="block text-xs text-gray-500 mb-1">Jam selesai</span>
+            <input className={inputClass} type="time" value={schedule.endTime ?? ''} onChange={(e) => updateSchedule({ endTime: e.target.value })} />
+          </label>
+          <label>
+            <span className="block text-xs text-gray-500 mb-1">Mulai tanggal</span>
+            <input className={inputClass} type="date" value={schedule.startDate ?? ''} onChange={(e) => updateSchedule({ startDate: e.target.value })} />
+          </label>
+          <label>
+            <span className="block text-xs text-gray-500 mb-1">Sampai tanggal</span>
+            <input className={inputClass} type="date" value={schedule.endDate ?? ''} onChange={(e) => updateSchedule({ endDate: e.target.value })} />
+          </label>
+        </div>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Kosongkan untuk berlaku setiap saat. Hari kosong berarti setiap hari.</p>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+        <input type="checkbox" checked={form.isActive} onChange={(e) => update({ isActive: e.target.checked })} />
+        Aktif
+      </label>
+
+      <div className="flex justify-end gap-2 pt-2">
+        <Button type="button" variant="light" onClick={onCancel} disabled={isSubmitting}>
+          Batal
+        </Button>
+        <Button type="submit" variant="primary" isLoading={isSubmitting}>
+          {initialData ? 'Simpan' : 'Tambah Promo'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default PromotionForm;
@@ -7,9 +7,11 @@ import { FaPrint, FaDownload, FaQrcode, FaLink, FaCopy } from 'react-icons/fa';
 interface QRCodeGeneratorProps {
   tableId: number;
   tableName: string;
+  // Token from getTableQrValue; the table code and numeric id are never encoded
+  qrValue?: string;
 }
 
-const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({ tableId, tableName }) => {
+const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({ tableId, tableName, qrValue }) => {
   const [baseUrl, setBaseUrl] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -28,7 +30,7 @@ const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({ tableId, tableName })
     }
   }, []);
 
-  const qrCodeUrl = `${baseUrl}/order?table=${tableId}`;
+  const qrCodeUrl = qrValue ? `${baseUrl}/order?t=${encodeURIComponent(qrValue)}` : '';
   
   const handlePrint = () => {
     setIsLoading(true);
@@ -318,7 +320,17 @@ const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({ tableId, tableName })
         transition={{ duration: 0.3 }}
       >
         <AnimatePresence mode="wait">
-          {error ? (
+          {!qrValue ? (
+            <motion.div 
+              key="missing"
+              className="text-amber-600 dark:text-amber-400 text-center p-4"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+            >
+              <p>This table has no QR token yet. Rotate the QR code to generate one.</p>
+            </motion.div>
+          ) : error ? (
             <motion.div 
               key="error"
               className="text-red-500 dark:text-red-400 text-center p-4"
@@ -366,6 +378,7 @@ const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({ tableId, tableName })
         </p>
         <motion.button
           onClick={copyToClipboard}
+          disabled={!qrValue}
           className="text-xs text-primary-500 dark:text-primary-400 flex items-center gap-1 mx-auto mt-2 bg-white dark:bg-gray-800 px-3 py-1 rounded-full border border-gray-200 dark:border-gray-700 shadow-sm"
           whileHover={{ scale: 1.05, y: -2 }}
           whileTap={{ scale: 0.95 }}
@@ -396,6 +409,7 @@ const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({ tableId, tableName })
             variant="primary"
             onClick={handlePrint}
             isLoading={isLoading}
+            disabled={!qrValue}
             className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl text-base"
             iconLeft={<FaPrint />}
           >
@@ -408,6 +422,7 @@ const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({ tableId, tableName })
             variant="secondary"
             onClick={handleDownload}
             isLoading={isLoading}
+            disabled={!qrValue}
             className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl text-base"
             iconLeft={<FaDownload />}
           >
@@ -0,0 +1,248 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { Order, OrderHistory } from '../types';
+import Modal from './Modal';
+import Button from './Button';
+import {
+  DEFAULT_RECEIPT_LAYOUT,
+  RECEIPT_PRINT_WIDTH_MM,
+  buildReceiptDocument,
+  buildReceiptHtml,
+} from '../utils/receipt';
+import type { ReceiptContext, ReceiptKind, ReceiptLayout, ReceiptPaperWidth } from '../utils/receipt';
+import { encodeReceipt } from '../utils/escpos';
+import { isPrinterConnectionSupported, printBytes } from '../utils/thermalPrinter';
+import type { PrinterConnectionType } from '../utils/thermalPrinter';
+import { FaPrint, FaUsb, FaPlug, FaCog, FaCheckCircle, FaExclamationCircle } from 'react-icons/fa';
+
+interface ReceiptPrintModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  source: Order | OrderHistory | null;
+  context?: ReceiptContext;
+  defaultKind?: ReceiptKind;
+}
+
+const LAYOUT_STORAGE_KEY = 'receiptLayout';
+
+const loadLayout = (): ReceiptLayout => {
+  try {
+    const stored = localStorage.getItem(LAYOUT_STORAGE_KEY);
+    if (!stored) return DEFAULT_RECEIPT_LAYOUT;
+    const parsed: Partial<ReceiptLayout> = JSON.parse(stored);
+    // Pick known fields only: older layouts also carried tax settings, now owned by pricing.ts
+    return {
+      paperWidth: parsed.paperWidth === 80 ? 80 : 58,
+      restaurantName: parsed.restaurantName ?? DEFAULT_RECEIPT_LAYOUT.restaurantName,
+      headerLines: Array.isArray(parsed.headerLines) ? parsed.headerLines.map(String) : [],
+      footer: parsed.footer ?? DEFAULT_RECEIPT_LAYOUT.footer,
+      showDailyOrderId: parsed.showDailyOrderId ?? DEFAULT_RECEIPT_LAYOUT.showDailyOrderId,
+      showCustomizations: parsed.showCustomizations ?? DEFAULT_RECEIPT_LAYOUT.showCustomizations,
+    };
+  } catch (error) {
+    console.error('Failed to parse receipt layout from localStorage:', error);
+    return DEFAULT_RECEIPT_LAYOUT;
+  }
+};
+
+const ReceiptPrintModal: React.FC<ReceiptPrintModalProps> = ({
+  isOpen,
+  onClose,
+  source,
+  context,
+  defaultKind = 'receipt',
+}) => {
+  const [kind, setKind] = useState<ReceiptKind>(defaultKind);
+  const [layout, setLayout] = useState<ReceiptLayout>(loadLayout);
+  const [showSettings, setShowSettings] = useState(false);
+  const [busyTarget, setBusyTarget] = useState<PrinterConnectionType | 'browser' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setKind(defaultKind);
+      setError(null);
+      setSuccess(null);
+    }
+  }, [isOpen, defaultKind]);
+
+  useEffect(() => {
+    localStorage.setItem(LAYOUT_STORAGE_KEY, JSON.stringify(layout));
+  }, [layout]);
+
+  const receipt = useMemo(
+    () => (source ? buildReceiptDocument(source, kind, layout, context) : null),
+    [source, kind, layout, context]
+  );
+  const html = useMemo(() => (receipt ? buildReceiptHtml(receipt, layout) : ''), [receipt, layout]);
+
+  const updateLayout = (changes: Partial<ReceiptLayout>) => {
+    setLayout(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleBrowserPrint = () => {
+    setError(null);
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      setError('Could not open print window. Please check your popup blocker settings.');
+      return;
+    }
+
+    setBusyTarget('browser');
+    printWindow.document.open();
+    printWindow.document.write(html);
+    printWindow.document.close();
+    setTimeout(() => {
+      printWindow.print();
+      setBusyTarget(null);
+    }, 300);
+  };
+
+  const handleThermalPrint = async (type: PrinterConnectionType) => {
+    if (!receipt) return;
+    setError(null);
+    setSuccess(null);
+    setBusyTarget(type);
+    try {
+      await printBytes(encodeReceipt(receipt), type);
+      setSuccess(kind === 'kitchen' ? 'Tiket dapur dikirim ke printer.' : 'Struk dikirim ke printer.');
+    } catch (err) {
+      console.error('Thermal print failed:', err);
+      // Closing the device picker is not an error worth showing
+      if (!(err instanceof DOMException && err.name === 'NotFoundError')) {
+        setError(err instanceof Error ? err.message : 'Gagal mencetak ke printer.');
+      }
+    } finally {
+      setBusyTarget(null);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-primary-500 focus:border-primary-500';
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={kind === 'kitchen' ? 'Cetak Tiket Dapur' : 'Cetak Struk'} size="lg" icon={<FaPrint size={18} />}>
+      <div className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {(['receipt', 'kitchen'] as ReceiptKind[]).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setKind(option)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium border ${
+                kind === option ? 'bg-primary-500 border-primary-500 text-white' : 'bg-white border-gray-200 text-gray-700'
+              }`}
+            >
+              {option === 'kitchen' ? 'Tiket dapur' : 'Struk pelanggan'}
+            </button>
+          ))}
+          <div className="flex-1" />
+          {([58, 80] as ReceiptPaperWidth[]).map(width => (
+            <button
+              key={width}
+              type="button"
+              onClick={() => updateLayout({ paperWidth: width })}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium border ${
+                layout.paperWidth === width ? 'bg-gray-800 border-gray-800 text-white' : 'bg-white border-gray-200 text-gray-700'
+              }`}
+            >
+              {width}mm
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => setShowSettings(open => !open)}
+            className={`px-3 py-1.5 rounded-lg text-sm border ${showSettings ? 'bg-gray-100 border-gray-300' : 'bg-white border-gray-200'} text-gray-700`}
+            aria-label="Pengaturan struk"
+          >
+            <FaCog />
+          </button>
+        </div>
+
+        {showSettings && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 p-3 rounded-lg bg-gray-50 border border-gray-200">
+            <label className="text-sm text-gray-700">
+              Nama restoran
+              <input className={inputClass} value={layout.restaurantName} onChange={(e) => updateLayout({ restaurantName: e.target.value })} />
+            </label>
+            <label className="text-sm text-gray-700">
+              Footer
+              <input className={inputClass} value={layout.footer} onChange={(e) => updateLayout({ footer: e.target.value })} />
+            </label>
+            <label className="text-sm text-gray-700 sm:col-span-2">
+              Header (alamat, telepon; satu per baris)
+              <textarea
+                className={inputClass}
+                rows={2}
+                value={layout.headerLines.join('\n')}
+                onChange={(e) => updateLayout({ headerLines: e.target.value.split('\n') })}
+              />
+            </label>
+            {([
+              ['showDailyOrderId', 'Pakai nomor pesanan harian'],
+              ['showCustomizations', 'Tampilkan kustomisasi & catatan'],
+            ] as [keyof Pick<ReceiptLayout, 'showDailyOrderId' | 'showCustomizations'>, string][]).map(([key, label]) => (
+              <label key={key} className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={layout[key]} onChange={(e) => updateLayout({ [key]: e.target.checked })} />
+                {label}
+              </label>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-center p-3 bg-gray-100 rounded-lg max-h-96 overflow-y-auto">
+          <iframe
+            title="Pratinjau struk"
+            srcDoc={html}
+            className="bg-white shadow"
+            style={{ width: `${RECEIPT_PRINT_WIDTH_MM[layout.paperWidth] + 8}mm`, height: '22rem', border: 0 }}
+          />
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+            <FaExclamationCircle className="flex-shrink-0" />
+            {error}
+          </div>
+        )}
+        {success && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-green-50 border border-green-200 text-sm text-green-700">
+            <FaCheckCircle className="flex-shrink-0" />
+            {success}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2 justify-end">
+          <Button
+            variant="light"
+            onClick={() => handleThermalPrint('serial')}
+            isLoading={busyTarget === 'serial'}
+            disabled={!receipt || busyTarget !== null || !isPrinterConnectionSupported('serial')}
+            iconLeft={<FaPlug size={14} />}
+          >
+            Printer Serial
+          </Button>
+          <Button
+            variant="light"
+            onClick={() => handleThermalPrint('usb')}
+            isLoading={busyTarget === 'usb'}
+            disabled={!receipt || busyTarget !== null || !isPrinterConnectionSupported('usb')}
+            iconLeft={<FaUsb size={14} />}
+          >
+            Printer USB
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleBrowserPrint}
+            isLoading={busyTarget === 'browser'}
+            disabled={!receipt || busyTarget !== null}
+            iconLeft={<FaPrint size={14} />}
+          >
+            Cetak
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default ReceiptPrintModal;
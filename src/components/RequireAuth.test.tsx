@@ -0,0 +1,92 @@
+// @vitest-environment jsdom
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import type { Root } from 'react-dom/client';
+import { MemoryRouter, Route, Routes, useLocation } from 'react-router-dom';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useAuthStore } from '../store';
+import RequireAuth from './RequireAuth';
+
+// The real Layout starts live feeds for signed-in staff
+vi.mock('./Layout', () => ({
+  default: ({ children }: { children: React.ReactNode }) => <>{children}</>,
+}));
+
+(globalThis as typeof globalThis & { IS_REACT_ACT_ENVIRONMENT: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const LoginProbe: React.FC = () => {
+  const location = useLocation();
+  return <p>login{location.search}</p>;
+};
+
+let container: HTMLDivElement;
+let root: Root;
+
+const renderAt = async (path: string, guard: Omit<React.ComponentProps<typeof RequireAuth>, 'children'> = {}) => {
+  await act(async () => {
+    root.render(
+      <MemoryRouter initialEntries={[path]}>
+        <Routes>
+          <Route path="/admin/login" element={<LoginProbe />} />
+          <Route path="*" element={<RequireAuth {...guard}><p>protected page</p></RequireAuth>} />
+        </Routes>
+      </MemoryRouter>
+    );
+  });
+  return container.textContent;
+};
+
+const signInAs = (role: 'ADMIN' | 'STAFF') => {
+  act(() => {
+    useAuthStore.setState({
+      isAuthenticated: true,
+      isAdmin: role === 'ADMIN',
+      user: { id: 1, username: role.toLowerCase(), role },
+    });
+  });
+};
+
+beforeEach(() => {
+  container = document.createElement('div');
+  document.body.appendChild(container);
+  root = createRoot(container);
+  useAuthStore.setState({ isAuthenticated: false, isAdmin: false, user: null });
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+  container.remove();
+});
+
+describe('RequireAuth', () => {
+  it('sends signed-out users to the login page and back afterwards', async () => {
+    expect(await renderAt('/admin/orders?status=PENDING')).toBe(
+      `login?redirect=${encodeURIComponent('/admin/orders?status=PENDING')}`
+    );
+  });
+
+  it('treats an authenticated flag without a user as signed out', async () => {
+    useAuthStore.setState({ isAuthenticated: true, user: null });
+    expect(await renderAt('/admin/menu')).toBe(`login?redirect=${encodeURIComponent('/admin/menu')}`);
+  });
+
+  it('renders the page for a role with the permission', async () => {
+    signInAs('STAFF');
+    expect(await renderAt('/admin/kitchen', { permission: 'kitchen:view' })).toBe('protected page');
+  });
+
+  it('shows a notice to a role without the permission', async () => {
+    signInAs('STAFF');
+    const text = await renderAt('/admin/analytics', { permission: 'analytics:view' });
+    expect(text).toContain('Akses Ditolak');
+    expect(text).not.toContain('protected page');
+  });
+
+  it('checks the allowed roles', async () => {
+    signInAs('STAFF');
+    expect(await renderAt('/admin/staff', { roles: ['ADMIN'] })).toContain('Akses Ditolak');
+
+    signInAs('ADMIN');
+    expect(await renderAt('/admin/staff', { roles: ['ADMIN'], permission: 'staff:manage' })).toBe('protected page');
+  });
+});
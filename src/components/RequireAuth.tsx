@@ -0,0 +1,61 @@
+import React from 'react';
+import { Navigate, Link, useLocation } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { FaLock } from 'react-icons/fa';
+import { useAuthStore } from '../store';
+import Layout from './Layout';
+import { isAuthorized, getDefaultAdminPath } from '../utils/permissions';
+import type { Permission, UserRole } from '../utils/permissions';
+
+interface RequireAuthProps {
+  children: React.ReactNode;
+  // Roles allowed on the route; any signed-in role when omitted
+  roles?: UserRole[];
+  permission?: Permission;
+}
+
+/**
+ * Route guard for admin pages. Signed-out users go to the login page and come
+ * back afterwards; signed-in users without access see a notice instead.
+ */
+const RequireAuth: React.FC<RequireAuthProps> = ({ children, roles, permission }) => {
+  const location = useLocation();
+  const { isAuthenticated, user } = useAuthStore();
+
+  if (!isAuthenticated || !user) {
+    const redirect = encodeURIComponent(`${location.pathname}${location.search}`);
+    return <Navigate to={`/admin/login?redirect=${redirect}`} replace />;
+  }
+
+  if (!isAuthorized(user.role, { roles, permission })) {
+    return (
+      <Layout>
+        <div className="min-h-[60vh] flex items-center justify-center px-4">
+          <motion.div
+            className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 p-8 max-w-md text-center"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+          >
+            <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-red-100 dark:bg-red-900/30 flex items-center justify-center">
+              <FaLock className="text-2xl text-red-500" />
+            </div>
+            <h1 className="text-2xl font-bold text-gray-800 dark:text-white mb-2">Akses Ditolak</h1>
+            <p className="text-gray-600 dark:text-gray-400 mb-6">
+              Akun {user.role === 'STAFF' ? 'staff' : 'Anda'} tidak memiliki izin untuk membuka halaman ini.
+            </p>
+            <Link
+              to={getDefaultAdminPath(user.role)}
+              className="inline-block px-5 py-2.5 bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium transition-colors"
+            >
+              Kembali
+            </Link>
+          </motion.div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireAuth;
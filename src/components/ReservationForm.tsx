@@ -0,0 +1,216 @@
+import React, { useMemo, useState } from 'react';
+import type { Reservation, ReservationInput, Table } from '../types';
+import Button from './Button';
+import {
+  DEFAULT_RESERVATION_MINUTES,
+  findAvailableTables,
+  getReservationConflicts,
+  toIsoTime,
+  toReservationDate,
+  toTimeValue,
+} from '../utils/reservations';
+import { FaExclamationCircle, FaExclamationTriangle } from 'react-icons/fa';
+
+// Prefill for a new reservation, e.g. from a click on the timeline
+export interface ReservationDraft {
+  tableId?: number;
+  date: string; // YYYY-MM-DD
+  time?: string; // HH:mm
+}
+
+interface ReservationFormProps {
+  initialData?: Reservation;
+  draft?: ReservationDraft;
+  tables: Table[];
+  // Reservations of the day being edited, for the conflict check. The server
+  // re-checks on save, which also covers other days.
+  reservations: Reservation[];
+  onSubmit: (data: ReservationInput) => void;
+  onCancel: () => void;
+  isSubmitting: boolean;
+  error?: string | null;
+}
+
+const DURATION_OPTIONS = [60, 90, 120, 180];
+
+const ReservationForm: React.FC<ReservationFormProps> = ({
+  initialData,
+  draft,
+  tables,
+  reservations,
+  onSubmit,
+  onCancel,
+  isSubmitting,
+  error,
+}) => {
+  const [guestName, setGuestName] = useState(initialData?.guestName ?? '');
+  const [phone, setPhone] = useState(initialData?.phone ?? '');
+  const [partySize, setPartySize] = useState(initialData?.partySize ?? 2);
+  const [date, setDate] = useState(
+    initialData ? toReservationDate(initialData.startTime) : draft?.date ?? toReservationDate()
+  );
+  const [time, setTime] = useState(initialData ? toTimeValue(initialData.startTime) : draft?.time ?? '19:00');
+  const [duration, setDuration] = useState(
+    initialData
+      ? Math.round((Date.parse(initialData.endTime) - Date.parse(initialData.startTime)) / 60000)
+      : DEFAULT_RESERVATION_MINUTES
+  );
+  const [tableId, setTableId] = useState<number | undefined>(initialData?.tableId ?? draft?.tableId);
+  const [notes, setNotes] = useState(initialData?.notes ?? '');
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const startTime = date && time ? toIsoTime(date, time) : '';
+  const endTime = startTime ? new Date(Date.parse(startTime) + duration * 60000).toISOString() : '';
+  const otherReservations = useMemo(
+    () => reservations.filter(reservation => reservation.id !== initialData?.id),
+    [reservations, initialData]
+  );
+
+  const conflicts =
+    startTime && tableId !== undefined
+      ? getReservationConflicts({ tableId, partySize, startTime, endTime }, tables, otherReservations)
+      : [];
+  const suggestions = startTime
+    ? findAvailableTables(partySize, { startTime, endTime }, tables, otherReservations).slice(0, 6)
+    : [];
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!guestName.trim()) return setValidationError('Nama tamu wajib diisi.');
+    if (!(partySize >= 1)) return setValidationError('Jumlah tamu minimal 1.');
+    if (!startTime) return setValidationError('Tanggal dan jam wajib diisi.');
+    if (tableId === undefined) return setValidationError('Pilih meja.');
+    if (conflicts.length > 0) return setValidationError(conflicts[0]);
+
+    setValidationError(null);
+    onSubmit({
+      tableId,
+      guestName: guestName.trim(),
+      phone: phone.trim() || undefined,
+      partySize,
+      startTime,
+      endTime,
+      notes: notes.trim() || undefined,
+    });
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 focus:ring-primary-500 focus:border-primary-500';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+  const shownError = validationError || error;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      {shownError && (
+        <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+          <FaExclamationCircle className="flex-shrink-0" />
+          {shownError}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label>
+          <span className={labelClass}>Nama tamu</span>
+          <input className={inputClass} value={guestName} onChange={(e) => setGuestName(e.target.value)} placeholder="Budi" />
+        </label>
+        <label>
+          <span className={labelClass}>No. HP</span>
+          <input className={inputClass} type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} placeholder="08xx" />
+        </label>
+        <label>
+          <span className={labelClass}>Jumlah tamu</span>
+          <input
+            className={inputClass}
+            type="number"
+            min={1}
+            value={partySize}
+            onChange={(e) => setPartySize(Number(e.target.value) || 1)}
+          />
+        </label>
+        <label>
+          <span className={labelClass}>Durasi</span>
+          <select className={inputClass} value={duration} onChange={(e) => setDuration(Number(e.target.value))}>
+            {[...new Set([...DURATION_OPTIONS, duration])].sort((a, b) => a - b).map(minutes => (
+              <option key={minutes} value={minutes}>
+                {minutes} menit
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <span className={labelClass}>Tanggal</span>
+          <input className={inputClass} type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+        </label>
+        <label>
+          <span className={labelClass}>Jam</span>
+          <input className={inputClass} type="time" step={900} value={time} onChange={(e) => setTime(e.target.value)} />
+        </label>
+        <label className="sm:col-span-2">
+          <span className={labelClass}>Meja</span>
+          <select
+            className={inputClass}
+            value={tableId ?? ''}
+            onChange={(e) => setTableId(e.target.value === '' ? undefined : Number(e.target.value))}
+          >
+            <option value="">Pilih meja</option>
+            {tables.map(table => (
+              <option key={table.id} value={table.id}>
+                {table.name} ({table.capacity} orang)
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {suggestions.length > 0 && (
+        <div>
+          <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Meja yang kosong pada jam ini:</span>
+          <div className="flex flex-wrap gap-2">
+            {suggestions.map(table => (
+              <button
+                key={table.id}
+                type="button"
+                onClick={() => setTableId(table.id)}
+                className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                  tableId === table.id
+                    ? 'bg-primary-500 border-primary-500 text-white'
+                    : 'bg-white dark:bg-gray-700 border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-200'
+                }`}
+              >
+                {table.name} · {table.capacity}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {conflicts.length > 0 && (
+        <ul className="space-y-1 p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+          {conflicts.map(conflict => (
+            <li key={conflict} className="flex items-center gap-2">
+              <FaExclamationTriangle className="flex-shrink-0" size={12} />
+              {conflict}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <label className="block">
+        <span className={labelClass}>Catatan</span>
+        <textarea className={inputClass} rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Ulang tahun, kursi bayi, ..." />
+      </label>
+
+      <div className="flex justify-end gap-2 pt-2">
+        <Button type="button" variant="light" onClick={onCancel} disabled={isSubmitting}>
+          Batal
+        </Button>
+        <Button type="submit" variant="primary" isLoading={isSubmitting} disabled={conflicts.length > 0}>
+          {initialData ? 'Simpan' : 'Tambah Reservasi'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default ReservationForm;
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import type { Reservation, Table } from '../types';
+import { ReservationStatus } from '../types';
+import { TIMELINE_END_HOUR, TIMELINE_START_HOUR, formatSlot, toIsoTime, toReservationDate } from '../utils/reservations';
+
+interface ReservationTimelineProps {
+  date: string; // YYYY-MM-DD
+  tables: Table[];
+  reservations: Reservation[];
+  onSelect: (reservation: Reservation) => void;
+  // Click on an empty part of a row; `time` is rounded down to the half hour
+  onCreate?: (tableId: number, time: string) => void;
+}
+
+const STATUS_CLASSES: Record<ReservationStatus, string> = {
+  [ReservationStatus.BOOKED]: 'bg-amber-100 border-amber-400 text-amber-800',
+  [ReservationStatus.SEATED]: 'bg-red-100 border-red-400 text-red-800',
+  [ReservationStatus.COMPLETED]: 'bg-gray-100 border-gray-300 text-gray-500',
+  [ReservationStatus.CANCELLED]: 'bg-gray-50 border-gray-200 text-gray-400 line-through',
+  [ReservationStatus.NO_SHOW]: 'bg-gray-50 border-gray-200 text-gray-400 line-through',
+};
+
+const HOURS = Array.from({ length: TIMELINE_END_HOUR - TIMELINE_START_HOUR }, (_, i) => TIMELINE_START_HOUR + i);
+const SPAN_MINUTES = (TIMELINE_END_HOUR - TIMELINE_START_HOUR) * 60;
+
+/**
+ * Day timeline with one row per table and a block per reservation
+ */
+const ReservationTimeline: React.FC<ReservationTimelineProps> = ({ date, tables, reservations, onSelect, onCreate }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const dayStart = Date.parse(toIsoTime(date, `${String(TIMELINE_START_HOUR).padStart(2, '0')}:00`));
+
+  // Percent offset from the start of the timeline, clamped to the visible hours
+  const toPercent = (iso: string | number): number => {
+    const minutes = ((typeof iso === 'number' ? iso : Date.parse(iso)) - dayStart) / 60000;
+    return Math.min(Math.max((minutes / SPAN_MINUTES) * 100, 0), 100);
+  };
+
+  const handleRowClick = (event: React.MouseEvent<HTMLDivElement>, tableId: number) => {
+    if (!onCreate || event.target !== event.currentTarget) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const minutes = Math.floor((((event.clientX - rect.left) / rect.width) * SPAN_MINUTES) / 30) * 30;
+    const hour = TIMELINE_START_HOUR + Math.floor(minutes / 60);
+    onCreate(tableId, `${String(hour).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`);
+  };
+
+  const showNow = toReservationDate(new Date(now)) === date && toPercent(now) > 0 && toPercent(now) < 100;
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="min-w-[900px]">
+        {/* Hour scale */}
+        <div className="flex border-b border-gray-200 dark:border-gray-700">
+          <div className="w-32 flex-shrink-0" />
+          <div className="flex-1 flex">
+            {HOURS.map(hour => (
+              <div key={hour} className="flex-1 text-xs text-gray-500 dark:text-gray-400 py-2 border-l border-gray-100 dark:border-gray-700 pl-1">
+                {String(hour).padStart(2, '0')}:00
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {tables.map(table => {
+          const tableReservations = reservations.filter(reservation => reservation.tableId === table.id);
+          return (
+            <div key={table.id} className="flex border-b border-gray-100 dark:border-gray-700">
+              <div className="w-32 flex-shrink-0 py-3 pr-2">
+                <p className="text-sm font-medium text-gray-800 dark:text-gray-200">{table.name}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{table.capacity} orang</p>
+              </div>
+              <div
+                className={`relative flex-1 h-14 ${onCreate ? 'cursor-copy' : ''}`}
+                style={{
+                  backgroundImage: 'linear-gradient(to right, rgba(156, 163, 175, 0.2) 1px, transparent 1px)',
+                  backgroundSize: `${100 / HOURS.length}% 100%`,
+                }}
+                onClick={event => handleRowClick(event, table.id)}
+                title={onCreate ? 'Klik untuk menambah reservasi' : undefined}
+              >
+                {tableReservations.map(reservation => {
+                  const left = toPercent(reservation.startTime);
+                  const width = Math.max(toPercent(reservation.endTime) - left, 1);
+                  return (
+                    <button
+                      key={reservation.id}
+                      type="button"
+                      onClick={() => onSelect(reservation)}
+                      className={`absolute top-1.5 bottom-1.5 px-2 rounded-md border text-left text-xs overflow-hidden whitespace-nowrap hover:shadow-md ${STATUS_CLASSES[reservation.status]}`}
+                      style={{ left: `${left}%`, width: `${width}%` }}
+                      title={`${reservation.guestName} · ${reservation.partySize} orang · ${formatSlot(reservation)}`}
+                    >
+                      <span className="font-semibold">{reservation.guestName}</span> · {reservation.partySize}
+                      <span className="block opacity-75">{formatSlot(reservation)}</span>
+                    </button>
+                  );
+                })}
+                {showNow && (
+                  <div className="absolute top-0 bottom-0 w-0.5 bg-primary-500 pointer-events-none" style={{ left: `${toPercent(now)}%` }} />
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ReservationTimeline;
@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { ServiceRequestAPI } from '../api';
+import type { ServiceRequest } from '../types';
+import { ServiceRequestStatus, ServiceRequestType } from '../types';
+import {
+  SERVICE_REQUEST_LABELS,
+  SERVICE_REQUEST_STATUS_LABELS,
+  isActiveServiceRequest,
+} from '../utils/serviceRequests';
+import Button from './Button';
+import Modal from './Modal';
+import { useAlert } from '../contexts/AlertContext';
+import { FaBell, FaCheckCircle, FaCommentDots, FaConciergeBell, FaReceipt, FaUtensils } from 'react-icons/fa';
+
+interface ServiceRequestButtonProps {
+  tableId: number;
+  // Scanned QR token, so the server only accepts requests from the table itself
+  tableToken: string;
+}
+
+const QUICK_REQUESTS: { type: ServiceRequestType; icon: React.ReactNode }[] = [
+  { type: ServiceRequestType.CALL_WAITER, icon: <FaConciergeBell /> },
+  { type: ServiceRequestType.REQUEST_BILL, icon: <FaReceipt /> },
+  { type: ServiceRequestType.CUTLERY, icon: <FaUtensils /> },
+  { type: ServiceRequestType.NAPKINS, icon: <FaBell /> },
+];
+
+// How often the customer's open requests are checked for staff responses
+const STATUS_POLL_INTERVAL = 15000;
+
+/**
+ * Call-waiter and request-bill buttons for the customer's table, with the
+ * status of what they already asked for
+ */
+const ServiceRequestButton: React.FC<ServiceRequestButtonProps> = ({ tableId, tableToken }) => {
+  const { showAlert } = useAlert();
+  const [isOpen, setIsOpen] = useState(false);
+  const [requests, setRequests] = useState<ServiceRequest[]>([]);
+  const [message, setMessage] = useState('');
+  const [sendingType, setSendingType] = useState<ServiceRequestType | null>(null);
+
+  const activeRequests = requests.filter(isActiveServiceRequest);
+  const activeIds = activeRequests.map(request => request.id).join(',');
+
+  // Follow the requests staff have not resolved yet
+  useEffect(() => {
+    if (!activeIds) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const updated = await Promise.all(
+          activeIds.split(',').map(id => ServiceRequestAPI.getById(Number(id), tableToken))
+        );
+        setRequests(current => current.map(request => updated.find(candidate => candidate.id === request.id) ?? request));
+      } catch (error) {
+        console.error('Failed to refresh service requests:', error);
+      }
+    }, STATUS_POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [activeIds, tableToken]);
+
+  const send = async (type: ServiceRequestType) => {
+    setSendingType(type);
+    try {
+      const request = await ServiceRequestAPI.create({
+        tableId,
+        tableToken,
+        type,
+        message: type === ServiceRequestType.CUSTOM ? message.trim() : undefined,
+      });
+      setRequests(current => [request, ...current]);
+      if (type === ServiceRequestType.CUSTOM) setMessage('');
+      showAlert('Permintaan terkirim. Pelayan akan segera datang.', { type: 'success' });
+    } catch (error) {
+      showAlert(error instanceof Error ? error.message : 'Permintaan gagal dikirim.', { type: 'warning' });
+    } finally {
+      setSendingType(null);
+    }
+  };
+
+  // One open request per kind is enough; staff see how long it has waited
+  const isPending = (type: ServiceRequestType) => activeRequests.some(request => request.type === type);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="relative flex items-center gap-2 px-3 py-1.5 rounded-md text-sm bg-white/20 backdrop-blur-sm font-medium"
+      >
+        <FaConciergeBell />
+        <span className="hidden sm:inline">Panggil Pelayan</span>
+        {activeRequests.length > 0 && (
+          <span className="absolute -top-1.5 -right-1.5 bg-yellow-400 text-red-600 text-[10px] font-bold rounded-full w-4 h-4 flex items-center justify-center">
+            {activeRequests.length}
+          </span>
+        )}
+      </button>
+
+      <Modal isOpen={isOpen} onClose={() => setIsOpen(false)} title="Butuh bantuan?" size="sm" icon={<FaConciergeBell size={16} />}>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            {QUICK_REQUESTS.map(({ type, icon }) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => send(type)}
+                disabled={sendingType !== null || isPending(type)}
+                className="flex flex-col items-center gap-2 p-4 rounded-xl border border-red-100 bg-red-50 text-red-700 font-medium text-sm hover:bg-red-100 disabled:opacity-50"
+              >
+                <span className="text-xl">{icon}</span>
+                {SERVICE_REQUEST_LABELS[type]}
+                {isPending(type) && <span className="text-xs font-normal">Sudah dikirim</span>}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={message}
+              onChange={e => setMessage(e.target.value)}
+              maxLength={140}
+              placeholder="Pesan lain, mis. minta air putih"
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg"
+            />
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={() => send(ServiceRequestType.CUSTOM)}
+              isLoading={sendingType === ServiceRequestType.CUSTOM}
+              disabled={sendingType !== null || !message.trim()}
+              iconLeft={<FaCommentDots size={12} />}
+            >
+              Kirim
+            </Button>
+          </div>
+
+          {requests.length > 0 && (
+            <ul className="divide-y divide-gray-100 border-t border-gray-100 text-sm">
+              {requests.map(request => (
+                <li key={request.id} className="flex items-center justify-between gap-3 py-2">
+                  <span className="text-gray-700">
+                    {request.type === ServiceRequestType.CUSTOM && request.message
+                      ? request.message
+                      : SERVICE_REQUEST_LABELS[request.type]}
+                  </span>
+                  <span
+                    className={`flex items-center gap-1 text-xs font-medium ${
+                      request.status === ServiceRequestStatus.OPEN ? 'text-amber-600' : 'text-green-600'
+                    }`}
+                  >
+                    {request.status !== ServiceRequestStatus.OPEN && <FaCheckCircle size={10} />}
+                    {SERVICE_REQUEST_STATUS_LABELS[request.status]}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </Modal>
+    </>
+  );
+};
+
+export default ServiceRequestButton;
@@ -0,0 +1,191 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ServiceRequestAPI, ServiceRequestFeedAPI, TableAPI } from '../api';
+import type { ServiceRequest, Table } from '../types';
+import { ServiceRequestStatus, ServiceRequestType } from '../types';
+import {
+  SERVICE_REQUEST_LABELS,
+  SERVICE_REQUEST_OVERDUE_MINUTES,
+  SERVICE_REQUEST_STATUS_LABELS,
+  getWaitingMinutes,
+  isActiveServiceRequest,
+} from '../utils/serviceRequests';
+import { playNotificationSound, requestNotificationPermission, showBrowserNotification } from '../utils/notifications';
+import { FaConciergeBell } from 'react-icons/fa';
+
+// Waiting times are re-rendered at this interval
+const CLOCK_INTERVAL = 30000;
+
+const upsertRequest = (requests: ServiceRequest[], request: ServiceRequest): ServiceRequest[] => {
+  if (!isActiveServiceRequest(request)) return requests.filter(candidate => candidate.id !== request.id);
+  const exists = requests.some(candidate => candidate.id === request.id);
+  const next = exists
+    ? requests.map(candidate => (candidate.id === request.id ? request : candidate))
+    : [...requests, request];
+  return next.sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+};
+
+/**
+ * Header bell listing the tables that called for service, oldest first, with
+ * acknowledge and resolve actions
+ */
+const ServiceRequestPanel: React.FC = () => {
+  const [requests, setRequests] = useState<ServiceRequest[]>([]);
+  const [tables, setTables] = useState<Record<number, Table>>({});
+  const [isOpen, setIsOpen] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  const tablesRef = useRef(tables);
+  tablesRef.current = tables;
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        setRequests((await ServiceRequestAPI.getActive()).reduce(upsertRequest, []));
+      } catch (err) {
+        console.error('Failed to load service requests:', err);
+      }
+      try {
+        const tableList = await TableAPI.getAll();
+        setTables(Object.fromEntries(tableList.map(table => [table.id, table])));
+      } catch (err) {
+        // Table numbers are shown instead of names
+        console.error('Failed to load tables for service requests:', err);
+      }
+    };
+
+    fetchData();
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = ServiceRequestFeedAPI.subscribe({
+      onEvent: (event) => {
+        setRequests(prev => upsertRequest(prev, event.request));
+
+        if (event.type === 'created') {
+          if (localStorage.getItem('orderSoundEnabled') !== 'false') {
+            playNotificationSound();
+          }
+          const tableName = tablesRef.current[event.request.tableId]?.name || `#${event.request.tableId}`;
+          showBrowserNotification(
+            SERVICE_REQUEST_LABELS[event.request.type],
+            `Meja ${tableName}${event.request.message ? ` · ${event.request.message}` : ''}`,
+            `service-request-${event.request.id}`
+          );
+        }
+      },
+    });
+
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), CLOCK_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleToggle = async () => {
+    setIsOpen(open => !open);
+    setError(null);
+    await requestNotificationPermission();
+  };
+
+  const handleAction = async (request: ServiceRequest) => {
+    setBusyId(request.id);
+    setError(null);
+    try {
+      const updated = request.status === ServiceRequestStatus.OPEN
+        ? await ServiceRequestAPI.acknowledge(request.id)
+        : await ServiceRequestAPI.resolve(request.id);
+      setRequests(prev => upsertRequest(prev, updated));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Gagal memperbarui permintaan.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const openCount = requests.filter(request => request.status === ServiceRequestStatus.OPEN).length;
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={handleToggle}
+        className={`relative p-2 rounded-lg transition-colors duration-200 ${
+          openCount > 0
+            ? 'text-red-600 bg-red-50 dark:bg-red-900/30'
+            : 'text-gray-600 dark:text-gray-300 hover:bg-red-50 dark:hover:bg-red-900/20'
+        }`}
+        aria-label="Permintaan layanan"
+      >
+        <FaConciergeBell size={18} />
+        {requests.length > 0 && (
+          <span className="absolute -top-1 -right-1 bg-red-600 text-white text-[10px] font-bold rounded-full min-w-[1rem] h-4 px-1 flex items-center justify-center">
+            {requests.length}
+          </span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            className="absolute right-0 mt-2 w-80 max-h-96 overflow-y-auto bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 z-40"
+          >
+            <div className="px-4 py-3 border-b border-gray-100 dark:border-gray-700 font-semibold text-gray-800 dark:text-gray-100">
+              Permintaan layanan
+            </div>
+            {error && <p className="px-4 py-2 text-sm text-red-600">{error}</p>}
+            {requests.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-center text-gray-500">Tidak ada permintaan aktif.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                {requests.map(request => {
+                  const waiting = getWaitingMinutes(request, now);
+                  const isOverdue = request.status === ServiceRequestStatus.OPEN && waiting >= SERVICE_REQUEST_OVERDUE_MINUTES;
+                  return (
+                    <li key={request.id} className={`px-4 py-3 text-sm ${isOverdue ? 'bg-red-50 dark:bg-red-900/20' : ''}`}>
+                      <div className="flex items-start justify-between gap-3">
+                        <div>
+                          <p className="font-semibold text-gray-800 dark:text-gray-100">
+                            {tables[request.tableId]?.name ? `Meja ${tables[request.tableId].name}` : `Meja #${request.tableId}`}
+                            {' · '}
+                            {SERVICE_REQUEST_LABELS[request.type]}
+                          </p>
+                          {request.type === ServiceRequestType.CUSTOM && request.message && (
+                            <p className="text-gray-600 dark:text-gray-300">{request.message}</p>
+                          )}
+                          <p className={`text-xs ${isOverdue ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                            {SERVICE_REQUEST_STATUS_LABELS[request.status]} · {waiting} mnt
+                          </p>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => handleAction(request)}
+                          disabled={busyId !== null}
+                          className={`shrink-0 px-3 py-1 rounded-md text-xs font-medium text-white disabled:opacity-50 ${
+                            request.status === ServiceRequestStatus.OPEN
+                              ? 'bg-red-600 hover:bg-red-700'
+                              : 'bg-green-600 hover:bg-green-700'
+                          }`}
+                        >
+                          {request.status === ServiceRequestStatus.OPEN ? 'Terima' : 'Selesai'}
+                        </button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default ServiceRequestPanel;
@@ -0,0 +1,129 @@
+import React, { useState, useEffect } from 'react';
+import { useLocation } from 'react-router-dom';
+import { FaLock, FaUser, FaExclamationCircle } from 'react-icons/fa';
+import Modal from './Modal';
+import Button from './Button';
+import { useAuthStore } from '../store';
+
+// The login page is the prompt itself
+const EXCLUDED_PATHS = ['/admin/login'];
+
+/**
+ * Re-login prompt shown over admin pages when the session could not be
+ * refreshed. The page underneath stays mounted, so the current route and any
+ * half-filled form survive; failed actions can simply be retried afterwards.
+ */
+const SessionExpiredModal: React.FC = () => {
+  const location = useLocation();
+  const { user, sessionExpired, isAuthenticated, login, logout } = useAuthStore();
+  const [username, setUsername] = useState(user?.username || '');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdminPage = location.pathname.startsWith('/admin');
+  const isOpen = sessionExpired && isAuthenticated && isAdminPage &&
+    !EXCLUDED_PATHS.some(path => location.pathname.startsWith(path));
+
+  useEffect(() => {
+    if (isOpen) {
+      setUsername(user?.username || '');
+      setPassword('');
+      setError(null);
+    }
+  }, [isOpen, user?.username]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username || !password) {
+      setError('Username dan password wajib diisi');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    const success = await login(username, password);
+    setIsSubmitting(false);
+
+    if (!success) {
+      setError('Invalid username or password');
+      return;
+    }
+    setPassword('');
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      // Only a successful login or an explicit logout closes the prompt
+      onClose={() => {}}
+      title="Sesi Berakhir"
+      size="sm"
+      showCloseButton={false}
+      icon={<FaLock size={18} />}
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Sesi Anda telah berakhir. Masuk kembali untuk melanjutkan, perubahan yang belum disimpan tetap ada di halaman ini.
+        </p>
+
+        {error && (
+          <div className="flex items-start gap-2 bg-red-50 dark:bg-red-900/20 border-l-4 border-red-500 text-red-700 dark:text-red-400 p-3 rounded-lg text-sm" role="alert">
+            <FaExclamationCircle className="mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="session-username" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+            Username
+          </label>
+          <div className="relative">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none text-gray-400">
+              <FaUser />
+            </div>
+            <input
+              id="session-username"
+              type="text"
+              autoComplete="username"
+              value={username}
+              onChange={e => setUsername(e.target.value)}
+              className="w-full pl-10 pr-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-red-200 focus:border-red-500"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="session-password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+            Password
+          </label>
+          <div className="relative">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none text-gray-400">
+              <FaLock />
+            </div>
+            <input
+              id="session-password"
+              type="password"
+              autoComplete="current-password"
+              autoFocus
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              className="w-full pl-10 pr-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-red-200 focus:border-red-500"
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-3 pt-2">
+          <Button type="button" variant="light" onClick={logout} className="flex-1">
+            Logout
+          </Button>
+          <Button type="submit" variant="primary" isLoading={isSubmitting} className="flex-1">
+            Masuk
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default SessionExpiredModal;
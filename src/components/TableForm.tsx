@@ -108,6 +108,12 @@ const TableForm: React.FC<TableFormProps> = ({
           color: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
           icon: <FaChair className="mr-1.5" size={12} />
         };
+      case TableStatus.CLEANING:
+        return { 
+          label: 'Cleaning',
+          color: 'bg-sky-100 text-sky-700 dark:bg-sky-900/30 dark:text-sky-400',
+          icon: <FaChair className="mr-1.5" size={12} />
+        };
       default:
         return { 
           label: 'Unknown',
@@ -226,10 +232,13 @@ const TableForm: React.FC<TableFormProps> = ({
               focused === 'status' ? 'border-primary-500 ring-primary-200' : 'border-gray-300'
             }`}
             {...registerWithFocus('status')}
+            // Existing tables change status through the audited status dialog
+            disabled={isEditing}
           >
             <option value={TableStatus.AVAILABLE}>Available</option>
             <option value={TableStatus.OCCUPIED}>Occupied</option>
             <option value={TableStatus.RESERVED}>Reserved</option>
+            <option value={TableStatus.CLEANING}>Cleaning</option>
           </select>
           <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-3 text-gray-700">
             <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
@@ -246,6 +255,11 @@ const TableForm: React.FC<TableFormProps> = ({
           {currentStatus.icon}
           {currentStatus.label}
         </motion.div>
+        {isEditing && (
+          <p className="mt-2 text-xs text-gray-500">
+            Status follows the table's orders. Use the Status button to override it so the change is logged.
+          </p>
+        )}
       </motion.div>
 
       <motion.div 
@@ -0,0 +1,23 @@
+import React, { useEffect } from 'react';
+import { TableLifecycle } from '../api';
+import { useAuthStore } from '../store';
+
+/**
+ * Enters every signed-in device that may change table statuses into the
+ * election for the table lifecycle, once for the whole app. The device that
+ * wins runs it; the others only read the statuses it writes.
+ */
+const TableLifecycleRunner: React.FC = () => {
+  const { isAuthenticated, sessionExpired, user, can } = useAuthStore();
+  const deviceName = user?.username;
+  const takesPart = isAuthenticated && !sessionExpired && !!deviceName && can('tables:updateStatus');
+
+  useEffect(() => {
+    if (!takesPart || !deviceName) return;
+    return TableLifecycle.elect(deviceName);
+  }, [takesPart, deviceName]);
+
+  return null;
+};
+
+export default TableLifecycleRunner;
@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { TableAPI, TableLifecycle } from '../api';
+import type { Table, TableGroup } from '../types';
+import { getMergeError, getTableGroup } from '../utils/tableGroups';
+import { TABLE_STATUS_LABELS } from '../utils/tableLifecycle';
+import Button from './Button';
+import Modal from './Modal';
+import { FaObjectGroup } from 'react-icons/fa';
+
+interface TableMergeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tables: Table[];
+  groups: TableGroup[];
+  // Tables ticked when the modal opens, e.g. the table it was opened from
+  initialTableIds?: number[];
+  onMerged: (group: TableGroup) => void;
+}
+
+/**
+ * Pick tables to push together for one party and the table the combined
+ * bill belongs to
+ */
+const TableMergeModal: React.FC<TableMergeModalProps> = ({
+  isOpen,
+  onClose,
+  tables,
+  groups,
+  initialTableIds,
+  onMerged,
+}) => {
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [primaryTableId, setPrimaryTableId] = useState<number | undefined>(undefined);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelectedIds(initialTableIds ?? []);
+    setPrimaryTableId(initialTableIds?.[0]);
+    setName('');
+    setError(null);
+  }, [isOpen, initialTableIds]);
+
+  const toggleTable = (tableId: number) => {
+    const next = selectedIds.includes(tableId)
+      ? selectedIds.filter(id => id !== tableId)
+      : [...selectedIds, tableId];
+    setSelectedIds(next);
+    if (primaryTableId === undefined || !next.includes(primaryTableId)) setPrimaryTableId(next[0]);
+  };
+
+  const mergeError = getMergeError(selectedIds, tables, groups);
+  const capacity = tables
+    .filter(table => selectedIds.includes(table.id))
+    .reduce((sum, table) => sum + table.capacity, 0);
+
+  const handleMerge = async () => {
+    if (mergeError || primaryTableId === undefined) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const group = await TableAPI.merge(selectedIds, primaryTableId, name.trim() || undefined);
+      onMerged(group);
+      // Tables without orders of their own are now occupied by the group's
+      TableLifecycle.requestSync();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Gagal menggabungkan meja.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Gabung Meja" size="md" icon={<FaObjectGroup size={16} />}>
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Pesanan tetap tercatat di mejanya masing-masing dan ditagih bersama sampai meja dipisahkan lagi.
+        </p>
+
+        <ul className="max-h-72 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+          {tables.map(table => {
+            const isGrouped = getTableGroup(table.id, groups) !== undefined;
+            const isSelected = selectedIds.includes(table.id);
+            return (
+              <li key={table.id} className={`flex items-center gap-3 px-3 py-2 text-sm ${isGrouped ? 'opacity-50' : ''}`}>
+                <input
+                  type="checkbox"
+                  checked={isSelected}
+                  disabled={isGrouped}
+                  onChange={() => toggleTable(table.id)}
+                  aria-label={`Pilih ${table.name}`}
+                />
+                <span className="flex-1">
+                  <span className="font-medium text-gray-800 dark:text-gray-200">{table.name}</span>
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {' · '}{table.capacity} orang · {isGrouped ? 'sudah digabung' : TABLE_STATUS_LABELS[table.status]}
+                  </span>
+                </span>
+                {isSelected && (
+                  <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+                    <input
+                      type="radio"
+                      name="merge-primary"
+                      checked={primaryTableId === table.id}
+                      onChange={() => setPrimaryTableId(table.id)}
+                    />
+                    Meja utama
+                  </label>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="Nama grup (opsional), mis. Arisan Bu Sari"
+          className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+        />
+
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-gray-600 dark:text-gray-400">
+            {selectedIds.length} meja · {capacity} orang
+          </span>
+          {selectedIds.length > 0 && mergeError && <span className="text-amber-600">{mergeError}</span>}
+        </div>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" size="sm" onClick={onClose} disabled={isSaving}>
+            Batal
+          </Button>
+          <Button variant="primary" size="sm" onClick={handleMerge} isLoading={isSaving} disabled={mergeError !== null}>
+            Gabungkan
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default TableMergeModal;
@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { TableAPI } from '../api';
+import type { Table, TableStatusChange } from '../types';
+import { TableStatus } from '../types';
+import { formatDate } from '../utils/format';
+import { TABLE_STATUS_LABELS, getCleaningEndsAt } from '../utils/tableLifecycle';
+import Button from './Button';
+import Modal from './Modal';
+import { FaHistory, FaRobot, FaUser } from 'react-icons/fa';
+
+interface TableStatusModalProps {
+  table: Table | null;
+  onClose: () => void;
+  onUpdated: (table: Table) => void;
+}
+
+/**
+ * Manual status override for one table, with its status audit trail
+ */
+const TableStatusModal: React.FC<TableStatusModalProps> = ({ table, onClose, onUpdated }) => {
+  const [status, setStatus] = useState<TableStatus>(TableStatus.AVAILABLE);
+  const [reason, setReason] = useState('');
+  const [history, setHistory] = useState<TableStatusChange[]>([]);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const tableId = table?.id;
+
+  useEffect(() => {
+    if (tableId === undefined) return;
+
+    let cancelled = false;
+    setIsHistoryLoading(true);
+    setHistoryError(null);
+    TableAPI.getStatusHistory(tableId)
+      .then(entries => {
+        if (!cancelled) setHistory(entries);
+      })
+      .catch(err => {
+        console.error('Failed to load table status history:', err);
+        if (!cancelled) setHistoryError('Gagal memuat riwayat status.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsHistoryLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tableId]);
+
+  // Start from the current status whenever another table is opened
+  useEffect(() => {
+    if (!table) return;
+    setStatus(table.status);
+    setReason('');
+    setError(null);
+  }, [table]);
+
+  const handleSave = async () => {
+    if (!table) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const updated = await TableAPI.updateStatus(table.id, status, {
+        source: 'manual',
+        reason: reason.trim() || undefined,
+        expectedStatus: table.status,
+      });
+      onUpdated(updated);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Gagal mengubah status meja.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const cleaningEndsAt = table ? getCleaningEndsAt(table) : null;
+
+  return (
+    <Modal isOpen={table !== null} onClose={onClose} title={table ? `Status ${table.name}` : ''} size="md">
+      {table && (
+        <div className="space-y-5">
+          <div className="text-sm text-gray-600 dark:text-gray-400">
+            <p>
+              Sekarang <span className="font-semibold">{TABLE_STATUS_LABELS[table.status]}</span>
+              {table.statusSource && ` (${table.statusSource === 'auto' ? 'otomatis' : 'manual'})`}
+              {table.statusChangedAt && ` sejak ${formatDate(table.statusChangedAt)}`}
+            </p>
+            {cleaningEndsAt && table.statusSource !== 'manual' && (
+              <p>Tersedia kembali otomatis sekitar {cleaningEndsAt.toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}</p>
+            )}
+          </div>
+
+          <div>
+            <span className="block mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">Ubah status</span>
+            <div className="flex flex-wrap gap-2">
+              {Object.values(TableStatus).map(option => (
+                <Button
+                  key={option}
+                  size="sm"
+                  variant={status === option ? 'primary' : 'light'}
+                  onClick={() => setStatus(option)}
+                >
+                  {TABLE_STATUS_LABELS[option]}
+                </Button>
+              ))}
+            </div>
+            <input
+              type="text"
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              placeholder="Alasan (opsional), mis. tamu walk-in"
+              className="mt-3 w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+            />
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              Status manual tidak diubah otomatis sampai ada pesanan baru dari meja ini.
+            </p>
+            {error && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+            <div className="mt-3 flex justify-end gap-2">
+              <Button variant="secondary" size="sm" onClick={onClose} disabled={isSaving}>
+                Batal
+              </Button>
+              <Button
+                variant="primary"
+                size="sm"
+                onClick={handleSave}
+                isLoading={isSaving}
+                disabled={status === table.status && table.statusSource === 'manual'}
+              >
+                Simpan
+              </Button>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="flex items-center gap-2 mb-2 text-sm font-semibold text-gray-800 dark:text-white">
+              <FaHistory size={12} /> Riwayat status
+            </h4>
+            {isHistoryLoading ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Memuat riwayat...</p>
+            ) : historyError ? (
+              <p className="text-sm text-red-600 dark:text-red-400">{historyError}</p>
+            ) : history.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Belum ada perubahan status.</p>
+            ) : (
+              <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+                {history.map(entry => (
+                  <li key={entry.id} className="py-2 flex items-start gap-3">
+                    <span className="mt-0.5 text-gray-400" title={entry.source === 'auto' ? 'Otomatis' : 'Manual'}>
+                      {entry.source === 'auto' ? <FaRobot size={12} /> : <FaUser size={12} />}
+                    </span>
+                    <div className="flex-1">
+                      <p className="text-gray-800 dark:text-gray-200">
+                        {TABLE_STATUS_LABELS[entry.from]} → {TABLE_STATUS_LABELS[entry.to]}
+                        {entry.reason && <span className="text-gray-500 dark:text-gray-400"> · {entry.reason}</span>}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {entry.changedAt ? formatDate(entry.changedAt) : '-'}
+                        {' · '}
+                        {entry.source === 'auto' ? 'Sistem' : entry.changedBy || 'Staf'}
+                      </p>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default TableStatusModal;
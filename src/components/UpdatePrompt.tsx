@@ -0,0 +1,65 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FaSync, FaTimes } from 'react-icons/fa';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+
+// Long-open tabs (tablets at the counter, the kitchen display) check hourly
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Registers the service worker and offers to reload once a new build has
+ * been deployed. The new worker waits until the user accepts, so a customer
+ * mid-checkout is never reloaded underneath their cart.
+ */
+const UpdatePrompt: React.FC = () => {
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    updateServiceWorker,
+  } = useRegisterSW({
+    onRegisteredSW(_swUrl, registration) {
+      if (!registration) return;
+      setInterval(() => {
+        if (navigator.onLine) registration.update();
+      }, UPDATE_CHECK_INTERVAL);
+    },
+    onRegisterError(error) {
+      console.error('Service worker registration failed:', error);
+    },
+  });
+
+  return (
+    <AnimatePresence>
+      {needRefresh && (
+        <motion.div
+          className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-sm bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 p-4 flex items-center gap-3"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          role="status"
+        >
+          <div className="flex-1 text-sm">
+            <p className="font-semibold text-gray-800 dark:text-white">Versi baru tersedia</p>
+            <p className="text-gray-600 dark:text-gray-400">Muat ulang untuk memakai versi terbaru.</p>
+          </div>
+          <button
+            type="button"
+            onClick={() => updateServiceWorker(true)}
+            className="flex items-center gap-2 px-3 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            <FaSync size={12} /> Muat Ulang
+          </button>
+          <button
+            type="button"
+            onClick={() => setNeedRefresh(false)}
+            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+            aria-label="Nanti saja"
+          >
+            <FaTimes size={14} />
+          </button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default UpdatePrompt;
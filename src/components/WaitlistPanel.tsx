@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { TableAPI, TableLifecycle, WaitlistAPI } from '../api';
+import type { Reservation, Table, WaitlistEntry } from '../types';
+import { TableStatus } from '../types';
+import { findTablesForWalkIn } from '../utils/reservations';
+import Button from './Button';
+import Modal from './Modal';
+import { useAlert } from '../contexts/AlertContext';
+import { FaChair, FaPlus, FaTimes, FaUserClock } from 'react-icons/fa';
+
+interface WaitlistPanelProps {
+  entries: WaitlistEntry[];
+  tables: Table[];
+  reservations: Reservation[];
+  onEntriesChange: (entries: WaitlistEntry[]) => void;
+  onTableSeated: (table: Table) => void;
+}
+
+const getWaitMinutes = (entry: WaitlistEntry): number =>
+  entry.createdAt ? Math.max(0, Math.floor((Date.now() - Date.parse(entry.createdAt)) / 60000)) : 0;
+
+/**
+ * Walk-in parties waiting for a table, with a form to add one and a picker
+ * to seat them at a table that is free now and not held for a reservation
+ */
+const WaitlistPanel: React.FC<WaitlistPanelProps> = ({ entries, tables, reservations, onEntriesChange, onTableSeated }) => {
+  const { showAlert } = useAlert();
+  const [guestName, setGuestName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [partySize, setPartySize] = useState(2);
+  const [isAdding, setIsAdding] = useState(false);
+  const [seatingEntry, setSeatingEntry] = useState<WaitlistEntry | null>(null);
+  const [isSeating, setIsSeating] = useState(false);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!guestName.trim()) return;
+
+    try {
+      setIsAdding(true);
+      const entry = await WaitlistAPI.add({ guestName: guestName.trim(), phone: phone.trim() || undefined, partySize });
+      onEntriesChange([...entries, entry]);
+      setGuestName('');
+      setPhone('');
+      setPartySize(2);
+    } catch (err) {
+      showAlert(err instanceof Error ? err.message : 'Gagal menambahkan ke daftar tunggu', { type: 'warning' });
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRemove = async (entry: WaitlistEntry) => {
+    try {
+      await WaitlistAPI.remove(entry.id);
+      onEntriesChange(entries.filter(candidate => candidate.id !== entry.id));
+    } catch (err) {
+      showAlert(err instanceof Error ? err.message : 'Gagal menghapus dari daftar tunggu', { type: 'warning' });
+    }
+  };
+
+  const handleSeat = async (table: Table) => {
+    if (!seatingEntry) return;
+
+    try {
+      setIsSeating(true);
+      await WaitlistAPI.seat(seatingEntry.id, table.id);
+      // Marked by hand like any walk-in; the lifecycle takes over with their first order
+      const seatedTable = await TableAPI.updateStatus(table.id, TableStatus.OCCUPIED, {
+        source: 'manual',
+        reason: `Tamu daftar tunggu: ${seatingEntry.guestName}`,
+        expectedStatus: table.status,
+      });
+      onEntriesChange(entries.filter(candidate => candidate.id !== seatingEntry.id));
+      onTableSeated(seatedTable);
+      TableLifecycle.requestSync();
+      showAlert(`${seatingEntry.guestName} duduk di ${table.name}`, { type: 'success' });
+      setSeatingEntry(null);
+    } catch (err) {
+      showAlert(err instanceof Error ? err.message : 'Gagal mendudukkan tamu', { type: 'warning' });
+    } finally {
+      setIsSeating(false);
+    }
+  };
+
+  const freeTables = seatingEntry ? findTablesForWalkIn(seatingEntry.partySize, tables, reservations) : [];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 p-5">
+      <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-800 dark:text-white mb-4">
+        <FaUserClock className="text-primary-500" /> Daftar tunggu
+        <span className="text-sm font-normal text-gray-500 dark:text-gray-400">({entries.length})</span>
+      </h2>
+
+      <form onSubmit={handleAdd} className="flex flex-wrap gap-2 mb-4">
+        <input
+          value={guestName}
+          onChange={e => setGuestName(e.target.value)}
+          placeholder="Nama"
+          className="flex-1 min-w-[8rem] px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+        />
+        <input
+          value={phone}
+          onChange={e => setPhone(e.target.value)}
+          type="tel"
+          placeholder="No. HP"
+          className="w-32 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+        />
+        <input
+          value={partySize}
+          onChange={e => setPartySize(Number(e.target.value) || 1)}
+          type="number"
+          min={1}
+          aria-label="Jumlah tamu"
+          className="w-20 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+        />
+        <Button type="submit" variant="primary" size="sm" isLoading={isAdding} disabled={!guestName.trim()} iconLeft={<FaPlus size={12} />}>
+          Tambah
+        </Button>
+      </form>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Tidak ada tamu yang menunggu.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+          {entries.map(entry => (
+            <li key={entry.id} className="py-2 flex items-center justify-between gap-3 text-sm">
+              <div>
+                <p className="font-medium text-gray-800 dark:text-white">
+                  {entry.guestName} · {entry.partySize} orang
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Menunggu {getWaitMinutes(entry)} menit{entry.phone ? ` · ${entry.phone}` : ''}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="success" size="sm" onClick={() => setSeatingEntry(entry)} iconLeft={<FaChair size={12} />}>
+                  Dudukkan
+                </Button>
+                <Button variant="light" size="sm" onClick={() => handleRemove(entry)} aria-label="Hapus dari daftar tunggu">
+                  <FaTimes size={12} />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Modal
+        isOpen={seatingEntry !== null}
+        onClose={() => setSeatingEntry(null)}
+        title={seatingEntry ? `Meja untuk ${seatingEntry.guestName} (${seatingEntry.partySize} orang)` : ''}
+        size="md"
+      >
+        {freeTables.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Belum ada meja kosong yang cukup dan tidak dipesan dalam waktu dekat.
+          </p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {freeTables.map(table => (
+              <button
+                key={table.id}
+                type="button"
+                disabled={isSeating}
+                onClick={() => handleSeat(table)}
+                className="p-3 rounded-lg border border-green-200 bg-green-50 hover:bg-green-100 text-left disabled:opacity-50"
+              >
+                <p className="font-semibold text-green-800">{table.name}</p>
+                <p className="text-xs text-green-700">
+                  {table.capacity} orang{table.area ? ` · ${table.area}` : ''}
+                </p>
+              </button>
+            ))}
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+export default WaitlistPanel;
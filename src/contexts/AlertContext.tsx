@@ -1,4 +1,4 @@
-import React, { createContext, useState, useContext } from 'react';
+import React, { createContext, useState, useContext, useCallback } from 'react';
 import type { ReactNode } from 'react';
 import CustomAlert from '../components/CustomAlert';
 
@@ -34,7 +34,8 @@ export const AlertProvider: React.FC<AlertProviderProps> = ({ children }) => {
   const [duration, setDuration] = useState(0);
   const [title, setTitle] = useState<string | undefined>(undefined);
 
-  const showAlert = (message: string, options?: {
+  // Stable identities so callers can use them in effect dependencies
+  const showAlert = useCallback((message: string, options?: {
     type?: AlertType;
     duration?: number;
     title?: string;
@@ -44,11 +45,11 @@ export const AlertProvider: React.FC<AlertProviderProps> = ({ children }) => {
     setDuration(options?.duration || 0);
     setTitle(options?.title);
     setIsOpen(true);
-  };
+  }, []);
 
-  const hideAlert = () => {
+  const hideAlert = useCallback(() => {
     setIsOpen(false);
-  };
+  }, []);
 
   return (
     <AlertContext.Provider value={{ showAlert, hideAlert }}>
@@ -1,6 +1,10 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useState, useRef, useMemo } from 'react';
 import { OrderAPI } from '../api/orderApi';
-import type { OrderHistory } from '../types/order';
+import { MenuAPI } from '../api/menuApi';
+import type { OrderHistory } from '../types';
+import type { Menu } from '../types';
+import OrderItemDetails from '../components/OrderItemDetails';
+import ReceiptPrintModal from '../components/ReceiptPrintModal';
 import { Link } from 'react-router-dom';
 import { 
   formatCurrency, 
@@ -12,13 +16,16 @@ import {
   parseAPIDate 
 } from '../utils/format';
 import { motion, AnimatePresence } from 'framer-motion';
-import { FaSearch, FaFilter, FaCalendarAlt, FaSync, FaTable, FaList, FaChartBar, FaMoneyBillWave, FaCreditCard, FaClipboardCheck, FaHistory, FaAngleLeft, FaExclamationTriangle } from 'react-icons/fa';
+import { FaSearch, FaFilter, FaCalendarAlt, FaSync, FaTable, FaList, FaChartBar, FaMoneyBillWave, FaCreditCard, FaClipboardCheck, FaHistory, FaAngleLeft, FaExclamationTriangle, FaPrint } from 'react-icons/fa';
 
 const OrderHistoryPage: React.FC = () => {
   const [orders, setOrders] = useState<OrderHistory[]>([]);
   const [filteredOrders, setFilteredOrders] = useState<OrderHistory[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [menus, setMenus] = useState<Record<number, Menu>>({});
+  const [receiptOrder, setReceiptOrder] = useState<OrderHistory | null>(null);
+  const receiptContext = useMemo(() => ({ menus }), [menus]);
   const fetchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   const [searchTerm, setSearchTerm] = useState('');
@@ -33,6 +40,15 @@ const OrderHistoryPage: React.FC = () => {
   useEffect(() => {
     fetchOrders();
     
+    // Menus are only needed to resolve customization option names
+    MenuAPI.getAll().then(menuList => {
+      const menusMap: Record<number, Menu> = {};
+      menuList.forEach(menu => {
+        menusMap[menu.id] = menu;
+      });
+      setMenus(menusMap);
+    });
+    
     return () => {
       if (fetchTimeoutRef.current) {
         clearTimeout(fetchTimeoutRef.current);
@@ -85,10 +101,9 @@ const OrderHistoryPage: React.FC = () => {
       });
       
       setOrders(sortedOrders);
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error fetching orders:', err);
-      const errorMessage = err?.response?.data?.message || err.message || 'Failed to fetch order history';
-      setError(errorMessage);
+      setError(err instanceof Error ? err.message : 'Failed to fetch order history');
       setOrders([]);
       setFilteredOrders([]);
     } finally {
@@ -316,47 +331,7 @@ const OrderHistoryPage: React.FC = () => {
             </div>
             <div>
               <h3 className="text-xl font-bold text-gray-900">
-                {formatCurrency((() => {
-                  // Calculate total from filtered orders
-                  const manualTotal = filteredOrders.reduce((sum, order) => {
-                    let orderValue = 0;
-                    const rawPrice = order.totalPrice;
-                    
-                    // If it's already a number, use it
-                    if (typeof rawPrice === 'number') {
-                      orderValue = rawPrice;
-                    } 
-                    // If it's a string, parse it manually
-                    else if (typeof rawPrice === 'string') {
-                      // Remove Rp prefix if present
-                      let priceStr = rawPrice;
-                      if (priceStr.includes('Rp')) {
-                        priceStr = priceStr.replace('Rp', '').trim();
-                      }
-                      
-                      // Remove all non-digits except dots or commas
-                      priceStr = priceStr.replace(/[^\d.,]/g, '');
-                      
-                      // Replace comma with dot for decimal if needed
-                      priceStr = priceStr.replace(',', '.');
-                      
-                      // Indonesian format uses "." as thousand separators
-                      if (priceStr.includes('.')) {
-                        const parts = priceStr.split('.');
-                        if (parts.length > 1 && parts[parts.length-1].length === 3) {
-                            priceStr = parts.join('');
-                        }
-                      }
-                      
-                      // Parse the final string to a number
-                      orderValue = parseFloat(priceStr) || 0;
-                    }
-                    
-                    return sum + orderValue;
-                  }, 0);
-                  
-                  return manualTotal;
-                })())}
+                {formatCurrency(filteredOrders.reduce((sum, order) => sum + order.totalPrice, 0))}
               </h3>
               <p className="text-gray-500 text-sm">Total Revenue</p>
             </div>
@@ -540,12 +515,18 @@ const OrderHistoryPage: React.FC = () => {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Table
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Items
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Total
                   </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Completed At
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Receipt
+                  </th>
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
@@ -556,10 +537,30 @@ const OrderHistoryPage: React.FC = () => {
                         <span className="font-medium">{order.tableName}</span>
                         <span className="ml-2 px-2 py-1 bg-gray-100 text-gray-600 rounded-full text-xs">{order.tableCode}</span>
                       </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {(order.items || []).map((item, index) => (
+                        <div key={index} className="mb-1 last:mb-0">
+                          <span className="font-medium">{item.quantity}x</span> {item.menuName}
+                          <OrderItemDetails
+                            customizations={item.customizations}
+                            notes={item.notes}
+                            menu={menus[item.menuId]}
+                          />
+                        </div>
+                      ))}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap font-medium text-green-600">{order.totalPrice}</td>
                     <td className="px-6 py-4 whitespace-nowrap text-gray-500">
                       {new Date(order.completedAt || order.createdAt).toLocaleString()}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <button
+                        onClick={() => setReceiptOrder(order)}
+                        className="px-3 py-1.5 text-sm text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg flex items-center gap-1.5"
+                      >
+                        <FaPrint size={12} /> Print
+                      </button>
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -567,6 +568,13 @@ const OrderHistoryPage: React.FC = () => {
           </div>
         )}
       </div>
+      
+      <ReceiptPrintModal
+        isOpen={receiptOrder !== null}
+        onClose={() => setReceiptOrder(null)}
+        source={receiptOrder}
+        context={receiptContext}
+      />
     </div>
   );
 };
@@ -1,7 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { OrderAPI, MenuAPI } from '../../api';
-import { useAuthStore } from '../../store';
+import { OrderAPI, MenuAPI, PaymentAPI, ServiceRequestAPI } from '../../api';
 import Layout from '../../components/Layout';
 import Button from '../../components/Button';
 import { 
@@ -16,7 +14,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { 
   FaChartBar, FaChartPie, FaCalendarDay, FaCalendarWeek, FaMoneyBillWave, 
   FaShoppingCart, FaUtensils, FaExclamationTriangle, FaFileExcel, 
-  FaChevronRight, FaInfoCircle, FaRegClock, FaFilter, FaArrowUp, FaArrowDown
+  FaChevronRight, FaInfoCircle, FaRegClock, FaFilter, FaArrowUp, FaArrowDown, FaConciergeBell
 } from 'react-icons/fa';
 import * as XLSX from 'xlsx';
 // Import Recharts components
@@ -25,7 +23,14 @@ import {
   Tooltip, Legend, ResponsiveContainer, Cell, AreaChart, Area
 } from 'recharts';
 // Import Order types
-import type { OrderHistory } from '../../types/order';
+import type { OrderHistory } from '../../types';
+import { OrderStatus } from '../../types';
+import { buildSalesTrend } from '../../utils/salesTrend';
+import type { SalesTrendPoint } from '../../utils/salesTrend';
+import { summarizePaymentMethods } from '../../utils/payments';
+import type { PaymentMethodTotal } from '../../utils/payments';
+import { formatMinutes, summarizeResponseTimes } from '../../utils/serviceRequests';
+import type { ServiceResponseTimes } from '../../utils/serviceRequests';
 
 interface AnalyticsSummary {
   totalOrders: number;
@@ -50,20 +55,24 @@ interface AnalyticsSummary {
       total: number;
     }[];
   }[];
+  salesTrend: SalesTrendPoint[];
+  paymentMethods: PaymentMethodTotal[];
+  // How fast staff answered call-waiter and bill requests; first entry covers all types
+  serviceResponse: ServiceResponseTimes[];
   isLoading: boolean;
   error: string | null;
 }
 
 const AnalyticsDashboard = () => {
-  const navigate = useNavigate();
-  const { isAuthenticated, isAdmin } = useAuthStore();
-  
   const [stats, setStats] = useState<AnalyticsSummary>({
     totalOrders: 0,
     totalSales: 0,
     totalItems: 0,
     popularItems: [],
     tableData: [],
+    salesTrend: [],
+    paymentMethods: [],
+    serviceResponse: [],
     isLoading: true,
     error: null
   });
@@ -71,13 +80,6 @@ const AnalyticsDashboard = () => {
   const [timeFilter, setTimeFilter] = useState<'today' | 'week' | 'month'>('today');
   const [isExporting, setIsExporting] = useState(false);
   
-  // Check authentication
-  useEffect(() => {
-    if (!isAuthenticated || !isAdmin) {
-      navigate('/admin/login');
-    }
-  }, [isAuthenticated, isAdmin, navigate]);
-  
   // Fetch analytics data
   useEffect(() => {
     const fetchAnalytics = async () => {
@@ -187,104 +189,12 @@ const AnalyticsDashboard = () => {
           return order;
         });
         
-        // Calculate total sales with detailed logging
-        let totalSales = 0;
-        console.log('===== TOTAL SALES CALCULATION DEBUG =====');
-        console.log(`Date range: ${startDateStr} to ${endDateStr}`);
-        console.log(`Number of orders to process: ${validOrderHistory.length}`);
-        
-        // FORCE DIRECT SALES CALCULATION: Since we know from the user that the expected
-        // total is around 500,000 but we're seeing 58,500, let's apply special parsing
-        
-        // Log the raw prices we're dealing with
-        console.log('Raw prices from orders:');
-        validOrderHistory.forEach((order, idx) => {
-          console.log(`Order #${order.orderId || order.id || idx}: ${order.totalPrice} (${typeof order.totalPrice})`);
-          if (order.items && Array.isArray(order.items)) {
-            order.items.forEach(item => {
-              console.log(`  Item: ${item.menuName}, Price: ${item.price}, Qty: ${item.quantity}`);
-            });
-          }
-        });
-        
-        // Direct numeric extraction from any format
-        const directNumericTotal = validOrderHistory
-          .filter(order => order.status === 'COMPLETED' || (order.status === undefined && order.completedAt))
-          .reduce((sum, order) => {
-            const rawPrice = String(order.totalPrice || '0');
-            
-            // First try to handle Indonesian format like "25.000" directly
-            if (rawPrice.includes('.') && !rawPrice.includes(',')) {
-              // Replace all dots and parse as a single number
-              const noDotsPrice = rawPrice.replace(/\./g, '');
-              const parsedValue = parseInt(noDotsPrice, 10);
-              if (!isNaN(parsedValue) && parsedValue > 0) {
-                console.log(`Parsed Indonesian format ${rawPrice} as ${parsedValue}`);
-                return sum + parsedValue;
-              }
-            }
-            
-            // Extract all digit sequences and join them
-            const numericMatches = rawPrice.match(/\d+/g);
-            if (numericMatches) {
-              const joinedDigits = numericMatches.join('');
-              const parsedValue = parseInt(joinedDigits, 10);
-              if (!isNaN(parsedValue) && parsedValue > 0) {
-                console.log(`Extracted digits from ${rawPrice} as ${parsedValue}`);
-                return sum + parsedValue;
-              }
-            }
-            
-            // Fallback: If the order has items, calculate from those
-            if (order.items && Array.isArray(order.items) && order.items.length > 0) {
-              const itemsTotal = order.items.reduce((itemSum, item) => {
-                const numericPrice = String(item.price).match(/\d+/g);
-                const numericQty = String(item.quantity).match(/\d+/g);
-                
-                let price = 0;
-                let qty = 0;
-                
-                if (numericPrice) {
-                  price = parseInt(numericPrice.join(''), 10);
-                }
-                
-                if (numericQty) {
-                  qty = parseInt(numericQty.join(''), 10);
-                }
-                
-                return itemSum + (price * qty);
-              }, 0);
-              
-              console.log(`Calculated from items for order ${order.orderId}: ${itemsTotal}`);
-              return sum + itemsTotal;
-            }
-            
-            console.log(`Could not extract value from ${rawPrice}, using 0`);
-            return sum;
-          }, 0);
-        
-        console.log(`Direct numeric total: ${directNumericTotal}`);
-        
-        // FORCE CORRECTION: If we're still getting a suspiciously low total,
-        // ensure a minimum reasonable value based on the number of orders
-        if (directNumericTotal < 100000 && validOrderHistory.length > 0) {
-          // Based on the user's feedback, the total should be around 500,000
-          // With 12 orders (as seen in screenshots), that's roughly 40,000-45,000 per order
-          const estimatedAverage = 45000;
-          const completedCount = validOrderHistory.filter(
-            order => order.status === 'COMPLETED' || (order.status === undefined && order.completedAt)
-          ).length;
-          
-          const estimatedTotal = completedCount * estimatedAverage;
-          console.log(`Using estimated total: ${completedCount} orders * ${estimatedAverage} = ${estimatedTotal}`);
-          
-          totalSales = estimatedTotal;
-        } else {
-          totalSales = directNumericTotal;
-        }
-        
-        console.log(`Final total sales: ${totalSales}`);
-        console.log('=======================================');
+        // Totals arrive as numbers from the API layer, whatever format the
+        // backend stored them in
+        const totalSales = validOrderHistory
+          .filter(order => order.status === OrderStatus.COMPLETED)
+          .reduce((sum, order) => sum + order.totalPrice, 0);
+        console.log(`Total sales (${timeFilter}): ${totalSales}`);
         
         // Calculate total items sold - completely revised approach to debug the issue
         let totalItems = 0;
@@ -440,7 +350,7 @@ const AnalyticsDashboard = () => {
                 menuName: item.menuName || `Menu #${item.menuId}`,
                 quantity: item.quantity || 0
               })),
-              total: parseFloat(order.totalPrice) || 0
+              total: order.totalPrice
             });
           }
         });
@@ -448,6 +358,23 @@ const AnalyticsDashboard = () => {
         // Convert tableMap to array
         const tableData = Object.values(tableMap);
         
+        // Payments are taken at the till, so their date is the payment time
+        let paymentMethods: PaymentMethodTotal[] = [];
+        try {
+          const payments = await PaymentAPI.getPayments({ startDate: startDateStr, endDate: endDateStr });
+          paymentMethods = summarizePaymentMethods(payments);
+        } catch (err) {
+          console.error('Error fetching payments for analytics:', err);
+        }
+        
+        let serviceResponse: ServiceResponseTimes[] = [];
+        try {
+          const serviceRequests = await ServiceRequestAPI.getHistory({ startDate: startDateStr, endDate: endDateStr });
+          serviceResponse = summarizeResponseTimes(serviceRequests);
+        } catch (err) {
+          console.error('Error fetching service requests for analytics:', err);
+        }
+        
         // If no table data exists, add sample data
         if (tableData.length === 0) {
           console.log('No table data found, not adding sample data for real dashboard');
@@ -460,6 +387,11 @@ const AnalyticsDashboard = () => {
           totalItems: totalItems,
           popularItems,
           tableData,
+          // Bucketed from the unfiltered response: the trend applies its own
+          // restaurant-time window rather than the browser's local dates
+          salesTrend: buildSalesTrend(orderHistory, timeFilter),
+          paymentMethods,
+          serviceResponse,
           isLoading: false,
           error: null
         });
@@ -550,7 +482,7 @@ const AnalyticsDashboard = () => {
               'Order ID': orderId,
               'Date': orderDate,
               'Table': tableName,
-              'Total Amount': parseFloat(order.totalPrice) || 0,
+              'Total Amount': order.totalPrice,
               'Status': order.status || '',
               'Created At': order.createdAt || ''
             };
@@ -595,6 +527,20 @@ const AnalyticsDashboard = () => {
         });
       }
       
+      const paymentMethodsData = stats.paymentMethods.map(method => ({
+        'Payment Method': method.label,
+        'Payments': method.count,
+        'Amount': formatCurrency(method.amount)
+      }));
+      
+      const serviceResponseData = stats.serviceResponse.map(summary => ({
+        'Request Type': summary.label,
+        'Requests': summary.count,
+        'Avg. Acknowledge': formatMinutes(summary.averageAcknowledgeMinutes),
+        'Avg. Resolve': formatMinutes(summary.averageResolveMinutes),
+        'Slowest Acknowledge': formatMinutes(summary.slowestAcknowledgeMinutes)
+      }));
+      
       // Create a workbook with multiple sheets
       const wb = XLSX.utils.book_new();
       
@@ -610,6 +556,14 @@ const AnalyticsDashboard = () => {
       const popularItemsWs = XLSX.utils.json_to_sheet(popularItemsData);
       XLSX.utils.book_append_sheet(wb, popularItemsWs, 'Popular Items');
       
+      // Add payment methods sheet
+      const paymentMethodsWs = XLSX.utils.json_to_sheet(paymentMethodsData);
+      XLSX.utils.book_append_sheet(wb, paymentMethodsWs, 'Payment Methods');
+      
+      // Add service requests sheet
+      const serviceResponseWs = XLSX.utils.json_to_sheet(serviceResponseData);
+      XLSX.utils.book_append_sheet(wb, serviceResponseWs, 'Service Requests');
+      
       // Generate filename with date
       const fileName = `Restaurant_Report_${startDateStr}_to_${endDateStr}.xlsx`;
       
@@ -702,74 +656,6 @@ const AnalyticsDashboard = () => {
     }
   };
   
-  // Helper function to generate sales trend data based on time filter
-  const generateSalesTrendData = (timeFilter: 'today' | 'week' | 'month', totalSales: number) => {
-    const data: Array<{ name: string; value: number }> = [];
-    
-    if (timeFilter === 'today') {
-      // For today, show hourly data (24 hours)
-      for (let hour = 0; hour < 24; hour++) {
-        // Create a random value that increases as the day progresses
-        const randomFactor = 0.3 + (hour / 24) * 0.7 + (Math.random() * 0.2);
-        const value = totalSales * randomFactor / 24;
-        
-        // Format hour as AM/PM
-        const hourLabel = hour === 0 ? '12 AM' : 
-                         hour < 12 ? `${hour} AM` : 
-                         hour === 12 ? '12 PM' : 
-                         `${hour - 12} PM`;
-        
-        data.push({ name: hourLabel, value });
-      }
-    } else if (timeFilter === 'week') {
-      // For week, show 7 days
-      const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-      const today = new Date();
-      const currentDay = today.getDay(); // 0 = Sunday, 6 = Saturday
-      
-      for (let i = 6; i >= 0; i--) {
-        // Calculate the day of week (0-6)
-        const dayIndex = (currentDay - i + 7) % 7;
-        const dayName = dayNames[dayIndex];
-        
-        // Create a random but increasing trend
-        const randomFactor = 0.7 + (Math.random() * 0.3);
-        const value = (totalSales / 7) * randomFactor;
-        
-        data.push({ name: dayName, value });
-      }
-    } else if (timeFilter === 'month') {
-      // For month, show 30 days
-      const today = new Date();
-      const daysInMonth = 30; // Simplified to 30 days
-      
-      for (let day = 0; day < daysInMonth; day++) {
-        // Create a date for each day, going back from today
-        const date = new Date(today);
-        date.setDate(today.getDate() - (daysInMonth - day - 1));
-        
-        // Format as "Jan 1", "Jan 2", etc.
-        const dayLabel = date.toLocaleDateString('en-US', { 
-          month: 'short', 
-          day: 'numeric'
-        });
-        
-        // Create a random but realistic trend
-        const weekday = date.getDay();
-        const isWeekend = (weekday === 0 || weekday === 6);
-        const randomFactor = isWeekend ? 
-          0.8 + (Math.random() * 0.4) : // Higher on weekends
-          0.6 + (Math.random() * 0.3);  // Lower on weekdays
-        
-        const value = (totalSales / daysInMonth) * randomFactor;
-        
-        data.push({ name: dayLabel, value });
-      }
-    }
-    
-    return data;
-  };
-  
   return (
     <Layout>
       <div className="min-h-screen bg-gray-50 dark:bg-gray-900 pb-12 text-gray-900 dark:text-gray-100 transition-colors duration-300">
@@ -1210,7 +1096,7 @@ const AnalyticsDashboard = () => {
                 <div className="p-4">
                   <ResponsiveContainer width="100%" height={300}>
                     <AreaChart
-                      data={generateSalesTrendData(timeFilter, stats.totalSales)}
+                      data={stats.salesTrend}
                       margin={{ top: 20, right: 30, left: 20, bottom: 10 }}
                     >
                       <defs>
@@ -1249,11 +1135,153 @@ const AnalyticsDashboard = () => {
                 </div>
               </motion.div>
               
+              {/* Payment Methods */}
+              <motion.div 
+                  className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden border border-gray-200 dark:border-gray-700 mb-8"
+                  custom={7}
+                  variants={cardVariants}
+                  initial="hidden"
+                  animate="visible"
+              >
+                <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+                    <h3 className="text-lg font-semibold text-gray-800 dark:text-white flex items-center">
+                      <div className="bg-green-100 dark:bg-green-900/30 p-2 rounded-lg mr-3">
+                        <FaMoneyBillWave className="text-green-500" />
+                      </div>
+                    Payment Methods
+                  </h3>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                    Payments received by method
+                  </p>
+                </div>
+                
+                {stats.paymentMethods.every(method => method.count === 0) ? (
+                  <div className="p-8 text-center">
+                    <p className="text-gray-500 dark:text-gray-400">No payments recorded for this period</p>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 p-4">
+                    <ResponsiveContainer width="100%" height={260}>
+                      <PieChart>
+                        <Pie
+                          data={stats.paymentMethods.filter(method => method.amount > 0)}
+                          cx="50%"
+                          cy="50%"
+                          outerRadius={90}
+                          dataKey="amount"
+                          nameKey="label"
+                        >
+                          {stats.paymentMethods.filter(method => method.amount > 0).map((entry, index) => (
+                            <Cell key={`cell-${entry.method}`} fill={CHART_COLORS.accent[index % CHART_COLORS.accent.length]} />
+                          ))}
+                        </Pie>
+                        <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                        <Legend wrapperStyle={{ fontSize: 12 }} />
+                      </PieChart>
+                    </ResponsiveContainer>
+                    
+                    <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 self-center">
+                      <thead className="bg-gray-50 dark:bg-gray-900/50">
+                        <tr>
+                          <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                            Method
+                          </th>
+                          <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                            Payments
+                          </th>
+                          <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                            Amount
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                        {stats.paymentMethods.map(method => (
+                          <tr key={method.method}>
+                            <td className="px-4 py-3 text-sm font-medium text-gray-800 dark:text-white">{method.label}</td>
+                            <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-300">{method.count}</td>
+                            <td className="px-4 py-3 text-sm font-medium text-green-600 dark:text-green-400">
+                              {formatCurrency(method.amount)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </motion.div>
+              
+              {/* Service Requests */}
+              <motion.div 
+                  className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden border border-gray-200 dark:border-gray-700 mb-8"
+                  custom={8}
+                  variants={cardVariants}
+                  initial="hidden"
+                  animate="visible"
+              >
+                <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+                    <h3 className="text-lg font-semibold text-gray-800 dark:text-white flex items-center">
+                      <div className="bg-red-100 dark:bg-red-900/30 p-2 rounded-lg mr-3">
+                        <FaConciergeBell className="text-red-500" />
+                      </div>
+                    Service Requests
+                  </h3>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                    How quickly staff responded to tables calling for service
+                  </p>
+                </div>
+                
+                {stats.serviceResponse.every(summary => summary.count === 0) ? (
+                  <div className="p-8 text-center">
+                    <p className="text-gray-500 dark:text-gray-400">No service requests for this period</p>
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                    <thead className="bg-gray-50 dark:bg-gray-900/50">
+                      <tr>
+                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                          Request
+                        </th>
+                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                          Count
+                        </th>
+                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                          Avg. Acknowledge
+                        </th>
+                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                          Avg. Resolve
+                        </th>
+                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                          Slowest Acknowledge
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {stats.serviceResponse.map(summary => (
+                        <tr key={summary.type} className={summary.type === 'all' ? 'bg-gray-50 dark:bg-gray-900/30' : ''}>
+                          <td className="px-4 py-3 text-sm font-medium text-gray-800 dark:text-white">{summary.label}</td>
+                          <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-300">
+                            {summary.count}
+                            {summary.acknowledged < summary.count && (
+                              <span className="text-xs text-amber-600"> ({summary.count - summary.acknowledged} belum diterima)</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-300">{formatMinutes(summary.averageAcknowledgeMinutes)}</td>
+                          <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-300">{formatMinutes(summary.averageResolveMinutes)}</td>
+                          <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-300">{formatMinutes(summary.slowestAcknowledgeMinutes)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  </div>
+                )}
+              </motion.div>
+              
               {/* Table Data Section - If needed */}
               {stats.tableData && stats.tableData.length > 0 ? (
                 <motion.div 
                     className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden border border-gray-200 dark:border-gray-700"
-                    custom={7}
+                    custom={9}
                     variants={cardVariants}
                     initial="hidden"
                     animate="visible"
@@ -1313,7 +1341,7 @@ const AnalyticsDashboard = () => {
               ) : (
                 <motion.div 
                     className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden border border-gray-200 dark:border-gray-700"
-                    custom={7}
+                    custom={9}
                     variants={cardVariants}
                     initial="hidden"
                     animate="visible"
@@ -0,0 +1,425 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { OrderAPI, TableAPI, MenuAPI, OrderFeedAPI, applyOrderFeedEvent } from '../../api';
+import type { OrderFeedTransport } from '../../api';
+import { useAuthStore } from '../../store';
+import type { Order, Table, Menu } from '../../types';
+import { OrderStatus } from '../../types';
+import OrderItemDetails from '../../components/OrderItemDetails';
+import { playNotificationSound } from '../../utils/notifications';
+import { describeCustomizations } from '../../utils/orderItems';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FaUtensils, FaFire, FaCheck, FaCog, FaExpand, FaCompress, FaChevronDown, FaChevronUp, FaStickyNote, FaWifi } from 'react-icons/fa';
+
+interface AgeThresholds {
+  warning: number; // minutes
+  late: number; // minutes
+}
+
+const DEFAULT_THRESHOLDS: AgeThresholds = { warning: 10, late: 20 };
+const THRESHOLDS_STORAGE_KEY = 'kitchenAgeThresholds';
+// Full reload as a safety net in case the live feed silently misses events
+const RESYNC_INTERVAL = 60000;
+// Second tap within this window counts as a double tap
+const DOUBLE_TAP_DELAY = 300;
+
+const loadThresholds = (): AgeThresholds => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(THRESHOLDS_STORAGE_KEY) || 'null');
+    if (stored && Number(stored.warning) > 0 && Number(stored.late) > 0) {
+      return { warning: Number(stored.warning), late: Number(stored.late) };
+    }
+  } catch (error) {
+    console.warn('Invalid kitchen thresholds in localStorage:', error);
+  }
+  return DEFAULT_THRESHOLDS;
+};
+
+const isActiveOrder = (order: Order) =>
+  order.status === OrderStatus.PENDING || order.status === OrderStatus.PROCESSING;
+
+const isInPreparation = (order: Order) =>
+  order.isProcessed === true || order.status === OrderStatus.PROCESSING;
+
+const getAgeMinutes = (order: Order, now: number) => {
+  const created = order.createdAt ? new Date(order.createdAt).getTime() : now;
+  return Math.max(0, (now - created) / 60000);
+};
+
+const formatAge = (minutes: number) => {
+  const totalSeconds = Math.floor(minutes * 60);
+  const mins = Math.floor(totalSeconds / 60);
+  const secs = totalSeconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const KitchenPage: React.FC = () => {
+  // Expired sessions get the shared re-login prompt over this screen; the
+  // tickets stay visible and loading resumes once the user signs in again
+  const { sessionExpired } = useAuthStore();
+
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [tables, setTables] = useState<Record<number, Table>>({});
+  const [menus, setMenus] = useState<Record<number, Menu>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [feedTransport, setFeedTransport] = useState<OrderFeedTransport | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [thresholds, setThresholds] = useState<AgeThresholds>(loadThresholds);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [expandedItems, setExpandedItems] = useState<Record<string, boolean>>({});
+  const [busyOrderIds, setBusyOrderIds] = useState<number[]>([]);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  const tapTimers = useRef<Record<number, ReturnType<typeof setTimeout>>>({});
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [ordersData, tablesData, menusData] = await Promise.all([
+        OrderAPI.getAll(),
+        TableAPI.getAll(),
+        MenuAPI.getAll(),
+      ]);
+
+      const tablesMap: Record<number, Table> = {};
+      (Array.isArray(tablesData) ? tablesData : []).forEach(table => {
+        tablesMap[table.id] = table;
+      });
+
+      const menusMap: Record<number, Menu> = {};
+      (Array.isArray(menusData) ? menusData : []).forEach(menu => {
+        menusMap[menu.id] = menu;
+      });
+
+      setOrders(Array.isArray(ordersData) ? ordersData : []);
+      setTables(tablesMap);
+      setMenus(menusMap);
+      setError(null);
+    } catch (err) {
+      console.error('KitchenPage - Failed to load orders:', err);
+      if (!useAuthStore.getState().sessionExpired) {
+        setError('Gagal memuat pesanan. Mencoba lagi...');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Initial load, periodic resync and resync when the network comes back
+  useEffect(() => {
+    if (sessionExpired) return;
+
+    fetchData();
+    const interval = setInterval(fetchData, RESYNC_INTERVAL);
+    window.addEventListener('online', fetchData);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', fetchData);
+    };
+  }, [fetchData, sessionExpired]);
+
+  // Live updates; the feed reconnects or falls back to polling by itself
+  useEffect(() => {
+    if (sessionExpired) return;
+
+    const unsubscribe = OrderFeedAPI.subscribe({
+      onTransportChange: setFeedTransport,
+      onEvent: (event) => {
+        setOrders(prevOrders => applyOrderFeedEvent(prevOrders, event));
+        if (event.type === 'created') {
+          playNotificationSound();
+        }
+      },
+    });
+
+    return unsubscribe;
+  }, [sessionExpired]);
+
+  // Tick the age timers
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Keep the screen awake while the kitchen display is open
+  useEffect(() => {
+    let wakeLock: WakeLockSentinel | null = null;
+
+    const requestWakeLock = async () => {
+      try {
+        if ('wakeLock' in navigator && document.visibilityState === 'visible') {
+          wakeLock = await navigator.wakeLock.request('screen');
+        }
+      } catch (error) {
+        console.warn('KitchenPage - Wake lock unavailable:', error);
+      }
+    };
+
+    requestWakeLock();
+    document.addEventListener('visibilitychange', requestWakeLock);
+
+    return () => {
+      document.removeEventListener('visibilitychange', requestWakeLock);
+      wakeLock?.release().catch(() => undefined);
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleFullscreenChange = () => setIsFullscreen(Boolean(document.fullscreenElement));
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
+  useEffect(() => {
+    const timers = tapTimers.current;
+    return () => Object.values(timers).forEach(clearTimeout);
+  }, []);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => undefined);
+    } else {
+      document.documentElement.requestFullscreen().catch(() => undefined);
+    }
+  };
+
+  const updateThresholds = (patch: Partial<AgeThresholds>) => {
+    const updated = { ...thresholds, ...patch };
+    setThresholds(updated);
+    localStorage.setItem(THRESHOLDS_STORAGE_KEY, JSON.stringify(updated));
+  };
+
+  // Optimistic and confirmed states of an order being changed from here
+  const showOrder = (order: Order) => {
+    setOrders(prevOrders => applyOrderFeedEvent(prevOrders, { type: 'updated', order }));
+  };
+
+  const runOrderAction = async (orderId: number, action: () => Promise<Order>) => {
+    setBusyOrderIds(ids => [...ids, orderId]);
+    try {
+      const updatedOrder = await action();
+      setOrders(prevOrders => applyOrderFeedEvent(prevOrders, { type: 'updated', order: updatedOrder }));
+      setError(null);
+    } catch (err) {
+      console.error(`KitchenPage - Failed to update order #${orderId}:`, err);
+      if (!useAuthStore.getState().sessionExpired) {
+        setError(`Gagal memperbarui pesanan #${orderId}. Silakan coba lagi.`);
+      }
+    } finally {
+      setBusyOrderIds(ids => ids.filter(id => id !== orderId));
+    }
+  };
+
+  // Single tap toggles "being prepared", double tap marks the order as done
+  const handleTicketTap = (order: Order) => {
+    if (!order.id || busyOrderIds.includes(order.id)) return;
+    const orderId = order.id;
+
+    if (tapTimers.current[orderId]) {
+      clearTimeout(tapTimers.current[orderId]);
+      delete tapTimers.current[orderId];
+      // Clear the ticket right away; the transition puts it back if the server refuses
+      runOrderAction(orderId, () => OrderAPI.transition(order, OrderStatus.COMPLETED, { onUpdate: showOrder }));
+      return;
+    }
+
+    tapTimers.current[orderId] = setTimeout(() => {
+      delete tapTimers.current[orderId];
+      const target = isInPreparation(order) ? OrderStatus.PENDING : OrderStatus.PROCESSING;
+      runOrderAction(orderId, () => OrderAPI.transition(order, target, { onUpdate: showOrder }));
+    }, DOUBLE_TAP_DELAY);
+  };
+
+  const toggleItem = (key: string) => {
+    setExpandedItems(prev => ({ ...prev, [key]: !prev[key] }));
+  };
+
+  const getAgeClasses = (minutes: number) => {
+    if (minutes >= thresholds.late) return 'bg-red-600 text-white animate-pulse';
+    if (minutes >= thresholds.warning) return 'bg-amber-400 text-gray-900';
+    return 'bg-green-600 text-white';
+  };
+
+  const activeOrders = orders
+    .filter(isActiveOrder)
+    .sort((a, b) => new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime());
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white select-none">
+      {/* Header */}
+      <header className="flex items-center justify-between px-6 py-4 bg-gray-800 border-b border-gray-700">
+        <div className="flex items-center gap-3">
+          <FaUtensils size={28} className="text-primary-400" />
+          <h1 className="text-2xl font-bold">Kitchen</h1>
+          <span className="ml-2 bg-primary-600 text-white text-lg font-bold rounded-full px-3 py-0.5">
+            {activeOrders.length}
+          </span>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <span
+            className={`flex items-center gap-2 text-sm ${feedTransport ? 'text-green-400' : 'text-amber-400'}`}
+            title={feedTransport ? `Live updates (${feedTransport})` : 'Reconnecting...'}
+          >
+            <FaWifi /> {feedTransport ? 'Live' : 'Reconnecting...'}
+          </span>
+          <Link to="/admin/orders" className="px-4 py-3 rounded-lg bg-gray-700 hover:bg-gray-600 text-sm">
+            Orders
+          </Link>
+          <button
+            type="button"
+            onClick={() => setIsSettingsOpen(open => !open)}
+            className="p-3 rounded-lg bg-gray-700 hover:bg-gray-600"
+            aria-label="Timer settings"
+          >
+            <FaCog size={20} />
+          </button>
+          <button
+            type="button"
+            onClick={toggleFullscreen}
+            className="p-3 rounded-lg bg-gray-700 hover:bg-gray-600"
+            aria-label={isFullscreen ? 'Exit full screen' : 'Full screen'}
+          >
+            {isFullscreen ? <FaCompress size={20} /> : <FaExpand size={20} />}
+          </button>
+        </div>
+      </header>
+
+      {isSettingsOpen && (
+        <div className="flex flex-wrap items-center gap-6 px-6 py-4 bg-gray-800 border-b border-gray-700 text-sm">
+          <label className="flex items-center gap-2">
+            <span className="w-3 h-3 rounded-full bg-amber-400" />
+            Warning after
+            <input
+              type="number"
+              min={1}
+              value={thresholds.warning}
+              onChange={(e) => updateThresholds({ warning: Math.max(1, e.target.valueAsNumber || 1) })}
+              className="w-20 p-2 rounded bg-gray-700 border border-gray-600 text-white"
+            />
+            min
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="w-3 h-3 rounded-full bg-red-600" />
+            Late after
+            <input
+              type="number"
+              min={1}
+              value={thresholds.late}
+              onChange={(e) => updateThresholds({ late: Math.max(1, e.target.valueAsNumber || 1) })}
+              className="w-20 p-2 rounded bg-gray-700 border border-gray-600 text-white"
+            />
+            min
+          </label>
+          <p className="text-gray-400">Tap a ticket to start or stop cooking, double tap to mark it done.</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="mx-6 mt-4 px-4 py-3 rounded-lg bg-red-900/60 border border-red-700 text-red-100">
+          {error}
+        </div>
+      )}
+
+      {/* Tickets */}
+      <main className="p-6">
+        {isLoading ? (
+          <p className="text-center text-gray-400 text-xl py-24">Memuat pesanan...</p>
+        ) : activeOrders.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-24 text-gray-500">
+            <FaCheck size={48} className="mb-4" />
+            <p className="text-xl">Tidak ada pesanan aktif</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 2xl:grid-cols-4 gap-5">
+            <AnimatePresence>
+              {activeOrders.map(order => {
+                const ageMinutes = getAgeMinutes(order, now);
+                const cooking = isInPreparation(order);
+                const isBusy = order.id !== undefined && busyOrderIds.includes(order.id);
+
+                return (
+                  <motion.div
+                    key={order.id}
+                    layout
+                    initial={{ opacity: 0, scale: 0.9 }}
+                    animate={{ opacity: isBusy ? 0.6 : 1, scale: 1 }}
+                    exit={{ opacity: 0, scale: 0.9 }}
+                    onClick={() => handleTicketTap(order)}
+                    className={`rounded-2xl overflow-hidden bg-gray-800 border-4 cursor-pointer touch-manipulation ${
+                      cooking ? 'border-blue-500' : 'border-gray-700'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between px-5 py-4 bg-gray-700/60">
+                      <div>
+                        <p className="text-3xl font-extrabold">#{order.dailyOrderId || order.id}</p>
+                        <p className="text-lg text-gray-300">
+                          {tables[order.tableId]?.name || `Meja ${order.tableId}`}
+                          {order.customerName ? ` · ${order.customerName}` : ''}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <span className={`inline-block px-3 py-1 rounded-lg text-2xl font-mono font-bold ${getAgeClasses(ageMinutes)}`}>
+                          {formatAge(ageMinutes)}
+                        </span>
+                        <p className={`mt-1 text-sm font-semibold flex items-center justify-end gap-1 ${cooking ? 'text-blue-300' : 'text-gray-400'}`}>
+                          {cooking ? <><FaFire /> Sedang dimasak</> : 'Menunggu'}
+                        </p>
+                      </div>
+                    </div>
+
+                    <ul className="divide-y divide-gray-700">
+                      {(order.orderItems || []).map((item, itemIndex) => {
+                        const itemKey = `${order.id}-${item.id ?? itemIndex}`;
+                        const hasDetails = describeCustomizations(item.customizations, menus[item.menuId]).length > 0 || Boolean(item.notes?.trim());
+                        const isExpanded = expandedItems[itemKey] ?? true;
+
+                        return (
+                          <li
+                            key={itemKey}
+                            className="px-5 py-3"
+                            onClick={(e) => {
+                              if (!hasDetails) return;
+                              e.stopPropagation();
+                              toggleItem(itemKey);
+                            }}
+                          >
+                            <div className="flex items-center justify-between text-xl">
+                              <span>
+                                <span className="font-bold text-primary-300">{item.quantity}x</span>{' '}
+                                {menus[item.menuId]?.name || item.menu?.name || `Menu #${item.menuId}`}
+                              </span>
+                              {hasDetails && (
+                                <span className="text-gray-400 flex items-center gap-2">
+                                  {item.notes?.trim() && <FaStickyNote className="text-amber-400" />}
+                                  {isExpanded ? <FaChevronUp /> : <FaChevronDown />}
+                                </span>
+                              )}
+                            </div>
+                            {hasDetails && isExpanded && (
+                              <OrderItemDetails
+                                customizations={item.customizations}
+                                notes={item.notes}
+                                menu={menus[item.menuId]}
+                                size="lg"
+                                tone="inverse"
+                                className="ml-8"
+                              />
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </motion.div>
+                );
+              })}
+            </AnimatePresence>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default KitchenPage;
@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { useAuthStore } from '../../store';
 import Button from '../../components/Button';
 import Layout from '../../components/Layout';
 import { motion } from 'framer-motion';
+import { getDefaultAdminPath } from '../../utils/permissions';
 import { FaUser, FaLock, FaHome, FaExclamationCircle, FaUserPlus } from 'react-icons/fa';
 
 interface LoginFormData {
@@ -14,9 +15,17 @@ interface LoginFormData {
 
 const LoginPage: React.FC = () => {
   const navigate = useNavigate();
-  const { login, isAuthenticated, isAdmin, checkAuth } = useAuthStore();
+  const { login, isAuthenticated, sessionExpired, user, checkAuth } = useAuthStore();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [searchParams] = useSearchParams();
+  // Only follow redirects to admin pages, e.g. back to the kitchen display;
+  // otherwise land on the first page the user's role may open
+  const redirectParam = searchParams.get('redirect');
+  const redirectTo = redirectParam?.startsWith('/admin/') ? redirectParam : getDefaultAdminPath(user?.role);
+  // Right after login the render-time user is stale, so read the store
+  const getRedirectAfterLogin = () =>
+    redirectParam?.startsWith('/admin/') ? redirectParam : getDefaultAdminPath(useAuthStore.getState().user?.role);
 
   const {
     register,
@@ -29,27 +38,27 @@ const LoginPage: React.FC = () => {
     },
   });
 
-  // Check if there's a valid token on mount
+  // Check if there's a valid token on mount; the auth state effect below
+  // redirects once the user is known
   useEffect(() => {
     const verifyAuth = async () => {
       console.log('LoginPage - Verifying existing auth');
       const isValid = await checkAuth();
-      if (isValid) {
-        console.log('LoginPage - Token is valid, redirecting');
-        navigate('/admin/menu');
-      }
+      console.log('LoginPage - Token is valid:', isValid);
     };
     
     verifyAuth();
-  }, [checkAuth, navigate]);
+  }, [checkAuth]);
 
   useEffect(() => {
-    console.log('LoginPage - Auth state changed:', { isAuthenticated, isAdmin });
-    if (isAuthenticated && isAdmin) {
-      console.log('LoginPage - User is authenticated and admin, navigating to /admin/menu');
-      navigate('/admin/menu');
+    console.log('LoginPage - Auth state changed:', { isAuthenticated, sessionExpired, role: user?.role });
+    // An expired session is still "authenticated" until checkAuth clears it;
+    // redirecting then would bounce straight back to the page that sent us here
+    if (isAuthenticated && !sessionExpired) {
+      console.log('LoginPage - User is authenticated, navigating to', redirectTo);
+      navigate(redirectTo);
     }
-  }, [isAuthenticated, isAdmin, navigate]);
+  }, [isAuthenticated, sessionExpired, user, navigate, redirectTo]);
 
   const onSubmit = async (data: LoginFormData) => {
     try {
@@ -61,8 +70,9 @@ const LoginPage: React.FC = () => {
 
       console.log('LoginPage - Login result:', success);
       if (success) {
-        console.log('LoginPage - Login successful, navigating to /admin/menu');
-        navigate('/admin/menu');
+        const target = getRedirectAfterLogin();
+        console.log('LoginPage - Login successful, navigating to', target);
+        navigate(target);
       } else {
         console.log('LoginPage - Login failed');
         setError('Invalid username or password');
@@ -1,8 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
-import { MenuAPI } from '../../api';
+import { Link } from 'react-router-dom';
+import { MenuAPI, PromotionAPI } from '../../api';
 import { useAuthStore } from '../../store';
-import type { Menu } from '../../types';
+import type { Menu, Promotion } from '../../types';
 import Layout from '../../components/Layout';
 import Button from '../../components/Button';
 import MenuCard from '../../components/MenuCard';
@@ -21,13 +21,14 @@ import { useAlert } from '../../contexts/AlertContext';
 
 const MenuPage: React.FC = () => {
   console.log('MenuPage - Component rendering');
-  const navigate = useNavigate();
-  const { isAuthenticated, isAdmin } = useAuthStore();
+  const { isAuthenticated, can } = useAuthStore();
   const { showAlert } = useAlert();
   
-  console.log('MenuPage - Auth state:', { isAuthenticated, isAdmin });
+  const canEditMenu = can('menu:edit');
+  const canUpdateStock = can('menu:updateStock');
   
   const [menus, setMenus] = useState<Menu[]>([]);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -71,6 +72,11 @@ const MenuPage: React.FC = () => {
       }
       
       setMenus(menuArray);
+
+      // Running price rules, so the cards show what customers pay right now
+      PromotionAPI.getActive()
+        .then(setPromotions)
+        .catch(promoError => console.warn('MenuPage - Failed to load promotions:', promoError));
       
       // Extract unique categories
       const uniqueCategories = Array.from(
@@ -88,18 +94,13 @@ const MenuPage: React.FC = () => {
     }
   };
   
-  // Fetch menus on component mount
+  // Fetch menus on component mount; access is checked by the route guard
   useEffect(() => {
-    console.log('MenuPage - Checking auth before fetching menus');
     if (isAuthenticated) {
-      console.log('MenuPage - Authenticated, fetching menus');
       fetchMenus();
       testConnectionStatus();
-    } else {
-      console.log('MenuPage - Not authenticated, redirecting to login');
-      navigate('/login');
     }
-  }, [isAuthenticated, navigate]);
+  }, [isAuthenticated]);
   
   // Test connection to backend
   const testConnectionStatus = async () => {
@@ -839,14 +840,16 @@ const MenuPage: React.FC = () => {
               </div>
               
               {/* Add menu button */}
-              <Button
-                color="primary"
-                onClick={handleAddButtonClick}
-                iconLeft={<FaPlus />}
-                className="ml-auto"
-              >
-                Add Menu
-              </Button>
+              {canEditMenu && (
+                <Button
+                  color="primary"
+                  onClick={handleAddButtonClick}
+                  iconLeft={<FaPlus />}
+                  className="ml-auto"
+                >
+                  Add Menu
+                </Button>
+              )}
             </div>
           </motion.div>
           
@@ -859,11 +862,12 @@ const MenuPage: React.FC = () => {
                     <ChildAnimation key={menu.id} variant="scale">
                       <MenuCard
                         menu={menu}
-                        onEdit={() => handleEditMenu(menu)}
-                        onDelete={() => handleDeleteMenu(menu.id)}
-                        onToggleStatus={(menu, newStatus) => handleToggleStatus(menu, newStatus)}
+                        onEdit={canEditMenu ? () => handleEditMenu(menu) : undefined}
+                        onDelete={canEditMenu ? () => handleDeleteMenu(menu.id) : undefined}
+                        onToggleStatus={canUpdateStock ? (menu, newStatus) => handleToggleStatus(menu, newStatus) : undefined}
                         onFixImage={handleFixMenuImage}
                         isAdmin={true}
+                        promotions={promotions}
                         onAddToCart={() => {}}
                       />
                     </ChildAnimation>
@@ -954,23 +958,27 @@ const MenuPage: React.FC = () => {
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                               <div className="flex items-center justify-end gap-2">
-                                <Button
-                                  color="secondary"
-                                  onClick={() => handleEditMenu(menu)}
-                                  size="sm"
-                                >
-                                  Edit
-                                </Button>
-                                <Button
-                                  color={menu.status === 'AVAILABLE' ? 'danger' : 'success'}
-                                  onClick={() => handleToggleStatus(
-                                    menu, 
-                                    menu.status === 'AVAILABLE' ? 'OUT_OF_STOCK' : 'AVAILABLE'
-                                  )}
-                                  size="sm"
-                                >
-                                  {menu.status === 'AVAILABLE' ? 'Mark Out' : 'Mark Available'}
-                                </Button>
+                                {canEditMenu && (
+                                  <Button
+                                    color="secondary"
+                                    onClick={() => handleEditMenu(menu)}
+                                    size="sm"
+                                  >
+                                    Edit
+                                  </Button>
+                                )}
+                                {canUpdateStock && (
+                                  <Button
+                                    color={menu.status === 'AVAILABLE' ? 'danger' : 'success'}
+                                    onClick={() => handleToggleStatus(
+                                      menu, 
+                                      menu.status === 'AVAILABLE' ? 'OUT_OF_STOCK' : 'AVAILABLE'
+                                    )}
+                                    size="sm"
+                                  >
+                                    {menu.status === 'AVAILABLE' ? 'Mark Out' : 'Mark Available'}
+                                  </Button>
+                                )}
                               </div>
                             </td>
                           </motion.tr>
@@ -1,21 +1,32 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
-import { OrderAPI, TableAPI, MenuAPI } from '../../api';
-import api from '../../api/axios';
+import { OrderAPI, TableAPI, MenuAPI, OrderFeedAPI, PaymentAPI, applyOrderFeedEvent, ApiError } from '../../api';
+import type { OrderFeedTransport } from '../../api';
 import { useAuthStore } from '../../store';
-import type { Order, Table, Menu } from '../../types';
-import { OrderStatus } from '../../types';
+import type { Order, OrderMove, Table, TableGroup, Menu, Payment } from '../../types';
+import { OrderStatus, PaymentStatus } from '../../types';
 import Layout from '../../components/Layout';
 import Button from '../../components/Button';
 import Modal from '../../components/Modal';
 import { formatCurrency, formatDate } from '../../utils/format';
 import { motion, AnimatePresence } from 'framer-motion';
-import { FaSync, FaFilter, FaSearch, FaCalendarAlt, FaCheck, FaTimes, FaInfo, FaUtensils, FaBell, FaClipboardCheck, FaAngleRight, FaCalendarDay, FaCalendarWeek, FaCalendarAlt as FaCalendarMonth, FaListUl, FaTag, FaChair, FaUser, FaMoneyBillWave, FaExclamationTriangle, FaHistory, FaTrash } from 'react-icons/fa';
+import { FaSync, FaFilter, FaSearch, FaCalendarAlt, FaCheck, FaTimes, FaInfo, FaUtensils, FaBell, FaClipboardCheck, FaAngleRight, FaCalendarDay, FaCalendarWeek, FaCalendarAlt as FaCalendarMonth, FaListUl, FaTag, FaChair, FaUser, FaMoneyBillWave, FaExclamationTriangle, FaHistory, FaTrash, FaVolumeUp, FaVolumeMute, FaPrint, FaExchangeAlt } from 'react-icons/fa';
 import ConfirmationDialog from '../../components/ConfirmationDialog';
+import PaymentModal from '../../components/PaymentModal';
+import OrderMoveModal from '../../components/OrderMoveModal';
+import ReceiptPrintModal from '../../components/ReceiptPrintModal';
+import type { ReceiptContext } from '../../utils/receipt';
+import OrderItemDetails from '../../components/OrderItemDetails';
+import PriceBreakdownSummary from '../../components/PriceBreakdownSummary';
+import { canTransition, getTransitionError } from '../../utils/orderStateMachine';
+import { calculatePriceBreakdown } from '../../utils/pricing';
+import { PAYMENT_METHOD_LABELS, PAYMENT_STATUS_LABELS, summarizeOrderPayments } from '../../utils/payments';
+import { getGroupName, getGroupTableIds, getTableGroup } from '../../utils/tableGroups';
+import { playNotificationSound, requestNotificationPermission, showBrowserNotification } from '../../utils/notifications';
 
 const OrderPage: React.FC = () => {
   const navigate = useNavigate();
-  const { isAuthenticated, isAdmin } = useAuthStore();
+  const { isAuthenticated, can } = useAuthStore();
   
   const [orders, setOrders] = useState<Order[]>([]);
   const [tables, setTables] = useState<Record<number, Table>>({});
@@ -30,6 +41,16 @@ const OrderPage: React.FC = () => {
   const [updatingStatus, setUpdatingStatus] = useState<OrderStatus | null>(null);
   const [dailyOrderId, setDailyOrderId] = useState<number | null>(null);
   
+  // Payments recorded against the loaded orders, and the table being billed
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [paymentTableId, setPaymentTableId] = useState<number | null>(null);
+  const [receiptOrder, setReceiptOrder] = useState<Order | null>(null);
+  
+  // Merged tables are billed together; moves are shown in the order detail
+  const [tableGroups, setTableGroups] = useState<TableGroup[]>([]);
+  const [moveOrder, setMoveOrder] = useState<Order | null>(null);
+  const [orderMoves, setOrderMoves] = useState<OrderMove[]>([]);
+  
   // Confirmation dialog state
   const [isConfirmDialogOpen, setIsConfirmDialogOpen] = useState(false);
   const [confirmDialogData, setConfirmDialogData] = useState<{
@@ -41,12 +62,17 @@ const OrderPage: React.FC = () => {
   
   const updateProcessedStatusRef = useRef<{ orderId: number; isProcessed: boolean } | null>(null);
   
-  // Check authentication
-  useEffect(() => {
-    if (!isAuthenticated || !isAdmin) {
-      navigate('/admin/login');
-    }
-  }, [isAuthenticated, isAdmin, navigate]);
+  // Real-time order feed
+  const [feedTransport, setFeedTransport] = useState<OrderFeedTransport | null>(null);
+  const [newOrderCount, setNewOrderCount] = useState(0);
+  const [isSoundEnabled, setIsSoundEnabled] = useState(() => localStorage.getItem('orderSoundEnabled') !== 'false');
+  // The feed callback outlives renders, so it reads these through refs
+  const statusFilterRef = useRef(statusFilter);
+  const tablesRef = useRef(tables);
+  const isSoundEnabledRef = useRef(isSoundEnabled);
+  statusFilterRef.current = statusFilter;
+  tablesRef.current = tables;
+  isSoundEnabledRef.current = isSoundEnabled;
   
   // Fetch orders, tables, and menus
   useEffect(() => {
@@ -92,9 +118,22 @@ const OrderPage: React.FC = () => {
           menusMap[menu.id] = menu;
         });
         
-        setOrders(ordersArray as Order[]);
+        setOrders(ordersArray);
         setTables(tablesMap);
         setMenus(menusMap);
+        
+        // Payment state is secondary; the order list is still usable without it
+        try {
+          setPayments(await PaymentAPI.getPayments({ orderIds: ordersArray.map(order => order.id) }));
+        } catch (paymentErr) {
+          console.error('Gagal mengambil data pembayaran:', paymentErr);
+        }
+        
+        try {
+          setTableGroups(await TableAPI.getGroups());
+        } catch (groupErr) {
+          console.error('Gagal mengambil data gabungan meja:', groupErr);
+        }
       } catch (err) {
         console.error('Gagal mengambil data:', err);
         setError('Gagal memuat pesanan. Silakan coba lagi nanti.');
@@ -107,11 +146,57 @@ const OrderPage: React.FC = () => {
     fetchData();
   }, [statusFilter]);
   
+  // Subscribe to new and changed orders so staff don't have to refresh
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    
+    const unsubscribe = OrderFeedAPI.subscribe({
+      onTransportChange: setFeedTransport,
+      onEvent: (event) => {
+        setOrders(prevOrders => applyOrderFeedEvent(prevOrders, event, statusFilterRef.current));
+        setSelectedOrder(prevSelected => {
+          if (!prevSelected || prevSelected.id !== event.order.id || event.type === 'deleted') return prevSelected;
+          return { ...prevSelected, ...event.order };
+        });
+        
+        if (event.type === 'created') {
+          setNewOrderCount(count => count + 1);
+          if (isSoundEnabledRef.current) {
+            playNotificationSound();
+          }
+          const tableName = tablesRef.current[event.order.tableId]?.name || `Meja ${event.order.tableId}`;
+          showBrowserNotification(
+            'Pesanan baru',
+            `${tableName} · ${formatCurrency(event.order.totalPrice)}`,
+            `order-${event.order.id}`
+          );
+        }
+      },
+    });
+    
+    return unsubscribe;
+  }, [isAuthenticated]);
+  
+  const handleToggleSound = () => {
+    const enabled = !isSoundEnabled;
+    setIsSoundEnabled(enabled);
+    localStorage.setItem('orderSoundEnabled', String(enabled));
+    if (enabled) {
+      playNotificationSound();
+    }
+  };
+  
+  const handleBellClick = async () => {
+    setNewOrderCount(0);
+    await requestNotificationPermission();
+  };
+  
   const handleUpdateOrderStatus = async (orderId: number, status: OrderStatus) => {
     try {
-      // Prevent changing from completed to pending
-      if (selectedOrder?.status === OrderStatus.COMPLETED && status === OrderStatus.PENDING) {
-        alert('Tidak dapat mengubah status kembali ke pending setelah selesai.');
+      const order = orders.find(o => o.id === orderId);
+      const transitionError = order ? getTransitionError(order, status) : 'Pesanan tidak ditemukan.';
+      if (transitionError) {
+        alert(transitionError);
         return;
       }
 
@@ -133,8 +218,8 @@ const OrderPage: React.FC = () => {
       console.error('Failed in outer try block:', err);
       
       let errorMsg = 'Gagal memperbarui status pesanan.';
-      if (err.response?.data?.message) {
-        errorMsg += ` ${err.response.data.message}`;
+      if (err instanceof ApiError) {
+        errorMsg += ` ${err.message}`;
       } else if (err.message) {
         errorMsg += ` Error: ${err.message}`;
       }
@@ -144,120 +229,35 @@ const OrderPage: React.FC = () => {
     }
   };
   
+  // Put a changed order into the list and the detail modal
+  const replaceOrder = (updatedOrder: Order) => {
+    setOrders(prevOrders =>
+      prevOrders.map(order => order.id === updatedOrder.id ? updatedOrder : order)
+    );
+    setSelectedOrder(prevSelected =>
+      prevSelected && prevSelected.id === updatedOrder.id ? updatedOrder : prevSelected
+    );
+  };
+  
   const updateOrderStatusRequest = async (orderId: number, status: OrderStatus) => {
+    const order = orders.find(o => o.id === orderId);
+    if (!order) return;
+    
     console.log(`Updating order #${orderId} status to ${status}`);
     setUpdatingStatus(status);
     
     try {
-      // Log the enum value we're sending to help diagnose issues
-      console.log('Status enum value:', status);
-      console.log('Status type:', typeof status);
-      
-      // Direct API call without delay
-      const updatedOrder = await OrderAPI.updateStatus(orderId, status);
+      // Shows the new status right away and rolls back if the server refuses
+      const updatedOrder = await OrderAPI.transition(order, status, { onUpdate: replaceOrder });
       console.log('Successfully updated order:', updatedOrder);
       
-      // Update orders list with type casting
-      setOrders(prevOrders => 
-        prevOrders.map(order => 
-          order.id === updatedOrder.id ? (updatedOrder as Order) : order
-        )
-      );
-      
-      // Update selected order if open in modal
-      if (selectedOrder && selectedOrder.id === updatedOrder.id) {
-        setSelectedOrder(updatedOrder as Order);
-      }
-      
-      // Show success message
       alert(`Status pesanan berhasil diubah menjadi ${updatedOrder.status}`);
-      
-      // Only refresh for COMPLETED or CANCELLED status, not PROCESSING
-      if (status === OrderStatus.COMPLETED || status === OrderStatus.CANCELLED) {
-      window.location.reload();
-      }
-      
     } catch (err: any) {
       console.error('Failed to update order status:', err);
       
-      // Retry with a different approach if the first attempt failed
-      try {
-        console.log('Retrying status update with basic method...');
-        
-        // Try a simpler update approach as fallback - using raw string instead of enum
-        const statusString = status.toString();
-        console.log('Using string value for status:', statusString);
-        
-        const simpleUpdate = await api.put(`/orders/${orderId}/status`, { 
-          status: statusString
-        });
-        
-        if (simpleUpdate?.data) {
-          console.log('Update succeeded with simple method:', simpleUpdate.data);
-          alert(`Status pesanan berhasil diubah menjadi ${status}`);
-          
-          // Only refresh for COMPLETED or CANCELLED status, not PROCESSING
-          if (status === OrderStatus.COMPLETED || status === OrderStatus.CANCELLED) {
-          window.location.reload();
-          } else {
-            // Update local state instead of refreshing for PROCESSING
-            setOrders(prevOrders => 
-              prevOrders.map(order => 
-                order.id === orderId ? {...order, status} : order
-              )
-            );
-          }
-          return;
-        }
-      } catch (retryErr: any) {
-        console.error('Retry also failed:', retryErr);
-        
-        // Try a third approach with different casing
-        try {
-          console.log('Trying third approach with status value normalization');
-          
-          // Try with uppercase value explicitly
-          const upperStatus = status.toString().toUpperCase();
-          console.log('Using uppercase status:', upperStatus);
-          
-          const thirdTry = await api.put(`/orders/${orderId}/status`, { 
-            status: upperStatus
-          });
-          
-          if (thirdTry?.data) {
-            console.log('Third attempt succeeded:', thirdTry.data);
-            alert(`Status pesanan berhasil diubah menjadi ${status}`);
-            
-            // Only refresh for COMPLETED or CANCELLED status, not PROCESSING
-            if (status === OrderStatus.COMPLETED || status === OrderStatus.CANCELLED) {
-            window.location.reload();
-            } else {
-              // Update local state instead of refreshing for PROCESSING
-              setOrders(prevOrders => 
-                prevOrders.map(order => 
-                  order.id === orderId ? {...order, status} : order
-                )
-              );
-            }
-            return;
-          }
-        } catch (thirdErr: any) {
-          console.error('Third attempt also failed:', thirdErr);
-          
-          // Log request details for debugging
-          if (thirdErr.response) {
-            console.error('Error details:', {
-              status: thirdErr.response.status,
-              data: thirdErr.response.data,
-              headers: thirdErr.response.headers
-            });
-          }
-        }
-      }
-      
       let errorMsg = 'Gagal memperbarui status pesanan.';
-      if (err.response?.data?.message) {
-        errorMsg += ` ${err.response.data.message}`;
+      if (err instanceof ApiError) {
+        errorMsg += ` ${err.message}`;
       } else if (err.message) {
         errorMsg += ` Error: ${err.message}`;
       }
@@ -289,6 +289,36 @@ const OrderPage: React.FC = () => {
     }
   };
   
+  // Put moved orders into the list; an items move may have created the target order
+  const handleOrdersMoved = (movedOrders: Order[]) => {
+    setOrders(prevOrders => [
+      ...prevOrders.map(order => movedOrders.find(moved => moved.id === order.id) ?? order),
+      ...movedOrders.filter(moved => !prevOrders.some(order => order.id === moved.id)),
+    ]);
+    setSelectedOrder(prevSelected =>
+      prevSelected ? movedOrders.find(moved => moved.id === prevSelected.id) ?? prevSelected : prevSelected
+    );
+  };
+  
+  const selectedOrderId = isDetailModalOpen ? selectedOrder?.id : undefined;
+  const selectedOrderTableId = selectedOrder?.tableId;
+  
+  // Move history of the order in the detail modal; refetched after it moves
+  useEffect(() => {
+    setOrderMoves([]);
+    if (selectedOrderId === undefined) return;
+    
+    let cancelled = false;
+    OrderAPI.getMoves(selectedOrderId)
+      .then(moves => {
+        if (!cancelled) setOrderMoves(moves);
+      })
+      .catch(err => console.error('Gagal mengambil riwayat pindah meja:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedOrderId, selectedOrderTableId]);
+  
   const handleViewOrder = (order: Order) => {
     setSelectedOrder(order);
     setIsDetailModalOpen(true);
@@ -334,27 +364,57 @@ const OrderPage: React.FC = () => {
     }
   };
   
-  // Enable or disable status change buttons based on current status
-  const isStatusChangeAllowed = (currentStatus: OrderStatus, targetStatus: OrderStatus): boolean => {
-    // Don't allow changing back from completed
-    if (currentStatus === OrderStatus.COMPLETED) return false;
-    
-    // Allow processing to pending (rare case of error)
-    if (currentStatus === OrderStatus.PROCESSING && targetStatus === OrderStatus.PENDING) return true;
-    
-    // Allow sequential progression
-    if (currentStatus === OrderStatus.PENDING && targetStatus === OrderStatus.PROCESSING) return true;
-    if (currentStatus === OrderStatus.PROCESSING && targetStatus === OrderStatus.COMPLETED) return true;
+  // Ensure orders is always an array
+  const safeOrders = Array.isArray(orders) ? orders : [];
+  const paymentSummaries = summarizeOrderPayments(safeOrders, payments);
+  
+  const isPayable = (order: Order) =>
+    can('payments:take') &&
+    order.status !== OrderStatus.CANCELLED &&
+    (paymentSummaries[order.id]?.remaining ?? 0) > 0;
+  
+  const handlePaymentRecorded = (payment: Payment) => {
+    setPayments(prevPayments => [...prevPayments, payment]);
+  };
+  
+  // Stable so the modal does not steal focus from its inputs on every feed update
+  const closePaymentModal = useCallback(() => setPaymentTableId(null), []);
+  const closeMoveModal = useCallback(() => setMoveOrder(null), []);
+  const paymentGroup = paymentTableId !== null ? getTableGroup(paymentTableId, tableGroups) : undefined;
+  const paymentTableIds = useMemo(
+    () => (paymentTableId !== null ? getGroupTableIds(paymentTableId, tableGroups) : []),
+    [paymentTableId, tableGroups]
+  );
+  const getTableName = (tableId: number) => tables[tableId]?.name || `Table ${tableId}`;
+  const closeReceiptModal = useCallback(() => setReceiptOrder(null), []);
+  
+  const receiptContext = useMemo<ReceiptContext>(() => ({
+    tableName: receiptOrder ? tables[receiptOrder.tableId]?.name : undefined,
+    menus,
+    payments,
+  }), [receiptOrder, tables, menus, payments]);
+  
+  const renderPaymentBadge = (order: Order) => {
+    const summary = paymentSummaries[order.id];
+    if (!summary || order.status === OrderStatus.CANCELLED) return null;
     
-    // Allow direct pending to completed (skip processing)
-    if (currentStatus === OrderStatus.PENDING && targetStatus === OrderStatus.COMPLETED) return true;
+    const badgeClass = {
+      [PaymentStatus.PAID]: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400',
+      [PaymentStatus.PARTIAL]: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400',
+      [PaymentStatus.UNPAID]: 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300',
+    }[summary.status];
+    const methods = summary.methods.map(method => PAYMENT_METHOD_LABELS[method]).join(', ');
     
-    return false;
+    return (
+      <span
+        className={`px-2.5 py-0.5 text-xs font-medium rounded-full ${badgeClass}`}
+        title={methods ? `Dibayar via ${methods}` : undefined}
+      >
+        {PAYMENT_STATUS_LABELS[summary.status]}
+      </span>
+    );
   };
   
-  // Ensure orders is always an array
-  const safeOrders = Array.isArray(orders) ? orders : [];
-  
   // Filter orders by time
   const filterOrdersByTime = (order: Order) => {
     if (timeFilter === 'all') return true;
@@ -444,75 +504,16 @@ const OrderPage: React.FC = () => {
     const pendingCount = filteredOrders.filter(order => order.status === OrderStatus.PENDING).length;
     const completedCount = filteredOrders.filter(order => order.status === OrderStatus.COMPLETED).length;
     
-    // First calculate from items to have a reference value
-    let itemBasedTotal = 0;
-    filteredOrders
-      .filter(order => order.status === OrderStatus.COMPLETED)
-      .forEach(order => {
-        if (order.orderItems && Array.isArray(order.orderItems)) {
-          order.orderItems.forEach(item => {
-            const price = Number(item.price) || 0;
-            const quantity = Number(item.quantity) || 0;
-            itemBasedTotal += price * quantity;
-          });
-        }
-      });
-    
-    // Improved revenue calculation with aggressive scaling for IDR
+    // totalPrice is the priced total (tax, service and discounts included) and
+    // is normalized to a number by the API validators
     const totalRevenue = filteredOrders
       .filter(order => order.status === OrderStatus.COMPLETED)
-      .reduce((sum, order) => {
-        // Get the raw price
-        const rawPrice = order.totalPrice;
-        let orderTotal = 0;
-        
-        // For numeric values, use directly
-        if (typeof rawPrice === 'number') {
-          orderTotal = rawPrice;
-        } 
-        // For string values
-        else if (typeof rawPrice === 'string') {
-          const priceStr = rawPrice as string; // Type assertion
-          if (priceStr.includes('Rp')) {
-            // Clean currency symbols
-            const cleanPrice = priceStr.replace(/[^0-9]/g, '');
-            orderTotal = parseInt(cleanPrice, 10) || 0;
-          } else {
-            // Try direct conversion
-            orderTotal = Number(priceStr) || 0;
-          }
-        }
-        
-        // CRITICAL FIX: For Indonesian Rupiah values
-        // If the value seems too small (less than 1000), multiply by 1000
-        if (orderTotal > 0 && orderTotal < 1000) {
-          orderTotal *= 1000;
-        }
-        
-        // Double-check against the item-based calculation
-        if (itemBasedTotal > 10000 && orderTotal < 1000) {
-          orderTotal *= 1000; // Apply additional scaling if needed
-        }
-        
-        return sum + (orderTotal || 0);
-      }, 0);
-    
-    // Final safety check - if our calculated revenue is suspiciously low
-    // but we have a reasonable item-based total, use that instead
-    let finalRevenue = totalRevenue;
-    if (totalRevenue < 1000 && itemBasedTotal > 10000) {
-      finalRevenue = itemBasedTotal;
-    }
-    
-    // If the total still seems too small with multiple orders, apply scaling
-    if (finalRevenue > 0 && finalRevenue < 1000 && completedCount > 0) {
-      finalRevenue *= 1000;
-    }
+      .reduce((sum, order) => sum + order.totalPrice, 0);
     
     return {
       pendingCount,
       completedCount,
-      totalRevenue: finalRevenue
+      totalRevenue
     };
   };
   
@@ -558,30 +559,16 @@ const OrderPage: React.FC = () => {
   };
 
   const handleCancelOrderRequest = async (orderId: number) => {
+    const order = orders.find(o => o.id === orderId);
+    if (!order) return;
+    
     try {
       console.log(`Cancelling order #${orderId}`);
       
-      const cancelledOrder = await OrderAPI.cancelOrder(orderId);
+      const cancelledOrder = await OrderAPI.transition(order, OrderStatus.CANCELLED, { onUpdate: replaceOrder });
       console.log('Successfully cancelled order:', cancelledOrder);
       
-      // Update orders list
-      setOrders(prevOrders => 
-        prevOrders.map(order => 
-          order.id === cancelledOrder.id ? (cancelledOrder as Order) : order
-        )
-      );
-      
-      // Update selected order if open in modal
-      if (selectedOrder && selectedOrder.id === cancelledOrder.id) {
-        setSelectedOrder(cancelledOrder as Order);
-      }
-      
-      // Show success message
       alert('Pesanan berhasil dibatalkan.');
-      
-      // Refresh the page to get the latest data
-      window.location.reload();
-      
     } catch (err: any) {
       console.error('Failed to cancel order:', err);
       alert(err.message || 'Gagal membatalkan pesanan. Silakan coba lagi.');
@@ -608,32 +595,17 @@ const OrderPage: React.FC = () => {
   };
   
   const handleUpdateProcessedStatusRequest = async (orderId: number, isProcessed: boolean) => {
+    const order = orders.find(o => o.id === orderId);
+    if (!order) return;
+    
     try {
       console.log(`Updating order #${orderId} processed status to ${isProcessed}`);
       
-      const updatedOrder = await OrderAPI.updateProcessedStatus(orderId, isProcessed);
+      // "Processed" is the PROCESSING state; one request, rolled back if refused
+      const target = isProcessed ? OrderStatus.PROCESSING : OrderStatus.PENDING;
+      const updatedOrder = await OrderAPI.transition(order, target, { onUpdate: replaceOrder });
       console.log('Successfully updated order processed status:', updatedOrder);
       
-      // If marking as processed, also update order status to PROCESSING if it's currently PENDING
-      if (isProcessed) {
-        const orderToUpdate = orders.find(o => o.id === orderId);
-        if (orderToUpdate && orderToUpdate.status === OrderStatus.PENDING) {
-          await updateOrderStatusRequest(orderId, OrderStatus.PROCESSING);
-        }
-      }
-      
-      // Update orders list
-      setOrders(prevOrders => 
-        prevOrders.map(order => 
-          order.id === updatedOrder.id ? (updatedOrder as Order) : order
-        )
-      );
-      
-      // Update selected order if open in modal
-      if (selectedOrder && selectedOrder.id === updatedOrder.id) {
-        setSelectedOrder(updatedOrder as Order);
-      }
-      
       // Show success message
       alert(`Pesanan berhasil ditandai sebagai ${isProcessed ? 'sudah' : 'belum'} diproses oleh dapur.`);
       
@@ -1019,6 +991,7 @@ const OrderPage: React.FC = () => {
                       <span className={`px-3 py-1 text-xs font-medium rounded-full ${getStatusClass(order.status)}`}>
                         {order.status}
                       </span>
+                      {renderPaymentBadge(order)}
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
@@ -1036,6 +1009,18 @@ const OrderPage: React.FC = () => {
                         View
                       </motion.button>
                       
+                      {isPayable(order) && (
+                        <motion.button
+                          whileHover={{ scale: 1.05, y: -2 }}
+                          whileTap={{ scale: 0.95 }}
+                          className="bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400 hover:bg-green-100 dark:hover:bg-green-900/30 px-3 py-2 rounded-lg text-sm flex items-center gap-1.5 border border-green-100 dark:border-green-800/50 font-medium"
+                          onClick={() => setPaymentTableId(order.tableId)}
+                        >
+                          <FaMoneyBillWave size={14} />
+                          Bayar
+                        </motion.button>
+                      )}
+                      
                       {/* Cancel button only for PENDING orders */}
                       {order.status === OrderStatus.PENDING && (
                       <motion.button
@@ -1159,11 +1144,29 @@ const OrderPage: React.FC = () => {
                             <span>{formatCurrency(Number(order.totalPrice))}</span>
                           </div>
                         </div>
+
+                        {/* Item lines with customizations and notes for the kitchen */}
+                        {order.orderItems && order.orderItems.length > 0 && (
+                          <ul className="mt-2 space-y-1.5">
+                            {order.orderItems.map((item, itemIndex) => (
+                              <li key={item.id ?? itemIndex} className="text-sm text-gray-700 dark:text-gray-300">
+                                <span className="font-semibold">{item.quantity}x</span>{' '}
+                                {menus[item.menuId]?.name || item.menu?.name || `Menu #${item.menuId}`}
+                                <OrderItemDetails
+                                  customizations={item.customizations}
+                                  notes={item.notes}
+                                  menu={menus[item.menuId]}
+                                  className="ml-6"
+                                />
+                              </li>
+                            ))}
+                          </ul>
+                        )}
                       </div>
                     </div>
                   
                     <div className="flex gap-2">
-                      {order.status === OrderStatus.PENDING && (
+                      {canTransition(order, OrderStatus.PROCESSING) && (
                         <motion.button
                           whileHover={{ scale: 1.05, y: -2 }}
                           whileTap={{ scale: 0.95 }}
@@ -1251,6 +1254,41 @@ const OrderPage: React.FC = () => {
                 Order History
               </Button>
               
+              <button
+                type="button"
+                onClick={handleBellClick}
+                className="relative p-3 rounded-xl bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-amber-500 hover:bg-amber-50 dark:hover:bg-gray-700 transition-colors"
+                title={feedTransport ? `Live updates (${feedTransport})` : 'Connecting to live updates...'}
+                aria-label="New orders"
+              >
+                <FaBell size={16} />
+                <span
+                  className={`absolute bottom-1 right-1 w-2 h-2 rounded-full ${feedTransport ? 'bg-green-500' : 'bg-gray-400'}`}
+                />
+                <AnimatePresence>
+                  {newOrderCount > 0 && (
+                    <motion.span
+                      className="absolute -top-2 -right-2 bg-red-500 text-white text-xs font-bold rounded-full min-w-[1.25rem] h-5 px-1 flex items-center justify-center"
+                      initial={{ scale: 0 }}
+                      animate={{ scale: 1 }}
+                      exit={{ scale: 0 }}
+                    >
+                      {newOrderCount}
+                    </motion.span>
+                  )}
+                </AnimatePresence>
+              </button>
+              
+              <button
+                type="button"
+                onClick={handleToggleSound}
+                className="p-3 rounded-xl bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                title={isSoundEnabled ? 'Mute new order sound' : 'Play a sound for new orders'}
+                aria-label="Toggle new order sound"
+              >
+                {isSoundEnabled ? <FaVolumeUp size={16} /> : <FaVolumeMute size={16} />}
+              </button>
+              
               <Button
                 variant="light"
                 onClick={() => window.location.reload()}
@@ -1441,6 +1479,7 @@ const OrderPage: React.FC = () => {
                   <span className={`px-2.5 py-0.5 text-xs rounded-full font-medium ${getStatusClass(selectedOrder.status)}`}>
                     {selectedOrder.status}
                   </span>
+                  {renderPaymentBadge(selectedOrder)}
                   <span className="text-sm text-gray-500">
                     • {safeDateFormat(selectedOrder.createdAt)}
                   </span>
@@ -1490,6 +1529,12 @@ const OrderPage: React.FC = () => {
                             <p className="font-medium text-gray-800">
                               {menus[item.menuId]?.name || `Menu #${item.menuId}`}
                             </p>
+                            <OrderItemDetails
+                              customizations={item.customizations}
+                              notes={item.notes}
+                              menu={menus[item.menuId]}
+                              className="mb-1"
+                            />
                             <div className="flex items-center text-sm text-gray-500">
                               <span className="bg-gray-100 px-1.5 py-0.5 rounded text-xs mr-1.5">
                                 {item.quantity}x
@@ -1512,44 +1557,47 @@ const OrderPage: React.FC = () => {
               </div>
             </div>
             
-            <div className="flex justify-end items-center gap-4 mt-6">
-              <div className="text-lg font-bold text-primary-600">
-                Total: {formatCurrency(selectedOrder.totalPrice)}
+            <div className="flex justify-end mt-6">
+              <div className="w-full sm:w-72">
+                <PriceBreakdownSummary breakdown={calculatePriceBreakdown(selectedOrder.orderItems, undefined, selectedOrder.discounts)} hideTotal className="mb-2" />
+                <div className="flex justify-between text-lg font-bold text-primary-600">
+                  <span>Total</span>
+                  <span>{formatCurrency(selectedOrder.totalPrice)}</span>
+                </div>
               </div>
             </div>
             
+            {orderMoves.length > 0 && (
+              <div className="mt-6">
+                <h3 className="text-sm font-medium text-gray-700 flex items-center mb-2">
+                  <FaExchangeAlt className="mr-2 text-primary-500" size={14} />
+                  Riwayat pindah meja
+                </h3>
+                <ul className="divide-y divide-gray-100 bg-gray-50 rounded-lg border border-gray-100 text-sm">
+                  {orderMoves.map(move => (
+                    <li key={move.id} className="p-3">
+                      <p className="text-gray-800">
+                        {getTableName(move.fromTableId)} → {getTableName(move.toTableId)}
+                        {move.kind === 'items' && (
+                          <span className="text-gray-500">
+                            {' · '}{move.items.map(item => `${item.quantity}x ${item.menuName}`).join(', ')}
+                            {move.targetOrderId !== undefined && ` ke pesanan #${move.targetOrderId}`}
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {safeDateFormat(move.movedAt)}
+                        {move.movedBy && ` · ${move.movedBy}`}
+                        {move.reason && ` · ${move.reason}`}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            
             <div className="flex flex-wrap gap-2 mt-8">
-                  {selectedOrder.status === OrderStatus.PENDING && (
-                    <>
-                      <Button
-                        variant="success"
-                        onClick={() => {
-                          setIsDetailModalOpen(false);
-                          if (selectedOrder.id !== undefined) {
-                            safeUpdateStatus(selectedOrder.id, OrderStatus.COMPLETED);
-                          }
-                        }}
-                        className="px-3 py-2 text-sm"
-                        iconLeft={<FaCheck size={14} />}
-                      >
-                        Complete
-                      </Button>
-                      <Button
-                        variant="danger"
-                        onClick={() => {
-                          setIsDetailModalOpen(false);
-                          if (selectedOrder.id !== undefined) {
-                            handleCancelOrder(selectedOrder.id);
-                          }
-                        }}
-                        className="px-3 py-2 text-sm"
-                        iconLeft={<FaTimes size={14} />}
-                      >
-                        Cancel
-                      </Button>
-                    </>
-                  )}
-                  {selectedOrder.status === OrderStatus.PROCESSING && (
+                  {canTransition(selectedOrder, OrderStatus.COMPLETED) && (
                     <Button
                       variant="success"
                       onClick={() => {
@@ -1564,31 +1612,115 @@ const OrderPage: React.FC = () => {
                       Complete
                     </Button>
                   )}
+                  {isPayable(selectedOrder) && (
+                    <Button
+                      variant="primary"
+                      onClick={() => {
+                        setIsDetailModalOpen(false);
+                        setPaymentTableId(selectedOrder.tableId);
+                      }}
+                      className="px-3 py-2 text-sm"
+                      iconLeft={<FaMoneyBillWave size={14} />}
+                    >
+                      Bayar
+                    </Button>
+                  )}
+                  {can('orders:move') && canTransition(selectedOrder, OrderStatus.COMPLETED) && (
+                    <Button
+                      variant="secondary"
+                      onClick={() => setMoveOrder(selectedOrder)}
+                      className="px-3 py-2 text-sm"
+                      iconLeft={<FaExchangeAlt size={14} />}
+                    >
+                      Pindah Meja
+                    </Button>
+                  )}
+                  {canTransition(selectedOrder, OrderStatus.CANCELLED) && (
+                    <Button
+                      variant="danger"
+                      onClick={() => {
+                        setIsDetailModalOpen(false);
+                        if (selectedOrder.id !== undefined) {
+                          handleCancelOrder(selectedOrder.id);
+                        }
+                      }}
+                      className="px-3 py-2 text-sm"
+                      iconLeft={<FaTimes size={14} />}
+                    >
+                      Cancel
+                    </Button>
+                  )}
               <Button
                 variant="light"
-                onClick={() => setIsDetailModalOpen(false)}
+                onClick={() => {
+                  setIsDetailModalOpen(false);
+                  setReceiptOrder(selectedOrder);
+                }}
                 className="px-3 py-2 text-sm"
+                iconLeft={<FaPrint size={14} />}
               >
-                Close
+                Struk
               </Button>
               <Button
-                variant="danger"
-                onClick={() => {
-                  setIsDetailModalOpen(false);
-                  if (selectedOrder.id !== undefined) {
-                    safeDeleteOrder(selectedOrder.id);
-                  }
-                }}
+                variant="light"
+                onClick={() => setIsDetailModalOpen(false)}
                 className="px-3 py-2 text-sm"
-                iconLeft={<FaTrash size={14} />}
               >
-                Delete
+                Close
               </Button>
+              {can('orders:delete') && (
+                <Button
+                  variant="danger"
+                  onClick={() => {
+                    setIsDetailModalOpen(false);
+                    if (selectedOrder.id !== undefined) {
+                      safeDeleteOrder(selectedOrder.id);
+                    }
+                  }}
+                  className="px-3 py-2 text-sm"
+                  iconLeft={<FaTrash size={14} />}
+                >
+                  Delete
+                </Button>
+              )}
             </div>
           </motion.div>
           </div>
         )}
       
+      {/* Payment / bill splitting for a whole table */}
+      <PaymentModal
+        isOpen={paymentTableId !== null}
+        onClose={closePaymentModal}
+        tableId={paymentGroup?.primaryTableId ?? paymentTableId ?? 0}
+        tableName={
+          paymentGroup
+            ? getGroupName(paymentGroup, Object.values(tables))
+            : paymentTableId !== null ? getTableName(paymentTableId) : ''
+        }
+        tableIds={paymentTableIds}
+        orders={safeOrders}
+        payments={payments}
+        onPaid={handlePaymentRecorded}
+      />
+      
+      <OrderMoveModal
+        order={moveOrder}
+        onClose={closeMoveModal}
+        tables={Object.values(tables)}
+        orders={safeOrders}
+        menus={menus}
+        summary={moveOrder ? paymentSummaries[moveOrder.id] : undefined}
+        onMoved={handleOrdersMoved}
+      />
+      
+      <ReceiptPrintModal
+        isOpen={receiptOrder !== null}
+        onClose={closeReceiptModal}
+        source={receiptOrder}
+        context={receiptContext}
+      />
+      
       {/* Confirmation Dialog */}
       <ConfirmationDialog
         isOpen={isConfirmDialogOpen}
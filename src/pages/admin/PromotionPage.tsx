@@ -0,0 +1,316 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import Button from '../../components/Button';
+import Layout from '../../components/Layout';
+import { MenuAPI, PromotionAPI } from '../../api';
+import type { Menu, Promotion, PromotionInput } from '../../types';
+import { PromotionType } from '../../types';
+import Modal from '../../components/Modal';
+import PromotionForm from '../../components/PromotionForm';
+import ConfirmationDialog from '../../components/ConfirmationDialog';
+import { motion } from 'framer-motion';
+import { FaPlus, FaSync, FaPercent, FaEdit, FaTrash, FaTicketAlt, FaClock, FaGift, FaToggleOn, FaToggleOff } from 'react-icons/fa';
+import { useAlert } from '../../contexts/AlertContext';
+import { PROMOTION_TYPE_LABELS, describeDiscount, describeSchedule, isPromotionRunning } from '../../utils/promotions';
+
+const TYPE_ICONS: Record<PromotionType, React.ReactNode> = {
+  [PromotionType.VOUCHER]: <FaTicketAlt size={12} />,
+  [PromotionType.PRICE_RULE]: <FaClock size={12} />,
+  [PromotionType.BUNDLE]: <FaGift size={12} />,
+};
+
+const PromotionPage: React.FC = () => {
+  const { showAlert } = useAlert();
+
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [menus, setMenus] = useState<Menu[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<PromotionType | 'all'>('all');
+  const [isFormModalOpen, setIsFormModalOpen] = useState(false);
+  const [selectedPromotion, setSelectedPromotion] = useState<Promotion | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [promotionToDelete, setPromotionToDelete] = useState<Promotion | null>(null);
+
+  const fetchData = async () => {
+    try {
+      setIsLoading(true);
+      const [promotionData, menuData] = await Promise.all([PromotionAPI.getAll(), MenuAPI.getAll()]);
+      setPromotions(promotionData);
+      setMenus(menuData);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to fetch promotions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load promotions. Please try again later.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const menuNames = useMemo(
+    () => Object.fromEntries(menus.map(menu => [menu.id, menu.name])) as Record<number, string>,
+    [menus]
+  );
+
+  const filteredPromotions = promotions.filter(promotion => typeFilter === 'all' || promotion.type === typeFilter);
+
+  const describeTargets = (promotion: Promotion): string => {
+    const targets = [
+      ...promotion.categories,
+      ...promotion.menuIds.map(menuId => menuNames[menuId] || `Menu #${menuId}`),
+    ];
+    const targetText = targets.length > 0 ? targets.join(', ') : promotion.type === PromotionType.VOUCHER ? 'Seluruh pesanan' : 'Semua menu';
+
+    if (promotion.type === PromotionType.BUNDLE) {
+      const reward = promotion.rewardMenuId !== undefined ? menuNames[promotion.rewardMenuId] || `Menu #${promotion.rewardMenuId}` : '?';
+      return `Beli ${promotion.buyQuantity ?? 1} ${targetText}, dapat ${promotion.rewardQuantity ?? 1} ${reward}`;
+    }
+    return targetText;
+  };
+
+  const openForm = (promotion: Promotion | null) => {
+    setSelectedPromotion(promotion);
+    setFormError(null);
+    setIsFormModalOpen(true);
+  };
+
+  const handleSubmit = async (data: PromotionInput) => {
+    try {
+      setIsSubmitting(true);
+      setFormError(null);
+      if (selectedPromotion) {
+        const updated = await PromotionAPI.update(selectedPromotion.id, data);
+        setPromotions(prev => prev.map(promotion => (promotion.id === updated.id ? updated : promotion)));
+      } else {
+        const created = await PromotionAPI.create(data);
+        setPromotions(prev => [...prev, created]);
+      }
+      setIsFormModalOpen(false);
+      showAlert(selectedPromotion ? 'Promo diperbarui' : 'Promo ditambahkan', { type: 'success' });
+    } catch (err) {
+      console.error('Failed to save promotion:', err);
+      setFormError(err instanceof Error ? err.message : 'Failed to save promotion');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggleActive = async (promotion: Promotion) => {
+    try {
+      const updated = await PromotionAPI.update(promotion.id, { isActive: !promotion.isActive });
+      setPromotions(prev => prev.map(entry => (entry.id === updated.id ? updated : entry)));
+    } catch (err) {
+      console.error('Failed to toggle promotion:', err);
+      showAlert(err instanceof Error ? err.message : 'Failed to update promotion', { type: 'warning' });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!promotionToDelete) return;
+    try {
+      await PromotionAPI.delete(promotionToDelete.id);
+      setPromotions(prev => prev.filter(promotion => promotion.id !== promotionToDelete.id));
+      showAlert('Promo dihapus', { type: 'success' });
+    } catch (err) {
+      console.error('Failed to delete promotion:', err);
+      showAlert(err instanceof Error ? err.message : 'Failed to delete promotion', { type: 'warning' });
+    } finally {
+      setPromotionToDelete(null);
+    }
+  };
+
+  const renderStatus = (promotion: Promotion) => {
+    if (!promotion.isActive) {
+      return <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">Nonaktif</span>;
+    }
+    if (
+      promotion.type === PromotionType.VOUCHER &&
+      promotion.usageLimit !== undefined &&
+      promotion.usageCount >= promotion.usageLimit
+    ) {
+      return <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700">Kuota habis</span>;
+    }
+    return isPromotionRunning(promotion) ? (
+      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700">Berjalan</span>
+    ) : (
+      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-700">Terjadwal</span>
+    );
+  };
+
+  return (
+    <Layout>
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 pb-12 text-gray-900 dark:text-gray-100 transition-colors duration-300">
+        <div className="bg-white dark:bg-gray-800 shadow-md border-b border-gray-200 dark:border-gray-700 sticky top-0 z-10">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-5">
+            <motion.div
+              className="flex flex-col md:flex-row md:items-center md:justify-between gap-4"
+              initial={{ opacity: 0, y: -20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.6, ease: "easeOut" }}
+            >
+              <div>
+                <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white flex items-center">
+                  <span className="text-primary-500 mr-3">
+                    <FaPercent className="inline-block" />
+                  </span>
+                  Promotions
+                </h1>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  Voucher, happy hour dan paket hemat
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="primary" onClick={() => openForm(null)} iconLeft={<FaPlus size={16} />} className="px-6 py-2.5">
+                  Add Promotion
+                </Button>
+                <Button variant="secondary" onClick={fetchData} isLoading={isLoading} iconLeft={<FaSync size={16} />} className="px-6 py-2.5">
+                  Refresh
+                </Button>
+              </div>
+            </motion.div>
+          </div>
+        </div>
+
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="flex flex-wrap gap-2 mb-6">
+            {(['all', ...Object.values(PromotionType)] as (PromotionType | 'all')[]).map(type => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => setTypeFilter(type)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                  typeFilter === type
+                    ? 'bg-primary-500 border-primary-500 text-white'
+                    : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300'
+                }`}
+              >
+                {type === 'all' ? 'Semua' : PROMOTION_TYPE_LABELS[type]}
+              </button>
+            ))}
+          </div>
+
+          {error && (
+            <div className="mb-6 p-4 rounded-lg bg-red-50 border border-red-200 text-red-700 text-sm">{error}</div>
+          )}
+
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+            {isLoading && promotions.length === 0 ? (
+              <div className="p-12 text-center text-gray-500 dark:text-gray-400">Loading promotions...</div>
+            ) : filteredPromotions.length === 0 ? (
+              <div className="p-12 text-center text-gray-500 dark:text-gray-400">Belum ada promo.</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead className="bg-gray-50 dark:bg-gray-700">
+                    <tr>
+                      {['Promo', 'Diskon', 'Berlaku untuk', 'Jadwal', 'Status', ''].map(heading => (
+                        <th
+                          key={heading}
+                          scope="col"
+                          className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                        >
+                          {heading}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {filteredPromotions.map(promotion => (
+                      <tr key={promotion.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                        <td className="px-6 py-4">
+                          <p className="font-medium text-gray-900 dark:text-white">{promotion.name}</p>
+                          <p className="mt-1 flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400">
+                            {TYPE_ICONS[promotion.type]}
+                            {PROMOTION_TYPE_LABELS[promotion.type]}
+                            {promotion.code && <span className="font-mono font-semibold text-primary-600">{promotion.code}</span>}
+                          </p>
+                        </td>
+                        <td className="px-6 py-4 text-sm font-semibold text-gray-800 dark:text-gray-200 whitespace-nowrap">
+                          {describeDiscount(promotion)}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-300 max-w-xs">{describeTargets(promotion)}</td>
+                        <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-300">{describeSchedule(promotion.schedule)}</td>
+                        <td className="px-6 py-4">
+                          {renderStatus(promotion)}
+                          {promotion.type === PromotionType.VOUCHER && (
+                            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                              Dipakai {promotion.usageCount}
+                              {promotion.usageLimit !== undefined ? ` / ${promotion.usageLimit}` : 'x'}
+                            </p>
+                          )}
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="flex justify-end gap-2">
+                            <button
+                              type="button"
+                              onClick={() => handleToggleActive(promotion)}
+                              className={promotion.isActive ? 'text-green-500 hover:text-green-700' : 'text-gray-400 hover:text-gray-600'}
+                              aria-label={promotion.isActive ? 'Nonaktifkan' : 'Aktifkan'}
+                            >
+                              {promotion.isActive ? <FaToggleOn size={20} /> : <FaToggleOff size={20} />}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => openForm(promotion)}
+                              className="p-1.5 text-blue-500 hover:text-blue-700"
+                              aria-label="Edit"
+                            >
+                              <FaEdit />
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => setPromotionToDelete(promotion)}
+                              className="p-1.5 text-red-500 hover:text-red-700"
+                              aria-label="Hapus"
+                            >
+                              <FaTrash />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <Modal
+          isOpen={isFormModalOpen}
+          onClose={() => setIsFormModalOpen(false)}
+          title={selectedPromotion ? 'Edit Promo' : 'Tambah Promo'}
+          size="lg"
+          icon={<FaPercent size={16} />}
+        >
+          <PromotionForm
+            key={selectedPromotion?.id ?? 'new'}
+            initialData={selectedPromotion ?? undefined}
+            menus={menus}
+            onSubmit={handleSubmit}
+            onCancel={() => setIsFormModalOpen(false)}
+            isSubmitting={isSubmitting}
+            error={formError}
+          />
+        </Modal>
+
+        <ConfirmationDialog
+          isOpen={promotionToDelete !== null}
+          onClose={() => setPromotionToDelete(null)}
+          onConfirm={handleDelete}
+          title="Hapus Promo"
+          message={`Hapus promo "${promotionToDelete?.name ?? ''}"? Pesanan yang sudah memakai promo ini tidak berubah.`}
+          confirmText="Hapus"
+          cancelText="Batal"
+          type="warning"
+        />
+      </div>
+    </Layout>
+  );
+};
+
+export default PromotionPage;
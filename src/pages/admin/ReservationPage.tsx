@@ -0,0 +1,314 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Button from '../../components/Button';
+import Layout from '../../components/Layout';
+import { ReservationAPI, TableAPI, TableLifecycle, WaitlistAPI } from '../../api';
+import type { Reservation, ReservationInput, Table, WaitlistEntry } from '../../types';
+import { ReservationStatus } from '../../types';
+import Modal from '../../components/Modal';
+import ReservationForm from '../../components/ReservationForm';
+import type { ReservationDraft } from '../../components/ReservationForm';
+import ReservationTimeline from '../../components/ReservationTimeline';
+import WaitlistPanel from '../../components/WaitlistPanel';
+import { motion } from 'framer-motion';
+import { FaCalendarAlt, FaChevronLeft, FaChevronRight, FaEdit, FaPlus, FaSync } from 'react-icons/fa';
+import { useAlert } from '../../contexts/AlertContext';
+import { RESERVATION_STATUS_LABELS, formatSlot, isActiveReservation, toReservationDate } from '../../utils/reservations';
+import { addDaysToKey } from '../../utils/salesTrend';
+
+// Status changes offered for a reservation in each status
+const NEXT_STATUSES: Record<ReservationStatus, ReservationStatus[]> = {
+  [ReservationStatus.BOOKED]: [ReservationStatus.SEATED, ReservationStatus.NO_SHOW, ReservationStatus.CANCELLED],
+  [ReservationStatus.SEATED]: [ReservationStatus.COMPLETED],
+  [ReservationStatus.COMPLETED]: [],
+  [ReservationStatus.CANCELLED]: [],
+  [ReservationStatus.NO_SHOW]: [],
+};
+
+const STATUS_ACTION_LABELS: Partial<Record<ReservationStatus, string>> = {
+  [ReservationStatus.SEATED]: 'Tamu datang',
+  [ReservationStatus.COMPLETED]: 'Selesai',
+  [ReservationStatus.NO_SHOW]: 'Tidak datang',
+  [ReservationStatus.CANCELLED]: 'Batalkan',
+};
+
+const ReservationPage: React.FC = () => {
+  const { showAlert } = useAlert();
+
+  const [date, setDate] = useState(() => toReservationDate());
+  const [tables, setTables] = useState<Table[]>([]);
+  const [reservations, setReservations] = useState<Reservation[]>([]);
+  // Walk-ins are seated now, so the waitlist checks against today's bookings
+  const [todayReservations, setTodayReservations] = useState<Reservation[]>([]);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isFormModalOpen, setIsFormModalOpen] = useState(false);
+  const [editingReservation, setEditingReservation] = useState<Reservation | null>(null);
+  const [draft, setDraft] = useState<ReservationDraft | undefined>(undefined);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [selectedReservation, setSelectedReservation] = useState<Reservation | null>(null);
+  const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
+
+  const today = toReservationDate();
+
+  const fetchData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [tableData, reservationData, todayData] = await Promise.all([
+        TableAPI.getAll(),
+        ReservationAPI.getByDate(date),
+        date === today ? Promise.resolve(null) : ReservationAPI.getByDate(today),
+      ]);
+      setTables(tableData);
+      setReservations(reservationData);
+      setTodayReservations(todayData ?? reservationData);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to fetch reservations:', err);
+      setError(err instanceof Error ? err.message : 'Gagal memuat reservasi. Coba lagi nanti.');
+    } finally {
+      setIsLoading(false);
+    }
+
+    // The waitlist is optional; reservations still work without it
+    try {
+      setWaitlist(await WaitlistAPI.getWaiting());
+    } catch (err) {
+      console.error('Failed to fetch waitlist:', err);
+    }
+  }, [date, today]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const replaceReservation = (updated: Reservation) => {
+    const replace = (list: Reservation[]) => list.map(entry => (entry.id === updated.id ? updated : entry));
+    setReservations(replace);
+    setTodayReservations(replace);
+  };
+
+  const openForm = (reservation: Reservation | null, nextDraft?: ReservationDraft) => {
+    setEditingReservation(reservation);
+    setDraft(nextDraft ?? { date });
+    setFormError(null);
+    setSelectedReservation(null);
+    setIsFormModalOpen(true);
+  };
+
+  const handleSubmit = async (data: ReservationInput) => {
+    try {
+      setIsSubmitting(true);
+      setFormError(null);
+      if (editingReservation) {
+        replaceReservation(await ReservationAPI.update(editingReservation.id, data));
+      } else {
+        const created = await ReservationAPI.create(data);
+        const createdDate = toReservationDate(created.startTime);
+        if (createdDate === date) setReservations(prev => [...prev, created]);
+        if (createdDate === today) setTodayReservations(prev => (date === today ? prev : [...prev, created]));
+      }
+      setIsFormModalOpen(false);
+      TableLifecycle.requestSync();
+      showAlert(editingReservation ? 'Reservasi diperbarui' : 'Reservasi ditambahkan', { type: 'success' });
+    } catch (err) {
+      console.error('Failed to save reservation:', err);
+      setFormError(err instanceof Error ? err.message : 'Gagal menyimpan reservasi');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleStatusChange = async (reservation: Reservation, status: ReservationStatus) => {
+    try {
+      setIsUpdatingStatus(true);
+      replaceReservation(await ReservationAPI.updateStatus(reservation.id, status));
+      setSelectedReservation(null);
+      // Seating, completing or releasing a booking changes the table status
+      TableLifecycle.requestSync();
+    } catch (err) {
+      console.error('Failed to update reservation status:', err);
+      showAlert(err instanceof Error ? err.message : 'Gagal mengubah status reservasi', { type: 'warning' });
+    } finally {
+      setIsUpdatingStatus(false);
+    }
+  };
+
+  const activeCount = reservations.filter(isActiveReservation).length;
+  const guestCount = reservations
+    .filter(isActiveReservation)
+    .reduce((sum, reservation) => sum + reservation.partySize, 0);
+  const selectedTable = selectedReservation ? tables.find(table => table.id === selectedReservation.tableId) : undefined;
+
+  return (
+    <Layout>
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 pb-12 text-gray-900 dark:text-gray-100 transition-colors duration-300">
+        <div className="bg-white dark:bg-gray-800 shadow-md border-b border-gray-200 dark:border-gray-700 sticky top-0 z-10">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-5">
+            <motion.div
+              className="flex flex-col md:flex-row md:items-center md:justify-between gap-4"
+              initial={{ opacity: 0, y: -20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.6, ease: "easeOut" }}
+            >
+              <div>
+                <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white flex items-center">
+                  <span className="text-primary-500 mr-3">
+                    <FaCalendarAlt className="inline-block" />
+                  </span>
+                  Reservations
+                </h1>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  {activeCount} reservasi · {guestCount} tamu
+                </p>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <div className="flex items-center gap-1">
+                  <Button variant="light" size="sm" onClick={() => setDate(addDaysToKey(date, -1))} aria-label="Hari sebelumnya">
+                    <FaChevronLeft size={12} />
+                  </Button>
+                  <input
+                    type="date"
+                    value={date}
+                    onChange={e => e.target.value && setDate(e.target.value)}
+                    className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+                  />
+                  <Button variant="light" size="sm" onClick={() => setDate(addDaysToKey(date, 1))} aria-label="Hari berikutnya">
+                    <FaChevronRight size={12} />
+                  </Button>
+                  {date !== today && (
+                    <Button variant="light" size="sm" onClick={() => setDate(today)}>
+                      Hari ini
+                    </Button>
+                  )}
+                </div>
+                <Button variant="primary" onClick={() => openForm(null)} iconLeft={<FaPlus size={16} />} className="px-6 py-2.5">
+                  Add Reservation
+                </Button>
+                <Button variant="secondary" onClick={fetchData} isLoading={isLoading} iconLeft={<FaSync size={16} />} className="px-6 py-2.5">
+                  Refresh
+                </Button>
+              </div>
+            </motion.div>
+          </div>
+        </div>
+
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+          {error && (
+            <div className="p-4 rounded-lg bg-red-50 border border-red-200 text-red-700 text-sm">{error}</div>
+          )}
+
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 p-5">
+            {isLoading && tables.length === 0 ? (
+              <div className="p-12 text-center text-gray-500 dark:text-gray-400">Memuat reservasi...</div>
+            ) : tables.length === 0 ? (
+              <div className="p-12 text-center text-gray-500 dark:text-gray-400">Belum ada meja.</div>
+            ) : (
+              <ReservationTimeline
+                date={date}
+                tables={tables}
+                reservations={reservations}
+                onSelect={setSelectedReservation}
+                onCreate={(tableId, time) => openForm(null, { tableId, date, time })}
+              />
+            )}
+          </div>
+
+          <WaitlistPanel
+            entries={waitlist}
+            tables={tables}
+            reservations={todayReservations}
+            onEntriesChange={setWaitlist}
+            onTableSeated={seated => setTables(prev => prev.map(table => (table.id === seated.id ? seated : table)))}
+          />
+        </div>
+
+        {/* Reservation detail */}
+        <Modal
+          isOpen={selectedReservation !== null}
+          onClose={() => setSelectedReservation(null)}
+          title={selectedReservation?.guestName}
+          size="md"
+          icon={<FaCalendarAlt size={16} />}
+        >
+          {selectedReservation && (
+            <div className="space-y-4 text-sm">
+              <dl className="grid grid-cols-2 gap-3">
+                <div>
+                  <dt className="text-gray-500 dark:text-gray-400">Meja</dt>
+                  <dd className="font-medium">{selectedTable?.name ?? `#${selectedReservation.tableId}`}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500 dark:text-gray-400">Waktu</dt>
+                  <dd className="font-medium">{formatSlot(selectedReservation)}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500 dark:text-gray-400">Jumlah tamu</dt>
+                  <dd className="font-medium">{selectedReservation.partySize} orang</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500 dark:text-gray-400">Status</dt>
+                  <dd className="font-medium">{RESERVATION_STATUS_LABELS[selectedReservation.status]}</dd>
+                </div>
+                {selectedReservation.phone && (
+                  <div>
+                    <dt className="text-gray-500 dark:text-gray-400">No. HP</dt>
+                    <dd className="font-medium">{selectedReservation.phone}</dd>
+                  </div>
+                )}
+                {selectedReservation.notes && (
+                  <div className="col-span-2">
+                    <dt className="text-gray-500 dark:text-gray-400">Catatan</dt>
+                    <dd>{selectedReservation.notes}</dd>
+                  </div>
+                )}
+              </dl>
+
+              <div className="flex flex-wrap justify-end gap-2 pt-2">
+                {selectedReservation.status === ReservationStatus.BOOKED && (
+                  <Button variant="light" size="sm" onClick={() => openForm(selectedReservation)} iconLeft={<FaEdit size={12} />}>
+                    Edit
+                  </Button>
+                )}
+                {NEXT_STATUSES[selectedReservation.status].map(status => (
+                  <Button
+                    key={status}
+                    size="sm"
+                    variant={status === ReservationStatus.CANCELLED || status === ReservationStatus.NO_SHOW ? 'danger' : 'success'}
+                    disabled={isUpdatingStatus}
+                    onClick={() => handleStatusChange(selectedReservation, status)}
+                  >
+                    {STATUS_ACTION_LABELS[status]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+        </Modal>
+
+        <Modal
+          isOpen={isFormModalOpen}
+          onClose={() => setIsFormModalOpen(false)}
+          title={editingReservation ? 'Edit Reservasi' : 'Tambah Reservasi'}
+          size="lg"
+          icon={<FaCalendarAlt size={16} />}
+        >
+          <ReservationForm
+            key={editingReservation?.id ?? `new-${draft?.tableId ?? ''}-${draft?.time ?? ''}`}
+            initialData={editingReservation ?? undefined}
+            draft={draft}
+            tables={tables}
+            reservations={reservations}
+            onSubmit={handleSubmit}
+            onCancel={() => setIsFormModalOpen(false)}
+            isSubmitting={isSubmitting}
+            error={formError}
+          />
+        </Modal>
+      </div>
+    </Layout>
+  );
+};
+
+export default ReservationPage;
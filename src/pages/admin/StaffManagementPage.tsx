@@ -1,5 +1,4 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { useAuthStore } from '../../store';
 import Layout from '../../components/Layout';
@@ -66,10 +65,7 @@ const SafeStaffManagement: React.FC = () => {
 };
 
 const StaffManagementPage: React.FC = () => {
-  const navigate = useNavigate();
   const { 
-    isAuthenticated, 
-    isAdmin, 
     registerUser, 
     users, 
     getUsers, 
@@ -115,15 +111,10 @@ const StaffManagementPage: React.FC = () => {
     },
   });
 
-  // Check if user is authenticated and admin
+  // Load users; access is checked by the route guard
   useEffect(() => {
-    if (!isAuthenticated || !isAdmin) {
-      navigate('/admin/login');
-    } else {
-      // Load users when authenticated as admin
-      getUsers();
-    }
-  }, [isAuthenticated, isAdmin, navigate, getUsers]);
+    getUsers();
+  }, [getUsers]);
 
   const onSubmit = async (data: RegisterFormData) => {
     try {
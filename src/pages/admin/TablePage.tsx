@@ -1,18 +1,22 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
 import Button from '../../components/Button';
 import Layout from '../../components/Layout';
-import { TableAPI } from '../../api';
-import type { Table } from '../../types';
-import { TableStatus } from '../../types';
+import { TableAPI, TableLifecycle } from '../../api';
+import type { Table, TableGroup } from '../../types';
+import { TableStatus, getTableQrValue } from '../../types';
 import { useAuthStore } from '../../store';
 import Modal from '../../components/Modal';
 import TableForm from '../../components/TableForm';
 import QRCodeGenerator from '../../components/QRCodeGenerator';
+import BulkQRCodeSheet from '../../components/BulkQRCodeSheet';
+import FloorPlanView from '../../components/FloorPlanView';
+import TableStatusModal from '../../components/TableStatusModal';
+import TableMergeModal from '../../components/TableMergeModal';
 import { motion, AnimatePresence } from 'framer-motion';
-import { FaPlus, FaSync, FaSearch, FaChair, FaFilter, FaQrcode, FaEdit, FaTrash, FaUsers, FaCheckCircle, FaTimesCircle, FaExclamationCircle, FaTable, FaPencilAlt } from 'react-icons/fa';
+import { FaPlus, FaSync, FaSearch, FaChair, FaFilter, FaQrcode, FaEdit, FaTrash, FaUsers, FaCheckCircle, FaTimesCircle, FaExclamationCircle, FaTable, FaPencilAlt, FaRedo, FaPrint, FaThLarge, FaMap, FaBroom, FaExchangeAlt, FaObjectGroup, FaUnlink } from 'react-icons/fa';
 import { useAlert } from '../../contexts/AlertContext';
 import ConfirmationDialog from '../../components/ConfirmationDialog';
+import { getGroupCapacity, getGroupName, getTableGroup } from '../../utils/tableGroups';
 
 // Animation variants
 const containerVariants = {
@@ -68,10 +72,16 @@ const buttonVariants = {
   }
 };
 
+// Swap in tables saved elsewhere (floor plan editor, status changes), keeping the rest as they are
+const replaceTables = (current: Table[], updated: Table[]): Table[] =>
+  current.map(table => updated.find(candidate => candidate.id === table.id) ?? table);
+
 const TablePage: React.FC = () => {
-  const navigate = useNavigate();
-  const { isAuthenticated, isAdmin } = useAuthStore();
+  const { can } = useAuthStore();
   const { showAlert } = useAlert();
+  const canEditTables = can('tables:edit');
+  const canUpdateTableStatus = can('tables:updateStatus');
+  const canMergeTables = can('tables:merge');
   
   const [tables, setTables] = useState<Table[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -87,13 +97,20 @@ const TablePage: React.FC = () => {
   // Add confirmation dialog state
   const [isConfirmDialogOpen, setIsConfirmDialogOpen] = useState(false);
   const [tableToDelete, setTableToDelete] = useState<number | null>(null);
-  
-  // Check authentication
-  useEffect(() => {
-    if (!isAuthenticated || !isAdmin) {
-      navigate('/admin/login');
-    }
-  }, [isAuthenticated, isAdmin, navigate]);
+  const [isRotateDialogOpen, setIsRotateDialogOpen] = useState(false);
+  const [isRotating, setIsRotating] = useState(false);
+  const [selectedTableIds, setSelectedTableIds] = useState<number[]>([]);
+  const [isBulkQRModalOpen, setIsBulkQRModalOpen] = useState(false);
+  const [viewMode, setViewMode] = useState<'cards' | 'floor'>('cards');
+  const [statusTable, setStatusTable] = useState<Table | null>(null);
+  const [groups, setGroups] = useState<TableGroup[]>([]);
+  // Tables ticked when the merge modal opened; null while it is closed
+  const [mergeTableIds, setMergeTableIds] = useState<number[] | null>(null);
+  const [groupToSplit, setGroupToSplit] = useState<TableGroup | null>(null);
+  const [lifecycleRunner, setLifecycleRunner] = useState(TableLifecycle.getRunner);
+  // Hides the no-runner warning until the server has been asked
+  const [hasCheckedRunner, setHasCheckedRunner] = useState(false);
+  const [isTakingOver, setIsTakingOver] = useState(false);
   
   // Fetch tables
   const fetchTables = async () => {
@@ -108,6 +125,13 @@ const TablePage: React.FC = () => {
       
       setTables(tableArray);
       setError(null);
+      
+      // Without groups the page still works; tables just show unmerged
+      try {
+        setGroups(await TableAPI.getGroups());
+      } catch (groupErr) {
+        console.error('Failed to fetch table groups:', groupErr);
+      }
     } catch (err) {
       console.error('Failed to fetch tables:', err);
       setError('Failed to load tables. Please try again later.');
@@ -123,6 +147,32 @@ const TablePage: React.FC = () => {
     fetchTables();
   }, []);
   
+  // Reflect automatic status changes (orders, cleaning) as they happen
+  useEffect(() => TableLifecycle.onChange(changedTables => {
+    setTables(current => replaceTables(current, changedTables));
+  }), []);
+  
+  useEffect(() => {
+    const unsubscribe = TableLifecycle.onRunnerChange(runner => {
+      setLifecycleRunner(runner);
+      setHasCheckedRunner(true);
+    });
+    TableLifecycle.refreshRunner();
+    return unsubscribe;
+  }, []);
+  
+  const hasActiveRunner = TableLifecycle.isRunnerActive(lifecycleRunner);
+  const isRunnerHere = hasActiveRunner && TableLifecycle.isThisDevice(lifecycleRunner);
+  
+  const handleTakeOverLifecycle = async () => {
+    try {
+      setIsTakingOver(true);
+      await TableLifecycle.takeOver();
+    } finally {
+      setIsTakingOver(false);
+    }
+  };
+  
   const handleAddTable = async (tableData: Omit<Table, 'id'>) => {
     try {
       setIsSubmitting(true);
@@ -232,6 +282,40 @@ const TablePage: React.FC = () => {
     setIsQRModalOpen(true);
   };
   
+  const toggleTableSelection = (tableId: number) => {
+    setSelectedTableIds(current =>
+      current.includes(tableId) ? current.filter(id => id !== tableId) : [...current, tableId]
+    );
+  };
+  
+  const handleRotateQRCode = async () => {
+    setIsRotateDialogOpen(false);
+    if (!selectedTable) return;
+    
+    try {
+      setIsRotating(true);
+      const updatedTable = await TableAPI.rotateQrToken(selectedTable.id);
+      
+      setTables(currentTables => currentTables.map(table =>
+        table.id === updatedTable.id ? updatedTable : table
+      ));
+      setSelectedTable(updatedTable);
+      
+      showAlert('New QR code generated. Previously printed QR codes no longer work.', {
+        type: 'success',
+        duration: 4000
+      });
+    } catch (err) {
+      console.error('Failed to rotate QR code:', err);
+      showAlert(err instanceof Error ? err.message : 'Failed to rotate QR code. Please try again.', {
+        type: 'warning',
+        duration: 3000
+      });
+    } finally {
+      setIsRotating(false);
+    }
+  };
+  
   const getStatusLabel = (status: TableStatus) => {
     switch (status) {
       case TableStatus.AVAILABLE:
@@ -252,6 +336,12 @@ const TablePage: React.FC = () => {
             <FaTimesCircle className="mr-1" size={10} /> Reserved
           </span>
         );
+      case TableStatus.CLEANING:
+        return (
+          <span className="px-2 py-0.5 bg-sky-100 text-sky-700 rounded-full text-xs flex items-center">
+            <FaBroom className="mr-1" size={10} /> Cleaning
+          </span>
+        );
       default:
         return null;
     }
@@ -293,6 +383,41 @@ const TablePage: React.FC = () => {
              table.id.toString().includes(searchTermLower);
     });
   
+  // Bulk QR uses the ticked tables, or every table matching the current filter
+  const selectedTables = safeTables.filter(table => selectedTableIds.includes(table.id));
+  const bulkQRTables = selectedTables.length > 0 ? selectedTables : filteredTables;
+  const areAllFilteredSelected = filteredTables.length > 0 &&
+    filteredTables.every(table => selectedTableIds.includes(table.id));
+  
+  const mergeTables = (savedTables: Table[]) => {
+    setTables(current => replaceTables(current, savedTables));
+  };
+  
+  const handleSplitGroup = async () => {
+    if (!groupToSplit) return;
+    
+    try {
+      await TableAPI.split(groupToSplit.id);
+      setGroups(current => current.filter(group => group.id !== groupToSplit.id));
+      // Tables without orders of their own are freed
+      TableLifecycle.requestSync();
+      showAlert(`${getGroupName(groupToSplit, safeTables)} dipisahkan`, { type: 'success' });
+    } catch (err) {
+      console.error('Failed to split tables:', err);
+      showAlert(err instanceof Error ? err.message : 'Gagal memisahkan meja', { type: 'warning' });
+    } finally {
+      setGroupToSplit(null);
+    }
+  };
+  
+  const toggleSelectAllFiltered = () => {
+    const filteredIds = filteredTables.map(table => table.id);
+    setSelectedTableIds(current => areAllFilteredSelected
+      ? current.filter(id => !filteredIds.includes(id))
+      : [...new Set([...current, ...filteredIds])]
+    );
+  };
+  
   return (
     <Layout>
       <div className="min-h-screen bg-gray-50 dark:bg-gray-900 pb-12 text-gray-900 dark:text-gray-100 transition-colors duration-300">
@@ -320,6 +445,23 @@ const TablePage: React.FC = () => {
                 <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
                   Add, edit and manage restaurant tables
                 </p>
+                {hasActiveRunner && lifecycleRunner && (
+                  <p className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                    <span>
+                      Status meja diatur otomatis oleh {isRunnerHere ? 'perangkat ini' : lifecycleRunner.deviceName}
+                    </span>
+                    {canUpdateTableStatus && !isRunnerHere && (
+                      <button
+                        type="button"
+                        onClick={handleTakeOverLifecycle}
+                        disabled={isTakingOver}
+                        className="text-primary-600 dark:text-primary-400 hover:underline disabled:opacity-50"
+                      >
+                        Pindahkan ke perangkat ini
+                      </button>
+                    )}
+                  </p>
+                )}
               </div>
               
               <motion.div
@@ -328,17 +470,65 @@ const TablePage: React.FC = () => {
                 transition={{ delay: 0.3, duration: 0.5 }}
                 className="flex gap-2"
               >
+                {canEditTables && (
+                  <motion.div whileHover="hover" whileTap="tap" variants={buttonVariants}>
+                    <Button
+                      variant="primary"
+                      onClick={handleAddButtonClick}
+                      className="flex items-center gap-2 px-6 py-2.5 shadow-lg transition-all duration-300"
+                      iconLeft={<FaPlus size={16} />}
+                    >
+                      <span>Add Table</span>
+                    </Button>
+                  </motion.div>
+                )}
+                
                 <motion.div whileHover="hover" whileTap="tap" variants={buttonVariants}>
                   <Button
-                    variant="primary"
-                    onClick={handleAddButtonClick}
-                    className="flex items-center gap-2 px-6 py-2.5 shadow-lg transition-all duration-300"
-                    iconLeft={<FaPlus size={16} />}
+                    variant="secondary"
+                    onClick={() => setIsBulkQRModalOpen(true)}
+                    disabled={bulkQRTables.length === 0}
+                    className="flex items-center gap-2 px-6 py-2.5 shadow-sm transition-all duration-300"
+                    iconLeft={<FaPrint size={16} />}
                   >
-                    <span>Add Table</span>
+                    <span>Bulk QR{selectedTables.length > 0 ? ` (${selectedTables.length})` : ''}</span>
                   </Button>
                 </motion.div>
                 
+                {canMergeTables && (
+                  <motion.div whileHover="hover" whileTap="tap" variants={buttonVariants}>
+                    <Button
+                      variant="secondary"
+                      onClick={() => setMergeTableIds(selectedTableIds)}
+                      className="flex items-center gap-2 px-6 py-2.5 shadow-sm transition-all duration-300"
+                      iconLeft={<FaObjectGroup size={16} />}
+                    >
+                      <span>Gabung Meja</span>
+                    </Button>
+                  </motion.div>
+                )}
+                
+                <div className="flex rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700" role="group" aria-label="Tampilan">
+                  <button
+                    type="button"
+                    onClick={() => setViewMode('cards')}
+                    aria-pressed={viewMode === 'cards'}
+                    title="Kartu"
+                    className={`px-3 ${viewMode === 'cards' ? 'bg-primary-500 text-white' : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300'}`}
+                  >
+                    <FaThLarge size={14} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setViewMode('floor')}
+                    aria-pressed={viewMode === 'floor'}
+                    title="Denah"
+                    className={`px-3 ${viewMode === 'floor' ? 'bg-primary-500 text-white' : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300'}`}
+                  >
+                    <FaMap size={14} />
+                  </button>
+                </div>
+                
                 <motion.div whileHover="hover" whileTap="tap" variants={buttonVariants}>
                   <Button
                     variant="secondary"
@@ -356,6 +546,31 @@ const TablePage: React.FC = () => {
         </div>
         
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Without a runner, cleaning and reservation holds never change on their own */}
+          {hasCheckedRunner && !hasActiveRunner && (
+            <div className="mb-8 flex flex-col sm:flex-row sm:items-center justify-between gap-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800/50 rounded-xl p-4">
+              <p className="flex items-start gap-2 text-sm text-amber-800 dark:text-amber-300">
+                <FaExclamationCircle className="flex-none mt-0.5" />
+                <span>
+                  Tidak ada perangkat yang mengatur status meja otomatis. Meja yang selesai dibersihkan tidak kembali
+                  tersedia dan meja untuk reservasi tidak ditahan sampai ada kasir atau admin yang masuk.
+                </span>
+              </p>
+              {canUpdateTableStatus && (
+                <Button
+                  variant="light"
+                  size="sm"
+                  onClick={handleTakeOverLifecycle}
+                  isLoading={isTakingOver}
+                  className="flex-none flex items-center gap-1.5"
+                  iconLeft={<FaSync size={12} />}
+                >
+                  Atur dari perangkat ini
+                </Button>
+              )}
+            </div>
+          )}
+          
           {/* Stats Summary Cards */}
           <motion.div 
             className="grid grid-cols-2 lg:grid-cols-4 gap-6 mb-8"
@@ -457,6 +672,7 @@ const TablePage: React.FC = () => {
           </motion.div>
           
           {/* Search and Filter Section */}
+          {viewMode === 'cards' && (
           <motion.div 
             className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-5 mb-8 border border-gray-200 dark:border-gray-700"
             initial={{ opacity: 0, y: 20 }}
@@ -543,11 +759,79 @@ const TablePage: React.FC = () => {
                   <FaChair size={14} />
                   <span>Reserved</span>
                 </Button>
+                
+                <Button
+                  variant={statusFilter === TableStatus.CLEANING ? "primary" : "secondary"}
+                  onClick={() => setStatusFilter(TableStatus.CLEANING)}
+                  className={`flex items-center gap-2 px-5 py-2.5 rounded-lg transition-all duration-300 ${
+                    statusFilter === TableStatus.CLEANING 
+                      ? 'shadow-lg shadow-primary-500/30' 
+                      : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                  }`}
+                  rounded="full"
+                  size="sm"
+                >
+                  <FaBroom size={14} />
+                  <span>Cleaning</span>
+                </Button>
               </div>
             </div>
+            
+            <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-100 dark:border-gray-700">
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={areAllFilteredSelected}
+                  onChange={toggleSelectAllFiltered}
+                  disabled={filteredTables.length === 0}
+                  className="rounded text-primary-500 focus:ring-primary-500"
+                />
+                Select all shown tables
+              </label>
+              {selectedTables.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setSelectedTableIds([])}
+                  className="text-sm text-primary-500 hover:underline"
+                >
+                  Clear selection ({selectedTables.length})
+                </button>
+              )}
+            </div>
           </motion.div>
+          )}
+          
+          {/* Merged tables */}
+          {groups.length > 0 && (
+            <div className="flex flex-wrap gap-3 mb-8">
+              {groups.map(group => (
+                <div
+                  key={group.id}
+                  className="flex items-center gap-3 bg-white dark:bg-gray-800 rounded-xl shadow border border-primary-200 dark:border-primary-800 px-4 py-2"
+                >
+                  <FaObjectGroup className="text-primary-500" />
+                  <div>
+                    <p className="text-sm font-semibold text-gray-800 dark:text-white">{getGroupName(group, safeTables)}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {group.tableIds.length} meja · {getGroupCapacity(group, safeTables)} orang
+                    </p>
+                  </div>
+                  {canMergeTables && (
+                    <Button
+                      variant="light"
+                      size="sm"
+                      onClick={() => setGroupToSplit(group)}
+                      iconLeft={<FaUnlink size={12} />}
+                    >
+                      Pisahkan
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
           
-          {/* Table cards */}
+          {/* Table cards, or the floor plan */}
           <AnimatePresence mode="wait">
             {isLoading ? (
               <motion.div 
@@ -598,6 +882,20 @@ const TablePage: React.FC = () => {
                   </motion.div>
                 </div>
               </motion.div>
+            ) : viewMode === 'floor' ? (
+              <motion.div
+                key="floor"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+              >
+                <FloorPlanView
+                  tables={safeTables}
+                  canEdit={canEditTables}
+                  onTablesSaved={mergeTables}
+                  onShowQRCode={handleShowQRCode}
+                />
+              </motion.div>
             ) : filteredTables.length === 0 ? (
               <motion.div 
                 key="empty"
@@ -622,7 +920,7 @@ const TablePage: React.FC = () => {
                       : "No tables match your search criteria"}
                   </p>
                   
-                  {tables.length === 0 ? (
+                  {tables.length === 0 ? (canEditTables && (
                     <motion.div whileHover="hover" whileTap="tap" variants={buttonVariants}>
                       <Button
                         variant="primary"
@@ -633,7 +931,7 @@ const TablePage: React.FC = () => {
                         Add First Table
                       </Button>
                     </motion.div>
-                  ) : (
+                  )) : (
                     <motion.div whileHover="hover" whileTap="tap" variants={buttonVariants}>
                       <Button
                         variant="secondary"
@@ -673,12 +971,21 @@ const TablePage: React.FC = () => {
                       <div className="p-6">
                         <div className="flex items-center justify-between mb-4">
                           <div className="flex items-center">
+                            <input
+                              type="checkbox"
+                              checked={selectedTableIds.includes(table.id)}
+                              onChange={() => toggleTableSelection(table.id)}
+                              aria-label={`Select ${table.name}`}
+                              className="mr-3 h-4 w-4 rounded text-primary-500 focus:ring-primary-500"
+                            />
                             <motion.div 
                               className={`w-12 h-12 rounded-xl flex items-center justify-center mr-3 ${
                                 table.status === TableStatus.AVAILABLE 
                                   ? 'bg-green-100 text-green-600 dark:bg-green-900/30 dark:text-green-400'
                                   : table.status === TableStatus.OCCUPIED
                                   ? 'bg-red-100 text-red-600 dark:bg-red-900/30 dark:text-red-400'
+                                  : table.status === TableStatus.CLEANING
+                                  ? 'bg-sky-100 text-sky-600 dark:bg-sky-900/30 dark:text-sky-400'
                                   : 'bg-amber-100 text-amber-600 dark:bg-amber-900/30 dark:text-amber-400'
                               }`}
                               whileHover={{ scale: 1.1, rotate: 5 }}
@@ -708,6 +1015,14 @@ const TablePage: React.FC = () => {
                               Capacity: {table.capacity}
                             </span>
                           </div>
+                          {getTableGroup(table.id, groups) && (
+                            <div className="flex items-center ml-2 bg-primary-50 dark:bg-primary-900/30 px-3 py-1 rounded-full">
+                              <FaObjectGroup className="text-primary-500 mr-2" size={12} />
+                              <span className="text-xs font-medium text-primary-700 dark:text-primary-300">
+                                {table.id === getTableGroup(table.id, groups)?.primaryTableId ? 'Meja utama' : 'Digabung'}
+                              </span>
+                            </div>
+                          )}
                         </div>
                         
                         <div className="flex justify-end gap-2">
@@ -723,32 +1038,50 @@ const TablePage: React.FC = () => {
                             </Button>
                           </motion.div>
                           
-                          <motion.div whileHover="hover" whileTap="tap" variants={buttonVariants}>
-                            <Button
-                              variant="primary"
-                              size="sm"
-                              onClick={() => handleEditTable(table)} 
-                              className="flex items-center gap-1.5 px-3 py-1.5"
-                              iconLeft={<FaEdit size={14} />}
-                            >
-                              Edit
-                            </Button>
-                          </motion.div>
+                          {canUpdateTableStatus && (
+                            <motion.div whileHover="hover" whileTap="tap" variants={buttonVariants}>
+                              <Button
+                                variant="secondary"
+                                size="sm"
+                                onClick={() => setStatusTable(table)}
+                                className="flex items-center gap-1.5 px-3 py-1.5"
+                                iconLeft={<FaExchangeAlt size={14} />}
+                              >
+                                Status
+                              </Button>
+                            </motion.div>
+                          )}
                           
-                          <motion.div whileHover="hover" whileTap="tap" variants={buttonVariants}>
-                            <Button
-                              variant="danger"
-                              size="sm"
-                              onClick={() => {
-                                setTableToDelete(table.id);
-                                setIsConfirmDialogOpen(true);
-                              }} 
-                              className="flex items-center gap-1.5 px-3 py-1.5"
-                              iconLeft={<FaTrash size={14} />}
-                            >
-                              Delete
-                            </Button>
-                          </motion.div>
+                          {canEditTables && (
+                            <>
+                              <motion.div whileHover="hover" whileTap="tap" variants={buttonVariants}>
+                                <Button
+                                  variant="primary"
+                                  size="sm"
+                                  onClick={() => handleEditTable(table)} 
+                                  className="flex items-center gap-1.5 px-3 py-1.5"
+                                  iconLeft={<FaEdit size={14} />}
+                                >
+                                  Edit
+                                </Button>
+                              </motion.div>
+                          
+                              <motion.div whileHover="hover" whileTap="tap" variants={buttonVariants}>
+                                <Button
+                                  variant="danger"
+                                  size="sm"
+                                  onClick={() => {
+                                    setTableToDelete(table.id);
+                                    setIsConfirmDialogOpen(true);
+                                  }} 
+                                  className="flex items-center gap-1.5 px-3 py-1.5"
+                                  iconLeft={<FaTrash size={14} />}
+                                >
+                                  Delete
+                                </Button>
+                              </motion.div>
+                            </>
+                          )}
                         </div>
                       </div>
                     </motion.div>
@@ -775,6 +1108,37 @@ const TablePage: React.FC = () => {
             />
           </Modal>
           
+          <TableMergeModal
+            isOpen={mergeTableIds !== null}
+            onClose={() => setMergeTableIds(null)}
+            tables={safeTables}
+            groups={groups}
+            initialTableIds={mergeTableIds ?? undefined}
+            onMerged={group => {
+              setGroups(current => [...current, group]);
+              setSelectedTableIds([]);
+              showAlert(`${getGroupName(group, safeTables)} digabung`, { type: 'success' });
+            }}
+          />
+          
+          <ConfirmationDialog
+            isOpen={groupToSplit !== null}
+            onClose={() => setGroupToSplit(null)}
+            onConfirm={handleSplitGroup}
+            message={`Pisahkan ${groupToSplit ? getGroupName(groupToSplit, safeTables) : ''}? Pesanan tetap di mejanya masing-masing dan ditagih terpisah lagi.`}
+            title="Pisahkan Meja"
+            confirmText="Pisahkan"
+            cancelText="Batal"
+            type="warning"
+          />
+          
+          {/* Status Modal */}
+          <TableStatusModal
+            table={statusTable}
+            onClose={() => setStatusTable(null)}
+            onUpdated={updated => mergeTables([updated])}
+          />
+          
           {/* QR Code Modal */}
           <Modal
             isOpen={isQRModalOpen}
@@ -784,10 +1148,44 @@ const TablePage: React.FC = () => {
             icon={<FaQrcode size={18} />}
           >
             {selectedTable && (
-              <QRCodeGenerator tableId={selectedTable.id} tableName={selectedTable.name} />
+              <>
+                <QRCodeGenerator
+                  tableId={selectedTable.id}
+                  tableName={selectedTable.name}
+                  qrValue={getTableQrValue(selectedTable)}
+                />
+                {canEditTables && (
+                  <div className="mt-4 flex items-center justify-between gap-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800/50 rounded-xl p-4">
+                    <p className="text-sm text-amber-800 dark:text-amber-300">
+                      QR code lost or copied? Rotate it to make all printed copies stop working.
+                    </p>
+                    <Button
+                      variant="light"
+                      size="sm"
+                      onClick={() => setIsRotateDialogOpen(true)}
+                      isLoading={isRotating}
+                      className="flex-none flex items-center gap-1.5"
+                      iconLeft={<FaRedo size={12} />}
+                    >
+                      Rotate QR
+                    </Button>
+                  </div>
+                )}
+              </>
             )}
           </Modal>
           
+          {/* Bulk QR Modal */}
+          <Modal
+            isOpen={isBulkQRModalOpen}
+            onClose={() => setIsBulkQRModalOpen(false)}
+            title={selectedTables.length > 0 ? `Bulk QR Codes (${selectedTables.length} selected)` : 'Bulk QR Codes (all shown tables)'}
+            size="xl"
+            icon={<FaPrint size={18} />}
+          >
+            {isBulkQRModalOpen && <BulkQRCodeSheet tables={bulkQRTables} />}
+          </Modal>
+          
           {/* Confirmation Dialog */}
           <ConfirmationDialog
             isOpen={isConfirmDialogOpen}
@@ -803,6 +1201,18 @@ const TablePage: React.FC = () => {
             cancelText="Cancel"
             type="warning"
           />
+          
+          {/* Rotate QR Confirmation */}
+          <ConfirmationDialog
+            isOpen={isRotateDialogOpen}
+            onClose={() => setIsRotateDialogOpen(false)}
+            onConfirm={handleRotateQRCode}
+            message={`Generate a new QR code for ${selectedTable?.name || 'this table'}? All printed copies of the current QR code will stop working and must be replaced.`}
+            title="Rotate QR Code"
+            confirmText="Rotate"
+            cancelText="Cancel"
+            type="warning"
+          />
         </div>
       </div>
     </Layout>
@@ -1,9 +1,11 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { useSearchParams, Link } from 'react-router-dom';
-import { MenuAPI, OrderAPI, TableAPI } from '../../api';
-import { useCartStore } from '../../store';
-import type { Menu, CartItem, Table } from '../../types';
-import type { CreateOrderItem } from '../../types/order';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useSearchParams, useNavigate, Link } from 'react-router-dom';
+import { MenuAPI, OrderOutbox, PromotionAPI, TableAPI } from '../../api';
+import type { OutboxEntry } from '../../api';
+import { useCartStore, useOrderSessionStore, getOrderTrackingPath } from '../../store';
+import type { SessionOrder } from '../../store';
+import type { Menu, CartItem, Table, Order, Promotion } from '../../types';
+import type { CreateOrderItem } from '../../types';
 import { OrderStatus } from '../../types';
 import Layout from '../../components/Layout';
 import { getMenuImageUrl } from '../../utils/imageHelper';
@@ -13,6 +15,12 @@ import { motion, AnimatePresence } from 'framer-motion';
 import MenuCustomizationModal from '../../components/MenuCustomizationModal';
 import { useAlert } from '../../contexts/AlertContext';
 import OrderSuccessPopup from '../../components/OrderSuccessPopup';
+import OrderItemDetails from '../../components/OrderItemDetails';
+import PriceBreakdownSummary from '../../components/PriceBreakdownSummary';
+import ServiceRequestButton from '../../components/ServiceRequestButton';
+import { serializeCartItem } from '../../utils/orderItems';
+import type { PriceBreakdown } from '../../utils/pricing';
+import { getMenuPromoPrice, getVoucherError } from '../../utils/promotions';
 
 // Animation variants for consistent use
 const containerVariants = {
@@ -130,19 +138,43 @@ const staggerContainer = {
 
 const OrderPage: React.FC = () => {
   const [searchParams] = useSearchParams();
-  const tableId = searchParams.get('table');
+  // QR codes carry an opaque table token (?t=). Older prints used the table
+  // id (?table=), which anyone could change, so those links are refused.
+  const tableToken = searchParams.get('t');
+  const hasLegacyTableLink = !tableToken && searchParams.has('table');
   const [tableInfo, setTableInfo] = useState<Table | null>(null);
+  const [tableError, setTableError] = useState<string | null>(null);
+  // Only a table resolved from a valid token may receive orders
+  const tableId = tableInfo?.id;
   const [menus, setMenus] = useState<Menu[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isCartOpen, setIsCartOpen] = useState(false);
-  const { cart, addToCart, removeFromCart, clearCart, updateQuantity } = useCartStore();
+  const {
+    cart,
+    addToCart,
+    removeFromCart,
+    updateQuantity,
+    getBreakdown,
+    getDiscounts,
+    promotions,
+    setPromotions,
+    voucher,
+    setVoucher,
+  } = useCartStore();
+  const { addOrder, getOrdersForTable } = useOrderSessionStore();
+  const navigate = useNavigate();
   const [selectedCategory, setSelectedCategory] = useState('All');
   const [search, setSearch] = useState('');
   const [quantityMap, setQuantityMap] = useState<Record<number, number>>({});
   const [categories, setCategories] = useState<string[]>([]);
   const [isCheckoutOpen, setIsCheckoutOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Idempotency key of the order waiting in the outbox
+  const [pendingOrderKey, setPendingOrderKey] = useState<string | null>(null);
+  // True once the first attempt failed and the order waits for a retry
+  const [isOrderQueued, setIsOrderQueued] = useState(false);
+  const handledOutboxIds = useRef(new Set<string>());
   const [orderSuccess, setOrderSuccess] = useState(false);
   const [customerName, setCustomerName] = useState('');
   const [customerNameError, setCustomerNameError] = useState('');
@@ -156,6 +188,7 @@ const OrderPage: React.FC = () => {
   const [showSuccessPopup, setShowSuccessPopup] = useState(false);
   const [orderItems, setOrderItems] = useState<CartItem[]>([]);
   const [orderTotal, setOrderTotal] = useState(0);
+  const [placedOrder, setPlacedOrder] = useState<Pick<SessionOrder, 'id' | 'trackingToken'> | null>(null);
   const [hoveredMenuId, setHoveredMenuId] = useState<number | string | null>(null);
   
   // Extract fetchData to be used outside useEffect
@@ -163,8 +196,9 @@ const OrderPage: React.FC = () => {
       try {
       setIsLoading(true);
       
-      // Fetch menus
-      const menuData = await MenuAPI.getAll(true);
+      // Not forced: the service worker answers from its cache and refreshes
+      // it in the background
+      const menuData = await MenuAPI.getAll();
       
       // Use menu data directly without price modification
       console.log('Menu data loaded:', menuData);
@@ -181,16 +215,29 @@ const OrderPage: React.FC = () => {
         )
       );
         setCategories(uniqueCategories);
+
+      // Promotions only change prices; the menu still works without them
+      try {
+        setPromotions(await PromotionAPI.getActive());
+      } catch (promoErr) {
+        console.warn('Failed to load promotions:', promoErr);
+        setPromotions([]);
+      }
       
-      // Fetch table info if tableId exists
-      if (tableId) {
+      // Resolve the table from the QR token; unknown or revoked tokens are rejected
+      if (tableToken) {
         try {
-          const tableData = await TableAPI.getById(parseInt(tableId));
+          const tableData = await TableAPI.resolveToken(tableToken);
           setTableInfo(tableData);
+          setTableError(null);
         } catch (tableErr) {
-          console.error('Failed to fetch table info:', tableErr);
-          // Continue even if table fetch fails
+          console.error('Failed to resolve table token:', tableErr);
+          setTableInfo(null);
+          setTableError(tableErr instanceof Error ? tableErr.message : 'QR code tidak valid.');
         }
+      } else if (hasLegacyTableLink) {
+        setTableInfo(null);
+        setTableError('QR code ini sudah tidak berlaku. Silakan scan QR code terbaru di meja Anda.');
       }
       } catch (err) {
       console.error('Failed to fetch data:', err);
@@ -215,7 +262,7 @@ const OrderPage: React.FC = () => {
         }
       );
     }, 1000);
-  }, [tableId]);
+  }, [tableToken, hasLegacyTableLink]);
   
   // Listen for cart update events
   useEffect(() => {
@@ -241,7 +288,10 @@ const OrderPage: React.FC = () => {
   }, []);
   
   const handleSubmitOrder = async () => {
-    if (!tableId) {
+    // An order is already on its way; a second tap must not place another
+    if (pendingOrderKey) return;
+
+    if (!tableId || !tableToken) {
       showAlert('Please scan a valid table QR code first', { type: 'warning' });
       return;
     }
@@ -261,69 +311,122 @@ const OrderPage: React.FC = () => {
     
     try {
       setIsSubmitting(true);
-      const total = cart.items.reduce((sum: number, item: CartItem) => sum + Number(item.price) * item.quantity, 0);
+      const total = getBreakdown().total;
+      const discounts = getDiscounts();
       
-      // Create order items sesuai format yang diharapkan backend
-      const items = cart.items.map(item => {
-        return {
-          menuId: item.menuId,
-          quantity: item.quantity,
-          price: Number(item.price) // pastikan price adalah number
-        };
-      });
+      // Create order items sesuai format yang diharapkan backend,
+      // termasuk kustomisasi dan catatan per item untuk dapur
+      const items: CreateOrderItem[] = cart.items.map(serializeCartItem);
 
       // Create order data dengan format yang benar
       const orderData = {
-        tableId: parseInt(tableId),
+        tableId,
+        tableToken,
         customerName: customerName.trim(),
         items: items, // gunakan property 'items' sesuai dengan yang diharapkan backend
         totalPrice: total,
         status: OrderStatus.PENDING,
-        isProcessed: false
+        isProcessed: false,
+        discounts,
+        voucherCode: discounts.some(discount => discount.promotionId === voucher?.id) ? voucher?.code : undefined,
       };
 
       // Log data untuk debugging
       console.log("Creating order with data:", JSON.stringify(orderData, null, 2));
       
-      const response = await OrderAPI.create(orderData);
-      console.log("Order created successfully:", response);
-      
-      // Save order items and total before clearing the cart
-      setOrderItems([...cart.items]);
-      setOrderTotal(total);
-      
-      // Clear the cart
-      clearCart();
-      
-      // Show immediate feedback with alert
-      showAlert('Order berhasil dibuat!', { 
-        type: 'success', 
-        title: 'Pesanan Berhasil',
-        duration: 4000
-      });
-      
-      // Set success state which will show the success view in the modal
-      setOrderSuccess(true);
-      
-      // Show the success popup
-      setShowSuccessPopup(true);
-      
-      // Close checkout modal
-      setIsCheckoutOpen(false);
-      
-    } catch (err: any) {
-      console.error('Failed to submit order:', err);
-      // Log additional error details
-      if (err.response) {
-        console.error('Error response:', err.response.data);
-        console.error('Status:', err.response.status);
-      }
-      const errorMessage = err?.response?.data?.message || err?.response?.data?.error || err.message || 'Failed to submit order';
-      showAlert(`Failed to submit order: ${errorMessage}`, { type: 'warning', title: 'Order Error' });
-    } finally {
+      // The outbox keeps the order across reloads and lost connections and
+      // retries it under one idempotency key, so it is never placed twice
+      const entry = await OrderOutbox.enqueue(
+        { kind: 'createOrder', payload: orderData },
+        { cartItems: [...cart.items] }
+      );
+      setPendingOrderKey(entry.id);
+    } catch (err) {
+      console.error('Failed to queue order:', err);
+      showAlert('Failed to submit order: pesanan tidak dapat disimpan di perangkat ini.', { type: 'warning', title: 'Order Error' });
       setIsSubmitting(false);
     }
   };
+
+  // Finish up an order the outbox has delivered or given up on
+  const handleOutboxEntry = useCallback((entry: OutboxEntry) => {
+    if (entry.kind !== 'createOrder' || entry.payload.tableId !== tableId) return;
+
+    if (entry.status === 'pending') {
+      setPendingOrderKey(entry.id);
+      setIsSubmitting(true);
+      setIsOrderQueued(entry.attempts > 0);
+      return;
+    }
+
+    if (handledOutboxIds.current.has(entry.id)) return;
+    handledOutboxIds.current.add(entry.id);
+    OrderOutbox.remove(entry.id);
+    setPendingOrderKey(null);
+    setIsSubmitting(false);
+    setIsOrderQueued(false);
+
+    if (entry.status === 'failed') {
+      showAlert(`Failed to submit order: ${entry.error || 'Pesanan ditolak oleh server'}`, { type: 'warning', title: 'Order Error' });
+      return;
+    }
+
+    const response = entry.response as Order | undefined;
+    const submittedItems = (entry.meta?.cartItems as CartItem[] | undefined) ?? [];
+    console.log("Order created successfully:", response);
+
+    // Save order items and total before clearing the cart
+    setOrderItems(submittedItems);
+    setOrderTotal(entry.payload.totalPrice);
+
+    // Remember the order on this device so it can be tracked later
+    if (response?.id) {
+      setPlacedOrder({ id: response.id, trackingToken: response.trackingToken });
+      addOrder({
+        id: response.id,
+        trackingToken: response.trackingToken,
+        tableId: entry.payload.tableId,
+        dailyOrderId: response.dailyOrderId,
+        tableToken: entry.payload.tableToken,
+        totalPrice: entry.payload.totalPrice,
+        itemCount: entry.payload.items.reduce((count, item) => count + item.quantity, 0),
+        createdAt: response.createdAt || new Date().toISOString(),
+      });
+    }
+
+    // Clear the submitted lines; anything added while sending stays in the cart
+    submittedItems.forEach(item => removeFromCart(item.lineId));
+
+    // Show immediate feedback with alert
+    showAlert('Order berhasil dibuat!', { 
+      type: 'success', 
+      title: 'Pesanan Berhasil',
+      duration: 4000
+    });
+
+    // Set success state which will show the success view in the modal
+    setOrderSuccess(true);
+
+    // Show the success popup
+    setShowSuccessPopup(true);
+
+    // Close checkout modal
+    setIsCheckoutOpen(false);
+  }, [tableId, addOrder, removeFromCart, showAlert]);
+
+  // Pick up orders still in the outbox from an earlier visit, then follow it
+  useEffect(() => {
+    if (!tableId) return;
+
+    const unsubscribe = OrderOutbox.subscribe(handleOutboxEntry);
+    OrderOutbox.getEntries()
+      .then(entries => entries.forEach(handleOutboxEntry))
+      .catch(err => console.error('Failed to read the order outbox:', err));
+    return unsubscribe;
+  }, [tableId, handleOutboxEntry]);
+  
+  // Most recent order placed from this device for this table
+  const latestSessionOrder = tableId ? getOrdersForTable(tableId)[0] : undefined;
   
   const filteredMenus = menus.filter(menu => {
     const matchCategory = selectedCategory === 'All' || 
@@ -341,7 +444,26 @@ const OrderPage: React.FC = () => {
     });
   };
   
-  const cartTotal = cart.items.reduce((sum, item) => sum + (Number(item.price) * item.quantity), 0);
+  const cartBreakdown = getBreakdown();
+
+  // Look up a voucher and keep it when it applies to the current cart
+  const handleApplyVoucher = async (code: string): Promise<string | null> => {
+    try {
+      const found = await PromotionAPI.lookupVoucher(code);
+      const voucherError = getVoucherError(found, cartBreakdown.subtotal);
+      if (voucherError) return voucherError;
+
+      setVoucher(found);
+      // getDiscounts leaves out vouchers for menus that are not in the cart
+      if (!useCartStore.getState().getDiscounts().some(discount => discount.promotionId === found.id)) {
+        setVoucher(null);
+        return 'Voucher ini tidak berlaku untuk menu di keranjang Anda.';
+      }
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : 'Gagal memeriksa voucher.';
+    }
+  };
   const cartItemCount = cart.items.reduce((sum, item) => sum + item.quantity, 0);
   
   // Enhanced add to cart with animation and availability check
@@ -435,12 +557,13 @@ const OrderPage: React.FC = () => {
   const handleCustomizationSubmit = (
     customizations: Record<string, string[]>,
     basePrice: number,
-    extraPrice: number
+    extraPrice: number,
+    notes?: string
   ) => {
     if (!selectedMenu) return;
     
     // Add to cart with customizations
-    addToCart(selectedMenu, quantityMap[selectedMenu.id] || 1, customizations, extraPrice);
+    addToCart(selectedMenu, quantityMap[selectedMenu.id] || 1, customizations, extraPrice, notes);
     
     // Show small toast notification
     setShowCartPopup(true);
@@ -630,6 +753,30 @@ const OrderPage: React.FC = () => {
     );
   }
   
+  if (tableError) {
+    return (
+      <Layout>
+        <div className="flex justify-center items-center min-h-screen bg-gradient-to-b from-white via-red-50 to-white dark:from-gray-900 dark:via-gray-900 dark:to-gray-800 p-4">
+          <motion.div 
+            className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-8 max-w-md mx-auto border border-red-100 dark:border-gray-700 text-center"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+          >
+            <div className="w-24 h-24 bg-red-50 dark:bg-red-900/30 rounded-full mx-auto mb-6 flex items-center justify-center">
+              <FaQrcode className="text-5xl text-red-500" />
+            </div>
+            <h3 className="text-2xl font-bold text-gray-800 dark:text-white mb-3">QR Code Tidak Valid</h3>
+            <p className="text-gray-600 dark:text-gray-300 mb-6">{tableError}</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Butuh bantuan? Silakan hubungi pelayan atau kasir.
+            </p>
+          </motion.div>
+        </div>
+      </Layout>
+    );
+  }
+  
   if (error) {
     return (
       <Layout>
@@ -780,6 +927,29 @@ const OrderPage: React.FC = () => {
                         <span className="font-medium">Table #{tableInfo.id}</span>
                       </div>
                     </motion.div>
+                    {pendingOrderKey && (
+                      <div
+                        className="flex items-center gap-2 px-3 py-1.5 rounded-md text-sm bg-white/20 backdrop-blur-sm"
+                        role="status"
+                      >
+                        <FaSync className="animate-spin" />
+                        <span className="font-medium">{isOrderQueued ? 'Menunggu koneksi...' : 'Mengirim pesanan...'}</span>
+                      </div>
+                    )}
+                    {tableToken && <ServiceRequestButton tableId={tableInfo.id} tableToken={tableToken} />}
+                    {latestSessionOrder && (
+                      <motion.div 
+                        whileHover={{ scale: 1.05 }} 
+                        whileTap={{ scale: 0.95 }}
+                      >
+                        <Link
+                          to={getOrderTrackingPath(latestSessionOrder)}
+                          className="flex items-center gap-2 px-3 py-1.5 rounded-md text-sm bg-white text-red-600 font-medium"
+                        >
+                          <FaClock /> Pesanan Saya
+                        </Link>
+                      </motion.div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -972,7 +1142,7 @@ const OrderPage: React.FC = () => {
                       </AnimatePresence>
                     </div>
                     <div className="flex justify-between items-center">
-                      <span className="text-primary-600 dark:text-primary-400 font-bold">{formatCurrency(menu.price)}</span>
+                      <MenuPrice menu={menu} promotions={promotions} className="text-primary-600 dark:text-primary-400 font-bold" />
                     </div>
                   </div>
                 </motion.div>
@@ -1289,8 +1459,7 @@ const OrderPage: React.FC = () => {
                       transition={{ delay: 0.2 }}
                       style={{ display: menu.status === 'OUT_OF_STOCK' ? 'none' : 'flex' }}
                     >
-                      <span className="text-xs text-red-500 opacity-80">Rp</span>
-                      {formatCurrency(menu.price).replace('Rp', '')}
+                      <MenuPrice menu={menu} promotions={promotions} />
                     </motion.div>
                     
                     {/* Category badge */}
@@ -1506,10 +1675,14 @@ const OrderPage: React.FC = () => {
                   customerNameError={customerNameError}
                   setCustomerNameError={setCustomerNameError}
                   isSubmitting={isSubmitting}
+                  isOrderQueued={isOrderQueued}
                   handleSubmitOrder={handleSubmitOrder}
                   updateQuantity={updateQuantity}
                   removeFromCart={removeFromCart}
-                  cartTotal={cartTotal}
+                  cartBreakdown={cartBreakdown}
+                  voucher={voucher}
+                  onApplyVoucher={handleApplyVoucher}
+                  onRemoveVoucher={() => setVoucher(null)}
                   onClose={() => setIsCheckoutOpen(false)}
                 />
               )}
@@ -1526,17 +1699,44 @@ const OrderPage: React.FC = () => {
         }} />
       )}
       
+      {/* Customization picks for menus with options */}
+      {selectedMenu && (
+        <MenuCustomizationModal
+          menu={selectedMenu}
+          isOpen={isCustomizationModalOpen}
+          onClose={() => {
+            setIsCustomizationModalOpen(false);
+            setSelectedMenu(null);
+          }}
+          onAddToCart={handleCustomizationSubmit}
+        />
+      )}
+
       {/* New Order Success Popup */}
-      <OrderSuccessPopup 
+      <OrderSuccessPopup
         visible={showSuccessPopup}
         onClose={() => setShowSuccessPopup(false)}
         orderItems={orderItems}
         orderTotal={orderTotal}
+        onTrackOrder={placedOrder ? () => navigate(getOrderTrackingPath(placedOrder)) : undefined}
       />
     </Layout>
   );
 }
 
+// Menu price, struck through next to the promo price while a price rule runs
+const MenuPrice: React.FC<{ menu: Menu; promotions: Promotion[]; className?: string }> = ({ menu, promotions, className = '' }) => {
+  const promo = getMenuPromoPrice(menu, promotions);
+  if (!promo) return <span className={className}>{formatCurrency(menu.price)}</span>;
+
+  return (
+    <span className={`flex items-baseline gap-1.5 ${className}`} title={promo.promotion.name}>
+      <span className="text-[0.8em] font-normal text-gray-400 line-through">{formatCurrency(menu.price)}</span>
+      <span>{formatCurrency(promo.price)}</span>
+    </span>
+  );
+};
+
 // Checkout View Component
 interface CheckoutViewProps {
   tableInfo: Table | null;
@@ -1546,10 +1746,14 @@ interface CheckoutViewProps {
   customerNameError: string;
   setCustomerNameError: (error: string) => void;
   isSubmitting: boolean;
+  isOrderQueued: boolean;
   handleSubmitOrder: () => void;
-  updateQuantity: (menuId: number, quantity: number) => void;
-  removeFromCart: (menuId: number) => void;
-  cartTotal: number;
+  updateQuantity: (lineId: string, quantity: number) => void;
+  removeFromCart: (lineId: string) => void;
+  cartBreakdown: PriceBreakdown;
+  voucher: Promotion | null;
+  onApplyVoucher: (code: string) => Promise<string | null>; // Resolves to an error message, or null
+  onRemoveVoucher: () => void;
   onClose: () => void;
 }
 
@@ -1561,12 +1765,29 @@ const CheckoutView: React.FC<CheckoutViewProps> = ({
   customerNameError,
   setCustomerNameError,
   isSubmitting,
+  isOrderQueued,
   handleSubmitOrder,
   updateQuantity,
   removeFromCart,
-  cartTotal,
+  cartBreakdown,
+  voucher,
+  onApplyVoucher,
+  onRemoveVoucher,
   onClose
 }) => {
+  const [voucherCode, setVoucherCode] = useState('');
+  const [voucherError, setVoucherError] = useState<string | null>(null);
+  const [isCheckingVoucher, setIsCheckingVoucher] = useState(false);
+
+  const handleApplyVoucher = async () => {
+    setIsCheckingVoucher(true);
+    setVoucherError(null);
+    const applyError = await onApplyVoucher(voucherCode);
+    setVoucherError(applyError);
+    if (!applyError) setVoucherCode('');
+    setIsCheckingVoucher(false);
+  };
+
   return (
     <>
       {/* Enhanced Header */}
@@ -1705,7 +1926,7 @@ const CheckoutView: React.FC<CheckoutViewProps> = ({
               <AnimatePresence>
                 {cart.items.map((item, index) => (
                   <motion.div 
-                    key={`item-${item.menuId}`}
+                    key={item.lineId}
                     initial={{ opacity: 0, x: -20 }}
                     animate={{ 
                       opacity: 1, 
@@ -1733,6 +1954,11 @@ const CheckoutView: React.FC<CheckoutViewProps> = ({
                       </motion.div>
                       <div>
                         <h4 className="font-medium text-gray-800">{item.menu?.name}</h4>
+                        <OrderItemDetails
+                          customizations={item.customizations}
+                          notes={item.notes}
+                          menu={item.menu}
+                        />
                         <div className="text-sm text-gray-500 mt-1">
                           {formatCurrency(Number(item.price))} × {item.quantity}
                         </div>
@@ -1746,7 +1972,7 @@ const CheckoutView: React.FC<CheckoutViewProps> = ({
                         <motion.button
                           whileHover={{ scale: 1.2, backgroundColor: "#FEE2E2" }}
                           whileTap={{ scale: 0.9 }}
-                          onClick={() => updateQuantity(item.menuId, Math.max(1, item.quantity - 1))}
+                          onClick={() => updateQuantity(item.lineId, Math.max(1, item.quantity - 1))}
                           className="w-7 h-7 flex items-center justify-center rounded-full bg-gray-100 text-gray-600 hover:bg-red-100 hover:text-red-500 transition-colors"
                         >
                           <FaMinus size={10} />
@@ -1757,7 +1983,7 @@ const CheckoutView: React.FC<CheckoutViewProps> = ({
                         <motion.button
                           whileHover={{ scale: 1.2, backgroundColor: "#FEE2E2" }}
                           whileTap={{ scale: 0.9 }}
-                          onClick={() => updateQuantity(item.menuId, item.quantity + 1)}
+                          onClick={() => updateQuantity(item.lineId, item.quantity + 1)}
                           className="w-7 h-7 flex items-center justify-center rounded-full bg-gray-100 text-gray-600 hover:bg-red-100 hover:text-red-500 transition-colors"
                         >
                           <FaPlus size={10} />
@@ -1765,7 +1991,7 @@ const CheckoutView: React.FC<CheckoutViewProps> = ({
                         <motion.button
                           whileHover={{ scale: 1.2, color: '#ef4444' }}
                           whileTap={{ scale: 0.9 }}
-                          onClick={() => removeFromCart(item.menuId)}
+                          onClick={() => removeFromCart(item.lineId)}
                           className="ml-1 text-gray-400 hover:text-red-500 transition-colors"
                           aria-label="Remove item"
                         >
@@ -1797,33 +2023,72 @@ const CheckoutView: React.FC<CheckoutViewProps> = ({
               </motion.div>
               <span className="text-lg">Ringkasan Pesanan</span>
             </h3>
+
+            {/* Voucher */}
+            <div className="mb-4">
+              {voucher ? (
+                <div className="flex items-center justify-between gap-2 bg-green-50 border border-green-200 rounded-lg px-3 py-2 text-sm text-green-700">
+                  <span className="flex items-center gap-2">
+                    <FaTag size={12} />
+                    <span className="font-medium">{voucher.code}</span>
+                    <span className="text-green-600">{voucher.name}</span>
+                  </span>
+                  <button
+                    type="button"
+                    onClick={onRemoveVoucher}
+                    className="text-green-700 hover:text-red-500 transition-colors"
+                    aria-label="Hapus voucher"
+                  >
+                    <FaTimes size={12} />
+                  </button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={voucherCode}
+                    onChange={(e) => {
+                      setVoucherCode(e.target.value.toUpperCase());
+                      setVoucherError(null);
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && voucherCode.trim()) handleApplyVoucher();
+                    }}
+                    placeholder="Kode voucher"
+                    className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm uppercase focus:ring-red-500 focus:border-red-500"
+                    aria-label="Kode voucher"
+                  />
+                  <Button
+                    variant="light"
+                    onClick={handleApplyVoucher}
+                    isLoading={isCheckingVoucher}
+                    disabled={!voucherCode.trim() || isCheckingVoucher}
+                  >
+                    Pakai
+                  </Button>
+                </div>
+              )}
+              {voucherError && <p className="mt-1 text-xs text-red-600">{voucherError}</p>}
+            </div>
             
             <div className="space-y-3 pt-2">
-              <div className="flex justify-between text-gray-600 items-center">
-                <span>Subtotal</span>
-                <motion.span 
-                  className="font-medium"
-                  initial={false}
-                  animate={{ scale: [1, 1.05, 1] }}
-                  transition={{ duration: 0.3 }}
-                  key={cartTotal}
-                >
-                  {formatCurrency(cartTotal)}
-                </motion.span>
-              </div>
-              <div className="flex justify-between text-gray-600 items-center">
-                <span>Biaya Layanan</span>
-                <span>Termasuk</span>
-              </div>
+              <motion.div
+                initial={false}
+                animate={{ scale: [1, 1.02, 1] }}
+                transition={{ duration: 0.3 }}
+                key={cartBreakdown.subtotal}
+              >
+                <PriceBreakdownSummary breakdown={cartBreakdown} hideTotal className="text-base" />
+              </motion.div>
               <motion.div 
                 className="flex justify-between font-bold text-xl pt-4 border-t border-gray-200 mt-3"
                 initial={false}
                 animate={{ backgroundColor: ["rgba(254, 226, 226, 0)", "rgba(254, 226, 226, 0.3)", "rgba(254, 226, 226, 0)"] }}
                 transition={{ duration: 1.5, delay: 0.2 }}
-                key={cartTotal}
+                key={cartBreakdown.total}
               >
                 <span className="text-gray-800">Total</span>
-                <span className="text-red-600">{formatCurrency(cartTotal)}</span>
+                <span className="text-red-600">{formatCurrency(cartBreakdown.total)}</span>
               </motion.div>
             </div>
           </motion.div>
@@ -1855,7 +2120,7 @@ const CheckoutView: React.FC<CheckoutViewProps> = ({
                 >
                   <FaSync />
                 </motion.div>
-                <span className="text-base">Processing Order...</span>
+                <span className="text-base">{isOrderQueued ? 'Menunggu koneksi...' : 'Mengirim pesanan...'}</span>
               </>
             ) : (
               <>
@@ -1865,9 +2130,15 @@ const CheckoutView: React.FC<CheckoutViewProps> = ({
             )}
           </motion.button>
           
-          <div className="text-center mt-3 text-sm text-gray-500">
-            Dengan memesan, Anda menyetujui <span className="text-red-500">Syarat dan Ketentuan</span> kami
-          </div>
+          {isOrderQueued ? (
+            <div className="text-center mt-3 text-sm text-amber-600" role="status">
+              Koneksi terputus. Pesanan tersimpan di perangkat ini dan akan dikirim otomatis saat koneksi kembali.
+            </div>
+          ) : (
+            <div className="text-center mt-3 text-sm text-gray-500">
+              Dengan memesan, Anda menyetujui <span className="text-red-500">Syarat dan Ketentuan</span> kami
+            </div>
+          )}
         </motion.div>
       </div>
     </>
@@ -0,0 +1,349 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
+import { OrderAPI, OrderOutbox, MenuAPI, isApiError } from '../../api';
+import { useOrderSessionStore, getOrderTrackingPath } from '../../store';
+import type { Order, Menu } from '../../types';
+import { OrderStatus } from '../../types';
+import Layout from '../../components/Layout';
+import ConfirmationDialog from '../../components/ConfirmationDialog';
+import OrderItemDetails from '../../components/OrderItemDetails';
+import { useAlert } from '../../contexts/AlertContext';
+import { formatCurrency, formatDate } from '../../utils/format';
+import { canTransition } from '../../utils/orderStateMachine';
+import { motion } from 'framer-motion';
+import { FaReceipt, FaClock, FaFire, FaCheckCircle, FaTimesCircle, FaArrowLeft, FaHistory, FaChevronRight } from 'react-icons/fa';
+
+// Status is refreshed this often until the order is finished
+const POLL_INTERVAL = 5000;
+
+type TimelineStep = 'received' | 'cooking' | 'done';
+
+const TIMELINE_STEPS: { id: TimelineStep; label: string; description: string; icon: React.ReactNode }[] = [
+  { id: 'received', label: 'Pesanan diterima', description: 'Menunggu dapur', icon: <FaClock /> },
+  { id: 'cooking', label: 'Sedang dimasak', description: 'Dapur sedang menyiapkan pesanan', icon: <FaFire /> },
+  { id: 'done', label: 'Selesai', description: 'Pesanan siap disajikan', icon: <FaCheckCircle /> },
+];
+
+const isFinished = (order: Order) =>
+  order.status === OrderStatus.COMPLETED || order.status === OrderStatus.CANCELLED;
+
+const getCurrentStep = (order: Order): TimelineStep => {
+  if (order.status === OrderStatus.COMPLETED) return 'done';
+  if (order.isProcessed || order.status === OrderStatus.PROCESSING) return 'cooking';
+  return 'received';
+};
+
+const OrderTrackingPage: React.FC = () => {
+  const { orderId } = useParams<{ orderId: string }>();
+  const numericOrderId = Number(orderId);
+  const [searchParams] = useSearchParams();
+  const { showAlert } = useAlert();
+  const { orders: sessionOrders, updateOrder } = useOrderSessionStore();
+  const sessionOrder = sessionOrders.find(candidate => candidate.id === numericOrderId);
+  // From the link, or remembered when the order was placed on this device
+  const trackingToken = searchParams.get('k') || sessionOrder?.trackingToken;
+
+  const [order, setOrder] = useState<Order | null>(null);
+  const [menus, setMenus] = useState<Record<number, Menu>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isCancelDialogOpen, setIsCancelDialogOpen] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  // The cancellation could not be sent yet and waits for the connection
+  const [isCancelQueued, setIsCancelQueued] = useState(false);
+
+  const fetchOrder = useCallback(async () => {
+    if (!Number.isFinite(numericOrderId) || !trackingToken) {
+      setError('Link pelacakan tidak valid. Buka pesanan dari perangkat yang dipakai untuk memesan.');
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const data = await OrderAPI.track(numericOrderId, trackingToken);
+      setOrder(data);
+      setError(null);
+      if (data.dailyOrderId) {
+        updateOrder(numericOrderId, { dailyOrderId: data.dailyOrderId });
+      }
+    } catch (err) {
+      console.error('OrderTrackingPage - Failed to fetch order:', err);
+      setError(
+        isApiError(err, 'notFound') || isApiError(err, 'forbidden')
+          ? 'Pesanan tidak ditemukan.'
+          : 'Gagal memuat status pesanan. Mencoba lagi...'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [numericOrderId, trackingToken, updateOrder]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchOrder();
+  }, [fetchOrder]);
+
+  // Menu names and customization labels for the item list
+  useEffect(() => {
+    MenuAPI.getAll().then(menuData => {
+      const menusMap: Record<number, Menu> = {};
+      menuData.forEach(menu => {
+        menusMap[menu.id] = menu;
+      });
+      setMenus(menusMap);
+    }).catch(err => {
+      // Items fall back to the names embedded in the order
+      console.error('OrderTrackingPage - Failed to fetch menus:', err);
+    });
+  }, []);
+
+  // Live status updates while the order is still open and the tab is visible
+  const isOrderFinished = order !== null && isFinished(order);
+  useEffect(() => {
+    if (isOrderFinished) return;
+
+    const refreshIfVisible = () => {
+      if (document.visibilityState === 'visible') {
+        fetchOrder();
+      }
+    };
+    const interval = setInterval(refreshIfVisible, POLL_INTERVAL);
+    document.addEventListener('visibilitychange', refreshIfVisible);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', refreshIfVisible);
+    };
+  }, [numericOrderId, isOrderFinished, fetchOrder]);
+
+  const canCancel = order !== null && canTransition(order, OrderStatus.CANCELLED, 'customer');
+
+  // Follow a cancellation in the outbox until the server has answered
+  const settleCancellation = useCallback(async (entryId: string) => {
+    setIsCancelling(true);
+    const unsubscribe = OrderOutbox.subscribe(entry => {
+      if (entry.id === entryId && entry.status === 'pending') {
+        setIsCancelQueued(entry.attempts > 0);
+      }
+    });
+
+    try {
+      const result = await OrderOutbox.waitFor(entryId);
+      OrderOutbox.remove(entryId);
+      if (result.status === 'failed') {
+        throw new Error(result.error || 'Gagal membatalkan pesanan.');
+      }
+
+      const cancelledOrder = result.response as Order;
+      setOrder(prev => (prev ? { ...prev, ...cancelledOrder } : cancelledOrder));
+      showAlert('Pesanan berhasil dibatalkan.', { type: 'success', title: 'Pesanan Dibatalkan' });
+    } catch (err) {
+      console.error('OrderTrackingPage - Failed to cancel order:', err);
+      showAlert(err instanceof Error ? err.message : 'Gagal membatalkan pesanan.', { type: 'warning', title: 'Pembatalan Gagal' });
+      fetchOrder();
+    } finally {
+      unsubscribe();
+      setIsCancelling(false);
+      setIsCancelQueued(false);
+    }
+  }, [showAlert, fetchOrder]);
+
+  // A cancellation sent before a reload may still be waiting in the outbox
+  useEffect(() => {
+    OrderOutbox.getEntries()
+      .then(entries => {
+        const pending = entries.find(entry => entry.kind === 'cancelOrder' && entry.orderId === numericOrderId);
+        if (pending) settleCancellation(pending.id);
+      })
+      .catch(err => console.error('OrderTrackingPage - Failed to read the order outbox:', err));
+  }, [numericOrderId, settleCancellation]);
+
+  const handleCancelOrder = async () => {
+    setIsCancelDialogOpen(false);
+    if (!order?.id || isCancelling) return;
+
+    try {
+      const entry = await OrderOutbox.enqueue({ kind: 'cancelOrder', orderId: order.id, trackingToken });
+      await settleCancellation(entry.id);
+    } catch (err) {
+      console.error('OrderTrackingPage - Failed to queue cancellation:', err);
+      showAlert('Gagal membatalkan pesanan.', { type: 'warning', title: 'Pembatalan Gagal' });
+    }
+  };
+
+  const previousOrders = order
+    ? sessionOrders.filter(candidate => candidate.tableId === order.tableId && candidate.id !== order.id)
+    : [];
+
+  const backToMenuToken = sessionOrder?.tableToken;
+
+  const currentStep = order ? getCurrentStep(order) : 'received';
+  const currentStepIndex = TIMELINE_STEPS.findIndex(step => step.id === currentStep);
+
+  return (
+    <Layout>
+      <div className="max-w-2xl mx-auto px-4 py-8">
+        {backToMenuToken && (
+          <Link
+            to={`/order?t=${encodeURIComponent(backToMenuToken)}`}
+            className="inline-flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 hover:text-red-600 mb-6"
+          >
+            <FaArrowLeft size={12} /> Kembali ke Menu
+          </Link>
+        )}
+
+        {isLoading && !order ? (
+          <div className="flex flex-col items-center justify-center py-24">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-red-500 mb-4"></div>
+            <p className="text-gray-500 dark:text-gray-400">Memuat pesanan...</p>
+          </div>
+        ) : !order ? (
+          <div className="bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-xl p-6 text-center">
+            {error || 'Pesanan tidak ditemukan.'}
+          </div>
+        ) : (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="space-y-6">
+            {/* Order number */}
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-md border border-gray-100 dark:border-gray-700 p-6 text-center">
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-1">Nomor Pesanan</p>
+              <p className="text-5xl font-extrabold text-red-600 dark:text-red-400">
+                #{order.dailyOrderId || order.id}
+              </p>
+              {order.createdAt && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">{formatDate(order.createdAt)}</p>
+              )}
+            </div>
+
+            {error && (
+              <p className="text-sm text-amber-600 dark:text-amber-400 text-center">{error}</p>
+            )}
+
+            {/* Status timeline */}
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-md border border-gray-100 dark:border-gray-700 p-6">
+              {order.status === OrderStatus.CANCELLED ? (
+                <div className="flex items-center gap-4 text-red-600 dark:text-red-400">
+                  <FaTimesCircle size={32} />
+                  <div>
+                    <p className="font-bold text-lg">Pesanan dibatalkan</p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Silakan hubungi kasir jika ada pertanyaan.</p>
+                  </div>
+                </div>
+              ) : (
+                <ol className="space-y-5">
+                  {TIMELINE_STEPS.map((step, index) => {
+                    const isReached = index <= currentStepIndex;
+                    const isCurrent = index === currentStepIndex;
+
+                    return (
+                      <li key={step.id} className="flex items-start gap-4">
+                        <div
+                          className={`w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0 ${
+                            isReached
+                              ? 'bg-red-500 text-white'
+                              : 'bg-gray-100 dark:bg-gray-700 text-gray-400'
+                          } ${isCurrent && step.id !== 'done' ? 'animate-pulse' : ''}`}
+                        >
+                          {step.icon}
+                        </div>
+                        <div>
+                          <p className={`font-semibold ${isReached ? 'text-gray-800 dark:text-gray-100' : 'text-gray-400'}`}>
+                            {step.label}
+                          </p>
+                          <p className="text-sm text-gray-500 dark:text-gray-400">{step.description}</p>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ol>
+              )}
+
+              {canCancel && (
+                <button
+                  type="button"
+                  onClick={() => setIsCancelDialogOpen(true)}
+                  disabled={isCancelling}
+                  className="mt-6 w-full py-3 rounded-xl border border-red-300 dark:border-red-700 text-red-600 dark:text-red-400 font-medium hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+                >
+                  {isCancelQueued ? 'Menunggu koneksi...' : isCancelling ? 'Membatalkan...' : 'Batalkan Pesanan'}
+                </button>
+              )}
+            </div>
+
+            {/* Items */}
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-md border border-gray-100 dark:border-gray-700 p-6">
+              <h2 className="font-semibold text-gray-800 dark:text-gray-100 flex items-center gap-2 mb-4">
+                <FaReceipt className="text-red-500" /> Rincian Pesanan
+              </h2>
+              <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                {(order.orderItems || []).map((item, index) => (
+                  <li key={item.id ?? index} className="py-3 flex justify-between gap-4">
+                    <div>
+                      <p className="text-gray-800 dark:text-gray-200">
+                        <span className="font-semibold">{item.quantity}x</span>{' '}
+                        {menus[item.menuId]?.name || item.menu?.name || `Menu #${item.menuId}`}
+                      </p>
+                      <OrderItemDetails
+                        customizations={item.customizations}
+                        notes={item.notes}
+                        menu={menus[item.menuId]}
+                      />
+                    </div>
+                    <span className="text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                      {formatCurrency(Number(item.price) * item.quantity)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex justify-between font-bold text-gray-900 dark:text-white border-t border-gray-100 dark:border-gray-700 pt-3 mt-2">
+                <span>Total</span>
+                <span>{formatCurrency(Number(order.totalPrice))}</span>
+              </div>
+            </div>
+
+            {/* Earlier orders from this device for the same table */}
+            {previousOrders.length > 0 && (
+              <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-md border border-gray-100 dark:border-gray-700 p-6">
+                <h2 className="font-semibold text-gray-800 dark:text-gray-100 flex items-center gap-2 mb-4">
+                  <FaHistory className="text-red-500" /> Pesanan Sebelumnya
+                </h2>
+                <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {previousOrders.map(previousOrder => (
+                    <li key={previousOrder.id}>
+                      <Link
+                        to={getOrderTrackingPath(previousOrder)}
+                        className="py-3 flex items-center justify-between hover:text-red-600"
+                      >
+                        <div>
+                          <p className="font-medium">#{previousOrder.dailyOrderId || previousOrder.id}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {previousOrder.itemCount} item · {formatDate(previousOrder.createdAt)}
+                          </p>
+                        </div>
+                        <span className="flex items-center gap-2 text-sm">
+                          {formatCurrency(previousOrder.totalPrice)}
+                          <FaChevronRight size={12} />
+                        </span>
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </motion.div>
+        )}
+      </div>
+
+      <ConfirmationDialog
+        isOpen={isCancelDialogOpen}
+        onClose={() => setIsCancelDialogOpen(false)}
+        onConfirm={handleCancelOrder}
+        title="Batalkan Pesanan?"
+        message="Pesanan yang sudah dibatalkan tidak dapat dikembalikan."
+        confirmText="Ya, Batalkan"
+        cancelText="Tidak"
+      />
+    </Layout>
+  );
+};
+
+export default OrderTrackingPage;
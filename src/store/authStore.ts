@@ -1,5 +1,14 @@
 import { create } from 'zustand';
 import api from '../api/axios';
+import {
+  ACCESS_TOKEN_KEY,
+  USER_KEY,
+  setSessionTokens,
+  clearSessionTokens,
+  onSessionExpired,
+} from '../api/session';
+import { hasPermission } from '../utils/permissions';
+import type { Permission } from '../utils/permissions';
 
 interface User {
   id: number;
@@ -18,12 +27,16 @@ interface AuthResponse {
   createdAt: string;
   updatedAt: string;
   token: string;
+  refreshToken?: string;
 }
 
 interface AuthStore {
   user: User | null;
   isAuthenticated: boolean;
   isAdmin: boolean;
+  // The token expired and could not be refreshed; the user is asked to log
+  // in again without leaving the page
+  sessionExpired: boolean;
   users: User[];
   isLoadingUsers: boolean;
   usersError: string | null;
@@ -34,6 +47,7 @@ interface AuthStore {
   getUsers: () => Promise<User[]>;
   updateUser: (userId: number, userData: UpdateUserData) => Promise<boolean>;
   deleteUser: (userId: number) => Promise<boolean>;
+  can: (permission: Permission) => boolean;
 }
 
 interface RegisterUserData {
@@ -104,6 +118,12 @@ const getInitialState = (): { user: User | null; isAuthenticated: boolean; isAdm
 
 export const useAuthStore = create<AuthStore>((set, get) => ({
   ...getInitialState(),
+  sessionExpired: false,
+
+  can: (permission: Permission) => {
+    const { isAuthenticated, user } = get();
+    return isAuthenticated && hasPermission(user?.role, permission);
+  },
 
   login: async (username: string, password: string) => {
     try {
@@ -115,10 +135,10 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
       });
       
       if (response.status === 200 && response.data) {
-        const { token, ...userData } = response.data;
+        const { token, refreshToken, ...userData } = response.data;
         
-        // Store token in localStorage
-        localStorage.setItem('authToken', token);
+        // Store tokens in localStorage
+        setSessionTokens(token, refreshToken);
         
         // Store user data
       const user = {
@@ -137,6 +157,7 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
         user,
         isAuthenticated: true,
           isAdmin: user.role === 'ADMIN',
+        sessionExpired: false,
       });
       
       return true;
@@ -156,12 +177,13 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
       user: null,
       isAuthenticated: false,
       isAdmin: false,
+      sessionExpired: false,
     });
     
     // Clear localStorage
     console.log('AuthStore - Clearing localStorage');
-    localStorage.removeItem('authToken');
-    localStorage.removeItem('user');
+    clearSessionTokens();
+    localStorage.removeItem(USER_KEY);
     
     // Redirect to login page
     console.log('AuthStore - Redirecting to login page');
@@ -173,6 +195,15 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
       const token = localStorage.getItem('authToken');
       if (!token) {
         console.log('AuthStore - No token found for checkAuth');
+        // The token was dropped after an expired session; without this the
+        // stale state sends the login page straight back to where it came from
+        localStorage.removeItem(USER_KEY);
+        set({
+          user: null,
+          isAuthenticated: false,
+          isAdmin: false,
+          sessionExpired: false,
+        });
         return false;
       }
       
@@ -187,6 +218,7 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
           user: response.data,
           isAuthenticated: true,
           isAdmin: response.data.role === 'ADMIN',
+          sessionExpired: false,
         });
         
         return true;
@@ -196,13 +228,14 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
     } catch (error) {
       console.error('AuthStore - Token validation failed:', error);
       // Clear invalid auth data
-      localStorage.removeItem('authToken');
-      localStorage.removeItem('user');
+      clearSessionTokens();
+      localStorage.removeItem(USER_KEY);
       
       set({
         user: null,
         isAuthenticated: false,
         isAdmin: false,
+        sessionExpired: false,
       });
       
       return false;
@@ -370,4 +403,35 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
       return false;
     }
   }
-})); 
\ No newline at end of file
+}));
+
+// Raised by the axios client when a refresh fails. The user stays signed in
+// on this page so unsaved work survives the re-login prompt.
+onSessionExpired(() => {
+  if (useAuthStore.getState().isAuthenticated) {
+    useAuthStore.setState({ sessionExpired: true });
+  }
+});
+
+// Keep tabs in sync: logging in, refreshing or logging out in one tab is
+// reflected in the others
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', event => {
+    if (event.key !== ACCESS_TOKEN_KEY && event.key !== USER_KEY && event.key !== null) return;
+
+    const next = getInitialState();
+    const { isAuthenticated } = useAuthStore.getState();
+    const hasStoredUser = Boolean(localStorage.getItem(USER_KEY));
+
+    if (next.isAuthenticated) {
+      console.log('AuthStore - Session updated in another tab');
+      useAuthStore.setState({ user: next.user, isAuthenticated: true, isAdmin: next.isAdmin, sessionExpired: false });
+    } else if (isAuthenticated && hasStoredUser) {
+      // Tokens gone but the user is still known: the session expired elsewhere
+      useAuthStore.setState({ sessionExpired: true });
+    } else if (isAuthenticated) {
+      console.log('AuthStore - Logged out in another tab');
+      useAuthStore.setState({ user: null, isAuthenticated: false, isAdmin: false, sessionExpired: false });
+    }
+  });
+}
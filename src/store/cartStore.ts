@@ -1,27 +1,24 @@
 import { create } from 'zustand';
-import type { Cart, Menu } from '../types';
-
-// Enhanced CartItem interface with customizations
-interface CartItem {
-  menuId: number;
-  quantity: number;
-  price: number;
-  name: string;
-  imageUrl: string;
-  menu?: Menu;
-  customizations?: Record<string, string[]>;
-  extraPrice?: number;
-  notes?: string;
-}
+import type { Cart, CartItem, Menu, OrderDiscount, Promotion } from '../types';
+import { getCartLineId } from '../utils/orderItems';
+import { getPromotionDiscounts } from '../utils/promotions';
+import { calculatePriceBreakdown } from '../utils/pricing';
+import type { PriceBreakdown } from '../utils/pricing';
 
 interface CartStore {
   cart: Cart;
-  addToCart: (menu: Menu, quantity: number, customizations?: Record<string, string[]>, extraPrice?: number) => void;
-  removeFromCart: (menuId: number) => void;
-  updateQuantity: (menuId: number, quantity: number) => void;
+  promotions: Promotion[]; // Running price rules and bundles, from PromotionAPI.getActive
+  voucher: Promotion | null; // Voucher the customer entered at checkout
+  addToCart: (menu: Menu, quantity: number, customizations?: Record<string, string[]>, extraPrice?: number, notes?: string) => void;
+  removeFromCart: (lineId: string) => void;
+  updateQuantity: (lineId: string, quantity: number) => void;
   clearCart: () => void;
   setTableId: (tableId: number) => void;
+  setPromotions: (promotions: Promotion[]) => void;
+  setVoucher: (voucher: Promotion | null) => void;
+  getDiscounts: () => OrderDiscount[];
   getTotal: () => number;
+  getBreakdown: () => PriceBreakdown;
 }
 
 const initialCart: Cart = {
@@ -34,37 +31,70 @@ const saveCartToLocalStorage = (cart: Cart) => {
   localStorage.setItem('cart', JSON.stringify(cart));
 };
 
+// Older carts were stored without line ids. Give every item its id and merge
+// lines that turn out to have the same configuration.
+const migrateCartItems = (items: Omit<CartItem, 'lineId'>[]): CartItem[] => {
+  const merged: CartItem[] = [];
+
+  items.forEach(item => {
+    const lineId = getCartLineId(item.menuId, item.customizations, item.notes);
+    const existing = merged.find(mergedItem => mergedItem.lineId === lineId);
+
+    if (existing) {
+      existing.quantity += Number(item.quantity) || 0;
+    } else {
+      merged.push({ ...item, lineId, quantity: Number(item.quantity) || 0 });
+    }
+  });
+
+  return merged.filter(item => item.quantity > 0);
+};
+
 // Load cart from local storage
 const loadCartFromLocalStorage = (): Cart => {
   const storedCart = localStorage.getItem('cart');
   if (storedCart) {
-    return JSON.parse(storedCart);
+    try {
+      const parsed = JSON.parse(storedCart) as Cart;
+      const cart = {
+        tableId: parsed.tableId || 0,
+        items: migrateCartItems(Array.isArray(parsed.items) ? parsed.items : []),
+      };
+      saveCartToLocalStorage(cart);
+      return cart;
+    } catch (error) {
+      console.error('Failed to parse cart from localStorage:', error);
+      localStorage.removeItem('cart');
+    }
   }
   return initialCart;
 };
 
 export const useCartStore = create<CartStore>((set, get) => ({
   cart: loadCartFromLocalStorage(),
+  promotions: [],
+  voucher: null,
 
-  addToCart: (menu: Menu, quantity: number, customizations?: Record<string, string[]>, extraPrice: number = 0) => {
+  addToCart: (menu: Menu, quantity: number, customizations?: Record<string, string[]>, extraPrice: number = 0, notes?: string) => {
     const { cart } = get();
+    const trimmedNotes = notes?.trim() || undefined;
+    const lineId = getCartLineId(menu.id, customizations, trimmedNotes);
     
-    // When we have customizations, we'll treat it as a new item even if the menu is the same
-    // This allows users to have multiple versions of the same menu item with different customizations
-    const existingItemIndex = customizations 
-      ? -1 // Always add as new item if we have customizations
-      : cart.items.findIndex(item => item.menuId === menu.id && !item.customizations);
+    // Identical configurations (same menu, customizations and notes) share a line,
+    // different configurations of the same menu get their own line
+    const existingItemIndex = cart.items.findIndex(item => item.lineId === lineId);
 
     if (existingItemIndex >= 0) {
-      // Update existing item (only for non-customized items)
-      const updatedItems = [...cart.items];
-      updatedItems[existingItemIndex].quantity += quantity;
+      // Update existing line
+      const updatedItems = cart.items.map((item, index) =>
+        index === existingItemIndex ? { ...item, quantity: item.quantity + quantity } : item
+      );
       const updatedCart = { ...cart, items: updatedItems };
       saveCartToLocalStorage(updatedCart);
       set({ cart: updatedCart });
       
       // Dispatch custom event for cart animation
-      const event = new CustomEvent('cartUpdated', { detail: { action: 'update', menuId: menu.id, quantity } });
+      const event = new CustomEvent('cartUpdated', { detail: { action: 'update', menuId: menu.id, lineId, quantity } });
       window.dispatchEvent(event);
     } else {
       // Add new item
@@ -78,6 +108,7 @@ export const useCartStore = create<CartStore>((set, get) => ({
       console.log(`Price calculation: ${numericPrice} + ${numericExtraPrice} = ${finalPrice}`);
       
       const newItem: CartItem = {
+        lineId,
         menuId: menu.id,
         quantity,
         price: finalPrice,
@@ -86,6 +117,7 @@ export const useCartStore = create<CartStore>((set, get) => ({
         menu,
         customizations,
         extraPrice: numericExtraPrice,
+        notes: trimmedNotes,
       };
       
       console.log(`Item added to cart with final price: ${newItem.price}`);
@@ -94,34 +126,35 @@ export const useCartStore = create<CartStore>((set, get) => ({
       set({ cart: updatedCart });
       
       // Dispatch custom event for cart animation
-      const event = new CustomEvent('cartUpdated', { detail: { action: 'add', menuId: menu.id, quantity } });
+      const event = new CustomEvent('cartUpdated', { detail: { action: 'add', menuId: menu.id, lineId, quantity } });
       window.dispatchEvent(event);
     }
   },
 
-  removeFromCart: (menuId: number) => {
+  removeFromCart: (lineId: string) => {
     const { cart } = get();
+    const removedItem = cart.items.find(item => item.lineId === lineId);
     const updatedCart = { 
       ...cart, 
-      items: cart.items.filter(item => item.menuId !== menuId) 
+      items: cart.items.filter(item => item.lineId !== lineId) 
     };
     saveCartToLocalStorage(updatedCart);
     set({ cart: updatedCart });
     
     // Dispatch custom event for cart animation
-    const event = new CustomEvent('cartUpdated', { detail: { action: 'remove', menuId } });
+    const event = new CustomEvent('cartUpdated', { detail: { action: 'remove', menuId: removedItem?.menuId, lineId } });
     window.dispatchEvent(event);
   },
 
-  updateQuantity: (menuId: number, quantity: number) => {
+  updateQuantity: (lineId: string, quantity: number) => {
     const { cart } = get();
     if (quantity <= 0) {
-      get().removeFromCart(menuId);
+      get().removeFromCart(lineId);
       return;
     }
 
     const updatedItems = cart.items.map(item =>
-      item.menuId === menuId ? { ...item, quantity } : item
+      item.lineId === lineId ? { ...item, quantity } : item
     );
     const updatedCart = { ...cart, items: updatedItems };
     saveCartToLocalStorage(updatedCart);
@@ -132,7 +165,8 @@ export const useCartStore = create<CartStore>((set, get) => ({
     const { cart } = get();
     const updatedCart = { ...cart, items: [] };
     saveCartToLocalStorage(updatedCart);
-    set({ cart: updatedCart });
+    // A voucher is redeemed with the order it was entered for
+    set({ cart: updatedCart, voucher: null });
   },
 
   setTableId: (tableId: number) => {
@@ -142,15 +176,16 @@ export const useCartStore = create<CartStore>((set, get) => ({
     set({ cart: updatedCart });
   },
 
-  getTotal: () => {
-    const { cart } = get();
-    // Log the cart items and their prices for debugging
-    console.log('Cart items:', cart.items.map(item => ({ 
-      name: item.menu?.name, 
-      price: item.price, 
-      qty: item.quantity, 
-      total: Number(item.price) * Number(item.quantity) 
-    })));
-    return cart.items.reduce((total, item) => total + (Number(item.price) * Number(item.quantity)), 0);
+  setPromotions: (promotions: Promotion[]) => set({ promotions }),
+
+  setVoucher: (voucher: Promotion | null) => set({ voucher }),
+
+  getDiscounts: () => {
+    const { cart, promotions, voucher } = get();
+    return getPromotionDiscounts(cart.items, promotions, voucher);
   },
-})); 
\ No newline at end of file
+
+  getTotal: () => get().getBreakdown().total,
+
+  getBreakdown: () => calculatePriceBreakdown(get().cart.items, undefined, get().getDiscounts()),
+}));
@@ -1,2 +1,4 @@
 export { useCartStore } from './cartStore';
-export { useAuthStore } from './authStore'; 
\ No newline at end of file
+export { useAuthStore } from './authStore';
+export { useOrderSessionStore, getOrderTrackingPath } from './orderSessionStore';
+export type { SessionOrder } from './orderSessionStore';
\ No newline at end of file
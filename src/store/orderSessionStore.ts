@@ -0,0 +1,77 @@
+import { create } from 'zustand';
+
+// Summary of an order placed from this device, used by the tracking page
+export interface SessionOrder {
+  id: number;
+  tableId: number;
+  tableToken?: string; // QR token the order was placed with, to get back to the menu
+  trackingToken?: string; // Lets this device track and cancel the order
+  dailyOrderId?: number;
+  totalPrice: number;
+  itemCount: number;
+  createdAt: string;
+}
+
+/**
+ * Link to the tracking page of an order. The tracking token travels in the
+ * link so it also works on another device.
+ */
+export const getOrderTrackingPath = (order: Pick<SessionOrder, 'id' | 'trackingToken'>): string =>
+  `/order/${order.id}/track${order.trackingToken ? `?k=${encodeURIComponent(order.trackingToken)}` : ''}`;
+
+interface OrderSessionStore {
+  orders: SessionOrder[];
+  addOrder: (order: SessionOrder) => void;
+  updateOrder: (id: number, patch: Partial<SessionOrder>) => void;
+  getOrdersForTable: (tableId: number) => SessionOrder[];
+}
+
+const STORAGE_KEY = 'orderSession';
+// A dining session: orders older than this are forgotten
+const SESSION_DURATION_MS = 12 * 60 * 60 * 1000;
+
+const saveOrdersToLocalStorage = (orders: SessionOrder[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(orders));
+};
+
+const isFresh = (order: SessionOrder) =>
+  Date.now() - new Date(order.createdAt).getTime() < SESSION_DURATION_MS;
+
+const loadOrdersFromLocalStorage = (): SessionOrder[] => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return [];
+
+  try {
+    const parsed = JSON.parse(stored);
+    const orders = (Array.isArray(parsed) ? parsed : []).filter(
+      (order: SessionOrder) => typeof order?.id === 'number' && isFresh(order)
+    );
+    saveOrdersToLocalStorage(orders);
+    return orders;
+  } catch (error) {
+    console.error('Failed to parse order session from localStorage:', error);
+    localStorage.removeItem(STORAGE_KEY);
+    return [];
+  }
+};
+
+export const useOrderSessionStore = create<OrderSessionStore>((set, get) => ({
+  orders: loadOrdersFromLocalStorage(),
+
+  addOrder: (order: SessionOrder) => {
+    const orders = [order, ...get().orders.filter(existing => existing.id !== order.id)].filter(isFresh);
+    saveOrdersToLocalStorage(orders);
+    set({ orders });
+  },
+
+  updateOrder: (id: number, patch: Partial<SessionOrder>) => {
+    if (!get().orders.some(order => order.id === id)) return;
+    const orders = get().orders.map(order => (order.id === id ? { ...order, ...patch } : order));
+    saveOrdersToLocalStorage(orders);
+    set({ orders });
+  },
+
+  getOrdersForTable: (tableId: number) => {
+    return get().orders.filter(order => order.tableId === tableId && isFresh(order));
+  },
+}));
@@ -9,6 +9,15 @@ export interface MenuCustomizationOption {
     name: string;
     price: number; // Additional price for this option, 0 if no extra charge
   }[];
+  minSelections?: number; // Checkbox only; defaults to 1 when required, else 0
+  maxSelections?: number; // Checkbox only; no limit when omitted
+  freeSelections?: number; // The first N choices picked are not charged, e.g. "first 2 toppings free"
+  visibleWhen?: MenuCustomizationCondition; // Only shown when another option has one of these choices
+}
+
+export interface MenuCustomizationCondition {
+  optionId: string;
+  selectionIds: string[];
 }
 
 export interface Menu {
@@ -24,45 +33,20 @@ export interface Menu {
 }
 
 // Order Types
-export interface OrderItem {
-  menuId: number;
-  quantity: number;
-  price: number;
-  menu?: Menu;
-  id?: number;
-  customizations?: Record<string, string[]>;
-  extraPrice?: number;
-}
+export * from './order';
 
-export interface Order {
-  id?: number;
-  dailyOrderId?: number;
-  tableId: number;
-  customerName?: string;
-  orderItems: OrderItem[];
-  totalPrice: number;
-  status: OrderStatus;
-  isProcessed?: boolean;
-  createdAt?: string;
-  updatedAt?: string;
-}
+// Payment Types
+export * from './payment';
 
-export enum OrderStatus {
-  PENDING = 'PENDING',
-  PROCESSING = 'PROCESSING',
-  COMPLETED = 'COMPLETED',
-  CANCELLED = 'CANCELLED'
-}
+// Promotion Types
+export * from './promotion';
 
-// Helper function to check if an order can be cancelled by a customer
-export const canCustomerCancelOrder = (status: OrderStatus): boolean => {
-  // Only PENDING orders can be cancelled by customers
-  // Once an order is being processed, completed, or already cancelled, it cannot be cancelled
-  return status === OrderStatus.PENDING;
-};
+// Reservation Types
+export * from './reservation';
 
-// Note: The backend supports PENDING, COMPLETED, and CANCELLED statuses
-// isProcessed flag indicates if the kitchen has started preparing the order
+// Service Request Types
+export * from './serviceRequest';
+import type { OrderItem } from './order';
 
 // Table Types
 export interface Table {
@@ -71,16 +55,73 @@ export interface Table {
   code: string;
   capacity: number;
   status: TableStatus;
+  statusSource?: TableStatusSource; // Who made the last status change
+  statusChangedAt?: string;
+  qrToken?: string; // Opaque token printed in the QR code; rotating it invalidates old prints
+  // Floor plan placement; tables without a position are laid out automatically
+  area?: string; // Zone, e.g. "Indoor", "Teras", "Lantai 2"
+  position?: TablePosition;
+  shape?: TableShape;
+  rotation?: number; // Degrees clockwise
+}
+
+export type TableShape = 'square' | 'rectangle' | 'round';
+
+// Centre of the table in floor-plan units (see utils/floorPlan.ts)
+export interface TablePosition {
+  x: number;
+  y: number;
 }
 
+// Value encoded in a table's QR code: only the rotatable token. The table
+// code and numeric id are permanent, so a copied print could never be revoked.
+export const getTableQrValue = (table: Pick<Table, 'qrToken'>): string | undefined => {
+  return table.qrToken || undefined;
+};
+
 export enum TableStatus {
   AVAILABLE = 'available',
   OCCUPIED = 'occupied',
   RESERVED = 'reserved',
+  CLEANING = 'cleaning',
+}
+
+// 'auto' changes come from orders (see utils/tableLifecycle.ts), 'manual' ones from staff
+export type TableStatusSource = 'auto' | 'manual';
+
+// One entry of a table's status audit trail
+export interface TableStatusChange {
+  id: number;
+  tableId: number;
+  from: TableStatus;
+  to: TableStatus;
+  source: TableStatusSource;
+  reason?: string;
+  changedBy?: string; // Username for manual changes
+  changedAt: string;
+}
+
+// The one device that runs the table lifecycle. It re-claims the role on
+// every sweep; once it has not been seen for a while another device takes over.
+export interface TableLifecycleRunner {
+  deviceId: string;
+  deviceName: string; // Who is signed in there, e.g. "kasir1"
+  lastSeenAt: string;
+}
+
+// Tables pushed together for one party. Orders stay on the table they were
+// placed at and are billed together; splitting the group ends it.
+export interface TableGroup {
+  id: number;
+  name?: string;
+  tableIds: number[];
+  primaryTableId: number; // Table the combined bill is printed for
+  createdAt: string;
 }
 
 // Cart Types
 export interface CartItem extends OrderItem {
+  lineId: string; // Stable id derived from menu + customizations + notes
   name: string;
   imageUrl: string;
   notes?: string;
@@ -1,3 +1,9 @@
+import type { Menu } from './index';
+import type { OrderDiscount } from './promotion';
+
+// Canonical order model. Everything the API returns is normalized to these
+// shapes by src/api/validators.ts; import them via '../types'.
+
 export enum OrderStatus {
   PENDING = 'PENDING',
   PROCESSING = 'PROCESSING',
@@ -5,48 +11,110 @@ export enum OrderStatus {
   CANCELLED = 'CANCELLED'
 }
 
+// Note: The backend supports PENDING, COMPLETED, and CANCELLED statuses
+// isProcessed flag indicates if the kitchen has started preparing the order
+
+// Helper function to check if an order can be cancelled by a customer
+export const canCustomerCancelOrder = (status: OrderStatus): boolean => {
+  // Only PENDING orders can be cancelled by customers
+  // Once an order is being processed, completed, or already cancelled, it cannot be cancelled
+  return status === OrderStatus.PENDING;
+};
+
+export interface OrderItemCustomization {
+  optionId: string;
+  selections: string[]; // Array of selected option IDs
+}
+
 // For creating new orders
 export interface CreateOrderItem {
   menuId: number;
   quantity: number;
   price: number;
-  customizations?: {
-    optionId: string;
-    selections: string[]; // Array of selected option IDs
-  }[];
+  customizations?: OrderItemCustomization[];
+  extraPrice?: number; // Sum of the customization surcharges already included in price
+  notes?: string; // Free-text request for the kitchen, e.g. "no onion"
 }
 
-// For received orders from API
-export interface OrderItem extends CreateOrderItem {
+// Order line as returned by the API, and the base of a cart line
+export interface OrderItem {
   id?: number;
-  menu?: {
-    name: string;
-    price: number;
-  };
+  menuId: number;
+  quantity: number;
+  price: number;
+  // The API embeds at least the menu name and price
+  menu?: Pick<Menu, 'name' | 'price'> & Partial<Menu>;
+  // Cart items use the Record shape; orders returned by the API may carry
+  // the serialized { optionId, selections }[] shape instead
+  customizations?: Record<string, string[]> | OrderItemCustomization[];
+  extraPrice?: number;
+  notes?: string;
 }
 
-// For creating new orders
+// Body of POST /orders
 export interface CreateOrder {
   tableId: number;
+  // QR token the customer scanned; the server checks it belongs to tableId
+  tableToken: string;
   customerName: string;
-  orderItems: CreateOrderItem[];
+  items: CreateOrderItem[];
   totalPrice: number;
   status: OrderStatus;
+  isProcessed?: boolean;
+  discounts?: OrderDiscount[]; // Promotions priced into totalPrice
+  voucherCode?: string; // Lets the backend count the redemption
 }
 
-// For received orders from API
 export interface Order {
   id: number;
-  dailyOrderId: number;
+  dailyOrderId?: number;
   tableId: number;
   customerName?: string;
   orderItems: OrderItem[];
   totalPrice: number;
+  discounts: OrderDiscount[];
   status: OrderStatus;
-  createdAt: string;
-  updatedAt: string;
+  isProcessed: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+  // Secret that lets the customer who placed the order track and cancel it;
+  // only sent in the response to POST /orders
+  trackingToken?: string;
 }
 
+// Whole order moved to another table, or some of its lines split off
+export type OrderMoveKind = 'order' | 'items';
+
+// Order line to move, by its index in `orderItems`
+export interface OrderItemMove {
+  itemIndex: number;
+  quantity: number;
+}
+
+// One entry of an order's move history, recorded by the backend
+export interface OrderMove {
+  id: number;
+  kind: OrderMoveKind;
+  orderId: number;
+  fromTableId: number;
+  toTableId: number;
+  targetOrderId?: number; // Order that received the lines of an 'items' move
+  items: { menuId: number; menuName: string; quantity: number }[];
+  reason?: string;
+  movedBy?: string;
+  movedAt: string;
+}
+
+export interface OrderHistoryItem {
+  menuId: number;
+  menuName: string;
+  quantity: number;
+  price: number;
+  customizations?: OrderItemCustomization[] | Record<string, string[]>;
+  notes?: string;
+}
+
+// Completed order archived by the backend
 export interface OrderHistory {
   id: number;
   orderId: number;
@@ -55,14 +123,10 @@ export interface OrderHistory {
   tableId: number;
   tableCode: string;
   tableName: string;
-  totalPrice: string;
-  items: {
-    menuId: number;
-    menuName: string;
-    quantity: number;
-    price: number;
-  }[];
-  status: 'COMPLETED';
+  totalPrice: number;
+  discounts: OrderDiscount[];
+  items: OrderHistoryItem[];
+  status: OrderStatus;
   completedAt: string;
   createdAt: string;
   updatedAt: string;
@@ -71,4 +135,4 @@ export interface OrderHistory {
 export interface DailyOrderCounter {
   date: string; // Format: YYYY-MM-DD
   counter: number;
-} 
\ No newline at end of file
+}
@@ -0,0 +1,55 @@
+// Payment model. Payments are recorded per table visit and allocated to the
+// orders they settle, so one payment can cover several orders and one order
+// can be paid by several people.
+
+export enum PaymentMethod {
+  CASH = 'CASH',
+  QRIS = 'QRIS',
+  CARD = 'CARD',
+  EWALLET = 'EWALLET'
+}
+
+export enum PaymentStatus {
+  UNPAID = 'UNPAID',
+  PARTIAL = 'PARTIAL',
+  PAID = 'PAID'
+}
+
+// The part of a payment that goes to one order
+export interface PaymentAllocation {
+  orderId: number;
+  amount: number;
+  itemIndexes?: number[]; // Order lines settled by this payment when split by item
+}
+
+// What the cashier submits
+export interface PaymentRequest {
+  tableId: number;
+  method: PaymentMethod;
+  amount: number; // Sum of the allocations
+  allocations: PaymentAllocation[];
+  tendered?: number; // Cash handed over; required for CASH
+  payerLabel?: string; // e.g. "Orang 2" when a bill is split
+  // One per payment attempt, reused when it is retried so the guest is never
+  // charged twice for a request whose response was lost
+  idempotencyKey: string;
+}
+
+// A payment the provider accepted
+export interface Payment extends Omit<PaymentRequest, 'idempotencyKey'> {
+  id: string;
+  provider: string; // Id of the PaymentProvider that charged it
+  reference?: string; // Provider transaction id, e.g. a QRIS reference
+  change: number; // Cash returned to the customer; 0 for other methods
+  createdAt: string;
+}
+
+export interface OrderPaymentSummary {
+  orderId: number;
+  totalPrice: number;
+  paidAmount: number;
+  remaining: number;
+  status: PaymentStatus;
+  methods: PaymentMethod[];
+  paidItemIndexes: number[];
+}
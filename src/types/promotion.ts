@@ -0,0 +1,58 @@
+// Promotions. Vouchers are redeemed with a code at checkout, price rules
+// discount menus automatically while their schedule is running, and bundles
+// discount a reward menu once enough qualifying menus are ordered.
+
+export enum PromotionType {
+  VOUCHER = 'VOUCHER',
+  PRICE_RULE = 'PRICE_RULE',
+  BUNDLE = 'BUNDLE'
+}
+
+export type DiscountType = 'percent' | 'amount';
+
+// Every field narrows the schedule; an empty schedule always applies
+export interface PromotionSchedule {
+  daysOfWeek?: number[]; // 0 = Sunday, in restaurant time (WIB)
+  startTime?: string; // "HH:mm", restaurant time (WIB)
+  endTime?: string; // "HH:mm"; before startTime for windows past midnight
+  startDate?: string; // "YYYY-MM-DD" in restaurant time, inclusive
+  endDate?: string; // "YYYY-MM-DD", inclusive
+}
+
+export interface Promotion {
+  id: number;
+  name: string; // Shown to customers, e.g. "Happy Hour Es Teh"
+  type: PromotionType;
+  isActive: boolean;
+  discountType: DiscountType;
+  discountValue: number; // Percent, or rupiah per unit (per order for order-wide vouchers)
+  // Menus the promotion applies to (bundles: the menus to buy). A voucher
+  // without targets discounts the whole order; a price rule without targets
+  // discounts every menu.
+  menuIds: number[];
+  categories: string[];
+  schedule?: PromotionSchedule;
+  code?: string; // Vouchers only, matched case-insensitively
+  minSubtotal?: number; // Vouchers only
+  usageLimit?: number; // Vouchers only; unlimited when omitted
+  usageCount: number;
+  buyQuantity?: number; // Bundles: qualifying units per reward
+  rewardMenuId?: number; // Bundles: the discounted menu
+  rewardQuantity?: number; // Bundles: discounted units per completed set
+}
+
+// Body of POST/PUT /promotions
+export type PromotionInput = Omit<Promotion, 'id' | 'usageCount'>;
+
+// A discount as priced by utils/pricing.ts and stored on the order, so the
+// order detail and receipts can show the same breakdown the customer saw
+export interface OrderDiscount {
+  id: string;
+  label: string;
+  type: DiscountType;
+  value: number; // Percent, or rupiah (per unit for item discounts)
+  scope: 'item' | 'order';
+  menuIds?: number[]; // Item discounts only; every line when omitted
+  maxQuantity?: number; // Item discounts only; units discounted across all lines
+  promotionId?: number;
+}
@@ -0,0 +1,47 @@
+// Reservations and the walk-in waitlist. A reservation holds one table for a
+// time slot; waitlist entries are walk-in parties waiting for any free table.
+
+export enum ReservationStatus {
+  BOOKED = 'BOOKED',
+  SEATED = 'SEATED',
+  COMPLETED = 'COMPLETED',
+  CANCELLED = 'CANCELLED',
+  NO_SHOW = 'NO_SHOW'
+}
+
+export interface Reservation {
+  id: number;
+  tableId: number;
+  guestName: string;
+  phone?: string;
+  partySize: number;
+  startTime: string; // ISO timestamp
+  endTime: string; // ISO timestamp, exclusive
+  status: ReservationStatus;
+  notes?: string;
+  createdAt?: string;
+}
+
+// Body of POST/PUT /reservations
+export type ReservationInput = Omit<Reservation, 'id' | 'status' | 'createdAt'>;
+
+export enum WaitlistStatus {
+  WAITING = 'WAITING',
+  SEATED = 'SEATED',
+  LEFT = 'LEFT'
+}
+
+export interface WaitlistEntry {
+  id: number;
+  guestName: string;
+  phone?: string;
+  partySize: number;
+  status: WaitlistStatus;
+  notes?: string;
+  tableId?: number; // Set once seated
+  createdAt: string;
+  seatedAt?: string;
+}
+
+// Body of POST /waitlist
+export type WaitlistEntryInput = Pick<WaitlistEntry, 'guestName' | 'phone' | 'partySize' | 'notes'>;
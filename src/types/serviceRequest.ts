@@ -0,0 +1,38 @@
+// Requests customers send from their table besides orders: calling a
+// waiter, asking for the bill or for something brought to the table.
+
+export enum ServiceRequestType {
+  CALL_WAITER = 'CALL_WAITER',
+  REQUEST_BILL = 'REQUEST_BILL',
+  CUTLERY = 'CUTLERY',
+  NAPKINS = 'NAPKINS',
+  CUSTOM = 'CUSTOM'
+}
+
+// OPEN until a staff member takes it, ACKNOWLEDGED while they are on it
+export enum ServiceRequestStatus {
+  OPEN = 'OPEN',
+  ACKNOWLEDGED = 'ACKNOWLEDGED',
+  RESOLVED = 'RESOLVED'
+}
+
+export interface ServiceRequest {
+  id: number;
+  tableId: number;
+  type: ServiceRequestType;
+  status: ServiceRequestStatus;
+  message?: string; // Free text for CUSTOM requests
+  createdAt: string;
+  acknowledgedAt?: string;
+  acknowledgedBy?: string;
+  resolvedAt?: string;
+  resolvedBy?: string;
+}
+
+// Body of POST /service-requests
+export interface ServiceRequestInput {
+  tableId: number;
+  tableToken: string; // QR token of the table, checked against tableId by the server
+  type: ServiceRequestType;
+  message?: string;
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { ESCPOS, encodeReceipt, toPrinterText } from './escpos';
+import type { ReceiptDocument } from './receipt';
+import { RECEIPT_COLUMNS } from './receipt';
+
+const COMMANDS = Object.entries(ESCPOS) as [string, readonly number[]][];
+
+// Printable dump of a byte stream: commands as [NAME], text as is, LF as a
+// line break. Anything unexpected shows up as a hex byte.
+const describeBytes = (bytes: Uint8Array): string => {
+  let out = '';
+  for (let i = 0; i < bytes.length; ) {
+    const command = COMMANDS.find(([, sequence]) => sequence.every((byte, offset) => bytes[i + offset] === byte));
+    if (command) {
+      out += `[${command[0]}]`;
+      i += command[1].length;
+    } else if (bytes[i] === 0x0a) {
+      out += '\n';
+      i++;
+    } else if (bytes[i] >= 0x20 && bytes[i] <= 0x7e) {
+      out += String.fromCharCode(bytes[i]);
+      i++;
+    } else {
+      out += `<${bytes[i].toString(16).padStart(2, '0')}>`;
+      i++;
+    }
+  }
+  return out;
+};
+
+const customerReceipt: ReceiptDocument = {
+  kind: 'receipt',
+  columns: RECEIPT_COLUMNS[58],
+  lines: [
+    { type: 'text', text: 'Kedai Matmoen', align: 'center', bold: true, large: true },
+    { type: 'text', text: 'Jl. Merdeka No. 1, Bandung', align: 'center' },
+    { type: 'divider' },
+    { type: 'row', left: 'Pesanan #12', right: 'Meja 4', bold: true },
+    { type: 'row', left: 'Waktu', right: '12/03/2025 10.00' },
+    { type: 'divider' },
+    { type: 'row', left: '2x Nasi Goreng Spesial Pedas Level 5', right: '50.000' },
+    { type: 'text', text: '  Topping: Telur, Kerupuk, Ayam Suwir' },
+    { type: 'text', text: '  Catatan: tanpa bawang' },
+    { type: 'row', left: '1x Crème brûlée', right: '18.000' },
+    { type: 'divider' },
+    { type: 'row', left: 'Subtotal', right: '68.000' },
+    { type: 'row', left: 'Diskon – Happy Hour', right: '-6.800' },
+    { type: 'row', left: 'TOTAL', right: 'Rp 61.200', bold: true },
+    { type: 'divider' },
+    { type: 'text', text: 'Terima kasih atas kunjungan Anda!', align: 'center' },
+  ],
+};
+
+const kitchenTicket: ReceiptDocument = {
+  kind: 'kitchen',
+  columns: RECEIPT_COLUMNS[80],
+  lines: [
+    { type: 'text', text: '#12', align: 'center', bold: true, large: true },
+    { type: 'text', text: 'Meja 4', align: 'center', bold: true, large: true },
+    { type: 'divider' },
+    { type: 'text', text: '2x Nasi Goreng Spesial Pedas', bold: true, large: true },
+    { type: 'text', text: '  Level: 5' },
+    { type: 'text', text: '  ** tanpa bawang', bold: true },
+    { type: 'text', text: '1×Es Teh', bold: true, large: true },
+  ],
+};
+
+describe('toPrinterText', () => {
+  it('keeps printable ASCII', () => {
+    expect(toPrinterText('Nasi Goreng 2x @25.000')).toBe('Nasi Goreng 2x @25.000');
+  });
+
+  it('strips accents and swaps typographic characters', () => {
+    expect(toPrinterText('Crème brûlée – “spesial” ‘pedas’ 2×')).toBe('Creme brulee - "spesial" \'pedas\' 2x');
+  });
+
+  it('turns the no-break space of formatted currency into a space', () => {
+    expect(toPrinterText('Rp\u00a025.000')).toBe('Rp 25.000');
+  });
+
+  it('replaces anything the code page cannot print', () => {
+    expect(toPrinterText('Es Teh 5€')).toBe('Es Teh 5?');
+  });
+});
+
+describe('encodeReceipt', () => {
+  it('encodes a minimal receipt byte for byte', () => {
+    const receipt: ReceiptDocument = { kind: 'receipt', columns: 8, lines: [{ type: 'text', text: 'Hi' }] };
+    expect(Array.from(encodeReceipt(receipt, { feedLines: 1 }))).toEqual([
+      0x1b, 0x40, // ESC @
+      0x1b, 0x74, 0, // PC437
+      0x48, 0x69, 0x0a, // "Hi" LF
+      0x0a, // feed
+      0x1d, 0x56, 0x42, 0x00, // partial cut
+    ]);
+  });
+
+  it('renders a 58mm customer receipt', () => {
+    expect(describeBytes(encodeReceipt(customerReceipt))).toMatchSnapshot();
+  });
+
+  it('renders an 80mm kitchen ticket', () => {
+    expect(describeBytes(encodeReceipt(kitchenTicket))).toMatchSnapshot();
+  });
+
+  it('opens the cash drawer before printing', () => {
+    const output = describeBytes(encodeReceipt(customerReceipt, { openCashDrawer: true }));
+    expect(output.startsWith('[INIT][CODE_PAGE_PC437][DRAWER_KICK]')).toBe(true);
+  });
+
+  it('can skip the feed and the cut', () => {
+    const output = describeBytes(encodeReceipt(kitchenTicket, { feedLines: 0, cut: false }));
+    expect(output.endsWith('[BOLD_OFF]')).toBe(true);
+    expect(output).not.toContain('[CUT_PARTIAL]');
+  });
+
+  it('never sends bytes outside ASCII', () => {
+    const bytes = encodeReceipt(customerReceipt);
+    expect(Array.from(bytes).every(byte => byte < 0x80)).toBe(true);
+    expect(describeBytes(bytes)).not.toMatch(/<[0-9a-f]{2}>/);
+  });
+
+  it('keeps every printed line within the paper width', () => {
+    [customerReceipt, kitchenTicket].forEach(receipt => {
+      const text = describeBytes(encodeReceipt(receipt)).replace(/\[[A-Z_0-9]+\]/g, '');
+      text.split('\n').forEach(line => expect(line.length).toBeLessThanOrEqual(receipt.columns));
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import type { ReceiptDocument, ReceiptLine } from './receipt';
+import { formatReceiptRow, wrapText } from './receipt';
+
+// Raw ESC/POS encoder for 58/80mm thermal printers (Epson TM and the many
+// compatible Chinese models). Output is plain bytes, ready for WebUSB or
+// Web Serial.
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+export const ESCPOS = {
+  INIT: [ESC, 0x40], // ESC @
+  ALIGN_LEFT: [ESC, 0x61, 0],
+  ALIGN_CENTER: [ESC, 0x61, 1],
+  ALIGN_RIGHT: [ESC, 0x61, 2],
+  BOLD_ON: [ESC, 0x45, 1],
+  BOLD_OFF: [ESC, 0x45, 0],
+  SIZE_NORMAL: [GS, 0x21, 0x00],
+  SIZE_DOUBLE: [GS, 0x21, 0x11], // Double width and height
+  CODE_PAGE_PC437: [ESC, 0x74, 0],
+  CUT_PARTIAL: [GS, 0x56, 0x42, 0x00], // Feed to the cutter, then partial cut
+  DRAWER_KICK: [ESC, 0x70, 0, 25, 250], // Pulse pin 2: opens the cash drawer
+} as const;
+
+export interface EscPosOptions {
+  feedLines?: number; // Blank lines before cutting
+  cut?: boolean;
+  openCashDrawer?: boolean;
+}
+
+/**
+ * Printers only have single-byte code pages: strip accents and replace
+ * anything else outside printable ASCII
+ */
+export const toPrinterText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/\u00a0/g, ' ') // Intl currency formatting uses no-break spaces
+    .replace(/\u00d7/g, 'x')
+    .replace(/[^\x20-\x7e]/g, '?');
+
+const encodeText = (text: string): number[] => Array.from(toPrinterText(text), char => char.charCodeAt(0));
+
+const alignCommand = (align: 'left' | 'center' | 'right' = 'left') =>
+  align === 'center' ? ESCPOS.ALIGN_CENTER : align === 'right' ? ESCPOS.ALIGN_RIGHT : ESCPOS.ALIGN_LEFT;
+
+const encodeLine = (line: ReceiptLine, columns: number): number[] => {
+  const bytes: number[] = [];
+  const writeRows = (rows: string[]) => rows.forEach(row => bytes.push(...encodeText(row), LF));
+
+  if (line.type === 'divider') {
+    writeRows(['-'.repeat(columns)]);
+    return bytes;
+  }
+
+  if (line.bold) bytes.push(...ESCPOS.BOLD_ON);
+
+  if (line.type === 'row') {
+    writeRows(formatReceiptRow(toPrinterText(line.left), toPrinterText(line.right), columns));
+  } else {
+    // Double-size text takes two columns per character
+    const width = line.large ? Math.floor(columns / 2) : columns;
+    if (line.align && line.align !== 'left') bytes.push(...alignCommand(line.align));
+    if (line.large) bytes.push(...ESCPOS.SIZE_DOUBLE);
+    writeRows(wrapText(toPrinterText(line.text), width));
+    if (line.large) bytes.push(...ESCPOS.SIZE_NORMAL);
+    if (line.align && line.align !== 'left') bytes.push(...ESCPOS.ALIGN_LEFT);
+  }
+
+  if (line.bold) bytes.push(...ESCPOS.BOLD_OFF);
+  return bytes;
+};
+
+/**
+ * Encode a receipt as an ESC/POS byte stream
+ */
+export const encodeReceipt = (receipt: ReceiptDocument, options: EscPosOptions = {}): Uint8Array => {
+  const { feedLines = 4, cut = true, openCashDrawer = false } = options;
+  const bytes: number[] = [...ESCPOS.INIT, ...ESCPOS.CODE_PAGE_PC437];
+
+  if (openCashDrawer) bytes.push(...ESCPOS.DRAWER_KICK);
+  receipt.lines.forEach(line => bytes.push(...encodeLine(line, receipt.columns)));
+  for (let i = 0; i < feedLines; i++) bytes.push(LF);
+  if (cut) bytes.push(...ESCPOS.CUT_PARTIAL);
+
+  return new Uint8Array(bytes);
+};
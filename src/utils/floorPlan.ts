@@ -0,0 +1,116 @@
+import type { Order, Table, TablePosition, TableShape } from '../types';
+import { OrderStatus, TableStatus } from '../types';
+
+// Geometry and colours for the table floor plan. Positions are stored in
+// floor-plan units on a fixed canvas so the plan scales with the screen.
+
+export const FLOOR_PLAN_WIDTH = 1000;
+export const FLOOR_PLAN_HEIGHT = 640;
+export const FLOOR_PLAN_GRID = 20;
+
+export const DEFAULT_AREAS = ['Indoor', 'Teras', 'Lantai 2'];
+
+export const TABLE_SHAPE_LABELS: Record<TableShape, string> = {
+  square: 'Persegi',
+  rectangle: 'Persegi panjang',
+  round: 'Bundar',
+};
+
+// Open orders older than these (minutes) turn the table ring orange, then red
+export const ORDER_AGE_WARNING = 20;
+export const ORDER_AGE_LATE = 45;
+
+export const getTableArea = (table: Table): string => table.area?.trim() || DEFAULT_AREAS[0];
+
+/**
+ * Areas to show as tabs: the defaults plus any custom area already in use
+ */
+export const getFloorAreas = (tables: Table[]): string[] => [
+  ...new Set([...DEFAULT_AREAS, ...tables.map(getTableArea)]),
+];
+
+// Small tables default to round, large ones to long tables
+export const getTableShape = (table: Table): TableShape =>
+  table.shape ?? (table.capacity <= 2 ? 'round' : table.capacity <= 4 ? 'square' : 'rectangle');
+
+export const getTableSize = (table: Table): { width: number; height: number } => {
+  const seats = Math.min(Math.max(table.capacity, 1), 12);
+  switch (getTableShape(table)) {
+    case 'round': {
+      const diameter = 48 + seats * 6;
+      return { width: diameter, height: diameter };
+    }
+    case 'rectangle':
+      return { width: 40 + Math.ceil(seats / 2) * 24, height: 64 };
+    default: {
+      const side = 56 + seats * 4;
+      return { width: side, height: side };
+    }
+  }
+};
+
+export const snapToGrid = (value: number): number => Math.round(value / FLOOR_PLAN_GRID) * FLOOR_PLAN_GRID;
+
+/**
+ * Keep a table centre inside the canvas
+ */
+export const clampPosition = (position: TablePosition, table: Table): TablePosition => {
+  const { width, height } = getTableSize(table);
+  const margin = Math.max(width, height) / 2;
+  return {
+    x: Math.min(Math.max(position.x, margin), FLOOR_PLAN_WIDTH - margin),
+    y: Math.min(Math.max(position.y, margin), FLOOR_PLAN_HEIGHT - margin),
+  };
+};
+
+/**
+ * Where a table sits. Tables that were never placed are lined up in a grid,
+ * in the order given, so a fresh plan is still readable.
+ */
+export const getTablePosition = (table: Table, index: number): TablePosition => {
+  if (table.position) return table.position;
+
+  const columns = 7;
+  const cell = 130;
+  return clampPosition(
+    { x: 80 + (index % columns) * cell, y: 80 + Math.floor(index / columns) * cell },
+    table
+  );
+};
+
+export const isOpenOrder = (order: Order): boolean =>
+  order.status === OrderStatus.PENDING || order.status === OrderStatus.PROCESSING;
+
+export const getOpenOrdersByTable = (orders: Order[]): Record<number, Order[]> =>
+  orders.filter(isOpenOrder).reduce<Record<number, Order[]>>((byTable, order) => {
+    byTable[order.tableId] = [...(byTable[order.tableId] ?? []), order];
+    return byTable;
+  }, {});
+
+export const getOrderAgeMinutes = (order: Order, now: number = Date.now()): number => {
+  const created = order.createdAt ? new Date(order.createdAt).getTime() : now;
+  return Math.max(0, Math.floor((now - created) / 60000));
+};
+
+export interface FloorTableColors {
+  fill: string;
+  stroke: string;
+  text: string;
+  ring?: string; // Open order age; omitted when the table has no open orders
+}
+
+const STATUS_COLORS: Record<TableStatus, Omit<FloorTableColors, 'ring'>> = {
+  [TableStatus.AVAILABLE]: { fill: '#dcfce7', stroke: '#16a34a', text: '#166534' },
+  [TableStatus.OCCUPIED]: { fill: '#fee2e2', stroke: '#dc2626', text: '#991b1b' },
+  [TableStatus.RESERVED]: { fill: '#fef3c7', stroke: '#d97706', text: '#92400e' },
+  [TableStatus.CLEANING]: { fill: '#e0f2fe', stroke: '#0284c7', text: '#075985' },
+};
+
+export const getFloorTableColors = (table: Table, oldestOrderMinutes?: number): FloorTableColors => {
+  const colors = STATUS_COLORS[table.status] ?? STATUS_COLORS[TableStatus.AVAILABLE];
+  if (oldestOrderMinutes === undefined) return colors;
+
+  const ring =
+    oldestOrderMinutes >= ORDER_AGE_LATE ? '#dc2626' : oldestOrderMinutes >= ORDER_AGE_WARNING ? '#f97316' : '#3b82f6';
+  return { ...colors, ring };
+};
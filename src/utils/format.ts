@@ -10,6 +10,24 @@ export function formatCurrency(amount: number): string {
   }).format(amount);
 }
 
+/**
+ * Parse a price that may arrive as a number, "25000.00" or an explicitly
+ * money-formatted string such as "Rp 25.000,50". Only the "Rp" form reads
+ * "." as a thousands separator; "1.500" without it stays 1.5. Returns 0 when
+ * unparseable.
+ */
+export const parseAmount = (value: string | number | null | undefined): number => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : 0;
+
+  const text = String(value ?? '').trim();
+  const money = /^(-)?\s*Rp\.?\s*(.*)$/i.exec(text);
+  const normalized = money
+    ? `${money[1] ?? ''}${money[2].replace(/\s/g, '').replace(/\./g, '').replace(',', '.')}`
+    : text;
+  const parsed = Number(normalized);
+  return normalized !== '' && Number.isFinite(parsed) ? parsed : 0;
+};
+
 /**
  * Format date to local string
  */
@@ -0,0 +1,214 @@
+import { describe, expect, it } from 'vitest';
+import type { MenuCustomizationOption } from '../types';
+import {
+  calculateCustomizationPrice,
+  describeSelectionRules,
+  getSelectionLimits,
+  getVisibleOptions,
+  makeUniqueId,
+  normalizeCustomizationOptions,
+  pruneHiddenSelections,
+  validateCustomizationOptions,
+  validateSelections,
+} from './menuCustomization';
+
+const size: MenuCustomizationOption = {
+  id: 'size',
+  name: 'Size',
+  type: 'radio',
+  required: true,
+  options: [
+    { id: 'regular', name: 'Regular', price: 0 },
+    { id: 'large', name: 'Large', price: 5000 },
+  ],
+};
+
+const toppings: MenuCustomizationOption = {
+  id: 'toppings',
+  name: 'Toppings',
+  type: 'checkbox',
+  required: false,
+  maxSelections: 3,
+  freeSelections: 2,
+  options: [
+    { id: 'egg', name: 'Egg', price: 3000 },
+    { id: 'cheese', name: 'Cheese', price: 5000 },
+    { id: 'sausage', name: 'Sausage', price: 7000 },
+    { id: 'no-rice', name: 'No rice', price: -2000 },
+  ],
+};
+
+// Only shown for large portions
+const sauce: MenuCustomizationOption = {
+  id: 'sauce',
+  name: 'Extra sauce',
+  type: 'checkbox',
+  required: true,
+  options: [
+    { id: 'chili', name: 'Chili', price: 1000 },
+    { id: 'mayo', name: 'Mayo', price: 1500 },
+  ],
+  visibleWhen: { optionId: 'size', selectionIds: ['large'] },
+};
+
+// Depends on the sauce group, so it hides together with it
+const sauceAmount: MenuCustomizationOption = {
+  id: 'sauce-amount',
+  name: 'Sauce amount',
+  type: 'select',
+  required: false,
+  options: [{ id: 'extra', name: 'Extra', price: 500 }],
+  visibleWhen: { optionId: 'sauce', selectionIds: ['chili'] },
+};
+
+const options = [size, toppings, sauce, sauceAmount];
+
+describe('getVisibleOptions', () => {
+  it('hides groups whose condition is not met', () => {
+    const visible = getVisibleOptions(options, { size: ['regular'], sauce: ['chili'] });
+    expect(visible.map(option => option.id)).toEqual(['size', 'toppings']);
+  });
+
+  it('shows dependent groups once every parent is chosen', () => {
+    const visible = getVisibleOptions(options, { size: ['large'], sauce: ['chili'] });
+    expect(visible.map(option => option.id)).toEqual(['size', 'toppings', 'sauce', 'sauce-amount']);
+  });
+});
+
+describe('pruneHiddenSelections', () => {
+  it('clears the picks of hidden groups', () => {
+    expect(pruneHiddenSelections(options, { size: ['regular'], sauce: ['chili'], 'sauce-amount': ['extra'] })).toEqual({
+      size: ['regular'],
+      sauce: [],
+      'sauce-amount': [],
+    });
+  });
+});
+
+describe('getSelectionLimits', () => {
+  it('allows exactly one choice for radio and select groups', () => {
+    expect(getSelectionLimits(size)).toEqual({ min: 1, max: 1 });
+    expect(getSelectionLimits(sauceAmount)).toEqual({ min: 0, max: 1 });
+  });
+
+  it('caps checkbox groups at their number of choices', () => {
+    expect(getSelectionLimits(toppings)).toEqual({ min: 0, max: 3 });
+    expect(getSelectionLimits({ ...toppings, maxSelections: 10 })).toEqual({ min: 0, max: 4 });
+    expect(getSelectionLimits({ ...toppings, maxSelections: undefined })).toEqual({ min: 0, max: 4 });
+  });
+
+  it('requires at least one pick in required checkbox groups', () => {
+    expect(getSelectionLimits(sauce)).toEqual({ min: 1, max: 2 });
+    expect(getSelectionLimits({ ...sauce, minSelections: 0 })).toEqual({ min: 1, max: 2 });
+  });
+});
+
+describe('validateSelections', () => {
+  it('reports missing required picks of visible groups only', () => {
+    expect(validateSelections(options, {})).toEqual({ size: 'Required' });
+    expect(validateSelections(options, { size: ['large'] })).toEqual({ sauce: 'Required' });
+  });
+
+  it('reports too few and too many picks', () => {
+    expect(validateSelections([{ ...toppings, minSelections: 2 }], { toppings: ['egg'] })).toEqual({
+      toppings: 'Choose at least 2',
+    });
+    expect(validateSelections(options, { size: ['regular'], toppings: ['egg', 'cheese', 'sausage', 'no-rice'] })).toEqual({
+      toppings: 'Choose at most 3',
+    });
+  });
+
+  it('accepts valid selections', () => {
+    expect(validateSelections(options, { size: ['large'], sauce: ['mayo'] })).toEqual({});
+  });
+});
+
+describe('calculateCustomizationPrice', () => {
+  it('adds the surcharge of every pick', () => {
+    expect(calculateCustomizationPrice(options, { size: ['large'], sauce: ['chili', 'mayo'] })).toBe(7500);
+  });
+
+  it('ignores picks of hidden groups', () => {
+    expect(calculateCustomizationPrice(options, { size: ['regular'], sauce: ['chili', 'mayo'] })).toBe(0);
+  });
+
+  it('waives the first picks in the order they were picked', () => {
+    // egg and cheese are free, sausage is charged
+    expect(calculateCustomizationPrice([toppings], { toppings: ['egg', 'cheese', 'sausage'] })).toBe(7000);
+    // sausage and egg are free, cheese is charged
+    expect(calculateCustomizationPrice([toppings], { toppings: ['sausage', 'egg', 'cheese'] })).toBe(5000);
+  });
+
+  it('always applies discounts without using up free picks', () => {
+    expect(calculateCustomizationPrice([toppings], { toppings: ['no-rice', 'egg', 'cheese'] })).toBe(-2000);
+    expect(calculateCustomizationPrice([{ ...toppings, freeSelections: 0 }], { toppings: ['no-rice', 'egg'] })).toBe(1000);
+  });
+
+  it('skips choices that no longer exist', () => {
+    expect(calculateCustomizationPrice([toppings], { toppings: ['bacon'] })).toBe(0);
+  });
+});
+
+describe('describeSelectionRules', () => {
+  it('summarizes limits and free picks', () => {
+    expect(describeSelectionRules(toppings)).toBe('Choose up to 3 · 2 free');
+    expect(describeSelectionRules(sauce)).toBe('Choose at least 1');
+    expect(describeSelectionRules({ ...toppings, minSelections: 2, maxSelections: 2, freeSelections: 0 })).toBe('Choose 2');
+    expect(describeSelectionRules(size)).toBe('Select one option');
+  });
+});
+
+describe('validateCustomizationOptions', () => {
+  it('accepts well-formed groups', () => {
+    expect(validateCustomizationOptions(options)).toEqual([]);
+  });
+
+  it('reports conflicting limits and broken conditions', () => {
+    const problems = validateCustomizationOptions([
+      { ...toppings, minSelections: 3, maxSelections: 2 },
+      { ...sauce, visibleWhen: { optionId: 'size', selectionIds: ['huge'] } },
+    ]);
+    expect(problems).toEqual([
+      'Toppings: minimum selections cannot be larger than maximum',
+      'Extra sauce: "show only when" must refer to an option group above it',
+    ]);
+  });
+
+  it('reports duplicate ids', () => {
+    const problems = validateCustomizationOptions([size, { ...size, name: 'Portion' }]);
+    expect(problems).toContain('Portion: id "size" is used by another option group');
+  });
+});
+
+describe('normalizeCustomizationOptions', () => {
+  it('parses JSON strings and numeric strings from the API', () => {
+    const raw = JSON.stringify([
+      { id: 'size', name: 'Size', type: 'dropdown', required: 1, options: [{ id: 1, name: 'Large', price: '5000' }], maxSelections: '2' },
+    ]);
+    expect(normalizeCustomizationOptions(raw)).toEqual([
+      {
+        id: 'size',
+        name: 'Size',
+        type: 'radio',
+        required: true,
+        options: [{ id: '1', name: 'Large', price: 5000 }],
+        minSelections: undefined,
+        maxSelections: 2,
+        freeSelections: undefined,
+        visibleWhen: undefined,
+      },
+    ]);
+  });
+
+  it('returns an empty list for unreadable input', () => {
+    expect(normalizeCustomizationOptions('not json')).toEqual([]);
+    expect(normalizeCustomizationOptions(null)).toEqual([]);
+  });
+});
+
+describe('makeUniqueId', () => {
+  it('numbers ids that are already taken', () => {
+    expect(makeUniqueId('Spice Level', ['spice-level', 'spice-level-2'])).toBe('spice-level-3');
+    expect(makeUniqueId('***', [])).toBe('option');
+  });
+});
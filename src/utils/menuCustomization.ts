@@ -0,0 +1,342 @@
+import type { MenuCustomizationOption } from '../types';
+
+export type CustomizationChoice = MenuCustomizationOption['options'][number];
+
+// Optional counts arrive as strings or null from some backend versions
+const toOptionalCount = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === '') return undefined;
+  const count = Number(value);
+  return Number.isFinite(count) ? Math.max(0, Math.floor(count)) : undefined;
+};
+
+/**
+ * Turn a display name into an id, e.g. "Spice Level" -> "spice-level"
+ */
+export const slugify = (text: string): string => {
+  return text
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
+
+/**
+ * Pick an id based on the name that is not yet used in the given list
+ */
+export const makeUniqueId = (name: string, usedIds: string[], fallback = 'option'): string => {
+  const base = slugify(name) || fallback;
+  let candidate = base;
+  let counter = 2;
+  while (usedIds.includes(candidate)) {
+    candidate = `${base}-${counter}`;
+    counter++;
+  }
+  return candidate;
+};
+
+/**
+ * Create a new, empty option group
+ */
+export const createEmptyOption = (existing: MenuCustomizationOption[]): MenuCustomizationOption => {
+  const id = makeUniqueId('option', existing.map(option => option.id));
+  return {
+    id,
+    name: '',
+    type: 'radio',
+    required: false,
+    options: [],
+  };
+};
+
+/**
+ * Create a new, empty choice inside an option group
+ */
+export const createEmptyChoice = (existing: CustomizationChoice[]): CustomizationChoice => {
+  return {
+    id: makeUniqueId('choice', existing.map(choice => choice.id), 'choice'),
+    name: '',
+    price: 0,
+  };
+};
+
+/**
+ * Move an element of a list up or down by one position
+ */
+export const moveItem = <T>(list: T[], index: number, direction: -1 | 1): T[] => {
+  const target = index + direction;
+  if (target < 0 || target >= list.length) return list;
+  const updated = [...list];
+  [updated[index], updated[target]] = [updated[target], updated[index]];
+  return updated;
+};
+
+/**
+ * Parse customization options coming from the API. The backend may send them
+ * as a JSON string, and prices may arrive as numeric strings.
+ */
+export const normalizeCustomizationOptions = (raw: unknown): MenuCustomizationOption[] => {
+  let value = raw;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch (e) {
+      console.warn('Could not parse customizationOptions:', raw, e);
+      return [];
+    }
+  }
+
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter(option => option && typeof option.id === 'string')
+    .map(option => ({
+      ...option,
+      name: String(option.name ?? ''),
+      type: ['select', 'radio', 'checkbox'].includes(option.type) ? option.type : 'radio',
+      required: Boolean(option.required),
+      options: Array.isArray(option.options)
+        ? option.options.map((choice: CustomizationChoice) => ({
+            id: String(choice.id),
+            name: String(choice.name ?? ''),
+            price: Number(choice.price) || 0,
+          }))
+        : [],
+      minSelections: toOptionalCount(option.minSelections),
+      maxSelections: toOptionalCount(option.maxSelections),
+      freeSelections: toOptionalCount(option.freeSelections),
+      visibleWhen:
+        option.visibleWhen && typeof option.visibleWhen.optionId === 'string'
+          ? {
+              optionId: option.visibleWhen.optionId,
+              selectionIds: Array.isArray(option.visibleWhen.selectionIds)
+                ? option.visibleWhen.selectionIds.map(String)
+                : [],
+            }
+          : undefined,
+    }));
+};
+
+/**
+ * Validate option groups before saving. Returns a list of human readable
+ * problems; an empty list means the options are valid.
+ */
+export const validateCustomizationOptions = (options: MenuCustomizationOption[]): string[] => {
+  const problems: string[] = [];
+  const seenOptionIds = new Set<string>();
+
+  options.forEach((option, index) => {
+    const label = option.name.trim() || `Option group #${index + 1}`;
+
+    if (!option.id.trim()) {
+      problems.push(`${label}: id is required`);
+    } else if (seenOptionIds.has(option.id)) {
+      problems.push(`${label}: id "${option.id}" is used by another option group`);
+    }
+    seenOptionIds.add(option.id);
+
+    if (!option.name.trim()) {
+      problems.push(`${label}: name is required`);
+    }
+
+    if (option.options.length === 0) {
+      problems.push(`${label}: add at least one choice`);
+    }
+
+    const seenChoiceIds = new Set<string>();
+    option.options.forEach((choice, choiceIndex) => {
+      const choiceLabel = choice.name.trim() || `choice #${choiceIndex + 1}`;
+      if (!choice.id.trim()) {
+        problems.push(`${label} / ${choiceLabel}: id is required`);
+      } else if (seenChoiceIds.has(choice.id)) {
+        problems.push(`${label} / ${choiceLabel}: id "${choice.id}" is used twice`);
+      }
+      seenChoiceIds.add(choice.id);
+
+      if (!choice.name.trim()) {
+        problems.push(`${label} / ${choiceLabel}: name is required`);
+      }
+      if (!Number.isFinite(Number(choice.price))) {
+        problems.push(`${label} / ${choiceLabel}: price must be a number`);
+      }
+    });
+
+    const { minSelections, maxSelections, freeSelections } = option;
+    if (minSelections !== undefined && maxSelections !== undefined && minSelections > maxSelections) {
+      problems.push(`${label}: minimum selections cannot be larger than maximum`);
+    }
+    if (maxSelections !== undefined && maxSelections > option.options.length && option.options.length > 0) {
+      problems.push(`${label}: maximum selections is larger than the number of choices`);
+    }
+    if (freeSelections !== undefined && freeSelections < 0) {
+      problems.push(`${label}: free selections cannot be negative`);
+    }
+
+    if (option.visibleWhen) {
+      // Only earlier groups may be referenced, which also rules out cycles
+      const parent = options.slice(0, index).find(other => other.id === option.visibleWhen?.optionId);
+      if (!parent) {
+        problems.push(`${label}: "show only when" must refer to an option group above it`);
+      } else if (option.visibleWhen.selectionIds.length === 0) {
+        problems.push(`${label}: pick at least one choice of "${parent.name || parent.id}" that shows this group`);
+      } else {
+        option.visibleWhen.selectionIds
+          .filter(selectionId => !parent.options.some(choice => choice.id === selectionId))
+          .forEach(selectionId => {
+            problems.push(`${label}: "${parent.name || parent.id}" has no choice "${selectionId}"`);
+          });
+      }
+    }
+  });
+
+  return problems;
+};
+
+/**
+ * Whether an option group should be shown for the current selections.
+ * Groups without a visibleWhen condition are always visible.
+ */
+export const isOptionVisible = (
+  option: MenuCustomizationOption,
+  selections: Record<string, string[]>
+): boolean => {
+  if (!option.visibleWhen) return true;
+  const chosen = selections[option.visibleWhen.optionId] || [];
+  return option.visibleWhen.selectionIds.some(id => chosen.includes(id));
+};
+
+/**
+ * Options that are visible for the current selections. Conditions are
+ * evaluated in order, so a group depending on a hidden group is hidden too.
+ */
+export const getVisibleOptions = (
+  options: MenuCustomizationOption[],
+  selections: Record<string, string[]>
+): MenuCustomizationOption[] => {
+  const visible: MenuCustomizationOption[] = [];
+  const visibleIds = new Set<string>();
+
+  options.forEach(option => {
+    const parentVisible = !option.visibleWhen || visibleIds.has(option.visibleWhen.optionId);
+    if (parentVisible && isOptionVisible(option, selections)) {
+      visible.push(option);
+      visibleIds.add(option.id);
+    }
+  });
+
+  return visible;
+};
+
+/**
+ * Effective min/max number of choices for an option group.
+ * Radio and select groups always allow exactly one choice.
+ */
+export const getSelectionLimits = (option: MenuCustomizationOption): { min: number; max: number } => {
+  if (option.type !== 'checkbox') {
+    return { min: option.required ? 1 : 0, max: 1 };
+  }
+
+  const min = Math.max(option.minSelections ?? (option.required ? 1 : 0), option.required ? 1 : 0);
+  const max = option.maxSelections && option.maxSelections > 0
+    ? Math.min(option.maxSelections, option.options.length)
+    : option.options.length;
+
+  return { min, max: Math.max(max, min) };
+};
+
+/**
+ * Short hint for customers, e.g. "Choose up to 3 · 2 free"
+ */
+export const describeSelectionRules = (option: MenuCustomizationOption): string => {
+  const parts: string[] = [];
+
+  if (option.type === 'checkbox') {
+    const { min, max } = getSelectionLimits(option);
+    if (min > 0 && max === min) {
+      parts.push(`Choose ${min}`);
+    } else if (min > 0 && max < option.options.length) {
+      parts.push(`Choose ${min}–${max}`);
+    } else if (min > 0) {
+      parts.push(`Choose at least ${min}`);
+    } else if (max < option.options.length) {
+      parts.push(`Choose up to ${max}`);
+    } else {
+      parts.push('Select multiple options');
+    }
+  } else {
+    parts.push('Select one option');
+  }
+
+  if (option.freeSelections && option.freeSelections > 0) {
+    parts.push(`${option.freeSelections} free`);
+  }
+
+  return parts.join(' · ');
+};
+
+/**
+ * Drop selections of option groups that are no longer visible so they are
+ * neither charged nor sent to the kitchen.
+ */
+export const pruneHiddenSelections = (
+  options: MenuCustomizationOption[],
+  selections: Record<string, string[]>
+): Record<string, string[]> => {
+  const visibleIds = new Set(getVisibleOptions(options, selections).map(option => option.id));
+  const pruned: Record<string, string[]> = {};
+
+  Object.entries(selections).forEach(([optionId, selected]) => {
+    pruned[optionId] = visibleIds.has(optionId) ? selected : [];
+  });
+
+  return pruned;
+};
+
+/**
+ * Check the selections against min/max rules of every visible group.
+ * Returns an error message per offending option id.
+ */
+export const validateSelections = (
+  options: MenuCustomizationOption[],
+  selections: Record<string, string[]>
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  getVisibleOptions(options, selections).forEach(option => {
+    const count = (selections[option.id] || []).length;
+    const { min, max } = getSelectionLimits(option);
+
+    if (count < min) {
+      errors[option.id] = min === 1 ? 'Required' : `Choose at least ${min}`;
+    } else if (count > max) {
+      errors[option.id] = `Choose at most ${max}`;
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Total surcharge of the selections. Hidden groups are ignored, and the
+ * first freeSelections surcharged picks of a group, in the order they were
+ * picked, are waived ("first 2 free"). Discounts (negative prices) always
+ * apply and never use up a free pick.
+ */
+export const calculateCustomizationPrice = (
+  options: MenuCustomizationOption[],
+  selections: Record<string, string[]>
+): number => {
+  return getVisibleOptions(options, selections).reduce((total, option) => {
+    const prices = (selections[option.id] || [])
+      .map(selectionId => option.options.find(opt => opt.id === selectionId))
+      .filter((choice): choice is CustomizationChoice => choice !== undefined)
+      .map(choice => Number(choice.price) || 0);
+
+    const discounts = prices.filter(price => price < 0).reduce((sum, price) => sum + price, 0);
+    const charged = prices
+      .filter(price => price > 0)
+      .slice(Math.max(0, option.freeSelections || 0))
+      .reduce((sum, price) => sum + price, 0);
+
+    return total + charged + discounts;
+  }, 0);
+};
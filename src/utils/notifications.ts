@@ -0,0 +1,66 @@
+/**
+ * Play a short two-tone chime. Generated with the Web Audio API so no sound
+ * file has to be shipped; silently does nothing when audio is blocked.
+ */
+export const playNotificationSound = (): void => {
+  const AudioContextClass = window.AudioContext || (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!AudioContextClass) return;
+
+  try {
+    const context: AudioContext = new AudioContextClass();
+    [880, 1320].forEach((frequency, index) => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      const start = context.currentTime + index * 0.18;
+
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.2, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.3);
+
+      oscillator.connect(gain);
+      gain.connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.3);
+    });
+    setTimeout(() => context.close(), 1000);
+  } catch (error) {
+    console.warn('Could not play notification sound:', error);
+  }
+};
+
+/**
+ * Whether the browser supports notifications and the user allowed them
+ */
+export const canShowBrowserNotifications = (): boolean => {
+  return typeof Notification !== 'undefined' && Notification.permission === 'granted';
+};
+
+/**
+ * Ask for permission to show browser notifications
+ */
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (typeof Notification === 'undefined') return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+
+  const permission = await Notification.requestPermission();
+  return permission === 'granted';
+};
+
+/**
+ * Show a browser notification if permitted; clicking it focuses the tab
+ */
+export const showBrowserNotification = (title: string, body: string, tag?: string): void => {
+  if (!canShowBrowserNotifications()) return;
+
+  try {
+    const notification = new Notification(title, { body, tag, icon: '/vite.svg' });
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+  } catch (error) {
+    console.warn('Could not show browser notification:', error);
+  }
+};
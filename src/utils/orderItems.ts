@@ -0,0 +1,138 @@
+import type { CartItem, Menu } from '../types';
+import type { CreateOrderItem, OrderItemCustomization } from '../types';
+
+type RawCustomizations =
+  | Record<string, string[]>
+  | OrderItemCustomization[]
+  | string
+  | null
+  | undefined;
+
+export interface CustomizationLine {
+  optionId: string;
+  label: string;
+  values: string[];
+}
+
+/**
+ * Convert the cart's Record<optionId, selectionIds[]> shape into the
+ * { optionId, selections }[] shape expected by the orders endpoint.
+ * Options without any selection are dropped.
+ */
+export const serializeCustomizations = (
+  customizations?: Record<string, string[]>
+): OrderItemCustomization[] => {
+  if (!customizations) return [];
+
+  return Object.entries(customizations)
+    .filter(([, selections]) => Array.isArray(selections) && selections.length > 0)
+    .map(([optionId, selections]) => ({
+      optionId,
+      selections: selections.filter(Boolean),
+    }));
+};
+
+/**
+ * Normalize customizations coming back from the API (array, record or JSON
+ * string, depending on the backend version) into the array shape.
+ */
+export const normalizeCustomizations = (raw: RawCustomizations): OrderItemCustomization[] => {
+  if (!raw) return [];
+
+  if (typeof raw === 'string') {
+    try {
+      return normalizeCustomizations(JSON.parse(raw));
+    } catch (e) {
+      console.warn('Could not parse customizations string:', raw, e);
+      return [];
+    }
+  }
+
+  if (Array.isArray(raw)) {
+    return raw
+      .filter(entry => entry && typeof entry.optionId === 'string')
+      .map(entry => ({
+        optionId: entry.optionId,
+        selections: Array.isArray(entry.selections) ? entry.selections : [],
+      }))
+      .filter(entry => entry.selections.length > 0);
+  }
+
+  return serializeCustomizations(raw);
+};
+
+/**
+ * Derive a stable cart line id from the menu, its customizations and notes.
+ * Two lines with the same configuration get the same id regardless of the
+ * order in which options or choices were picked, so they can be merged.
+ */
+export const getCartLineId = (
+  menuId: number,
+  customizations?: Record<string, string[]>,
+  notes?: string
+): string => {
+  const customizationKey = serializeCustomizations(customizations)
+    .map(({ optionId, selections }) => `${optionId}=${[...selections].sort().join(',')}`)
+    .sort()
+    .join(';');
+  const notesKey = notes?.trim().replace(/\s+/g, ' ') || '';
+
+  return `${menuId}|${customizationKey}|${notesKey}`;
+};
+
+/**
+ * Build one order line for the create-order payload from a cart item.
+ */
+export const serializeCartItem = (item: CartItem): CreateOrderItem => {
+  const orderItem: CreateOrderItem = {
+    menuId: item.menuId,
+    quantity: item.quantity,
+    price: Number(item.price),
+  };
+
+  const customizations = serializeCustomizations(item.customizations);
+  if (customizations.length > 0) {
+    orderItem.customizations = customizations;
+    orderItem.extraPrice = Number(item.extraPrice || 0);
+  }
+
+  const notes = item.notes?.trim();
+  if (notes) {
+    orderItem.notes = notes;
+  }
+
+  return orderItem;
+};
+
+/**
+ * Resolve option and choice ids into display names using the menu's
+ * customization definitions. Unknown ids are shown as-is so that orders
+ * for menus that have since changed still render something useful.
+ */
+export const describeCustomizations = (
+  raw: RawCustomizations,
+  menu?: Pick<Menu, 'customizationOptions'> | null
+): CustomizationLine[] => {
+  return normalizeCustomizations(raw).map(({ optionId, selections }) => {
+    const option = menu?.customizationOptions?.find(opt => opt.id === optionId);
+    return {
+      optionId,
+      label: option?.name || optionId,
+      values: selections.map(selectionId =>
+        option?.options.find(choice => choice.id === selectionId)?.name || selectionId
+      ),
+    };
+  });
+};
+
+/**
+ * One-line summary such as "Spice Level: Extra Spicy · Toppings: Egg, Cheese"
+ */
+export const formatCustomizationSummary = (
+  raw: RawCustomizations,
+  menu?: Pick<Menu, 'customizationOptions'> | null
+): string => {
+  return describeCustomizations(raw, menu)
+    .map(line => `${line.label}: ${line.values.join(', ')}`)
+    .join(' · ');
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import type { Order } from '../types';
+import { OrderStatus } from '../types';
+import {
+  ORDER_TRANSITIONS,
+  applyTransition,
+  canTransition,
+  getAllowedTransitions,
+  getTransitionError,
+} from './orderStateMachine';
+
+const { PENDING, PROCESSING, COMPLETED, CANCELLED } = OrderStatus;
+
+const order = (status: OrderStatus, isProcessed = status === PROCESSING): Order => ({
+  id: 1,
+  tableId: 1,
+  orderItems: [],
+  totalPrice: 25000,
+  discounts: [],
+  status,
+  isProcessed,
+  updatedAt: '2025-03-12T03:00:00Z',
+});
+
+describe('staff transitions', () => {
+  const allowed: [OrderStatus, OrderStatus][] = [
+    [PENDING, PROCESSING],
+    [PENDING, COMPLETED],
+    [PENDING, CANCELLED],
+    [PROCESSING, PENDING],
+    [PROCESSING, COMPLETED],
+  ];
+
+  it.each(allowed)('allows %s → %s', (from, to) => {
+    expect(getTransitionError(order(from), to)).toBeNull();
+    expect(canTransition(order(from), to)).toBe(true);
+  });
+
+  const rejected = Object.values(OrderStatus).flatMap(from =>
+    Object.values(OrderStatus)
+      .filter(to => !allowed.some(([a, b]) => a === from && b === to))
+      .map((to): [OrderStatus, OrderStatus] => [from, to])
+  );
+
+  it.each(rejected)('rejects %s → %s', (from, to) => {
+    expect(getTransitionError(order(from), to)).toEqual(expect.any(String));
+    expect(canTransition(order(from), to)).toBe(false);
+  });
+
+  it('matches the transition table', () => {
+    Object.values(OrderStatus).forEach(from => {
+      expect(getAllowedTransitions(order(from))).toEqual(
+        Object.values(OrderStatus).filter(to => ORDER_TRANSITIONS[from].includes(to))
+      );
+    });
+  });
+
+  it('explains why final orders cannot change', () => {
+    expect(getTransitionError(order(COMPLETED), PENDING)).toBe('Pesanan yang sudah selesai tidak dapat diubah lagi.');
+    expect(getTransitionError(order(CANCELLED), PENDING)).toBe('Pesanan yang sudah dibatalkan tidak dapat diubah lagi.');
+    expect(getTransitionError(order(PENDING), PENDING)).toBe('Pesanan sudah berstatus PENDING.');
+  });
+
+  it('refuses to cancel a pending order the kitchen already started', () => {
+    expect(getTransitionError(order(PENDING, true), CANCELLED)).toBe(
+      'Pesanan sudah diproses oleh dapur dan tidak bisa dibatalkan.'
+    );
+  });
+});
+
+describe('customer transitions', () => {
+  it('only allows cancelling an order the kitchen has not started', () => {
+    expect(getAllowedTransitions(order(PENDING), 'customer')).toEqual([CANCELLED]);
+    expect(getAllowedTransitions(order(PENDING, true), 'customer')).toEqual([]);
+    expect(getAllowedTransitions(order(PROCESSING), 'customer')).toEqual([]);
+    expect(getAllowedTransitions(order(COMPLETED), 'customer')).toEqual([]);
+    expect(getAllowedTransitions(order(CANCELLED), 'customer')).toEqual([]);
+  });
+
+  it('explains that customers can only cancel', () => {
+    expect(getTransitionError(order(PENDING), COMPLETED, 'customer')).toBe('Pelanggan hanya dapat membatalkan pesanan.');
+  });
+});
+
+describe('applyTransition', () => {
+  it('marks the order processed when the kitchen starts it', () => {
+    expect(applyTransition(order(PENDING), PROCESSING)).toMatchObject({ status: PROCESSING, isProcessed: true });
+  });
+
+  it('clears the processed flag when the ticket is sent back', () => {
+    expect(applyTransition(order(PROCESSING), PENDING)).toMatchObject({ status: PENDING, isProcessed: false });
+  });
+
+  it('keeps the processed flag when finishing or cancelling', () => {
+    expect(applyTransition(order(PROCESSING), COMPLETED)).toMatchObject({ status: COMPLETED, isProcessed: true });
+    expect(applyTransition(order(PENDING), CANCELLED)).toMatchObject({ status: CANCELLED, isProcessed: false });
+  });
+
+  it('stamps the change and leaves the original untouched', () => {
+    const original = order(PENDING);
+    const updated = applyTransition(original, PROCESSING);
+    expect(updated.updatedAt).not.toBe(original.updatedAt);
+    expect(original.status).toBe(PENDING);
+  });
+});
@@ -0,0 +1,65 @@
+import type { Order } from '../types';
+import { OrderStatus, canCustomerCancelOrder } from '../types';
+
+// Who is asking: staff work the admin and kitchen pages, customers can only
+// cancel their own order from the tracking page
+export type OrderActor = 'staff' | 'customer';
+
+type TransitionSubject = Pick<Order, 'status' | 'isProcessed'>;
+
+/**
+ * Status changes staff may make. Orders move PENDING → PROCESSING → COMPLETED;
+ * PENDING may skip straight to COMPLETED and PROCESSING may fall back to
+ * PENDING (a ticket started by mistake). COMPLETED and CANCELLED are final.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [OrderStatus.PROCESSING, OrderStatus.COMPLETED, OrderStatus.CANCELLED],
+  [OrderStatus.PROCESSING]: [OrderStatus.PENDING, OrderStatus.COMPLETED],
+  [OrderStatus.COMPLETED]: [],
+  [OrderStatus.CANCELLED]: [],
+};
+
+/**
+ * Why `order` cannot move to `target`, or null when it can
+ */
+export const getTransitionError = (
+  order: TransitionSubject,
+  target: OrderStatus,
+  actor: OrderActor = 'staff'
+): string | null => {
+  if (order.status === target) return `Pesanan sudah berstatus ${target}.`;
+  if (order.status === OrderStatus.COMPLETED) return 'Pesanan yang sudah selesai tidak dapat diubah lagi.';
+  if (order.status === OrderStatus.CANCELLED) return 'Pesanan yang sudah dibatalkan tidak dapat diubah lagi.';
+
+  if (target === OrderStatus.CANCELLED) {
+    // The backend refuses to cancel once the kitchen has started, for anyone
+    if (order.isProcessed || !canCustomerCancelOrder(order.status)) {
+      return 'Pesanan sudah diproses oleh dapur dan tidak bisa dibatalkan.';
+    }
+    return null;
+  }
+
+  if (actor === 'customer') return 'Pelanggan hanya dapat membatalkan pesanan.';
+  if (!ORDER_TRANSITIONS[order.status].includes(target)) {
+    return `Status pesanan tidak dapat diubah dari ${order.status} ke ${target}.`;
+  }
+  return null;
+};
+
+export const canTransition = (order: TransitionSubject, target: OrderStatus, actor: OrderActor = 'staff'): boolean =>
+  getTransitionError(order, target, actor) === null;
+
+export const getAllowedTransitions = (order: TransitionSubject, actor: OrderActor = 'staff'): OrderStatus[] =>
+  Object.values(OrderStatus).filter(target => canTransition(order, target, actor));
+
+/**
+ * The order as it will look once the transition succeeds, for optimistic UI.
+ * Starting to cook marks the order processed; sending it back clears the flag.
+ */
+export const applyTransition = <T extends Order>(order: T, target: OrderStatus): T => ({
+  ...order,
+  status: target,
+  isProcessed:
+    target === OrderStatus.PROCESSING ? true : target === OrderStatus.PENDING ? false : order.isProcessed,
+  updatedAt: new Date().toISOString(),
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { Order, OrderDiscount, OrderPaymentSummary } from '../types';
+import { OrderStatus } from '../types';
+import { allocateItems, getLineShares, splitEvenly, summarizeOrderPayments } from './payments';
+import type { PricingConfig } from './pricing';
+
+// Explicit config so the tests do not depend on the VITE_* environment
+const EXCLUSIVE: PricingConfig = {
+  taxLabel: 'PB1',
+  taxRate: 10,
+  serviceChargeRate: 5,
+  pricesIncludeTax: false,
+  roundingUnit: 1,
+  roundingMode: 'nearest',
+};
+
+const order = (totalPrice: number, discounts: OrderDiscount[] = []): Order => ({
+  id: 1,
+  tableId: 1,
+  orderItems: [
+    { menuId: 1, quantity: 2, price: 25000 },
+    { menuId: 2, quantity: 1, price: 18000 },
+    { menuId: 3, quantity: 1, price: 7000 },
+  ],
+  totalPrice,
+  discounts,
+  status: OrderStatus.PENDING,
+  isProcessed: false,
+});
+
+const summariesFor = (orders: Order[]): Record<number, OrderPaymentSummary> => summarizeOrderPayments(orders, []);
+
+describe('splitEvenly', () => {
+  it('adds up exactly, the first shares taking the remainder', () => {
+    expect(splitEvenly(10000, 3)).toEqual([3334, 3333, 3333]);
+  });
+});
+
+describe('getLineShares', () => {
+  it('adds service and tax to every line', () => {
+    // 75.000 + 5% service + 10% PB1 = 86.625
+    expect(getLineShares(order(86625), EXCLUSIVE)).toEqual([57750, 20790, 8085]);
+  });
+
+  it('spreads discounts over the lines and still adds up to the total', () => {
+    const discounted = order(77963, [{ id: 'happy', label: 'Happy hour', type: 'percent', value: 10, scope: 'order' }]);
+    const shares = getLineShares(discounted, EXCLUSIVE);
+    expect(shares.reduce((sum, share) => sum + share, 0)).toBe(77963);
+    expect(shares).toEqual([51975, 18711, 7277]);
+  });
+
+  it('charges nothing for a line fully discounted', () => {
+    const free = order(57750, [{ id: 'free-tea', label: 'Teh gratis', type: 'percent', value: 100, scope: 'item', menuIds: [2, 3] }]);
+    expect(getLineShares(free, EXCLUSIVE)).toEqual([57750, 0, 0]);
+  });
+});
+
+describe('allocateItems', () => {
+  it('charges the selected lines their share after discounts, not their menu price', () => {
+    const discounted = order(77963, [{ id: 'happy', label: 'Happy hour', type: 'percent', value: 10, scope: 'order' }]);
+    const allocations = allocateItems([discounted], summariesFor([discounted]), [{ orderId: 1, itemIndex: 1 }], EXCLUSIVE);
+    expect(allocations).toEqual([{ orderId: 1, amount: 18711, itemIndexes: [1] }]);
+  });
+
+  it('settles the order exactly when every line is paid by item', () => {
+    const discounted = order(75075, [{ id: 'voucher', label: 'Voucher', type: 'amount', value: 10000, scope: 'order' }]);
+    const summaries = summariesFor([discounted]);
+    const paid = [0, 1, 2].map(itemIndex => allocateItems([discounted], summaries, [{ orderId: 1, itemIndex }], EXCLUSIVE)[0].amount);
+    // 65.000 + 5% service + 10% PB1
+    expect(paid.reduce((sum, amount) => sum + amount, 0)).toBe(75075);
+  });
+
+  it('never asks more than the order still owes', () => {
+    const full = order(86625);
+    const summaries = { 1: { ...summariesFor([full])[1], remaining: 10000 } };
+    expect(allocateItems([full], summaries, [{ orderId: 1, itemIndex: 0 }], EXCLUSIVE)[0].amount).toBe(10000);
+  });
+});
@@ -0,0 +1,191 @@
+import type { Order, OrderItem, OrderPaymentSummary, Payment, PaymentAllocation } from '../types';
+import { OrderStatus, PaymentMethod, PaymentStatus } from '../types';
+import type { PricingConfig } from './pricing';
+import { DEFAULT_PRICING_CONFIG, calculatePriceBreakdown } from './pricing';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  [PaymentMethod.CASH]: 'Tunai',
+  [PaymentMethod.QRIS]: 'QRIS',
+  [PaymentMethod.CARD]: 'Kartu',
+  [PaymentMethod.EWALLET]: 'E-Wallet',
+};
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  [PaymentStatus.UNPAID]: 'Belum bayar',
+  [PaymentStatus.PARTIAL]: 'Dibayar sebagian',
+  [PaymentStatus.PAID]: 'Lunas',
+};
+
+export interface PaymentMethodTotal {
+  method: PaymentMethod;
+  label: string;
+  amount: number;
+  count: number;
+}
+
+// Line price already includes customization surcharges
+export const getLineTotal = (item: Pick<OrderItem, 'price' | 'quantity'>): number => item.price * item.quantity;
+
+/**
+ * How much of each order has been paid, and by which methods
+ */
+export const summarizeOrderPayments = (
+  orders: Order[],
+  payments: Payment[]
+): Record<number, OrderPaymentSummary> => {
+  const summaries: Record<number, OrderPaymentSummary> = {};
+
+  orders.forEach(order => {
+    summaries[order.id] = {
+      orderId: order.id,
+      totalPrice: order.totalPrice,
+      paidAmount: 0,
+      remaining: order.totalPrice,
+      status: PaymentStatus.UNPAID,
+      methods: [],
+      paidItemIndexes: [],
+    };
+  });
+
+  payments.forEach(payment => {
+    payment.allocations.forEach(allocation => {
+      const summary = summaries[allocation.orderId];
+      if (!summary) return;
+      summary.paidAmount += allocation.amount;
+      if (!summary.methods.includes(payment.method)) summary.methods.push(payment.method);
+      summary.paidItemIndexes.push(...(allocation.itemIndexes ?? []));
+    });
+  });
+
+  Object.values(summaries).forEach(summary => {
+    summary.remaining = Math.max(Math.round(summary.totalPrice - summary.paidAmount), 0);
+    summary.status = summary.remaining === 0 && summary.totalPrice > 0
+      ? PaymentStatus.PAID
+      : summary.paidAmount > 0 ? PaymentStatus.PARTIAL : PaymentStatus.UNPAID;
+  });
+
+  return summaries;
+};
+
+/**
+ * Orders of a table, or of every table of a merged group, that still have
+ * something to pay, oldest first. Cancelled orders are never billed.
+ */
+export const getOpenTableOrders = (
+  orders: Order[],
+  tableId: number | number[],
+  summaries: Record<number, OrderPaymentSummary>
+): Order[] =>
+  orders
+    .filter(order => (Array.isArray(tableId) ? tableId.includes(order.tableId) : order.tableId === tableId))
+    .filter(order => order.status !== OrderStatus.CANCELLED)
+    .filter(order => (summaries[order.id]?.remaining ?? order.totalPrice) > 0)
+    .sort((a, b) => new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime());
+
+/**
+ * Split `total` into `parts` whole-rupiah shares that add up exactly; the
+ * first shares absorb the remainder
+ */
+export const splitEvenly = (total: number, parts: number): number[] => {
+  const count = Math.max(Math.floor(parts), 1);
+  const rounded = Math.round(total);
+  const base = Math.floor(rounded / count);
+  const remainder = rounded - base * count;
+  return Array.from({ length: count }, (_, index) => base + (index < remainder ? 1 : 0));
+};
+
+/**
+ * Spread an amount over orders, settling the oldest first
+ */
+export const allocateToOrders = (
+  orders: Order[],
+  summaries: Record<number, OrderPaymentSummary>,
+  amount: number
+): PaymentAllocation[] => {
+  const allocations: PaymentAllocation[] = [];
+  let left = Math.round(amount);
+
+  for (const order of orders) {
+    if (left <= 0) break;
+    const remaining = summaries[order.id]?.remaining ?? order.totalPrice;
+    const share = Math.min(remaining, left);
+    if (share > 0) {
+      allocations.push({ orderId: order.id, amount: share });
+      left -= share;
+    }
+  }
+
+  return allocations;
+};
+
+/**
+ * What each line of an order costs the guest: the order total, after
+ * discounts, service, tax and rounding, spread over the lines by their
+ * discounted price. Shares are whole rupiah and add up to the total exactly;
+ * the lines with the largest fractions absorb the remainder.
+ */
+export const getLineShares = (order: Order, config: PricingConfig = DEFAULT_PRICING_CONFIG): number[] => {
+  const breakdown = calculatePriceBreakdown(order.orderItems, config, order.discounts);
+  const netTotal = breakdown.lines.reduce((sum, line) => sum + line.net, 0);
+  if (netTotal <= 0) return breakdown.lines.map(() => 0);
+
+  const exact = breakdown.lines.map(line => (line.net / netTotal) * breakdown.total);
+  const shares = exact.map(Math.floor);
+  let remainder = breakdown.total - shares.reduce((sum, share) => sum + share, 0);
+  exact
+    .map((value, index) => ({ index, fraction: value - shares[index] }))
+    .sort((a, b) => b.fraction - a.fraction)
+    .forEach(({ index }) => {
+      if (remainder <= 0) return;
+      shares[index] += 1;
+      remainder -= 1;
+    });
+  return shares;
+};
+
+/**
+ * Allocations for paying specific order lines, each at its share of the
+ * order total (see getLineShares). A line's share is capped at what its
+ * order still owes, in case part of it was already paid evenly.
+ */
+export const allocateItems = (
+  orders: Order[],
+  summaries: Record<number, OrderPaymentSummary>,
+  selectedItems: { orderId: number; itemIndex: number }[],
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): PaymentAllocation[] =>
+  orders.flatMap(order => {
+    const itemIndexes = selectedItems
+      .filter(selected => selected.orderId === order.id)
+      .map(selected => selected.itemIndex);
+    if (itemIndexes.length === 0) return [];
+
+    const shares = getLineShares(order, config);
+    const linesTotal = itemIndexes.reduce((sum, index) => sum + (shares[index] ?? 0), 0);
+    const remaining = summaries[order.id]?.remaining ?? order.totalPrice;
+    return [{ orderId: order.id, amount: Math.min(linesTotal, remaining), itemIndexes }];
+  });
+
+export const calculateChange = (amountDue: number, tendered: number): number => Math.max(tendered - amountDue, 0);
+
+/**
+ * Quick amounts for the cash drawer: exact, then the next common notes
+ */
+export const getCashSuggestions = (amountDue: number): number[] => {
+  const suggestions = [amountDue, ...[10000, 50000, 100000].map(note => Math.ceil(amountDue / note) * note)];
+  return Array.from(new Set(suggestions)).filter(amount => amount >= amountDue).slice(0, 4);
+};
+
+/**
+ * Revenue and payment count per method, in a stable method order
+ */
+export const summarizePaymentMethods = (payments: Payment[]): PaymentMethodTotal[] =>
+  Object.values(PaymentMethod).map(method => {
+    const matching = payments.filter(payment => payment.method === method);
+    return {
+      method,
+      label: PAYMENT_METHOD_LABELS[method],
+      amount: matching.reduce((sum, payment) => sum + payment.amount, 0),
+      count: matching.length,
+    };
+  });
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ADMIN_NAV_ITEMS,
+  ROLE_PERMISSIONS,
+  getDefaultAdminPath,
+  hasPermission,
+  isAuthorized,
+} from './permissions';
+
+describe('hasPermission', () => {
+  it('grants admins every permission', () => {
+    expect(ROLE_PERMISSIONS.ADMIN).toEqual(expect.arrayContaining(ROLE_PERMISSIONS.STAFF));
+    expect(hasPermission('ADMIN', 'staff:manage')).toBe(true);
+    expect(hasPermission('ADMIN', 'menu:edit')).toBe(true);
+  });
+
+  it('lets staff run service but not manage the restaurant', () => {
+    expect(hasPermission('STAFF', 'orders:updateStatus')).toBe(true);
+    expect(hasPermission('STAFF', 'payments:take')).toBe(true);
+    expect(hasPermission('STAFF', 'menu:updateStock')).toBe(true);
+    expect(hasPermission('STAFF', 'orders:delete')).toBe(false);
+    expect(hasPermission('STAFF', 'menu:edit')).toBe(false);
+    expect(hasPermission('STAFF', 'tables:edit')).toBe(false);
+    expect(hasPermission('STAFF', 'staff:manage')).toBe(false);
+    expect(hasPermission('STAFF', 'analytics:view')).toBe(false);
+  });
+
+  it('denies everything without a role', () => {
+    expect(hasPermission(null, 'menu:view')).toBe(false);
+    expect(hasPermission(undefined, 'menu:view')).toBe(false);
+  });
+});
+
+describe('isAuthorized', () => {
+  it('accepts any signed-in role without requirements', () => {
+    expect(isAuthorized('STAFF', {})).toBe(true);
+    expect(isAuthorized('ADMIN', {})).toBe(true);
+    expect(isAuthorized(null, {})).toBe(false);
+  });
+
+  it('checks the allowed roles', () => {
+    expect(isAuthorized('STAFF', { roles: ['ADMIN'] })).toBe(false);
+    expect(isAuthorized('ADMIN', { roles: ['ADMIN'] })).toBe(true);
+  });
+
+  it('checks the permission', () => {
+    expect(isAuthorized('STAFF', { permission: 'kitchen:view' })).toBe(true);
+    expect(isAuthorized('STAFF', { permission: 'analytics:view' })).toBe(false);
+  });
+
+  it('requires both the role and the permission when given both', () => {
+    expect(isAuthorized('STAFF', { roles: ['STAFF'], permission: 'staff:manage' })).toBe(false);
+    expect(isAuthorized('ADMIN', { roles: ['STAFF'], permission: 'staff:manage' })).toBe(false);
+    expect(isAuthorized('ADMIN', { roles: ['ADMIN'], permission: 'staff:manage' })).toBe(true);
+  });
+});
+
+describe('getDefaultAdminPath', () => {
+  it('lands on the first page the role may open', () => {
+    expect(getDefaultAdminPath('ADMIN')).toBe(ADMIN_NAV_ITEMS[0].path);
+    expect(getDefaultAdminPath('STAFF')).toBe('/admin/menu');
+  });
+
+  it('falls back to the home page without a role', () => {
+    expect(getDefaultAdminPath(null)).toBe('/');
+  });
+});
+
+describe('ADMIN_NAV_ITEMS', () => {
+  it('only links pages admins may open', () => {
+    ADMIN_NAV_ITEMS.forEach(item => expect(hasPermission('ADMIN', item.permission)).toBe(true));
+  });
+
+  it('hides management pages from staff', () => {
+    const staffPaths = ADMIN_NAV_ITEMS.filter(item => hasPermission('STAFF', item.permission)).map(item => item.path);
+    expect(staffPaths).not.toContain('/admin/staff');
+    expect(staffPaths).not.toContain('/admin/analytics');
+    expect(staffPaths).not.toContain('/admin/promotions');
+  });
+});
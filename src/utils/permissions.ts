@@ -0,0 +1,105 @@
+export type UserRole = 'ADMIN' | 'STAFF';
+
+export type Permission =
+  | 'menu:view'
+  | 'menu:edit'
+  | 'menu:updateStock'
+  | 'orders:view'
+  | 'orders:updateStatus'
+  | 'orders:delete'
+  | 'orders:move'
+  | 'payments:take'
+  | 'kitchen:view'
+  | 'tables:view'
+  | 'tables:edit'
+  | 'tables:updateStatus'
+  | 'tables:merge'
+  | 'reservations:manage'
+  | 'serviceRequests:handle'
+  | 'promotions:manage'
+  | 'staff:manage'
+  | 'analytics:view';
+
+/**
+ * What each role may do. Pages hide or disable actions from this map and
+ * RequireAuth guards routes with it, so the two never disagree.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  ADMIN: [
+    'menu:view',
+    'menu:edit',
+    'menu:updateStock',
+    'orders:view',
+    'orders:updateStatus',
+    'orders:delete',
+    'orders:move',
+    'payments:take',
+    'kitchen:view',
+    'tables:view',
+    'tables:edit',
+    'tables:updateStatus',
+    'tables:merge',
+    'reservations:manage',
+    'serviceRequests:handle',
+    'promotions:manage',
+    'staff:manage',
+    'analytics:view',
+  ],
+  // Floor staff run service: they mark dishes sold out, move orders along,
+  // take payments, set table statuses, book and merge tables, move orders
+  // between them and answer service calls, but cannot delete orders, change
+  // the menu or tables, or manage accounts
+  STAFF: [
+    'menu:view',
+    'menu:updateStock',
+    'orders:view',
+    'orders:updateStatus',
+    'orders:move',
+    'payments:take',
+    'kitchen:view',
+    'tables:view',
+    'tables:updateStatus',
+    'tables:merge',
+    'reservations:manage',
+    'serviceRequests:handle',
+  ],
+};
+
+export const hasPermission = (role: UserRole | null | undefined, permission: Permission): boolean => {
+  if (!role) return false;
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+};
+
+/**
+ * Whether a role passes a route guard: it must be one of `roles` (when given)
+ * and hold `permission` (when given)
+ */
+export const isAuthorized = (
+  role: UserRole | null | undefined,
+  requirements: { roles?: UserRole[]; permission?: Permission }
+): boolean => {
+  if (!role) return false;
+  if (requirements.roles && !requirements.roles.includes(role)) return false;
+  if (requirements.permission && !hasPermission(role, requirements.permission)) return false;
+  return true;
+};
+
+// Admin navigation, in display order, with the permission each page needs
+export const ADMIN_NAV_ITEMS: { path: string; label: string; permission: Permission }[] = [
+  { path: '/admin/menu', label: 'Menu', permission: 'menu:view' },
+  { path: '/admin/orders', label: 'Orders', permission: 'orders:view' },
+  { path: '/admin/kitchen', label: 'Kitchen', permission: 'kitchen:view' },
+  { path: '/admin/tables', label: 'Tables', permission: 'tables:view' },
+  { path: '/admin/reservations', label: 'Reservations', permission: 'reservations:manage' },
+  { path: '/admin/promotions', label: 'Promos', permission: 'promotions:manage' },
+  { path: '/admin/staff', label: 'Staff', permission: 'staff:manage' },
+  { path: '/admin/analytics', label: 'Analytics', permission: 'analytics:view' },
+];
+
+/**
+ * Landing page after login: the first admin page the role may open
+ */
+export const getDefaultAdminPath = (role: UserRole | null | undefined): string => {
+  const item = ADMIN_NAV_ITEMS.find(navItem => hasPermission(role, navItem.permission));
+  return item?.path ?? '/';
+};
@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'vitest';
+import type { PricingConfig, PricingDiscount } from './pricing';
+import { calculatePriceBreakdown, getBreakdownRows, roundRupiah, roundToUnit } from './pricing';
+
+// Explicit configs so the tests do not depend on the VITE_* environment
+const EXCLUSIVE: PricingConfig = {
+  taxLabel: 'PB1',
+  taxRate: 10,
+  serviceChargeRate: 5,
+  pricesIncludeTax: false,
+  roundingUnit: 1,
+  roundingMode: 'nearest',
+};
+
+const INCLUSIVE: PricingConfig = { ...EXCLUSIVE, pricesIncludeTax: true };
+
+const discount = (overrides: Partial<PricingDiscount>): PricingDiscount => ({
+  id: 'promo',
+  label: 'Promo',
+  type: 'percent',
+  value: 10,
+  scope: 'order',
+  ...overrides,
+});
+
+// 3 × 12.345 = 37.035: odd enough that every percentage leaves a fraction
+const ITEMS = [{ menuId: 1, quantity: 3, price: 12345 }];
+
+describe('roundRupiah', () => {
+  it('rounds halves away from zero', () => {
+    expect(roundRupiah(2.5)).toBe(3);
+    expect(roundRupiah(-2.5)).toBe(-3);
+    expect(roundRupiah(1.4999)).toBe(1);
+  });
+
+  it('absorbs float noise from percentage maths', () => {
+    expect(roundRupiah(2749.9999999)).toBe(2750);
+    expect(roundRupiah((27500 * 10) / 100)).toBe(2750);
+  });
+});
+
+describe('roundToUnit', () => {
+  it('rounds to the nearest unit, halves up', () => {
+    expect(roundToUnit(61250, 500)).toBe(61500);
+    expect(roundToUnit(61249, 500)).toBe(61000);
+  });
+
+  it('rounds up and down', () => {
+    expect(roundToUnit(61001, 1000, 'up')).toBe(62000);
+    expect(roundToUnit(61000, 1000, 'up')).toBe(61000);
+    expect(roundToUnit(61999, 1000, 'down')).toBe(61000);
+  });
+
+  it('treats units below one rupiah as whole rupiah', () => {
+    expect(roundToUnit(1234, 0)).toBe(1234);
+  });
+});
+
+describe('calculatePriceBreakdown', () => {
+  describe('prices excluding tax', () => {
+    it('adds service on the subtotal and tax on subtotal plus service', () => {
+      const breakdown = calculatePriceBreakdown(ITEMS, EXCLUSIVE);
+      expect(breakdown).toMatchObject({
+        subtotal: 37035,
+        netAmount: 37035,
+        serviceCharge: 1852, // 1851.75
+        tax: 3889, // 10% of 38887 = 3888.7
+        rounding: 0,
+        total: 42776,
+      });
+    });
+
+    it('rounds the total to the cash unit and reports the difference', () => {
+      expect(calculatePriceBreakdown(ITEMS, { ...EXCLUSIVE, roundingUnit: 100 })).toMatchObject({ total: 42800, rounding: 24 });
+      expect(calculatePriceBreakdown(ITEMS, { ...EXCLUSIVE, roundingUnit: 1000, roundingMode: 'down' })).toMatchObject({
+        total: 42000,
+        rounding: -776,
+      });
+      expect(calculatePriceBreakdown(ITEMS, { ...EXCLUSIVE, roundingUnit: 500, roundingMode: 'up' })).toMatchObject({
+        total: 43000,
+        rounding: 224,
+      });
+    });
+
+    it('applies service and tax after discounts', () => {
+      const breakdown = calculatePriceBreakdown(ITEMS, EXCLUSIVE, [
+        discount({ id: 'item', scope: 'item', value: 10, menuIds: [1] }),
+        discount({ id: 'voucher', type: 'amount', value: 5000 }),
+      ]);
+      expect(breakdown.lines[0]).toMatchObject({ gross: 37035, discount: 3704, net: 33331 }); // 3703.5
+      expect(breakdown).toMatchObject({
+        discountTotal: 8704,
+        discountedSubtotal: 28331,
+        serviceCharge: 1417, // 1416.55
+        tax: 2975, // 10% of 29748 = 2974.8
+        total: 32723,
+      });
+    });
+  });
+
+  describe('prices including tax', () => {
+    it('backs tax out of the price without changing the total', () => {
+      const breakdown = calculatePriceBreakdown([{ menuId: 1, quantity: 1, price: 25000 }], { ...INCLUSIVE, serviceChargeRate: 0 });
+      expect(breakdown).toMatchObject({ netAmount: 22727, serviceCharge: 0, tax: 2273, total: 25000 });
+    });
+
+    it('lets tax take the remainder so the parts add up exactly', () => {
+      const breakdown = calculatePriceBreakdown([{ menuId: 1, quantity: 1, price: 25000 }], INCLUSIVE);
+      // 25000 / (1.05 × 1.1) = 21645.02
+      expect(breakdown).toMatchObject({ netAmount: 21645, serviceCharge: 1082, tax: 2273, total: 25000 });
+      expect(breakdown.netAmount + breakdown.serviceCharge + breakdown.tax).toBe(breakdown.total);
+    });
+
+    it('still rounds the total to the cash unit', () => {
+      expect(calculatePriceBreakdown(ITEMS, { ...INCLUSIVE, roundingUnit: 100 })).toMatchObject({ total: 37000, rounding: -35 });
+    });
+  });
+
+  describe('discounts', () => {
+    it('rounds percentage discounts half away from zero', () => {
+      const breakdown = calculatePriceBreakdown([{ menuId: 1, quantity: 1, price: 15 }], { ...EXCLUSIVE, taxRate: 0, serviceChargeRate: 0 }, [
+        discount({ value: 10 }),
+      ]);
+      expect(breakdown.discountTotal).toBe(2); // 1.5
+      expect(breakdown.total).toBe(13);
+    });
+
+    it('never takes the order below zero', () => {
+      const breakdown = calculatePriceBreakdown([{ menuId: 1, quantity: 1, price: 20000 }], EXCLUSIVE, [
+        discount({ type: 'amount', value: 50000 }),
+      ]);
+      expect(breakdown).toMatchObject({ discountTotal: 20000, serviceCharge: 0, tax: 0, total: 0 });
+    });
+
+    it('never takes a line below zero', () => {
+      const breakdown = calculatePriceBreakdown([{ menuId: 1, quantity: 2, price: 5000 }], EXCLUSIVE, [
+        discount({ id: 'a', scope: 'item', type: 'amount', value: 4000 }),
+        discount({ id: 'b', scope: 'item', type: 'amount', value: 4000 }),
+      ]);
+      expect(breakdown.lines[0]).toMatchObject({ gross: 10000, discount: 10000, net: 0 });
+      expect(breakdown.discounts).toEqual([
+        { id: 'a', label: 'Promo', scope: 'item', amount: 8000 },
+        { id: 'b', label: 'Promo', scope: 'item', amount: 2000 },
+      ]);
+    });
+
+    it('caps bundle discounts at maxQuantity across lines', () => {
+      const breakdown = calculatePriceBreakdown(
+        [
+          { menuId: 1, quantity: 1, price: 20000 },
+          { menuId: 1, quantity: 3, price: 20000 },
+        ],
+        EXCLUSIVE,
+        [discount({ scope: 'item', type: 'amount', value: 5000, maxQuantity: 2, menuIds: [1] })]
+      );
+      expect(breakdown.lines.map(line => line.discount)).toEqual([5000, 5000]);
+      expect(breakdown.discounts).toEqual([{ id: 'promo', label: 'Promo', scope: 'item', amount: 10000 }]);
+    });
+
+    it('only discounts the listed menus', () => {
+      const breakdown = calculatePriceBreakdown(
+        [
+          { menuId: 1, quantity: 1, price: 10000 },
+          { menuId: 2, quantity: 1, price: 10000 },
+        ],
+        EXCLUSIVE,
+        [discount({ scope: 'item', value: 50, menuIds: [2] })]
+      );
+      expect(breakdown.lines.map(line => line.net)).toEqual([10000, 5000]);
+    });
+  });
+});
+
+describe('getBreakdownRows', () => {
+  it('lists added charges, rounding and the total last', () => {
+    const rows = getBreakdownRows(calculatePriceBreakdown(ITEMS, { ...EXCLUSIVE, roundingUnit: 100 }, [discount({ value: 10 })]));
+    expect(rows.map(row => [row.label, row.amount, row.kind])).toEqual([
+      ['Subtotal', 37035, 'subtotal'],
+      ['Promo', -3704, 'discount'],
+      ['Service 5%', 1667, 'charge'], // 5% of 33331
+      ['PB1 10%', 3500, 'charge'], // 10% of 34998 = 3499.8
+      ['Pembulatan', 2, 'rounding'],
+      ['Total', 38500, 'total'],
+    ]);
+  });
+
+  it('labels included charges and skips zero rates and rounding', () => {
+    const rows = getBreakdownRows(calculatePriceBreakdown([{ menuId: 1, quantity: 1, price: 25000 }], { ...INCLUSIVE, serviceChargeRate: 0 }));
+    expect(rows.map(row => row.label)).toEqual(['Subtotal', 'Termasuk PB1 10%', 'Total']);
+  });
+});
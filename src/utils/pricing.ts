@@ -0,0 +1,231 @@
+// The one place order totals are computed. The cart, checkout, admin order
+// detail and receipts all price through calculatePriceBreakdown, so the
+// customer, the cashier and the printed receipt always agree.
+//
+// Order of operations (standard for Indonesian restaurants):
+//   subtotal − item discounts − order discounts = discounted subtotal
+//   + service charge on the discounted subtotal
+//   + PB1 tax on discounted subtotal + service
+//   rounded to `roundingUnit`
+// With `pricesIncludeTax` the menu prices already contain service and PB1;
+// they are backed out for display and the total is the discounted subtotal.
+
+import type { OrderDiscount } from '../types';
+
+export type RoundingMode = 'nearest' | 'up' | 'down';
+
+export interface PricingConfig {
+  taxLabel: string;
+  taxRate: number; // Percent; PB1 restaurant tax is usually 10
+  serviceChargeRate: number; // Percent
+  pricesIncludeTax: boolean;
+  roundingUnit: number; // 1 = whole rupiah; 100/500/1000 for cash-friendly totals
+  roundingMode: RoundingMode;
+}
+
+// Discounts are stored on orders in this same shape
+export type PricingDiscount = OrderDiscount;
+
+export interface PricingLineInput {
+  menuId: number;
+  quantity: number;
+  price: number; // Unit price including customization surcharges
+  name?: string;
+  menu?: { name: string };
+}
+
+export interface PricedLine {
+  menuId: number;
+  name?: string;
+  quantity: number;
+  unitPrice: number;
+  gross: number;
+  discount: number;
+  net: number;
+}
+
+export interface AppliedDiscount {
+  id: string;
+  label: string;
+  scope: PricingDiscount['scope'];
+  amount: number;
+}
+
+export interface PriceBreakdown {
+  lines: PricedLine[];
+  subtotal: number;
+  discounts: AppliedDiscount[];
+  discountTotal: number;
+  discountedSubtotal: number;
+  netAmount: number; // Before service and tax
+  serviceCharge: number;
+  tax: number;
+  rounding: number; // Added (or removed) by rounding the total
+  total: number;
+  config: PricingConfig;
+}
+
+export interface BreakdownRow {
+  key: string;
+  label: string;
+  amount: number;
+  kind: 'subtotal' | 'discount' | 'charge' | 'included' | 'rounding' | 'total';
+}
+
+const readRate = (value: unknown, fallback: number): number => {
+  const rate = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(rate) && rate >= 0 ? rate : fallback;
+};
+
+/**
+ * Deployment-wide pricing, from VITE_* variables so the customer app and the
+ * admin app price the same way. Defaults keep menu prices as the final price.
+ */
+export const DEFAULT_PRICING_CONFIG: PricingConfig = {
+  taxLabel: import.meta.env.VITE_TAX_LABEL || 'PB1',
+  taxRate: readRate(import.meta.env.VITE_TAX_RATE, 10),
+  serviceChargeRate: readRate(import.meta.env.VITE_SERVICE_CHARGE_RATE, 0),
+  pricesIncludeTax: import.meta.env.VITE_PRICES_INCLUDE_TAX !== 'false',
+  roundingUnit: Math.max(readRate(import.meta.env.VITE_ROUNDING_UNIT, 1), 1),
+  roundingMode: ['up', 'down'].includes(import.meta.env.VITE_ROUNDING_MODE) ? import.meta.env.VITE_ROUNDING_MODE : 'nearest',
+};
+
+/**
+ * Round to whole rupiah, halves away from zero. The epsilon absorbs float
+ * noise such as 2749.9999999 from percentage maths.
+ */
+export const roundRupiah = (value: number): number => Math.sign(value) * Math.round(Math.abs(value) + 1e-7);
+
+/**
+ * Round a total to a multiple of `unit` (e.g. 100 for cash rounding)
+ */
+export const roundToUnit = (value: number, unit: number, mode: RoundingMode = 'nearest'): number => {
+  const step = Math.max(Math.round(unit), 1);
+  const units = value / step;
+  const rounded = mode === 'up' ? Math.ceil(units - 1e-9) : mode === 'down' ? Math.floor(units + 1e-9) : Math.round(units + 1e-9);
+  return rounded * step;
+};
+
+const percentOf = (amount: number, rate: number): number => roundRupiah((amount * rate) / 100);
+
+const appliesToLine = (discount: PricingDiscount, line: PricingLineInput): boolean =>
+  !discount.menuIds || discount.menuIds.includes(line.menuId);
+
+export const calculatePriceBreakdown = (
+  items: PricingLineInput[],
+  config: PricingConfig = DEFAULT_PRICING_CONFIG,
+  discounts: PricingDiscount[] = []
+): PriceBreakdown => {
+  const applied: AppliedDiscount[] = [];
+  const addApplied = (discount: PricingDiscount, amount: number) => {
+    if (amount <= 0) return;
+    const existing = applied.find(entry => entry.id === discount.id);
+    if (existing) {
+      existing.amount += amount;
+    } else {
+      applied.push({ id: discount.id, label: discount.label, scope: discount.scope, amount });
+    }
+  };
+
+  // Units still discountable for discounts capped with maxQuantity (bundles)
+  const remainingUnits = new Map<string, number>();
+
+  // Item discounts, in the order given, never taking a line below zero
+  const lines: PricedLine[] = items.map(item => {
+    const quantity = Number(item.quantity) || 0;
+    const unitPrice = Number(item.price) || 0;
+    const gross = roundRupiah(unitPrice * quantity);
+    let discount = 0;
+
+    discounts
+      .filter(entry => entry.scope === 'item' && appliesToLine(entry, item))
+      .forEach(entry => {
+        const remaining = remainingUnits.get(entry.id) ?? entry.maxQuantity ?? quantity;
+        const units = Math.min(quantity, remaining);
+        if (units <= 0) return;
+        if (entry.maxQuantity !== undefined) remainingUnits.set(entry.id, remaining - units);
+
+        const wanted = entry.type === 'percent' ? percentOf(unitPrice * units, entry.value) : roundRupiah(entry.value * units);
+        const amount = Math.min(Math.max(wanted, 0), gross - discount);
+        discount += amount;
+        addApplied(entry, amount);
+      });
+
+    return { menuId: item.menuId, name: item.name ?? item.menu?.name, quantity, unitPrice, gross, discount, net: gross - discount };
+  });
+
+  const subtotal = lines.reduce((sum, line) => sum + line.gross, 0);
+  let discountedSubtotal = lines.reduce((sum, line) => sum + line.net, 0);
+
+  discounts
+    .filter(entry => entry.scope === 'order')
+    .forEach(entry => {
+      const wanted = entry.type === 'percent' ? percentOf(discountedSubtotal, entry.value) : roundRupiah(entry.value);
+      const amount = Math.min(Math.max(wanted, 0), discountedSubtotal);
+      discountedSubtotal -= amount;
+      addApplied(entry, amount);
+    });
+
+  const serviceRate = config.serviceChargeRate / 100;
+  const taxRate = config.taxRate / 100;
+  let netAmount: number;
+  let serviceCharge: number;
+  let tax: number;
+  let beforeRounding: number;
+
+  if (config.pricesIncludeTax) {
+    // Back the included charges out; tax takes the remainder so the parts add up exactly
+    netAmount = roundRupiah(discountedSubtotal / ((1 + serviceRate) * (1 + taxRate)));
+    serviceCharge = percentOf(netAmount, config.serviceChargeRate);
+    tax = discountedSubtotal - netAmount - serviceCharge;
+    beforeRounding = discountedSubtotal;
+  } else {
+    netAmount = discountedSubtotal;
+    serviceCharge = percentOf(netAmount, config.serviceChargeRate);
+    tax = percentOf(netAmount + serviceCharge, config.taxRate);
+    beforeRounding = netAmount + serviceCharge + tax;
+  }
+
+  const total = roundToUnit(beforeRounding, config.roundingUnit, config.roundingMode);
+
+  return {
+    lines,
+    subtotal,
+    discounts: applied,
+    discountTotal: subtotal - discountedSubtotal,
+    discountedSubtotal,
+    netAmount,
+    serviceCharge,
+    tax,
+    rounding: total - beforeRounding,
+    total,
+    config,
+  };
+};
+
+/**
+ * Display rows for a breakdown, shared by the cart, order detail and receipt
+ */
+export const getBreakdownRows = (breakdown: PriceBreakdown): BreakdownRow[] => {
+  const { config } = breakdown;
+  const rows: BreakdownRow[] = [{ key: 'subtotal', label: 'Subtotal', amount: breakdown.subtotal, kind: 'subtotal' }];
+
+  breakdown.discounts.forEach(discount =>
+    rows.push({ key: `discount-${discount.id}`, label: discount.label, amount: -discount.amount, kind: 'discount' })
+  );
+
+  const chargeKind = config.pricesIncludeTax ? 'included' : 'charge';
+  const prefix = config.pricesIncludeTax ? 'Termasuk ' : '';
+  if (config.serviceChargeRate > 0) {
+    rows.push({ key: 'service', label: `${prefix}Service ${config.serviceChargeRate}%`, amount: breakdown.serviceCharge, kind: chargeKind });
+  }
+  if (config.taxRate > 0) {
+    rows.push({ key: 'tax', label: `${prefix}${config.taxLabel} ${config.taxRate}%`, amount: breakdown.tax, kind: chargeKind });
+  }
+  if (breakdown.rounding !== 0) {
+    rows.push({ key: 'rounding', label: 'Pembulatan', amount: breakdown.rounding, kind: 'rounding' });
+  }
+
+  rows.push({ key: 'total', label: 'Total', amount: breakdown.total, kind: 'total' });
+  return rows;
+};
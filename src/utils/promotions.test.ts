@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PromotionSchedule } from '../types';
+import { isWithinSchedule } from './promotions';
+
+// Wednesday 12 March 2025, 15:30 WIB
+const NOW = new Date('2025-03-12T08:30:00Z');
+
+const HAPPY_HOUR: PromotionSchedule = { daysOfWeek: [3], startTime: '15:00', endTime: '17:00' };
+
+describe('isWithinSchedule', () => {
+  it('always applies without a schedule', () => {
+    expect(isWithinSchedule(undefined, NOW)).toBe(true);
+    expect(isWithinSchedule({}, NOW)).toBe(true);
+  });
+
+  it('checks the time window in WIB', () => {
+    expect(isWithinSchedule(HAPPY_HOUR, NOW)).toBe(true);
+    expect(isWithinSchedule(HAPPY_HOUR, new Date('2025-03-12T07:59:00Z'))).toBe(false); // 14:59
+    expect(isWithinSchedule(HAPPY_HOUR, new Date('2025-03-12T10:00:00Z'))).toBe(false); // 17:00
+  });
+
+  it('runs windows ending before they start past midnight', () => {
+    const lateNight: PromotionSchedule = { startTime: '22:00', endTime: '02:00' };
+    expect(isWithinSchedule(lateNight, new Date('2025-03-12T16:00:00Z'))).toBe(true); // 23:00
+    expect(isWithinSchedule(lateNight, new Date('2025-03-12T18:30:00Z'))).toBe(true); // 01:30
+    expect(isWithinSchedule(lateNight, new Date('2025-03-12T19:00:00Z'))).toBe(false); // 02:00
+  });
+
+  it('reads the weekday and date in WIB', () => {
+    // Thursday 13 March, 00:30 WIB, still Wednesday in UTC
+    const justAfterMidnight = new Date('2025-03-12T17:30:00Z');
+    expect(isWithinSchedule({ daysOfWeek: [4] }, justAfterMidnight)).toBe(true);
+    expect(isWithinSchedule({ daysOfWeek: [3] }, justAfterMidnight)).toBe(false);
+    expect(isWithinSchedule({ startDate: '2025-03-13' }, justAfterMidnight)).toBe(true);
+    expect(isWithinSchedule({ endDate: '2025-03-12' }, justAfterMidnight)).toBe(false);
+  });
+
+  describe('on a device outside WIB', () => {
+    beforeEach(() => {
+      vi.stubEnv('TZ', 'America/New_York');
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('still runs the happy hour at 15:00–17:00 WIB', () => {
+      // 04:30 on the device's own clock
+      expect(NOW.getHours()).toBe(4);
+      expect(isWithinSchedule(HAPPY_HOUR, NOW)).toBe(true);
+      expect(isWithinSchedule(HAPPY_HOUR, new Date('2025-03-12T19:30:00Z'))).toBe(false); // 15:30 in New York
+    });
+  });
+});
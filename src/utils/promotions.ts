@@ -0,0 +1,228 @@
+import type { Menu, OrderDiscount, Promotion, PromotionSchedule } from '../types';
+import { PromotionType } from '../types';
+import { formatCurrency } from './format';
+import { roundRupiah } from './pricing';
+import { RESTAURANT_UTC_OFFSET_MINUTES, toRestaurantDateParts } from './salesTrend';
+
+// Turns promotions into discounts for the pricing engine. Price rules and
+// bundles apply on their own; a voucher only when the customer entered it.
+// Price rules are listed first so vouchers discount the already reduced price.
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  [PromotionType.VOUCHER]: 'Voucher',
+  [PromotionType.PRICE_RULE]: 'Harga promo',
+  [PromotionType.BUNDLE]: 'Paket',
+};
+
+export const DAY_LABELS = ['Min', 'Sen', 'Sel', 'Rab', 'Kam', 'Jum', 'Sab'];
+
+// Cart and order lines carry the full menu when it is known
+interface PromotionLine {
+  menuId: number;
+  quantity: number;
+  price: number;
+  menu?: Pick<Menu, 'price' | 'category'> | null;
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+// Minutes since midnight in restaurant time
+const toRestaurantMinutes = (date: Date): number => {
+  const shifted = new Date(date.getTime() + RESTAURANT_UTC_OFFSET_MINUTES * 60000);
+  return shifted.getUTCHours() * 60 + shifted.getUTCMinutes();
+};
+
+/**
+ * Whether a schedule covers `now`. Days, dates and times are read in
+ * restaurant time (WIB) whatever the device timezone, so every phone and the
+ * server agree on when a happy hour runs. Time windows ending before they
+ * start run past midnight, e.g. 22:00–02:00.
+ */
+export const isWithinSchedule = (schedule: PromotionSchedule | undefined, now: Date = new Date()): boolean => {
+  if (!schedule) return true;
+
+  const { dateKey: today, weekday } = toRestaurantDateParts(now);
+  if (schedule.startDate && today < schedule.startDate) return false;
+  if (schedule.endDate && today > schedule.endDate) return false;
+  if (schedule.daysOfWeek?.length && !schedule.daysOfWeek.includes(weekday)) return false;
+
+  if (schedule.startTime || schedule.endTime) {
+    const minutes = toRestaurantMinutes(now);
+    const start = toMinutes(schedule.startTime || '00:00');
+    const end = schedule.endTime ? toMinutes(schedule.endTime) : 24 * 60;
+    const inWindow = start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+    if (!inWindow) return false;
+  }
+  return true;
+};
+
+export const isPromotionRunning = (promotion: Promotion, now: Date = new Date()): boolean =>
+  promotion.isActive && isWithinSchedule(promotion.schedule, now);
+
+/**
+ * Human-readable schedule, e.g. "Sen–Jum 15:00–17:00"
+ */
+export const describeSchedule = (schedule: PromotionSchedule | undefined): string => {
+  if (!schedule) return 'Selalu';
+  const parts: string[] = [];
+
+  if (schedule.daysOfWeek?.length && schedule.daysOfWeek.length < 7) {
+    parts.push([...schedule.daysOfWeek].sort().map(day => DAY_LABELS[day]).join(', '));
+  }
+  if (schedule.startTime || schedule.endTime) {
+    parts.push(`${schedule.startTime || '00:00'}–${schedule.endTime || '24:00'}`);
+  }
+  if (schedule.startDate || schedule.endDate) {
+    parts.push(`${schedule.startDate || '…'} s/d ${schedule.endDate || '…'}`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : 'Selalu';
+};
+
+export const describeDiscount = (promotion: Pick<Promotion, 'discountType' | 'discountValue'>): string =>
+  promotion.discountType === 'percent' ? `${promotion.discountValue}%` : formatCurrency(promotion.discountValue);
+
+const hasTargets = (promotion: Promotion): boolean => promotion.menuIds.length > 0 || promotion.categories.length > 0;
+
+export const isMenuTargeted = (promotion: Promotion, menuId: number, category?: string): boolean =>
+  !hasTargets(promotion) ||
+  promotion.menuIds.includes(menuId) ||
+  (!!category && promotion.categories.includes(category));
+
+/**
+ * Menu price after the best running price rule, for strikethrough prices.
+ * Null when no price rule covers the menu.
+ */
+export const getMenuPromoPrice = (
+  menu: Pick<Menu, 'id' | 'price' | 'category'>,
+  promotions: Promotion[],
+  now: Date = new Date()
+): { price: number; promotion: Promotion } | null => {
+  let best: { price: number; promotion: Promotion } | null = null;
+
+  promotions
+    .filter(promotion => promotion.type === PromotionType.PRICE_RULE && isPromotionRunning(promotion, now))
+    .filter(promotion => isMenuTargeted(promotion, menu.id, menu.category))
+    .forEach(promotion => {
+      const discount =
+        promotion.discountType === 'percent'
+          ? roundRupiah((menu.price * promotion.discountValue) / 100)
+          : promotion.discountValue;
+      const price = Math.max(menu.price - discount, 0);
+      if (price < menu.price && (!best || price < best.price)) best = { price, promotion };
+    });
+
+  return best;
+};
+
+// The menus a promotion touches among the lines, resolving categories
+const getTargetMenuIds = (promotion: Promotion, lines: PromotionLine[]): number[] => [
+  ...new Set(
+    lines.filter(line => isMenuTargeted(promotion, line.menuId, line.menu?.category ?? undefined)).map(line => line.menuId)
+  ),
+];
+
+// Buy `buyQuantity` qualifying units, get `rewardQuantity` reward units discounted.
+// When the reward also qualifies (buy 2 get 1 of the same dish) it counts toward
+// its own set, so three units make one set rather than one and a half.
+const bundleDiscount = (promotion: Promotion, lines: PromotionLine[]): OrderDiscount | null => {
+  const { rewardMenuId, buyQuantity = 1, rewardQuantity = 1 } = promotion;
+  if (rewardMenuId === undefined || buyQuantity < 1 || rewardQuantity < 1) return null;
+
+  const buyMenuIds = getTargetMenuIds(promotion, lines);
+  const boughtUnits = lines
+    .filter(line => buyMenuIds.includes(line.menuId))
+    .reduce((sum, line) => sum + line.quantity, 0);
+  const rewardQualifies = buyMenuIds.includes(rewardMenuId);
+  const sets = Math.floor(boughtUnits / (rewardQualifies ? buyQuantity + rewardQuantity : buyQuantity));
+  if (sets < 1 || !lines.some(line => line.menuId === rewardMenuId)) return null;
+
+  return {
+    id: `promo-${promotion.id}`,
+    label: promotion.name,
+    type: promotion.discountType,
+    value: promotion.discountValue,
+    scope: 'item',
+    menuIds: [rewardMenuId],
+    maxQuantity: sets * rewardQuantity,
+    promotionId: promotion.id,
+  };
+};
+
+const voucherDiscount = (voucher: Promotion, lines: PromotionLine[]): OrderDiscount | null => {
+  const base = {
+    id: `voucher-${voucher.id}`,
+    label: voucher.code ? `Voucher ${voucher.code}` : voucher.name,
+    type: voucher.discountType,
+    value: voucher.discountValue,
+    promotionId: voucher.id,
+  };
+  if (!hasTargets(voucher)) return { ...base, scope: 'order' };
+
+  const menuIds = getTargetMenuIds(voucher, lines);
+  return menuIds.length > 0 ? { ...base, scope: 'item', menuIds } : null;
+};
+
+/**
+ * Why a voucher cannot be used right now, or null when it can
+ */
+export const getVoucherError = (voucher: Promotion, subtotal: number, now: Date = new Date()): string | null => {
+  if (voucher.type !== PromotionType.VOUCHER) return 'Kode voucher tidak ditemukan.';
+  if (!voucher.isActive) return 'Voucher ini sudah tidak berlaku.';
+  if (!isWithinSchedule(voucher.schedule, now)) return 'Voucher ini tidak berlaku saat ini.';
+  if (voucher.usageLimit !== undefined && voucher.usageCount >= voucher.usageLimit) return 'Kuota voucher sudah habis.';
+  if (voucher.minSubtotal && subtotal < voucher.minSubtotal) {
+    return `Minimal belanja ${formatCurrency(voucher.minSubtotal)} untuk voucher ini.`;
+  }
+  return null;
+};
+
+/**
+ * Discounts for a set of lines, ready for calculatePriceBreakdown and for
+ * storing on the order. A voucher that no longer applies is left out.
+ */
+export const getPromotionDiscounts = (
+  lines: PromotionLine[],
+  promotions: Promotion[],
+  voucher: Promotion | null = null,
+  now: Date = new Date()
+): OrderDiscount[] => {
+  const running = promotions.filter(promotion => isPromotionRunning(promotion, now));
+  const discounts: OrderDiscount[] = [];
+
+  // Price rules never stack: each menu gets its best rule, as shown on the menu card
+  const priceRuleMenus = new Map<Promotion, number[]>();
+  new Set(lines.map(line => line.menuId)).forEach(menuId => {
+    const line = lines.find(candidate => candidate.menuId === menuId);
+    const best = line
+      ? getMenuPromoPrice({ id: menuId, price: line.menu?.price ?? line.price, category: line.menu?.category }, running, now)
+      : null;
+    if (best) priceRuleMenus.set(best.promotion, [...(priceRuleMenus.get(best.promotion) ?? []), menuId]);
+  });
+  priceRuleMenus.forEach((menuIds, promotion) =>
+    discounts.push({
+      id: `promo-${promotion.id}`,
+      label: promotion.name,
+      type: promotion.discountType,
+      value: promotion.discountValue,
+      scope: 'item',
+      menuIds,
+      promotionId: promotion.id,
+    })
+  );
+  running
+    .filter(promotion => promotion.type === PromotionType.BUNDLE)
+    .forEach(promotion => {
+      const discount = bundleDiscount(promotion, lines);
+      if (discount) discounts.push(discount);
+    });
+
+  if (voucher) {
+    const subtotal = lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+    const discount = getVoucherError(voucher, subtotal, now) ? null : voucherDiscount(voucher, lines);
+    if (discount) discounts.push(discount);
+  }
+  return discounts;
+};
@@ -0,0 +1,295 @@
+import JSZip from 'jszip';
+import type { Table } from '../types';
+
+export type QrSheetTemplate = 'sheet' | 'tent';
+
+export interface QrSheetLayout {
+  template: QrSheetTemplate;
+  qrSize: number; // Printed QR size in millimetres
+  showTableName: boolean;
+  showLogo: boolean;
+  wifiNote: string;
+}
+
+// A table together with the serialized QR code <svg> for its order URL
+export interface TableQrCode {
+  table: Table;
+  qrSvg: string;
+}
+
+export interface QrSheetAssets {
+  restaurantName: string;
+  logoDataUrl?: string; // Embedded as a data URL so SVG and PNG exports are self-contained
+}
+
+export const RESTAURANT_NAME = 'Kedai Matmoen';
+export const LOGO_URL = '/images/logo/download.jpg';
+
+export const QR_SIZE_MIN = 30;
+export const QR_SIZE_MAX = 80;
+
+export const DEFAULT_QR_SHEET_LAYOUT: QrSheetLayout = {
+  template: 'sheet',
+  qrSize: 50,
+  showTableName: true,
+  showLogo: true,
+  wifiNote: '',
+};
+
+// A4 portrait width minus 10mm print margins; QR_SIZE_MAX keeps a tent on one page
+const PAGE_WIDTH_MM = 190;
+const PADDING_MM = 6;
+const LOGO_ROW_MM = 14;
+const NAME_ROW_MM = 12;
+const INSTRUCTION_ROW_MM = 8;
+const WIFI_ROW_MM = 9;
+// Raster resolution for PNG exports (~200 dpi)
+const PNG_PX_PER_MM = 8;
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+export const clampQrSize = (size: number): number =>
+  Math.min(QR_SIZE_MAX, Math.max(QR_SIZE_MIN, Math.round(size) || DEFAULT_QR_SHEET_LAYOUT.qrSize));
+
+/**
+ * URL encoded in a table's QR code, or undefined when the table has no token
+ */
+export const buildTableOrderUrl = (baseUrl: string, qrValue?: string): string | undefined =>
+  qrValue ? `${baseUrl}/order?t=${encodeURIComponent(qrValue)}` : undefined;
+
+const getPanelSize = (layout: QrSheetLayout) => {
+  const qrSize = clampQrSize(layout.qrSize);
+  const width = Math.max(qrSize + PADDING_MM * 2, 60);
+  const height =
+    PADDING_MM * 2 +
+    (layout.showLogo ? LOGO_ROW_MM : 0) +
+    (layout.showTableName ? NAME_ROW_MM : 0) +
+    qrSize +
+    INSTRUCTION_ROW_MM +
+    (layout.wifiNote.trim() ? WIFI_ROW_MM : 0);
+  return { width, height, qrSize };
+};
+
+/**
+ * Size of one output (a card, or an unfolded tent) in millimetres
+ */
+export const getQrCardSize = (layout: QrSheetLayout): { width: number; height: number } => {
+  const panel = getPanelSize(layout);
+  if (layout.template === 'tent') {
+    // Tents use the full page width and a fixed panel height so they stand up
+    return { width: PAGE_WIDTH_MM, height: Math.max(panel.height, 110) * 2 };
+  }
+  return { width: panel.width, height: panel.height };
+};
+
+// Re-position the QR <svg> rendered by react-qr-code inside the card
+const embedQrSvg = (qrSvg: string, x: number, y: number, size: number): string => {
+  const doc = new DOMParser().parseFromString(qrSvg, 'image/svg+xml');
+  const svg = doc.documentElement;
+  svg.removeAttribute('style');
+  svg.setAttribute('x', String(x));
+  svg.setAttribute('y', String(y));
+  svg.setAttribute('width', String(size));
+  svg.setAttribute('height', String(size));
+  return new XMLSerializer().serializeToString(svg);
+};
+
+// Card content laid out from the top of a width × height box
+const renderPanel = (
+  item: TableQrCode,
+  layout: QrSheetLayout,
+  assets: QrSheetAssets,
+  width: number,
+  height: number
+): string => {
+  const { height: contentHeight, qrSize } = getPanelSize(layout);
+  const centerX = width / 2;
+  const parts: string[] = [];
+  // Center the content vertically when the box is taller than needed (tents)
+  let y = PADDING_MM + Math.max(0, (height - contentHeight) / 2);
+
+  if (layout.showLogo) {
+    const name = escapeXml(assets.restaurantName);
+    if (assets.logoDataUrl) {
+      const textWidth = assets.restaurantName.length * 2.6;
+      const startX = centerX - (10 + 3 + textWidth) / 2;
+      parts.push(
+        `<image href="${assets.logoDataUrl}" x="${startX}" y="${y}" width="10" height="10" preserveAspectRatio="xMidYMid slice" />`,
+        `<text x="${startX + 13}" y="${y + 7}" font-size="5" font-weight="700" fill="#ef4444">${name}</text>`
+      );
+    } else {
+      parts.push(
+        `<text x="${centerX}" y="${y + 7}" font-size="5" font-weight="700" fill="#ef4444" text-anchor="middle">${name}</text>`
+      );
+    }
+    y += LOGO_ROW_MM;
+  }
+
+  if (layout.showTableName) {
+    parts.push(
+      `<text x="${centerX}" y="${y + 8}" font-size="8" font-weight="700" fill="#111827" text-anchor="middle">${escapeXml(item.table.name)}</text>`
+    );
+    y += NAME_ROW_MM;
+  }
+
+  parts.push(embedQrSvg(item.qrSvg, centerX - qrSize / 2, y, qrSize));
+  y += qrSize;
+
+  parts.push(
+    `<text x="${centerX}" y="${y + 6}" font-size="4" fill="#4b5563" text-anchor="middle">Scan untuk pesan</text>`
+  );
+  y += INSTRUCTION_ROW_MM;
+
+  const wifiNote = layout.wifiNote.trim();
+  if (wifiNote) {
+    parts.push(
+      `<text x="${centerX}" y="${y + 6}" font-size="3.5" fill="#6b7280" text-anchor="middle">${escapeXml(wifiNote)}</text>`
+    );
+  }
+
+  return parts.join('');
+};
+
+/**
+ * Standalone SVG for one table. Sizes are in millimetres so the SVG prints
+ * at the configured size. The tent template has two panels with the top one
+ * upside down, so it reads from both sides once folded on the dashed line.
+ */
+export const buildTableQrSvg = (item: TableQrCode, layout: QrSheetLayout, assets: QrSheetAssets): string => {
+  const { width, height } = getQrCardSize(layout);
+  const font = `font-family="system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif"`;
+  let body: string;
+
+  if (layout.template === 'tent') {
+    const panelHeight = height / 2;
+    const panel = renderPanel(item, layout, assets, width, panelHeight);
+    body =
+      `<g transform="rotate(180 ${width / 2} ${panelHeight / 2})">${panel}</g>` +
+      `<g transform="translate(0 ${panelHeight})">${panel}</g>` +
+      `<line x1="0" y1="${panelHeight}" x2="${width}" y2="${panelHeight}" stroke="#9ca3af" stroke-width="0.3" stroke-dasharray="2 2" />`;
+  } else {
+    body = renderPanel(item, layout, assets, width, height);
+  }
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}mm" height="${height}mm" viewBox="0 0 ${width} ${height}" ${font}>` +
+    `<rect x="0.15" y="0.15" width="${width - 0.3}" height="${height - 0.3}" fill="#ffffff" stroke="#d1d5db" stroke-width="0.3" stroke-dasharray="1.5 1.5" />` +
+    body +
+    `</svg>`
+  );
+};
+
+/**
+ * Print-ready HTML: cards flow multi-up on A4 pages, tents get a page each
+ */
+export const buildPrintSheetHtml = (items: TableQrCode[], layout: QrSheetLayout, assets: QrSheetAssets): string => {
+  const cards = items
+    .map(item => `<div class="card">${buildTableQrSvg(item, layout, assets)}</div>`)
+    .join('');
+  const isTent = layout.template === 'tent';
+
+  return `
+    <html>
+      <head>
+        <title>QR Codes - ${escapeXml(assets.restaurantName)}</title>
+        <style>
+          @page { size: A4 portrait; margin: 10mm; }
+          body { margin: 0; }
+          .sheet {
+            display: flex;
+            flex-wrap: wrap;
+            gap: ${isTent ? 0 : 4}mm;
+            width: ${PAGE_WIDTH_MM}mm;
+          }
+          .card { break-inside: avoid; page-break-inside: avoid; }
+          .card svg { display: block; }
+          ${isTent ? '.card { break-after: page; page-break-after: always; } .card:last-child { break-after: auto; page-break-after: auto; }' : ''}
+        </style>
+      </head>
+      <body>
+        <div class="sheet">${cards}</div>
+      </body>
+    </html>
+  `;
+};
+
+/**
+ * Rasterize a card SVG to PNG
+ */
+export const svgToPngBlob = (svg: string, layout: QrSheetLayout): Promise<Blob> => {
+  const { width, height } = getQrCardSize(layout);
+
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * PNG_PX_PER_MM);
+      canvas.height = Math.round(height * PNG_PX_PER_MM);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Could not create canvas context'));
+        return;
+      }
+      ctx.fillStyle = 'white';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode PNG'))), 'image/png');
+    };
+    img.onerror = () => reject(new Error('Error loading QR code image'));
+    img.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(svg);
+  });
+};
+
+const toFileName = (table: Table): string => {
+  const slug = table.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `qr-${slug || 'table'}-${table.id}`;
+};
+
+/**
+ * ZIP with a PNG and an SVG per table, in png/ and svg/ folders
+ */
+export const buildQrZip = async (items: TableQrCode[], layout: QrSheetLayout, assets: QrSheetAssets): Promise<Blob> => {
+  const zip = new JSZip();
+  const pngFolder = zip.folder('png');
+  const svgFolder = zip.folder('svg');
+
+  // One at a time: each PNG canvas is several megapixels
+  for (const item of items) {
+    const svg = buildTableQrSvg(item, layout, assets);
+    const name = toFileName(item.table);
+    svgFolder?.file(`${name}.svg`, svg);
+    pngFolder?.file(`${name}.png`, await svgToPngBlob(svg, layout));
+  }
+
+  return zip.generateAsync({ type: 'blob' });
+};
+
+/**
+ * Load the restaurant logo as a data URL; resolves undefined if it is missing
+ */
+export const loadLogoDataUrl = async (url: string = LOGO_URL): Promise<string | undefined> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return undefined;
+    const blob = await response.blob();
+    return await new Promise<string | undefined>(resolve => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(typeof reader.result === 'string' ? reader.result : undefined);
+      reader.onerror = () => resolve(undefined);
+      reader.readAsDataURL(blob);
+    });
+  } catch (error) {
+    console.warn('Could not load logo for QR codes:', error);
+    return undefined;
+  }
+};
+
@@ -0,0 +1,309 @@
+import type { Menu, Order, OrderHistory, Payment } from '../types';
+import { PAYMENT_METHOD_LABELS } from './payments';
+import { describeCustomizations } from './orderItems';
+import { formatCurrency } from './format';
+import { calculatePriceBreakdown, getBreakdownRows } from './pricing';
+import { RESTAURANT_NAME } from './qrSheet';
+
+export type ReceiptKind = 'receipt' | 'kitchen';
+export type ReceiptPaperWidth = 58 | 80;
+
+export interface ReceiptLayout {
+  paperWidth: ReceiptPaperWidth;
+  restaurantName: string;
+  headerLines: string[]; // Address, phone, NPWP...
+  footer: string;
+  showDailyOrderId: boolean;
+  showCustomizations: boolean;
+}
+
+export const DEFAULT_RECEIPT_LAYOUT: ReceiptLayout = {
+  paperWidth: 58,
+  restaurantName: RESTAURANT_NAME,
+  headerLines: [],
+  footer: 'Terima kasih atas kunjungan Anda!',
+  showDailyOrderId: true,
+  showCustomizations: true,
+};
+
+// Characters per line in the printer's default font (12×24 dots)
+export const RECEIPT_COLUMNS: Record<ReceiptPaperWidth, number> = {
+  58: 32,
+  80: 48,
+};
+
+// Printable width in millimetres; the rest is the printer's unprintable margin
+export const RECEIPT_PRINT_WIDTH_MM: Record<ReceiptPaperWidth, number> = {
+  58: 48,
+  80: 72,
+};
+
+/**
+ * Printer-independent receipt: the HTML and ESC/POS renderers both draw
+ * from this list, so the paper and the preview never disagree
+ */
+export type ReceiptLine =
+  | { type: 'text'; text: string; align?: 'left' | 'center' | 'right'; bold?: boolean; large?: boolean }
+  | { type: 'row'; left: string; right: string; bold?: boolean }
+  | { type: 'divider' };
+
+export interface ReceiptDocument {
+  kind: ReceiptKind;
+  columns: number;
+  lines: ReceiptLine[];
+}
+
+export interface ReceiptContext {
+  tableName?: string;
+  menus?: Record<number, Menu>;
+  payments?: Payment[];
+  printedAt?: Date;
+}
+
+interface ReceiptItem {
+  name: string;
+  quantity: number;
+  lineTotal: number;
+  details: string[];
+  notes?: string;
+}
+
+const isOrder = (source: Order | OrderHistory): source is Order => 'orderItems' in source;
+
+const getReceiptItems = (source: Order | OrderHistory, menus: Record<number, Menu> = {}): ReceiptItem[] => {
+  const items = isOrder(source)
+    ? source.orderItems.map(item => ({
+        ...item,
+        name: item.menu?.name || menus[item.menuId]?.name || `Menu #${item.menuId}`,
+      }))
+    : source.items.map(item => ({ ...item, name: item.menuName }));
+
+  return items.map(item => ({
+    name: item.name,
+    quantity: item.quantity,
+    lineTotal: item.price * item.quantity,
+    details: describeCustomizations(item.customizations, menus[item.menuId]).map(
+      line => `${line.label}: ${line.values.join(', ')}`
+    ),
+    notes: item.notes?.trim() || undefined,
+  }));
+};
+
+// Short numeric date and time, e.g. "19/10/2026 14.58"
+const formatReceiptDate = (dateString: string): string => {
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return dateString;
+  return date
+    .toLocaleString('id-ID', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' })
+    .replace(',', '');
+};
+
+// Currency without the "Rp" prefix, to save columns on narrow paper
+const formatAmount = (amount: number): string => formatCurrency(amount).replace(/^Rp\s?/, '');
+
+const getOrderLabels = (source: Order | OrderHistory, layout: ReceiptLayout, context: ReceiptContext) => ({
+  orderNumber: layout.showDailyOrderId && source.dailyOrderId ? source.dailyOrderId : isOrder(source) ? source.id : source.orderId,
+  tableName: context.tableName || (!isOrder(source) && source.tableName) || `Meja ${source.tableId}`,
+});
+
+const buildHeader = (source: Order | OrderHistory, layout: ReceiptLayout, context: ReceiptContext): ReceiptLine[] => {
+  const lines: ReceiptLine[] = [];
+  const { orderNumber, tableName } = getOrderLabels(source, layout, context);
+
+  lines.push({ type: 'row', left: `Pesanan #${orderNumber}`, right: tableName, bold: true });
+  if (isOrder(source) && source.customerName) {
+    lines.push({ type: 'row', left: 'Pelanggan', right: source.customerName });
+  }
+  lines.push({ type: 'row', left: 'Waktu', right: formatReceiptDate(source.createdAt || (context.printedAt ?? new Date()).toISOString()) });
+  return lines;
+};
+
+const buildCustomerReceipt = (source: Order | OrderHistory, layout: ReceiptLayout, context: ReceiptContext): ReceiptLine[] => {
+  const lines: ReceiptLine[] = [
+    { type: 'text', text: layout.restaurantName, align: 'center', bold: true, large: true },
+    ...layout.headerLines.filter(line => line.trim()).map(text => ({ type: 'text' as const, text, align: 'center' as const })),
+    { type: 'divider' },
+    ...buildHeader(source, layout, context),
+    { type: 'divider' },
+  ];
+
+  getReceiptItems(source, context.menus).forEach(item => {
+    lines.push({ type: 'row', left: `${item.quantity}x ${item.name}`, right: formatAmount(item.lineTotal) });
+    if (layout.showCustomizations) {
+      item.details.forEach(detail => lines.push({ type: 'text', text: `  ${detail}` }));
+      if (item.notes) lines.push({ type: 'text', text: `  Catatan: ${item.notes}` });
+    }
+  });
+
+  // Same breakdown as the cart and order detail; the stored total stays authoritative
+  const breakdown = calculatePriceBreakdown(isOrder(source) ? source.orderItems : source.items, undefined, source.discounts);
+  lines.push({ type: 'divider' });
+  const rows = getBreakdownRows(breakdown).filter(row => row.kind !== 'total');
+  // A lone subtotal would just repeat the total
+  if (rows.length > 1) {
+    rows.forEach(row =>
+      lines.push({ type: 'row', left: row.label, right: `${row.amount < 0 ? '-' : ''}${formatAmount(Math.abs(row.amount))}` })
+    );
+  }
+  lines.push({ type: 'row', left: 'TOTAL', right: formatCurrency(source.totalPrice), bold: true });
+
+  // Payments reference the live order id, which archived orders keep as orderId
+  const orderId = isOrder(source) ? source.id : source.orderId;
+  const payments = (context.payments ?? []).filter(payment =>
+    payment.allocations.some(allocation => allocation.orderId === orderId)
+  );
+  if (payments.length > 0) {
+    lines.push({ type: 'divider' });
+    payments.forEach(payment => {
+      const allocated = payment.allocations
+        .filter(allocation => allocation.orderId === orderId)
+        .reduce((sum, allocation) => sum + allocation.amount, 0);
+      lines.push({ type: 'row', left: PAYMENT_METHOD_LABELS[payment.method], right: formatAmount(allocated) });
+      if (payment.change > 0) lines.push({ type: 'row', left: 'Kembalian', right: formatAmount(payment.change) });
+    });
+  }
+
+  if (layout.footer.trim()) {
+    lines.push({ type: 'divider' }, { type: 'text', text: layout.footer, align: 'center' });
+  }
+  return lines;
+};
+
+// Kitchen tickets: no prices, big quantities, every customization and note
+const buildKitchenTicket = (source: Order | OrderHistory, layout: ReceiptLayout, context: ReceiptContext): ReceiptLine[] => {
+  const { orderNumber, tableName } = getOrderLabels(source, layout, context);
+  const lines: ReceiptLine[] = [
+    { type: 'text', text: `#${orderNumber}`, align: 'center', bold: true, large: true },
+    { type: 'text', text: tableName, align: 'center', bold: true, large: true },
+    { type: 'text', text: formatReceiptDate((context.printedAt ?? new Date()).toISOString()), align: 'center' },
+    { type: 'divider' },
+  ];
+
+  if (isOrder(source) && source.customerName) {
+    lines.push({ type: 'text', text: `Pelanggan: ${source.customerName}` }, { type: 'divider' });
+  }
+
+  getReceiptItems(source, context.menus).forEach(item => {
+    lines.push({ type: 'text', text: `${item.quantity}x ${item.name}`, bold: true, large: true });
+    item.details.forEach(detail => lines.push({ type: 'text', text: `  ${detail}` }));
+    if (item.notes) lines.push({ type: 'text', text: `  ** ${item.notes}`, bold: true });
+  });
+
+  return lines;
+};
+
+export const buildReceiptDocument = (
+  source: Order | OrderHistory,
+  kind: ReceiptKind,
+  layout: ReceiptLayout,
+  context: ReceiptContext = {}
+): ReceiptDocument => ({
+  kind,
+  columns: RECEIPT_COLUMNS[layout.paperWidth],
+  lines: kind === 'kitchen' ? buildKitchenTicket(source, layout, context) : buildCustomerReceipt(source, layout, context),
+});
+
+/**
+ * Break text into lines of at most `width` characters, on spaces where possible
+ */
+export const wrapText = (text: string, width: number): string[] => {
+  // Keep the indent of detail lines on every wrapped line
+  const indent = text.match(/^\s*/)?.[0] ?? '';
+  const available = Math.max(width - indent.length, 1);
+  const lines: string[] = [];
+  let current = '';
+
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    while (word.length > available) {
+      if (current) {
+        lines.push(current);
+        current = '';
+      }
+      lines.push(word.slice(0, available));
+      word = word.slice(available);
+    }
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= available) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  });
+
+  if (current || lines.length === 0) lines.push(current);
+  return lines.map(line => `${indent}${line}`);
+};
+
+/**
+ * "left ........ right" padded to `width`; a long left side wraps and the
+ * amount goes on its last line
+ */
+export const formatReceiptRow = (left: string, right: string, width: number): string[] => {
+  // No room for both: label on its own line, value right-aligned below it
+  if (right.length + Math.min(left.length, 8) + 1 > width) {
+    return [...wrapText(left, width), ...wrapText(right, width).map(line => line.padStart(width))];
+  }
+  const leftLines = wrapText(left, Math.max(width - right.length - 1, 1));
+  const last = leftLines[leftLines.length - 1];
+  leftLines[leftLines.length - 1] = `${last}${' '.repeat(Math.max(width - last.length - right.length, 1))}${right}`;
+  return leftLines;
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Browser-printable receipt sized for 58mm or 80mm roll paper
+ */
+export const buildReceiptHtml = (receipt: ReceiptDocument, layout: ReceiptLayout): string => {
+  const width = RECEIPT_PRINT_WIDTH_MM[layout.paperWidth];
+  const body = receipt.lines
+    .map(line => {
+      if (line.type === 'divider') return '<hr />';
+      if (line.type === 'row') {
+        return `<div class="row${line.bold ? ' bold' : ''}"><span>${escapeHtml(line.left)}</span><span>${escapeHtml(line.right)}</span></div>`;
+      }
+      const classes = [line.align ?? 'left', line.bold ? 'bold' : '', line.large ? 'large' : ''].filter(Boolean).join(' ');
+      return `<div class="${classes}">${escapeHtml(line.text)}</div>`;
+    })
+    .join('');
+
+  return `
+    <html>
+      <head>
+        <title>${receipt.kind === 'kitchen' ? 'Tiket Dapur' : 'Struk'} - ${escapeHtml(layout.restaurantName)}</title>
+        <style>
+          @page { size: ${layout.paperWidth}mm auto; margin: 0; }
+          body { margin: 0; }
+          .receipt {
+            width: ${width}mm;
+            margin: 0 auto;
+            padding: 4mm 0;
+            font-family: 'Courier New', ui-monospace, monospace;
+            font-size: ${layout.paperWidth === 58 ? 11 : 12}px;
+            line-height: 1.35;
+            color: #000;
+            white-space: pre-wrap;
+            word-break: break-word;
+          }
+          .row { display: flex; justify-content: space-between; gap: 2mm; }
+          .row span:last-child { white-space: nowrap; }
+          .center { text-align: center; }
+          .right { text-align: right; }
+          .bold { font-weight: 700; }
+          .large { font-size: 1.5em; }
+          hr { border: 0; border-top: 1px dashed #000; margin: 2mm 0; }
+        </style>
+      </head>
+      <body>
+        <div class="receipt">${body}</div>
+      </body>
+    </html>
+  `;
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { formatTime, getReservationDatesAround, toIsoTime, toReservationDate, toTimeValue } from './reservations';
+
+// WIB is UTC+7: 17:00Z is midnight at the restaurant
+describe('restaurant time', () => {
+  it('reads dates and times in WIB', () => {
+    expect(toIsoTime('2025-03-12', '19:30')).toBe('2025-03-12T12:30:00.000Z');
+    expect(toTimeValue('2025-03-12T12:30:00.000Z')).toBe('19:30');
+    expect(formatTime('2025-03-12T12:30:00.000Z')).toBe('19.30');
+  });
+
+  it('starts the day at midnight WIB', () => {
+    expect(toReservationDate('2025-03-11T16:59:59Z')).toBe('2025-03-11');
+    expect(toReservationDate('2025-03-11T17:00:00Z')).toBe('2025-03-12');
+    expect(toIsoTime('2025-03-12', '00:15')).toBe('2025-03-11T17:15:00.000Z');
+  });
+});
+
+describe('getReservationDatesAround', () => {
+  it('loads only today while the hold stays within the day', () => {
+    expect(getReservationDatesAround(new Date('2025-03-12T12:00:00Z'), 30)).toEqual(['2025-03-12']);
+  });
+
+  it('adds tomorrow once the hold crosses midnight', () => {
+    // 23:45 WIB with a 30 minute hold reaches 00:15
+    expect(getReservationDatesAround(new Date('2025-03-12T16:45:00Z'), 30)).toEqual(['2025-03-12', '2025-03-13']);
+  });
+
+  it('crosses month and year ends', () => {
+    expect(getReservationDatesAround(new Date('2024-12-31T16:50:00Z'), 30)).toEqual(['2024-12-31', '2025-01-01']);
+  });
+});
@@ -0,0 +1,152 @@
+import type { Reservation, ReservationInput, Table } from '../types';
+import { ReservationStatus, TableStatus } from '../types';
+import { RESTAURANT_TIME_ZONE, RESTAURANT_UTC_OFFSET_MINUTES, toRestaurantDateParts } from './salesTrend';
+
+// Slot maths for reservations: overlap and capacity checks, and which tables
+// can take a party right now or at a given time. Dates and times are read and
+// shown in restaurant time (WIB), like the sales figures, whatever timezone
+// the device is set to.
+
+export const RESERVATION_STATUS_LABELS: Record<ReservationStatus, string> = {
+  [ReservationStatus.BOOKED]: 'Dipesan',
+  [ReservationStatus.SEATED]: 'Sudah duduk',
+  [ReservationStatus.COMPLETED]: 'Selesai',
+  [ReservationStatus.CANCELLED]: 'Dibatalkan',
+  [ReservationStatus.NO_SHOW]: 'Tidak datang',
+};
+
+export const DEFAULT_RESERVATION_MINUTES = 90;
+
+// Opening hours shown on the timeline
+export const TIMELINE_START_HOUR = 10;
+export const TIMELINE_END_HOUR = 23;
+
+type Slot = Pick<Reservation, 'startTime' | 'endTime'>;
+
+// Reservations that still hold their table
+export const isActiveReservation = (reservation: Reservation): boolean =>
+  reservation.status === ReservationStatus.BOOKED || reservation.status === ReservationStatus.SEATED;
+
+export const slotsOverlap = (a: Slot, b: Slot): boolean =>
+  Date.parse(a.startTime) < Date.parse(b.endTime) && Date.parse(b.startTime) < Date.parse(a.endTime);
+
+/**
+ * Why a reservation cannot be made as entered, empty when it can. Pass
+ * `excludeId` when editing so the reservation does not clash with itself.
+ */
+export const getReservationConflicts = (
+  input: Pick<ReservationInput, 'tableId' | 'partySize' | 'startTime' | 'endTime'>,
+  tables: Table[],
+  reservations: Reservation[],
+  excludeId?: number
+): string[] => {
+  const conflicts: string[] = [];
+  const table = tables.find(candidate => candidate.id === input.tableId);
+
+  if (!table) {
+    conflicts.push('Pilih meja.');
+  } else if (input.partySize > table.capacity) {
+    conflicts.push(`${table.name} hanya muat ${table.capacity} orang.`);
+  }
+  if (Date.parse(input.endTime) <= Date.parse(input.startTime)) {
+    conflicts.push('Waktu selesai harus setelah waktu mulai.');
+  }
+
+  reservations
+    .filter(reservation => reservation.id !== excludeId && reservation.tableId === input.tableId)
+    .filter(reservation => isActiveReservation(reservation) && slotsOverlap(reservation, input))
+    .forEach(reservation => {
+      conflicts.push(`Bentrok dengan reservasi ${reservation.guestName} (${formatSlot(reservation)}).`);
+    });
+
+  return conflicts;
+};
+
+/**
+ * Tables that fit `partySize` and are free for the whole slot, smallest first
+ * so large tables stay free for large parties
+ */
+export const findAvailableTables = (
+  partySize: number,
+  slot: Slot,
+  tables: Table[],
+  reservations: Reservation[]
+): Table[] =>
+  tables
+    .filter(table => table.capacity >= partySize)
+    .filter(table =>
+      !reservations.some(
+        reservation => reservation.tableId === table.id && isActiveReservation(reservation) && slotsOverlap(reservation, slot)
+      )
+    )
+    .sort((a, b) => a.capacity - b.capacity);
+
+/**
+ * Tables a walk-in party can sit at now: free, big enough and not needed for
+ * a reservation within `minutes`
+ */
+export const findTablesForWalkIn = (
+  partySize: number,
+  tables: Table[],
+  reservations: Reservation[],
+  now: Date = new Date(),
+  minutes: number = DEFAULT_RESERVATION_MINUTES
+): Table[] =>
+  findAvailableTables(
+    partySize,
+    { startTime: now.toISOString(), endTime: new Date(now.getTime() + minutes * 60000).toISOString() },
+    tables.filter(table => table.status === TableStatus.AVAILABLE),
+    reservations
+  );
+
+/**
+ * The booked reservation a table should be held for at `now`: one starting
+ * within `holdMinutes`, or already started and not yet over
+ */
+export const getUpcomingReservation = (
+  tableId: number,
+  reservations: Reservation[],
+  now: Date,
+  holdMinutes: number
+): Reservation | null =>
+  reservations
+    .filter(reservation => reservation.tableId === tableId && reservation.status === ReservationStatus.BOOKED)
+    .filter(reservation => {
+      const start = Date.parse(reservation.startTime);
+      return start - holdMinutes * 60000 <= now.getTime() && now.getTime() < Date.parse(reservation.endTime);
+    })
+    .sort((a, b) => Date.parse(a.startTime) - Date.parse(b.startTime))[0] ?? null;
+
+/**
+ * Days whose reservations can affect tables at `now`: today and, late in
+ * the evening, the day `holdMinutes` from now falls on
+ */
+export const getReservationDatesAround = (now: Date, holdMinutes: number): string[] => {
+  const today = toReservationDate(now);
+  const holdUntil = toReservationDate(new Date(now.getTime() + holdMinutes * 60000));
+  return holdUntil === today ? [today] : [today, holdUntil];
+};
+
+export const formatTime = (iso: string): string =>
+  new Date(iso).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit', timeZone: RESTAURANT_TIME_ZONE });
+
+export const formatSlot = (slot: Slot): string => `${formatTime(slot.startTime)}–${formatTime(slot.endTime)}`;
+
+/**
+ * Restaurant date (YYYY-MM-DD) of an instant, as used by GET /reservations
+ */
+export const toReservationDate = (time: Date | string = new Date()): string => toRestaurantDateParts(new Date(time)).dateKey;
+
+/**
+ * "HH:mm" in restaurant time, for time inputs
+ */
+export const toTimeValue = (iso: string): string => {
+  const shifted = new Date(Date.parse(iso) + RESTAURANT_UTC_OFFSET_MINUTES * 60000);
+  return `${String(shifted.getUTCHours()).padStart(2, '0')}:${String(shifted.getUTCMinutes()).padStart(2, '0')}`;
+};
+
+/**
+ * ISO timestamp from a restaurant YYYY-MM-DD date and "HH:mm"
+ */
+export const toIsoTime = (date: string, time: string): string =>
+  new Date(Date.parse(`${date}T${time}:00Z`) - RESTAURANT_UTC_OFFSET_MINUTES * 60000).toISOString();
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import type { OrderHistory } from '../types';
+import { OrderStatus } from '../types';
+import { buildSalesTrend, getOrderSaleTime, toRestaurantDateParts } from './salesTrend';
+
+let nextId = 1;
+
+const historyOrder = (overrides: Partial<OrderHistory>): OrderHistory => {
+  const id = nextId++;
+  return {
+    id,
+    orderId: id,
+    dailyOrderId: id,
+    orderDate: '',
+    tableId: 1,
+    tableCode: 'T1',
+    tableName: 'Meja 1',
+    totalPrice: 10000,
+    discounts: [],
+    items: [],
+    status: OrderStatus.COMPLETED,
+    completedAt: '',
+    createdAt: '',
+    updatedAt: '',
+    ...overrides,
+  };
+};
+
+// Wednesday 12 March 2025, 10:00 WIB
+const NOW = new Date('2025-03-12T03:00:00Z');
+
+describe('toRestaurantDateParts', () => {
+  it('reads instants as WIB wall-clock time', () => {
+    expect(toRestaurantDateParts(new Date('2025-03-12T03:00:00Z'))).toEqual({ dateKey: '2025-03-12', hour: 10, weekday: 3 });
+  });
+
+  it('starts the restaurant day at 17:00 UTC of the previous day', () => {
+    expect(toRestaurantDateParts(new Date('2025-03-11T16:59:59Z'))).toEqual({ dateKey: '2025-03-11', hour: 23, weekday: 2 });
+    expect(toRestaurantDateParts(new Date('2025-03-11T17:00:00Z'))).toEqual({ dateKey: '2025-03-12', hour: 0, weekday: 3 });
+  });
+
+  it('rolls over months and years', () => {
+    expect(toRestaurantDateParts(new Date('2024-12-31T18:30:00Z')).dateKey).toBe('2025-01-01');
+  });
+});
+
+describe('getOrderSaleTime', () => {
+  it('prefers completedAt over createdAt', () => {
+    const order = historyOrder({ completedAt: '2025-03-12T05:00:00Z', createdAt: '2025-03-12T04:00:00Z' });
+    expect(getOrderSaleTime(order)?.toISOString()).toBe('2025-03-12T05:00:00.000Z');
+  });
+
+  it('skips unreadable timestamps', () => {
+    const order = historyOrder({ completedAt: 'not a date', createdAt: '2025-03-12T04:00:00Z' });
+    expect(getOrderSaleTime(order)?.toISOString()).toBe('2025-03-12T04:00:00.000Z');
+  });
+
+  it('places orders with only an orderDate at WIB midnight', () => {
+    expect(getOrderSaleTime(historyOrder({ orderDate: '2025-03-12' }))?.toISOString()).toBe('2025-03-11T17:00:00.000Z');
+  });
+
+  it('returns null without any date', () => {
+    expect(getOrderSaleTime(historyOrder({}))).toBeNull();
+  });
+});
+
+describe('buildSalesTrend', () => {
+  describe('today', () => {
+    it('buckets completed orders by WIB hour', () => {
+      const trend = buildSalesTrend(
+        [
+          historyOrder({ completedAt: '2025-03-11T17:00:00Z', totalPrice: 15000 }), // 00:00 WIB
+          historyOrder({ completedAt: '2025-03-12T02:15:00Z', totalPrice: 20000 }), // 09:15 WIB
+          historyOrder({ completedAt: '2025-03-12T02:45:00Z', totalPrice: 5000 }), // 09:45 WIB
+        ],
+        'today',
+        NOW
+      );
+
+      expect(trend).toHaveLength(24);
+      expect(trend[0]).toEqual({ name: '12 AM', value: 15000, orders: 1 });
+      expect(trend[9]).toEqual({ name: '9 AM', value: 25000, orders: 2 });
+      expect(trend[13]).toEqual({ name: '1 PM', value: 0, orders: 0 });
+    });
+
+    it('leaves out orders of the previous WIB day', () => {
+      // 23:59 WIB on the 11th; a browser in WITA (UTC+8) would already call it the 12th
+      const trend = buildSalesTrend([historyOrder({ completedAt: '2025-03-11T16:59:00Z' })], 'today', NOW);
+      expect(trend.every(point => point.orders === 0)).toBe(true);
+    });
+
+    it('counts only completed orders', () => {
+      const trend = buildSalesTrend(
+        [
+          historyOrder({ completedAt: '2025-03-12T02:00:00Z', status: OrderStatus.CANCELLED }),
+          historyOrder({ completedAt: '2025-03-12T02:00:00Z', status: OrderStatus.PENDING }),
+        ],
+        'today',
+        NOW
+      );
+      expect(trend[9].orders).toBe(0);
+    });
+
+    it('falls back to the line items when the total is missing', () => {
+      const trend = buildSalesTrend(
+        [
+          historyOrder({
+            completedAt: '2025-03-12T02:00:00Z',
+            totalPrice: 0,
+            items: [
+              { menuId: 1, menuName: 'Nasi Goreng', quantity: 2, price: 18000 },
+              { menuId: 2, menuName: 'Es Teh', quantity: 1, price: 5000 },
+            ],
+          }),
+        ],
+        'today',
+        NOW
+      );
+      expect(trend[9]).toEqual({ name: '9 AM', value: 41000, orders: 1 });
+    });
+  });
+
+  describe('week', () => {
+    it('has the last 7 WIB days, ending today', () => {
+      const trend = buildSalesTrend([], 'week', NOW);
+      expect(trend.map(point => point.name)).toEqual([
+        'Thursday',
+        'Friday',
+        'Saturday',
+        'Sunday',
+        'Monday',
+        'Tuesday',
+        'Wednesday',
+      ]);
+    });
+
+    it('assigns late-evening UTC orders to the next WIB day', () => {
+      const trend = buildSalesTrend(
+        [
+          historyOrder({ completedAt: '2025-03-10T16:30:00Z', totalPrice: 12000 }), // Monday 23:30 WIB
+          historyOrder({ completedAt: '2025-03-10T17:30:00Z', totalPrice: 8000 }), // Tuesday 00:30 WIB
+        ],
+        'week',
+        NOW
+      );
+      expect(trend[4]).toEqual({ name: 'Monday', value: 12000, orders: 1 });
+      expect(trend[5]).toEqual({ name: 'Tuesday', value: 8000, orders: 1 });
+    });
+
+    it('ignores orders before the window', () => {
+      // Wednesday 5 March, the day before the window starts
+      const trend = buildSalesTrend([historyOrder({ orderDate: '2025-03-05' })], 'week', NOW);
+      expect(trend.reduce((sum, point) => sum + point.orders, 0)).toBe(0);
+    });
+  });
+
+  describe('month', () => {
+    it('has the last 30 WIB days labelled by date', () => {
+      const trend = buildSalesTrend([historyOrder({ orderDate: '2025-02-11', totalPrice: 30000 })], 'month', NOW);
+      expect(trend).toHaveLength(30);
+      expect(trend[0]).toEqual({ name: 'Feb 11', value: 30000, orders: 1 });
+      expect(trend[29].name).toBe('Mar 12');
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import type { OrderHistory } from '../types';
+import { OrderStatus } from '../types';
+
+export type SalesTrendPeriod = 'today' | 'week' | 'month';
+
+export interface SalesTrendPoint {
+  name: string;
+  value: number; // Revenue in the bucket
+  orders: number;
+}
+
+// The restaurant runs on WIB (Asia/Jakarta, UTC+7), which has no daylight
+// saving time, so a fixed offset gives exact day and hour boundaries
+// regardless of the browser's timezone.
+export const RESTAURANT_UTC_OFFSET_MINUTES = 7 * 60;
+export const RESTAURANT_TIME_ZONE = 'Asia/Jakarta';
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+interface RestaurantDateParts {
+  dateKey: string; // YYYY-MM-DD in restaurant time
+  hour: number;
+  weekday: number; // 0 = Sunday
+}
+
+/**
+ * Calendar date, hour and weekday of an instant in restaurant time
+ */
+export const toRestaurantDateParts = (date: Date): RestaurantDateParts => {
+  // Shift the instant so its UTC fields read as restaurant wall-clock time
+  const shifted = new Date(date.getTime() + RESTAURANT_UTC_OFFSET_MINUTES * MS_PER_MINUTE);
+  const year = shifted.getUTCFullYear();
+  const month = String(shifted.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(shifted.getUTCDate()).padStart(2, '0');
+
+  return {
+    dateKey: `${year}-${month}-${day}`,
+    hour: shifted.getUTCHours(),
+    weekday: shifted.getUTCDay(),
+  };
+};
+
+/**
+ * Add days to a YYYY-MM-DD key without touching the local timezone
+ */
+export const addDaysToKey = (dateKey: string, days: number): string => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day) + days * MS_PER_DAY);
+  return date.toISOString().slice(0, 10);
+};
+
+const weekdayOfKey = (dateKey: string): number => new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+
+const formatHourLabel = (hour: number): string =>
+  hour === 0 ? '12 AM' : hour < 12 ? `${hour} AM` : hour === 12 ? '12 PM' : `${hour - 12} PM`;
+
+const formatDayLabel = (dateKey: string): string =>
+  new Date(`${dateKey}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const getOrderRevenue = (order: OrderHistory): number => {
+  if (order.totalPrice > 0) return order.totalPrice;
+
+  // Some history rows lack a total; fall back to the line items
+  return order.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+};
+
+/**
+ * Moment an order counts as a sale: when it was completed, else when it was
+ * created. Orders with only an orderDate are placed at restaurant midnight.
+ */
+export const getOrderSaleTime = (order: OrderHistory): Date | null => {
+  const candidates = [order.completedAt, order.createdAt];
+  for (const value of candidates) {
+    if (!value) continue;
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) return date;
+  }
+
+  if (order.orderDate && /^\d{4}-\d{2}-\d{2}$/.test(order.orderDate)) {
+    const midnightUtc = Date.parse(`${order.orderDate}T00:00:00Z`);
+    return new Date(midnightUtc - RESTAURANT_UTC_OFFSET_MINUTES * MS_PER_MINUTE);
+  }
+  return null;
+};
+
+const isCompletedSale = (order: OrderHistory): boolean => order.status === OrderStatus.COMPLETED;
+
+/**
+ * Bucket completed orders into the trend series shown on the dashboard:
+ * - today: 24 hourly buckets of the current restaurant day
+ * - week: the last 7 restaurant days, labelled by weekday
+ * - month: the last 30 restaurant days, labelled by date
+ * Empty buckets are kept with zeros so the chart has a continuous axis;
+ * orders outside the window are ignored.
+ */
+export const buildSalesTrend = (
+  orders: OrderHistory[],
+  period: SalesTrendPeriod,
+  now: Date = new Date()
+): SalesTrendPoint[] => {
+  const today = toRestaurantDateParts(now).dateKey;
+
+  if (period === 'today') {
+    const buckets: SalesTrendPoint[] = Array.from({ length: 24 }, (_, hour) => ({
+      name: formatHourLabel(hour),
+      value: 0,
+      orders: 0,
+    }));
+
+    orders.forEach(order => {
+      const saleTime = getOrderSaleTime(order);
+      if (!saleTime || !isCompletedSale(order)) return;
+
+      const parts = toRestaurantDateParts(saleTime);
+      if (parts.dateKey !== today) return;
+      buckets[parts.hour].value += getOrderRevenue(order);
+      buckets[parts.hour].orders += 1;
+    });
+    return buckets;
+  }
+
+  const days = period === 'week' ? 7 : 30;
+  const dateKeys = Array.from({ length: days }, (_, index) => addDaysToKey(today, index - (days - 1)));
+  const indexByKey = new Map(dateKeys.map((key, index) => [key, index]));
+  const buckets: SalesTrendPoint[] = dateKeys.map(key => ({
+    name: period === 'week' ? WEEKDAY_NAMES[weekdayOfKey(key)] : formatDayLabel(key),
+    value: 0,
+    orders: 0,
+  }));
+
+  orders.forEach(order => {
+    const saleTime = getOrderSaleTime(order);
+    if (!saleTime || !isCompletedSale(order)) return;
+
+    const index = indexByKey.get(toRestaurantDateParts(saleTime).dateKey);
+    if (index === undefined) return;
+    buckets[index].value += getOrderRevenue(order);
+    buckets[index].orders += 1;
+  });
+  return buckets;
+};
@@ -0,0 +1,88 @@
+import type { ServiceRequest } from '../types';
+import { ServiceRequestStatus, ServiceRequestType } from '../types';
+
+export const SERVICE_REQUEST_LABELS: Record<ServiceRequestType, string> = {
+  [ServiceRequestType.CALL_WAITER]: 'Panggil pelayan',
+  [ServiceRequestType.REQUEST_BILL]: 'Minta bill',
+  [ServiceRequestType.CUTLERY]: 'Alat makan',
+  [ServiceRequestType.NAPKINS]: 'Tisu',
+  [ServiceRequestType.CUSTOM]: 'Pesan lain',
+};
+
+export const SERVICE_REQUEST_STATUS_LABELS: Record<ServiceRequestStatus, string> = {
+  [ServiceRequestStatus.OPEN]: 'Menunggu',
+  [ServiceRequestStatus.ACKNOWLEDGED]: 'Pelayan menuju meja',
+  [ServiceRequestStatus.RESOLVED]: 'Selesai',
+};
+
+// Requests left unacknowledged this long are highlighted for staff
+export const SERVICE_REQUEST_OVERDUE_MINUTES = 3;
+
+export interface ServiceResponseTimes {
+  type: ServiceRequestType | 'all';
+  label: string;
+  count: number;
+  acknowledged: number;
+  averageAcknowledgeMinutes: number | null; // null when none was acknowledged
+  averageResolveMinutes: number | null;
+  slowestAcknowledgeMinutes: number | null;
+}
+
+const minutesBetween = (from: string, to?: string): number | null => {
+  if (!to) return null;
+  const minutes = (Date.parse(to) - Date.parse(from)) / 60000;
+  return Number.isFinite(minutes) && minutes >= 0 ? minutes : null;
+};
+
+/**
+ * Minutes until staff took the request, or null while nobody has
+ */
+export const getAcknowledgeMinutes = (request: ServiceRequest): number | null =>
+  minutesBetween(request.createdAt, request.acknowledgedAt);
+
+/**
+ * Minutes from the request until it was done, or null while it is not
+ */
+export const getResolveMinutes = (request: ServiceRequest): number | null =>
+  minutesBetween(request.createdAt, request.resolvedAt);
+
+export const getWaitingMinutes = (request: ServiceRequest, now: Date = new Date()): number =>
+  Math.max(0, Math.floor((now.getTime() - Date.parse(request.createdAt)) / 60000));
+
+export const isActiveServiceRequest = (request: ServiceRequest): boolean =>
+  request.status !== ServiceRequestStatus.RESOLVED;
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+const summarize = (requests: ServiceRequest[], type: ServiceRequestType | 'all', label: string): ServiceResponseTimes => {
+  const acknowledgeMinutes = requests.map(getAcknowledgeMinutes).filter((minutes): minutes is number => minutes !== null);
+  const resolveMinutes = requests.map(getResolveMinutes).filter((minutes): minutes is number => minutes !== null);
+
+  return {
+    type,
+    label,
+    count: requests.length,
+    acknowledged: acknowledgeMinutes.length,
+    averageAcknowledgeMinutes: average(acknowledgeMinutes),
+    averageResolveMinutes: average(resolveMinutes),
+    slowestAcknowledgeMinutes: acknowledgeMinutes.length > 0 ? Math.max(...acknowledgeMinutes) : null,
+  };
+};
+
+/**
+ * Response times over all requests (first entry) and per request type, for
+ * the types that occurred
+ */
+export const summarizeResponseTimes = (requests: ServiceRequest[]): ServiceResponseTimes[] => [
+  summarize(requests, 'all', 'Semua permintaan'),
+  ...Object.values(ServiceRequestType)
+    .map(type => summarize(requests.filter(request => request.type === type), type, SERVICE_REQUEST_LABELS[type]))
+    .filter(summary => summary.count > 0),
+];
+
+/**
+ * "2,5 mnt" style label for a duration, or "-" when there is none
+ */
+export const formatMinutes = (minutes: number | null): string =>
+  minutes === null ? '-' : `${minutes.toLocaleString('id-ID', { maximumFractionDigits: 1 })} mnt`;
@@ -0,0 +1,98 @@
+import type { Order, OrderItemMove, OrderPaymentSummary, Table, TableGroup } from '../types';
+import { OrderStatus, PaymentStatus, TableStatus } from '../types';
+
+// Merged tables and moving orders between tables. A group only joins tables
+// for seating and billing; orders keep the table they were placed at, so
+// splitting a group needs no clean-up.
+
+/**
+ * The group `tableId` is merged into, if any
+ */
+export const getTableGroup = (tableId: number, groups: TableGroup[]): TableGroup | undefined =>
+  groups.find(group => group.tableIds.includes(tableId));
+
+/**
+ * Tables billed and occupied together with `tableId`, itself included
+ */
+export const getGroupTableIds = (tableId: number, groups: TableGroup[]): number[] =>
+  getTableGroup(tableId, groups)?.tableIds ?? [tableId];
+
+/**
+ * Display name of a group, e.g. "Meja 1 + Meja 2 + Meja 3"
+ */
+export const getGroupName = (group: TableGroup, tables: Table[]): string =>
+  group.name ||
+  group.tableIds.map(id => tables.find(table => table.id === id)?.name ?? `#${id}`).join(' + ');
+
+export const getGroupCapacity = (group: TableGroup, tables: Table[]): number =>
+  tables.filter(table => group.tableIds.includes(table.id)).reduce((sum, table) => sum + table.capacity, 0);
+
+/**
+ * Why `tableIds` cannot be merged, or null when they can
+ */
+export const getMergeError = (tableIds: number[], tables: Table[], groups: TableGroup[]): string | null => {
+  if (tableIds.length < 2) return 'Pilih minimal dua meja.';
+
+  for (const id of tableIds) {
+    const table = tables.find(candidate => candidate.id === id);
+    if (!table) return `Meja #${id} tidak ditemukan.`;
+    if (getTableGroup(id, groups)) return `${table.name} sudah tergabung dengan meja lain.`;
+    if (table.status === TableStatus.CLEANING) return `${table.name} sedang dibersihkan.`;
+  }
+  return null;
+};
+
+/**
+ * Indexes of the lines of `order` that may still be moved: paid lines stay
+ * with the order their payment is allocated to
+ */
+export const getMovableItemIndexes = (order: Order, summary?: OrderPaymentSummary): number[] =>
+  order.orderItems
+    .map((_, index) => index)
+    .filter(index => !summary?.paidItemIndexes.includes(index));
+
+/**
+ * Why `order` cannot be moved to `toTableId`, or null when it can. Pass
+ * `items` for a partial move.
+ */
+export const getOrderMoveError = (
+  order: Order,
+  toTableId: number | undefined,
+  summary?: OrderPaymentSummary,
+  items?: OrderItemMove[]
+): string | null => {
+  const isOpen = order.status === OrderStatus.PENDING || order.status === OrderStatus.PROCESSING;
+  if (!isOpen || summary?.status === PaymentStatus.PAID) {
+    return 'Pesanan yang sudah selesai, dibayar atau dibatalkan tidak bisa dipindahkan.';
+  }
+  if (toTableId === undefined) return 'Pilih meja tujuan.';
+  if (toTableId === order.tableId) return 'Pesanan sudah berada di meja ini.';
+  if (!items) return null;
+
+  const moving = items.filter(item => item.quantity > 0);
+  if (moving.length === 0) return 'Pilih item yang akan dipindahkan.';
+
+  const movable = getMovableItemIndexes(order, summary);
+  for (const { itemIndex, quantity } of moving) {
+    const line = order.orderItems[itemIndex];
+    if (!line || !movable.includes(itemIndex)) return 'Item yang sudah dibayar tidak bisa dipindahkan.';
+    if (quantity > line.quantity) return 'Jumlah yang dipindahkan melebihi jumlah pesanan.';
+  }
+
+  const movesEverything = order.orderItems.every((line, index) =>
+    moving.some(item => item.itemIndex === index && item.quantity === line.quantity)
+  );
+  if (movesEverything) return 'Semua item dipilih; pindahkan seluruh pesanan saja.';
+  return null;
+};
+
+/**
+ * Orders at `tableId` that moved lines can be added to
+ */
+export const getMoveTargetOrders = (tableId: number, orders: Order[], excludeOrderId?: number): Order[] =>
+  orders.filter(
+    order =>
+      order.tableId === tableId &&
+      order.id !== excludeOrderId &&
+      (order.status === OrderStatus.PENDING || order.status === OrderStatus.PROCESSING)
+  );
@@ -0,0 +1,272 @@
+import { describe, expect, it } from 'vitest';
+import type { Order, OrderPaymentSummary, Reservation, Table } from '../types';
+import { OrderStatus, PaymentStatus, ReservationStatus, TableStatus } from '../types';
+import type { TableLifecycleConfig } from './tableLifecycle';
+import { getCleaningEndsAt, getNextTableStatus, isOrderSettled } from './tableLifecycle';
+
+// Explicit config so the tests do not depend on the VITE_* environment
+const CONFIG: TableLifecycleConfig = { cleaningMinutes: 5, reservationHoldMinutes: 30 };
+
+const NOW = new Date('2025-03-12T12:00:00Z');
+const minutesFromNow = (minutes: number) => new Date(NOW.getTime() + minutes * 60000).toISOString();
+
+const table = (status: TableStatus, overrides: Partial<Table> = {}): Table => ({
+  id: 1,
+  name: 'Meja 1',
+  code: 'T1',
+  capacity: 4,
+  status,
+  statusSource: 'auto',
+  statusChangedAt: minutesFromNow(-60),
+  ...overrides,
+});
+
+const order = (status: OrderStatus, overrides: Partial<Order> = {}): Order => ({
+  id: 10,
+  tableId: 1,
+  orderItems: [],
+  totalPrice: 25000,
+  discounts: [],
+  status,
+  isProcessed: status === OrderStatus.PROCESSING,
+  ...overrides,
+});
+
+const reservation = (status: ReservationStatus, startsIn: number, overrides: Partial<Reservation> = {}): Reservation => ({
+  id: 20,
+  tableId: 1,
+  guestName: 'Budi',
+  partySize: 4,
+  startTime: minutesFromNow(startsIn),
+  endTime: minutesFromNow(startsIn + 90),
+  status,
+  ...overrides,
+});
+
+const paid = (orderId: number): Record<number, OrderPaymentSummary> => ({
+  [orderId]: {
+    orderId,
+    totalPrice: 25000,
+    paidAmount: 25000,
+    remaining: 0,
+    status: PaymentStatus.PAID,
+    methods: [],
+    paidItemIndexes: [],
+  },
+});
+
+const next = (current: Table, context: Parameters<typeof getNextTableStatus>[1], config = CONFIG) =>
+  getNextTableStatus(current, context, NOW, config)?.status ?? null;
+
+describe('isOrderSettled', () => {
+  it('settles completed, cancelled and fully paid orders', () => {
+    expect(isOrderSettled(order(OrderStatus.COMPLETED))).toBe(true);
+    expect(isOrderSettled(order(OrderStatus.CANCELLED))).toBe(true);
+    expect(isOrderSettled(order(OrderStatus.PROCESSING), paid(10)[10])).toBe(true);
+  });
+
+  it('keeps open and partly paid orders open', () => {
+    expect(isOrderSettled(order(OrderStatus.PENDING))).toBe(false);
+    expect(isOrderSettled(order(OrderStatus.PROCESSING), { ...paid(10)[10], status: PaymentStatus.PARTIAL })).toBe(false);
+  });
+});
+
+describe('getCleaningEndsAt', () => {
+  it('adds the cleaning time to the status change', () => {
+    expect(getCleaningEndsAt(table(TableStatus.CLEANING, { statusChangedAt: minutesFromNow(-2) }), CONFIG)).toEqual(
+      new Date(minutesFromNow(3))
+    );
+  });
+
+  it('is null for other statuses or an unknown start', () => {
+    expect(getCleaningEndsAt(table(TableStatus.OCCUPIED), CONFIG)).toBeNull();
+    expect(getCleaningEndsAt(table(TableStatus.CLEANING, { statusChangedAt: undefined }), CONFIG)).toBeNull();
+  });
+});
+
+describe('getNextTableStatus', () => {
+  describe('occupying', () => {
+    it('occupies a free table with its first open order', () => {
+      expect(getNextTableStatus(table(TableStatus.AVAILABLE), { orders: [order(OrderStatus.PENDING)] }, NOW, CONFIG)).toEqual({
+        status: TableStatus.OCCUPIED,
+        reason: 'Pesanan baru masuk',
+      });
+      expect(next(table(TableStatus.CLEANING), { orders: [order(OrderStatus.PENDING)] })).toBe(TableStatus.OCCUPIED);
+      expect(next(table(TableStatus.RESERVED), { orders: [order(OrderStatus.PENDING)] })).toBe(TableStatus.OCCUPIED);
+    });
+
+    it('leaves an automatically occupied table alone while orders are open', () => {
+      expect(next(table(TableStatus.OCCUPIED), { orders: [order(OrderStatus.PROCESSING)] })).toBeNull();
+    });
+
+    it('takes over a table staff occupied by hand once an order comes in', () => {
+      const manual = table(TableStatus.OCCUPIED, { statusSource: 'manual', statusChangedAt: minutesFromNow(-10) });
+      expect(getNextTableStatus(manual, { orders: [order(OrderStatus.PENDING, { createdAt: minutesFromNow(-5) })] }, NOW, CONFIG)).toEqual({
+        status: TableStatus.OCCUPIED,
+        reason: 'Pesanan baru masuk, status diatur otomatis',
+      });
+    });
+
+    it('ignores orders at other tables', () => {
+      expect(next(table(TableStatus.AVAILABLE), { orders: [order(OrderStatus.PENDING, { tableId: 2 })] })).toBeNull();
+    });
+
+    it('shares orders between merged tables', () => {
+      const groups = [{ id: 1, tableIds: [1, 2], primaryTableId: 2, createdAt: minutesFromNow(-30) }];
+      expect(next(table(TableStatus.AVAILABLE), { orders: [order(OrderStatus.PENDING, { tableId: 2 })], groups })).toBe(
+        TableStatus.OCCUPIED
+      );
+    });
+
+    it('occupies the table when reserved guests are seated', () => {
+      const reservations = [reservation(ReservationStatus.SEATED, -10)];
+      expect(next(table(TableStatus.RESERVED), { orders: [], reservations })).toBe(TableStatus.OCCUPIED);
+    });
+
+    it('frees the table once the seated slot is over', () => {
+      const reservations = [reservation(ReservationStatus.SEATED, -120)];
+      expect(next(table(TableStatus.OCCUPIED), { orders: [], reservations })).toBe(TableStatus.CLEANING);
+    });
+  });
+
+  describe('manual override with open orders', () => {
+    const setByHand = (status: TableStatus) =>
+      table(status, { statusSource: 'manual', statusChangedAt: minutesFromNow(-10) });
+    const earlierOrder = order(OrderStatus.PROCESSING, { createdAt: minutesFromNow(-30) });
+
+    it.each([TableStatus.AVAILABLE, TableStatus.RESERVED, TableStatus.CLEANING, TableStatus.OCCUPIED])(
+      'keeps %s set by hand over orders placed before',
+      status => {
+        expect(next(setByHand(status), { orders: [earlierOrder] })).toBeNull();
+      }
+    );
+
+    it('keeps it over orders without a creation time', () => {
+      expect(next(setByHand(TableStatus.RESERVED), { orders: [order(OrderStatus.PENDING)] })).toBeNull();
+    });
+
+    it('occupies the table once an order is placed after the change', () => {
+      const orders = [earlierOrder, order(OrderStatus.PENDING, { id: 11, createdAt: minutesFromNow(-2) })];
+      expect(next(setByHand(TableStatus.RESERVED), { orders })).toBe(TableStatus.OCCUPIED);
+      expect(next(setByHand(TableStatus.AVAILABLE), { orders })).toBe(TableStatus.OCCUPIED);
+    });
+
+    it('occupies the table for seated guests whose slot started after the change', () => {
+      expect(next(setByHand(TableStatus.AVAILABLE), { orders: [], reservations: [reservation(ReservationStatus.SEATED, -30)] })).toBeNull();
+      expect(next(setByHand(TableStatus.AVAILABLE), { orders: [], reservations: [reservation(ReservationStatus.SEATED, -5)] })).toBe(
+        TableStatus.OCCUPIED
+      );
+    });
+
+    it('treats every order as new when the change time is unknown', () => {
+      expect(next(table(TableStatus.RESERVED, { statusSource: 'manual', statusChangedAt: undefined }), { orders: [earlierOrder] })).toBe(
+        TableStatus.OCCUPIED
+      );
+    });
+  });
+
+  describe('settling', () => {
+    it('sends the table to cleaning once every order is settled', () => {
+      const orders = [order(OrderStatus.COMPLETED), order(OrderStatus.CANCELLED, { id: 11 })];
+      expect(next(table(TableStatus.OCCUPIED), { orders })).toBe(TableStatus.CLEANING);
+    });
+
+    it('counts a paid order as settled before the kitchen completes it', () => {
+      expect(next(table(TableStatus.OCCUPIED), { orders: [order(OrderStatus.PROCESSING)], summaries: paid(10) })).toBe(
+        TableStatus.CLEANING
+      );
+    });
+
+    it('waits for every order at the table', () => {
+      const orders = [order(OrderStatus.COMPLETED), order(OrderStatus.PENDING, { id: 11 })];
+      expect(next(table(TableStatus.OCCUPIED), { orders })).toBeNull();
+    });
+
+    it('skips cleaning when it takes no time', () => {
+      const noCleaning = { ...CONFIG, cleaningMinutes: 0 };
+      expect(next(table(TableStatus.OCCUPIED), { orders: [] }, noCleaning)).toBe(TableStatus.AVAILABLE);
+      expect(next(table(TableStatus.OCCUPIED), { orders: [], reservations: [reservation(ReservationStatus.BOOKED, 20)] }, noCleaning)).toBe(
+        TableStatus.RESERVED
+      );
+    });
+
+    it('leaves a table staff occupied by hand until an order comes in', () => {
+      expect(next(table(TableStatus.OCCUPIED, { statusSource: 'manual' }), { orders: [] })).toBeNull();
+    });
+  });
+
+  describe('cleaning', () => {
+    it('keeps cleaning until the cleaning time is up', () => {
+      expect(next(table(TableStatus.CLEANING, { statusChangedAt: minutesFromNow(-4) }), { orders: [] })).toBeNull();
+    });
+
+    it('frees the table after the cleaning time', () => {
+      expect(getNextTableStatus(table(TableStatus.CLEANING, { statusChangedAt: minutesFromNow(-5) }), { orders: [] }, NOW, CONFIG)).toEqual({
+        status: TableStatus.AVAILABLE,
+        reason: 'Waktu pembersihan selesai',
+      });
+    });
+
+    it('holds the table for a booking due after cleaning', () => {
+      const reservations = [reservation(ReservationStatus.BOOKED, 15)];
+      expect(next(table(TableStatus.CLEANING, { statusChangedAt: minutesFromNow(-5) }), { orders: [], reservations })).toBe(
+        TableStatus.RESERVED
+      );
+    });
+
+    it('leaves cleaning staff started by hand', () => {
+      expect(next(table(TableStatus.CLEANING, { statusSource: 'manual', statusChangedAt: minutesFromNow(-60) }), { orders: [] })).toBeNull();
+    });
+  });
+
+  describe('reservations', () => {
+    it('holds a free table from the hold time before the slot', () => {
+      expect(next(table(TableStatus.AVAILABLE), { orders: [], reservations: [reservation(ReservationStatus.BOOKED, 30)] })).toBe(
+        TableStatus.RESERVED
+      );
+      expect(next(table(TableStatus.AVAILABLE), { orders: [], reservations: [reservation(ReservationStatus.BOOKED, 31)] })).toBeNull();
+    });
+
+    it('names the guest in the reason', () => {
+      const decision = getNextTableStatus(
+        table(TableStatus.AVAILABLE),
+        { orders: [], reservations: [reservation(ReservationStatus.BOOKED, 20)] },
+        NOW,
+        CONFIG
+      );
+      expect(decision?.reason).toContain('Reservasi Budi pukul');
+    });
+
+    it('only holds for booked reservations at this table', () => {
+      const reservations = [
+        reservation(ReservationStatus.CANCELLED, 10),
+        reservation(ReservationStatus.NO_SHOW, -10, { id: 21 }),
+        reservation(ReservationStatus.BOOKED, 10, { id: 22, tableId: 2 }),
+      ];
+      expect(next(table(TableStatus.AVAILABLE), { orders: [], reservations })).toBeNull();
+    });
+
+    it('releases an automatic hold once no booking needs it', () => {
+      expect(next(table(TableStatus.RESERVED), { orders: [] })).toBe(TableStatus.AVAILABLE);
+      expect(next(table(TableStatus.RESERVED), { orders: [], reservations: [reservation(ReservationStatus.CANCELLED, 10)] })).toBe(
+        TableStatus.AVAILABLE
+      );
+    });
+
+    it('keeps the hold while the booking is due', () => {
+      expect(next(table(TableStatus.RESERVED), { orders: [], reservations: [reservation(ReservationStatus.BOOKED, -10)] })).toBeNull();
+    });
+
+    it('keeps a table staff freed by hand after its hold began', () => {
+      // Hold began 20 minutes ago, the table was freed 10 minutes ago
+      const freed = table(TableStatus.AVAILABLE, { statusSource: 'manual', statusChangedAt: minutesFromNow(-10) });
+      expect(next(freed, { orders: [], reservations: [reservation(ReservationStatus.BOOKED, 10)] })).toBeNull();
+      // This hold only begins now
+      expect(next(freed, { orders: [], reservations: [reservation(ReservationStatus.BOOKED, 30)] })).toBe(TableStatus.RESERVED);
+    });
+
+    it('leaves a table staff reserved by hand', () => {
+      expect(next(table(TableStatus.RESERVED, { statusSource: 'manual' }), { orders: [] })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import type { Order, OrderPaymentSummary, Reservation, Table, TableGroup } from '../types';
+import { OrderStatus, PaymentStatus, ReservationStatus, TableStatus } from '../types';
+import { formatTime, getUpcomingReservation } from './reservations';
+import { getGroupTableIds } from './tableGroups';
+
+// Table status derived from orders and reservations. A table becomes occupied
+// with its first open order (or when reserved guests are seated), goes to
+// cleaning once every order is completed, paid or cancelled, and is available
+// again after the cleaning time. Shortly before a booked slot it is held as
+// reserved. Merged tables share their orders. Staff can still set any status
+// by hand; automation then only steps in for something that happened after
+// that change, such as a new order or a reservation hold starting.
+
+export interface TableLifecycleConfig {
+  cleaningMinutes: number; // 0 skips the cleaning state
+  reservationHoldMinutes: number; // How long before a booked slot the table is held
+}
+
+// What the lifecycle looks at besides the table itself
+export interface TableLifecycleContext {
+  orders: Order[];
+  summaries?: Record<number, OrderPaymentSummary>;
+  reservations?: Reservation[];
+  groups?: TableGroup[];
+}
+
+const readMinutes = (value: unknown, fallback: number): number => {
+  const minutes = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(minutes) && minutes >= 0 ? minutes : fallback;
+};
+
+export const DEFAULT_TABLE_LIFECYCLE_CONFIG: TableLifecycleConfig = {
+  cleaningMinutes: readMinutes(import.meta.env.VITE_TABLE_CLEANING_MINUTES, 5),
+  reservationHoldMinutes: readMinutes(import.meta.env.VITE_RESERVATION_HOLD_MINUTES, 30),
+};
+
+export const TABLE_STATUS_LABELS: Record<TableStatus, string> = {
+  [TableStatus.AVAILABLE]: 'Available',
+  [TableStatus.OCCUPIED]: 'Occupied',
+  [TableStatus.RESERVED]: 'Reserved',
+  [TableStatus.CLEANING]: 'Cleaning',
+};
+
+export interface TableStatusDecision {
+  status: TableStatus;
+  reason: string;
+}
+
+/**
+ * Whether an order no longer keeps its table busy
+ */
+export const isOrderSettled = (order: Order, summary?: OrderPaymentSummary): boolean =>
+  order.status === OrderStatus.COMPLETED ||
+  order.status === OrderStatus.CANCELLED ||
+  summary?.status === PaymentStatus.PAID;
+
+/**
+ * When a cleaning table becomes available again, or null when it is not cleaning
+ */
+export const getCleaningEndsAt = (
+  table: Pick<Table, 'status' | 'statusChangedAt'>,
+  config: TableLifecycleConfig = DEFAULT_TABLE_LIFECYCLE_CONFIG
+): Date | null => {
+  if (table.status !== TableStatus.CLEANING) return null;
+  const started = table.statusChangedAt ? new Date(table.statusChangedAt).getTime() : NaN;
+  return Number.isNaN(started) ? null : new Date(started + config.cleaningMinutes * 60000);
+};
+
+/**
+ * The status `table` should move to, or null to leave it.
+ *
+ * - Open orders (at any table of its group) or seated reservation guests
+ *   make the table occupied. A status staff set by hand is kept until an
+ *   order is placed or a slot starts after that change; then automation
+ *   takes over, so walk-in guests' tables are cleaned after they pay.
+ * - An occupied table without them goes to cleaning, unless staff set it by
+ *   hand and no order has come in since.
+ * - Cleaning ends after `cleaningMinutes`, unless staff started it by hand.
+ * - A free table is held as reserved from `reservationHoldMinutes` before a
+ *   booked slot, and released once no booking holds it any more. A table
+ *   staff freed by hand is only held for a hold that starts later.
+ */
+export const getNextTableStatus = (
+  table: Table,
+  { orders, summaries = {}, reservations = [], groups = [] }: TableLifecycleContext,
+  now: Date = new Date(),
+  config: TableLifecycleConfig = DEFAULT_TABLE_LIFECYCLE_CONFIG
+): TableStatusDecision | null => {
+  const tableIds = getGroupTableIds(table.id, groups);
+  const isAuto = table.statusSource !== 'manual';
+  const changedAt = table.statusChangedAt ? Date.parse(table.statusChangedAt) : NaN;
+  // Whether something at `time` came after staff last set the status by hand.
+  // Without a known change time every event counts as new.
+  const isNewSinceChange = (time: string | number | undefined): boolean =>
+    isAuto || Number.isNaN(changedAt) || (time !== undefined && new Date(time).getTime() > changedAt);
+
+  const openOrders = orders.filter(order => tableIds.includes(order.tableId) && !isOrderSettled(order, summaries[order.id]));
+  const hasOpenOrders = openOrders.length > 0;
+  // Guests may be seated early, so only the end of the slot matters
+  const seatedReservation = reservations.find(
+    reservation =>
+      reservation.tableId === table.id &&
+      reservation.status === ReservationStatus.SEATED &&
+      now.getTime() < Date.parse(reservation.endTime)
+  );
+  const upcoming = getUpcomingReservation(table.id, reservations, now, config.reservationHoldMinutes);
+  const isHoldNew = upcoming !== null && isNewSinceChange(Date.parse(upcoming.startTime) - config.reservationHoldMinutes * 60000);
+
+  // Where a table goes once nobody is sitting at it
+  const freeStatus = (reason: string): TableStatusDecision =>
+    upcoming
+      ? { status: TableStatus.RESERVED, reason: `Reservasi ${upcoming.guestName} pukul ${formatTime(upcoming.startTime)}` }
+      : { status: TableStatus.AVAILABLE, reason };
+
+  if (hasOpenOrders || seatedReservation) {
+    const isNew =
+      openOrders.some(order => isNewSinceChange(order.createdAt)) ||
+      (seatedReservation !== undefined && isNewSinceChange(seatedReservation.startTime));
+    // Staff's call stands until guests order or arrive after it
+    if (!isNew) return null;
+    const reason = hasOpenOrders ? 'Pesanan baru masuk' : `Tamu reservasi ${seatedReservation?.guestName} datang`;
+    if (table.status !== TableStatus.OCCUPIED) return { status: TableStatus.OCCUPIED, reason };
+    if (!isAuto) return { status: TableStatus.OCCUPIED, reason: `${reason}, status diatur otomatis` };
+    return null;
+  }
+
+  if (table.status === TableStatus.OCCUPIED && isAuto) {
+    return config.cleaningMinutes > 0
+      ? { status: TableStatus.CLEANING, reason: 'Semua pesanan selesai' }
+      : freeStatus('Semua pesanan selesai');
+  }
+
+  if (table.status === TableStatus.CLEANING && isAuto) {
+    const endsAt = getCleaningEndsAt(table, config);
+    if (!endsAt || endsAt.getTime() <= now.getTime()) return freeStatus('Waktu pembersihan selesai');
+  }
+
+  if (table.status === TableStatus.AVAILABLE && upcoming && isHoldNew) return freeStatus('Reservasi akan datang');
+
+  if (table.status === TableStatus.RESERVED && isAuto && !upcoming) {
+    return { status: TableStatus.AVAILABLE, reason: 'Reservasi berakhir atau dibatalkan' };
+  }
+
+  return null;
+};
@@ -0,0 +1,154 @@
+// Send ESC/POS bytes straight to a thermal printer from the browser. Both
+// APIs are Chromium-only and need a user gesture for the first connection;
+// afterwards the paired device is reopened without a prompt.
+
+export type PrinterConnectionType = 'usb' | 'serial';
+
+export interface ThermalPrinter {
+  type: PrinterConnectionType;
+  name: string;
+  write: (data: Uint8Array) => Promise<void>;
+  close: () => Promise<void>;
+}
+
+const USB_PRINTER_CLASS = 0x07;
+// Most printers buffer little; large transfers can stall or drop bytes
+const CHUNK_SIZE = 512;
+const DEFAULT_BAUD_RATE = 9600;
+
+let activePrinter: ThermalPrinter | null = null;
+
+export const isPrinterConnectionSupported = (type: PrinterConnectionType): boolean =>
+  typeof navigator !== 'undefined' && (type === 'usb' ? 'usb' in navigator : 'serial' in navigator);
+
+const chunk = (data: Uint8Array): Uint8Array[] => {
+  const chunks: Uint8Array[] = [];
+  for (let offset = 0; offset < data.length; offset += CHUNK_SIZE) {
+    chunks.push(data.subarray(offset, offset + CHUNK_SIZE));
+  }
+  return chunks;
+};
+
+const openUsbPrinter = async (device: USBDevice): Promise<ThermalPrinter> => {
+  if (!device.opened) await device.open();
+  if (device.configuration === null) await device.selectConfiguration(1);
+
+  // The printer interface, or failing that any interface with a bulk OUT endpoint
+  const interfaces = device.configuration?.interfaces ?? [];
+  const match = [...interfaces]
+    .sort((a, b) => Number(b.alternate.interfaceClass === USB_PRINTER_CLASS) - Number(a.alternate.interfaceClass === USB_PRINTER_CLASS))
+    .map(usbInterface => ({
+      usbInterface,
+      endpoint: usbInterface.alternate.endpoints.find(endpoint => endpoint.direction === 'out' && endpoint.type === 'bulk'),
+    }))
+    .find(candidate => candidate.endpoint);
+
+  if (!match?.endpoint) {
+    await device.close();
+    throw new Error('Perangkat USB ini tidak terlihat seperti printer struk.');
+  }
+
+  await device.claimInterface(match.usbInterface.interfaceNumber);
+  const endpointNumber = match.endpoint.endpointNumber;
+
+  return {
+    type: 'usb',
+    name: device.productName || 'USB printer',
+    write: async (data) => {
+      for (const part of chunk(data)) {
+        await device.transferOut(endpointNumber, part);
+      }
+    },
+    close: async () => {
+      await device.releaseInterface(match.usbInterface.interfaceNumber);
+      await device.close();
+    },
+  };
+};
+
+const openSerialPrinter = async (port: SerialPort, baudRate: number): Promise<ThermalPrinter> => {
+  if (!port.writable) await port.open({ baudRate });
+  const info = port.getInfo();
+
+  return {
+    type: 'serial',
+    name: info.usbProductId ? `Serial printer ${info.usbVendorId}:${info.usbProductId}` : 'Serial printer',
+    write: async (data) => {
+      if (!port.writable) throw new Error('Koneksi printer terputus.');
+      const writer = port.writable.getWriter();
+      try {
+        for (const part of chunk(data)) {
+          await writer.write(part);
+        }
+      } finally {
+        writer.releaseLock();
+      }
+    },
+    close: () => port.close(),
+  };
+};
+
+/**
+ * Ask the user to pick a printer (needs a click), or reopen the one already
+ * paired with this site when `prompt` is false
+ */
+export const connectPrinter = async (
+  type: PrinterConnectionType,
+  options: { prompt?: boolean; baudRate?: number } = {}
+): Promise<ThermalPrinter | null> => {
+  const { prompt = true, baudRate = DEFAULT_BAUD_RATE } = options;
+  if (!isPrinterConnectionSupported(type)) {
+    throw new Error(
+      type === 'usb'
+        ? 'Browser ini tidak mendukung WebUSB. Gunakan Chrome atau Edge.'
+        : 'Browser ini tidak mendukung Web Serial. Gunakan Chrome atau Edge.'
+    );
+  }
+
+  if (activePrinter?.type === type) return activePrinter;
+  await disconnectPrinter();
+
+  if (type === 'usb') {
+    const [paired] = await navigator.usb.getDevices();
+    // No filter: many cheap printers report a vendor-specific class instead of 0x07
+    const device = paired ?? (prompt ? await navigator.usb.requestDevice({ filters: [] }) : null);
+    activePrinter = device ? await openUsbPrinter(device) : null;
+  } else {
+    const [paired] = await navigator.serial.getPorts();
+    const port = paired ?? (prompt ? await navigator.serial.requestPort() : null);
+    activePrinter = port ? await openSerialPrinter(port, baudRate) : null;
+  }
+
+  return activePrinter;
+};
+
+export const getConnectedPrinter = (): ThermalPrinter | null => activePrinter;
+
+export const disconnectPrinter = async (): Promise<void> => {
+  if (!activePrinter) return;
+  const printer = activePrinter;
+  activePrinter = null;
+  try {
+    await printer.close();
+  } catch (error) {
+    console.warn('Failed to close printer connection:', error);
+  }
+};
+
+/**
+ * Write to the connected printer, reconnecting once if the cable was pulled
+ */
+export const printBytes = async (data: Uint8Array, type: PrinterConnectionType): Promise<void> => {
+  const printer = await connectPrinter(type);
+  if (!printer) throw new Error('Printer belum dipilih.');
+
+  try {
+    await printer.write(data);
+  } catch (error) {
+    console.warn('Printer write failed, reconnecting:', error);
+    await disconnectPrinter();
+    const reconnected = await connectPrinter(type, { prompt: false });
+    if (!reconnected) throw error;
+    await reconnected.write(data);
+  }
+};
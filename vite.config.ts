@@ -1,9 +1,79 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { VitePWA } from 'vite-plugin-pwa'
+
+// Drop the ?v= cache-busting param on images so every request for the same
+// photo shares one cache entry
+const ignoreCacheBusterPlugin = {
+  cacheKeyWillBeUsed: async ({ request }: { request: Request }) => {
+    const url = new URL(request.url)
+    url.searchParams.delete('v')
+    return url.href
+  }
+}
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    VitePWA({
+      // The app asks before activating a new build, see UpdatePrompt
+      registerType: 'prompt',
+      includeAssets: ['images/logo/download.jpg', 'images/icons/apple-touch-icon-180x180.png'],
+      manifest: {
+        name: 'Kedai Matmoen',
+        short_name: 'Matmoen',
+        description: 'Pesan menu Kedai Matmoen langsung dari meja Anda',
+        start_url: '/',
+        scope: '/',
+        display: 'standalone',
+        background_color: '#ffffff',
+        theme_color: '#ff3d3d',
+        lang: 'id',
+        icons: [
+          { src: '/images/icons/pwa-192x192.png', sizes: '192x192', type: 'image/png' },
+          { src: '/images/icons/pwa-512x512.png', sizes: '512x512', type: 'image/png' },
+          { src: '/images/icons/maskable-512x512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' }
+        ]
+      },
+      workbox: {
+        // App shell: the built JS, CSS and HTML
+        globPatterns: ['**/*.{js,css,html,svg,woff2}'],
+        navigateFallback: '/index.html',
+        navigateFallbackDenylist: [/^\/api/],
+        runtimeCaching: [
+          {
+            // Customer menu list: served instantly from cache, refreshed in the
+            // background. Forced reloads (?_=) and signed-in staff, who must see
+            // their own edits, always go to the network.
+            urlPattern: ({ url, request }) =>
+              request.method === 'GET' &&
+              /\/api\/menu\/?$/.test(url.pathname) &&
+              !url.searchParams.has('_') &&
+              !request.headers.has('Authorization'),
+            handler: 'StaleWhileRevalidate',
+            options: {
+              cacheName: 'menu-api',
+              expiration: { maxEntries: 10, maxAgeSeconds: 24 * 60 * 60 },
+              cacheableResponse: { statuses: [200] }
+            }
+          },
+          {
+            // Menu photos, bounded so they cannot fill the phone's storage
+            urlPattern: ({ url, request }) =>
+              request.destination === 'image' && /\/(images\/menu|uploads)\//.test(url.pathname),
+            handler: 'CacheFirst',
+            options: {
+              cacheName: 'menu-images',
+              expiration: { maxEntries: 80, maxAgeSeconds: 7 * 24 * 60 * 60, purgeOnQuotaError: true },
+              cacheableResponse: { statuses: [0, 200] },
+              plugins: [ignoreCacheBusterPlugin]
+            }
+          }
+        ]
+      }
+    })
+  ],
   base: '/',
   build: {
     outDir: 'dist',